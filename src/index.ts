@@ -9,9 +9,19 @@ import ApplicationsRoutes from './routes/applications';
 import ProgramRoutes from './routes/programme';
 import SignatureRoutes from './routes/signature';
 import StudentNumberRoutes from './routes/studentNumbers';
+import ReviewRoutes from './routes/reviews';
+import RejectionReasonRoutes from './routes/rejectionReasons';
+import WaitlistRoutes from './routes/waitlists';
+import InterviewRoutes from './routes/interviews';
+import DuplicateRoutes from './routes/duplicates';
+import RefereeRoutes from './routes/referees';
+import FileRoutes from './routes/files';
+import { scheduleOfferExpiry } from './utils/offerExpiry';
+import { scheduleRefereeReminders } from './utils/referees';
 import { WebSocketServer } from 'ws';
 import http from 'http';
 import config from './config'; 
+import { applicationSchemas } from './schemas/applicationSchemas';
 
 
 
@@ -41,6 +51,13 @@ app.use(`${getEnvironmentPath(config.environment)}/api/v1/applications`, Applica
 app.use(`${getEnvironmentPath(config.environment)}/api/v1/programmes`, ProgramRoutes);
 app.use(`${getEnvironmentPath(config.environment)}/api/v1/signatures`, SignatureRoutes);
 app.use(`${getEnvironmentPath(config.environment)}/api/v1/student-numbers`, StudentNumberRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/reviews`, ReviewRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/rejection-reasons`, RejectionReasonRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/waitlists`, WaitlistRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/interviews`, InterviewRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/duplicates`, DuplicateRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/referees`, RefereeRoutes);
+app.use(`${getEnvironmentPath(config.environment)}/api/v1/files`, FileRoutes);
 
 
 
@@ -76,6 +93,10 @@ const swaggerOptions = {
         url: `http://localhost:${port}${environmentPath}`, 
       },
     ],
+    components: {
+      // Request schemas enforced by validateBody
+      schemas: applicationSchemas,
+    },
   },
   apis: ['./src/routes/*.ts'], 
 };
@@ -104,4 +125,6 @@ wss.on('connection', (ws, req) => {
 server.listen(port, () => {
   console.log(`Server is running in ${config.environment} mode on port ${port}`);
   console.log(`Swagger documentation available at http://localhost:${port}${environmentPath}/api-docs`);
+  scheduleOfferExpiry();
+  scheduleRefereeReminders();
 });
@@ -20,6 +20,414 @@ const createTables = async () => {
         createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
+    // Legacy rows used 'pending' (or nothing) for every application. Those still
+    // without documents were stopped mid-wizard and go back to draft so the
+    // applicant can finish; the rest were submitted.
+    await connection.query(`
+      UPDATE applications a
+      SET a.accepted_status = 'draft'
+      WHERE (a.accepted_status IS NULL OR a.accepted_status = 'pending')
+        AND NOT EXISTS (SELECT 1 FROM documents d WHERE d.application_id = a.id)
+    `);
+    await connection.query(`
+      UPDATE applications SET accepted_status = 'submitted' WHERE accepted_status IS NULL
+    `);
+    await connection.query(`
+      ALTER TABLE applications
+        MODIFY accepted_status VARCHAR(32) NOT NULL DEFAULT 'submitted'
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_status_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        from_status VARCHAR(32) NULL,
+        to_status VARCHAR(32) NOT NULL,
+        actor_id INT NULL,
+        actor_type ENUM('staff', 'applicant', 'system') NOT NULL DEFAULT 'system',
+        reason VARCHAR(500) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_status_history_application (application_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS programme_entry_requirements (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        programme_id INT NOT NULL,
+        min_o_level_passes INT NOT NULL DEFAULT 5,
+        required_o_level_subjects TEXT NULL,
+        min_a_level_passes INT NOT NULL DEFAULT 0,
+        min_a_level_points INT NOT NULL DEFAULT 0,
+        required_a_level_subjects TEXT NULL,
+        mature_entry_min_age INT NOT NULL DEFAULT 25,
+        notes VARCHAR(500) NULL,
+        updated_by INT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_entry_requirements_programme (programme_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS reviewer_pool (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        programme_code VARCHAR(50) NULL,
+        department_code VARCHAR(50) NULL,
+        is_active TINYINT(1) NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_reviewer_pool_user (user_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_reviewers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        reviewer_id INT NOT NULL,
+        assigned_by INT NULL,
+        assignment_method ENUM('manual', 'programme', 'department', 'round_robin') NOT NULL DEFAULT 'manual',
+        status ENUM('pending', 'completed') NOT NULL DEFAULT 'pending',
+        assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP NULL,
+        UNIQUE KEY uq_application_reviewer (application_id, reviewer_id),
+        INDEX idx_application_reviewers_reviewer (reviewer_id, status)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS review_rubric_criteria (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        programme_id INT NOT NULL,
+        criterion_key VARCHAR(50) NOT NULL,
+        label VARCHAR(100) NOT NULL,
+        description VARCHAR(255) NULL,
+        max_score INT NOT NULL DEFAULT 10,
+        weight DECIMAL(5,2) NOT NULL DEFAULT 1,
+        sort_order INT NOT NULL DEFAULT 0,
+        UNIQUE KEY uq_rubric_criterion (programme_id, criterion_key)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_reviews (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        reviewer_id INT NOT NULL,
+        scores TEXT NOT NULL,
+        total_score DECIMAL(5,2) NOT NULL,
+        recommendation ENUM('accept', 'conditional_accept', 'waitlist', 'reject') NOT NULL,
+        comments TEXT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_application_review (application_id, reviewer_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS rejection_reasons (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        code VARCHAR(50) NOT NULL,
+        label VARCHAR(150) NOT NULL,
+        applicant_text VARCHAR(1000) NOT NULL,
+        is_active TINYINT(1) NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_rejection_reason_code (code)
+      )
+    `);
+    await connection.query(`
+      INSERT IGNORE INTO rejection_reasons (code, label, applicant_text) VALUES
+        ('ENTRY_REQUIREMENTS', 'Entry requirements not met', 'Your qualifications do not meet the minimum entry requirements for this programme.'),
+        ('INCOMPLETE_APPLICATION', 'Incomplete application', 'Your application was incomplete and could not be assessed.'),
+        ('UNVERIFIED_DOCUMENTS', 'Documents could not be verified', 'We were unable to verify one or more of the documents you submitted.'),
+        ('PROGRAMME_FULL', 'Programme full', 'All available places on this programme for the selected intake have been filled.'),
+        ('INTERVIEW', 'Unsuccessful interview', 'You were not successful at the selection interview for this programme.'),
+        ('OTHER', 'Other', 'Your application was not successful in this selection round.')
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_rejections (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        reference_number VARCHAR(50) NOT NULL,
+        reason_code VARCHAR(50) NOT NULL,
+        note VARCHAR(1000) NULL,
+        rejected_by INT NULL,
+        file_name VARCHAR(255) NULL,
+        file_path VARCHAR(500) NULL,
+        verification_code VARCHAR(64) NULL,
+        email_sent TINYINT(1) NOT NULL DEFAULT 0,
+        latest TINYINT(1) NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_application_rejections_application (application_id),
+        INDEX idx_application_rejections_code (verification_code)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS waitlist_entries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL UNIQUE,
+        programme VARCHAR(255) NULL,
+        satellite_campus VARCHAR(255) NULL,
+        starting_semester VARCHAR(50) NULL,
+        rank_position INT NOT NULL DEFAULT 0,
+        status ENUM('waiting', 'pending_confirmation', 'promoted', 'removed') NOT NULL DEFAULT 'waiting',
+        trigger_reason VARCHAR(255) NULL,
+        added_by INT NULL,
+        added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        promoted_by INT NULL,
+        promoted_at TIMESTAMP NULL,
+        INDEX idx_waitlist_group (programme, satellite_campus, starting_semester, status, rank_position)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS programme_capacities (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        programme_id INT NOT NULL,
+        satellite_campus VARCHAR(255) NOT NULL,
+        starting_semester VARCHAR(50) NOT NULL,
+        total_seats INT NOT NULL,
+        local_seats INT NULL,
+        foreign_seats INT NULL,
+        updated_by INT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_programme_capacity (programme_id, satellite_campus, starting_semester)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS offer_conditions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        description VARCHAR(500) NOT NULL,
+        due_date DATE NULL,
+        status ENUM('unmet', 'met') NOT NULL DEFAULT 'unmet',
+        note VARCHAR(1000) NULL,
+        added_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        met_by INT NULL,
+        met_at DATETIME NULL,
+        INDEX idx_offer_conditions_application (application_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS unconditional_offers (
+        application_id INT PRIMARY KEY,
+        confirmed_by INT NULL,
+        confirmed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS interview_programmes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        programme_code VARCHAR(50) NOT NULL UNIQUE,
+        is_required TINYINT(1) NOT NULL DEFAULT 1,
+        updated_by INT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS interview_slots (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        programme_code VARCHAR(50) NOT NULL,
+        starts_at DATETIME NOT NULL,
+        duration_minutes INT NOT NULL DEFAULT 30,
+        capacity INT NOT NULL DEFAULT 1,
+        location VARCHAR(255) NULL,
+        meeting_url VARCHAR(500) NULL,
+        is_cancelled TINYINT(1) NOT NULL DEFAULT 0,
+        created_by INT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_interview_slots_programme (programme_code, starts_at)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS interview_panel_members (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        slot_id INT NOT NULL,
+        user_id INT NOT NULL,
+        UNIQUE KEY uq_interview_panel_member (slot_id, user_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_interviews (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL UNIQUE,
+        booking_code VARCHAR(64) NOT NULL,
+        status ENUM('invited', 'booked', 'completed', 'no_show', 'cancelled') NOT NULL DEFAULT 'invited',
+        invited_by INT NULL,
+        invited_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        slot_id INT NULL,
+        booked_at DATETIME NULL,
+        outcome ENUM('pass', 'fail', 'reserve') NULL,
+        score DECIMAL(5,2) NULL,
+        notes TEXT NULL,
+        recorded_by INT NULL,
+        recorded_at DATETIME NULL,
+        INDEX idx_application_interviews_slot (slot_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS applicant_otps (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        purpose VARCHAR(30) NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        attempts INT NOT NULL DEFAULT 0,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_applicant_otps_application (application_id, purpose)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS personal_detail_corrections (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        changes TEXT NOT NULL,
+        reason VARCHAR(1000) NULL,
+        status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+        requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        decided_by INT NULL,
+        decided_at DATETIME NULL,
+        decision_note VARCHAR(1000) NULL,
+        INDEX idx_personal_detail_corrections_application (application_id, status)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_merges (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        merged_application_id INT NOT NULL,
+        merged_reference_number VARCHAR(50) NOT NULL UNIQUE,
+        surviving_application_id INT NOT NULL,
+        surviving_reference_number VARCHAR(50) NOT NULL,
+        merged_by INT NULL,
+        reason VARCHAR(500) NULL,
+        merged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_application_merges_survivor (surviving_application_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_programme_choices (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        preference TINYINT NOT NULL,
+        programme VARCHAR(50) NOT NULL,
+        decision ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+        decision_note VARCHAR(1000) NULL,
+        decided_by INT NULL,
+        decided_at DATETIME NULL,
+        granted TINYINT(1) NOT NULL DEFAULT 0,
+        UNIQUE KEY uq_programme_choice_preference (application_id, preference),
+        INDEX idx_programme_choices_programme (programme, preference)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_referees (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        name VARCHAR(150) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        institution VARCHAR(200) NOT NULL,
+        relationship VARCHAR(150) NOT NULL,
+        upload_token CHAR(36) NULL,
+        token_expires_at DATETIME NULL,
+        status ENUM('pending', 'invited', 'submitted') NOT NULL DEFAULT 'pending',
+        invited_at DATETIME NULL,
+        reminder_count INT NOT NULL DEFAULT 0,
+        last_reminded_at DATETIME NULL,
+        submitted_at DATETIME NULL,
+        letter_file_name VARCHAR(255) NULL,
+        letter_file_path VARCHAR(500) NULL,
+        form_responses JSON NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_referee_token (upload_token),
+        INDEX idx_referees_application (application_id),
+        INDEX idx_referees_status (status, invited_at)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS document_verifications (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        document_id INT NOT NULL,
+        application_id INT NOT NULL,
+        status ENUM('pending', 'verified', 'rejected') NOT NULL DEFAULT 'pending',
+        reason VARCHAR(1000) NULL,
+        verified_by INT NULL,
+        verified_at DATETIME NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_document_verification (document_id),
+        INDEX idx_document_verifications_application (application_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS document_versions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        document_id INT NOT NULL,
+        application_id INT NOT NULL,
+        document_type VARCHAR(100) NOT NULL,
+        original_name VARCHAR(255) NULL,
+        uploaded_by INT NULL,
+        uploader_type ENUM('staff', 'applicant', 'system') NOT NULL DEFAULT 'applicant',
+        uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        replaced_at DATETIME NULL,
+        UNIQUE KEY uq_document_version_document (document_id),
+        INDEX idx_document_versions_type (application_id, document_type)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS upload_quarantine (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        original_name VARCHAR(255) NOT NULL,
+        quarantined_path VARCHAR(500) NOT NULL,
+        field_name VARCHAR(100) NULL,
+        reference_number VARCHAR(50) NULL,
+        scanner VARCHAR(50) NOT NULL,
+        signature VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS upload_migrations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        source_table VARCHAR(64) NOT NULL,
+        source_column VARCHAR(64) NOT NULL,
+        source_id INT NOT NULL,
+        old_path VARCHAR(500) NOT NULL,
+        new_key VARCHAR(255) NOT NULL,
+        sha256 CHAR(64) NOT NULL,
+        size_bytes INT NOT NULL,
+        migrated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_upload_migrations_source (source_table, source_id)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS document_access_log (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        document_id INT NOT NULL,
+        application_id INT NOT NULL,
+        accessor_type ENUM('staff', 'applicant') NOT NULL,
+        user_id INT NULL,
+        disposition ENUM('inline', 'attachment') NOT NULL,
+        ip_address VARCHAR(64) NULL,
+        user_agent VARCHAR(255) NULL,
+        accessed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_document_access_document (document_id),
+        INDEX idx_document_access_application (application_id, accessed_at)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_draft_uploads (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        reference_number VARCHAR(50) NOT NULL,
+        document_type VARCHAR(100) NOT NULL,
+        storage_key VARCHAR(255) NOT NULL,
+        original_name VARCHAR(255) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_draft_upload_key (storage_key),
+        INDEX idx_draft_uploads_reference (reference_number)
+      )
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS application_draft_state (
+        reference_number VARCHAR(50) NOT NULL PRIMARY KEY,
+        key_hash CHAR(64) NULL,
+        version INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
     console.log('Tables created successfully');
   } catch (error) {
     console.error('Error creating tables:', error);
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { validateBody, validateValue } from '../validateRequest';
+import { applicationSchemas } from '../../schemas/applicationSchemas';
+
+const PERSONAL_DETAILS = {
+  firstNames: 'Chipo',
+  surname: 'Moyo',
+  dateOfBirth: '2001-05-04',
+  gender: 'Female',
+  phone: '+263 77 123 4567',
+  email: 'chipo@example.com',
+};
+
+const fields = (value: unknown, schema = 'PersonalDetailsUpdateRequest') =>
+  validateValue(value, applicationSchemas[schema]).map((issue) => issue.field);
+
+describe('validateValue', () => {
+  it('accepts a valid body', () => {
+    expect(fields(PERSONAL_DETAILS)).toEqual([]);
+  });
+
+  it('treats blank strings as missing', () => {
+    expect(
+      validateValue(
+        { ...PERSONAL_DETAILS, surname: '  ', email: undefined },
+        applicationSchemas.PersonalDetailsUpdateRequest,
+      ),
+    ).toEqual([
+      { field: 'surname', message: 'is required' },
+      { field: 'email', message: 'is required' },
+    ]);
+  });
+
+  it('checks formats, patterns and enums', () => {
+    expect(
+      validateValue(
+        {
+          ...PERSONAL_DETAILS,
+          dateOfBirth: '2001-02-30',
+          gender: 'F',
+          email: 'chipo@',
+          nationalId: '12345',
+        },
+        applicationSchemas.PersonalDetailsUpdateRequest,
+      ),
+    ).toEqual([
+      {
+        field: 'nationalId',
+        message: 'has an invalid format (e.g. 63-123456A78)',
+      },
+      { field: 'dateOfBirth', message: 'must be a valid date (YYYY-MM-DD)' },
+      { field: 'gender', message: 'must be one of: Female, Male' },
+      { field: 'email', message: 'must be a valid email address' },
+    ]);
+  });
+
+  it('names nested fields by their path', () => {
+    expect(
+      fields(
+        {
+          qualifications: [
+            {
+              qualificationType: 'Ordinary Level',
+              subjects: [{ subjectName: 'English' }, { grade: 'A' }],
+            },
+          ],
+        },
+        'EducationDetailsRequest',
+      ),
+    ).toEqual([
+      'qualifications[0].subjects[0].grade',
+      'qualifications[0].subjects[1].subjectName',
+    ]);
+  });
+
+  it('accepts numbers sent as form strings but not fractions', () => {
+    const schema = applicationSchemas.EducationDetailsRequest;
+    const withYear = (yearCompleted: unknown) =>
+      validateValue(
+        {
+          qualifications: [{ qualificationType: 'Tertiary Education' }],
+          tertiaryEducation: {
+            institutionName: 'UZ',
+            qualificationObtained: 'Diploma',
+            yearCompleted,
+          },
+        },
+        schema,
+      );
+    expect(withYear('2019')).toEqual([]);
+    expect(withYear(2019.5)).toEqual([
+      {
+        field: 'tertiaryEducation.yearCompleted',
+        message: 'must be an integer',
+      },
+    ]);
+    expect(withYear('soon')[0].message).toBe('must be an integer');
+  });
+
+  it('enforces array sizes', () => {
+    expect(
+      validateValue(
+        { programmeChoices: ['A', 'B', 'C', 'D'] },
+        applicationSchemas.ProgrammeChoicesRequest,
+      ),
+    ).toEqual([
+      { field: 'programmeChoices', message: 'must contain at most 3 item(s)' },
+    ]);
+  });
+
+  it('only allows null where the schema says so', () => {
+    expect(
+      fields(
+        {
+          qualifications: [{ qualificationType: 'Ordinary Level' }],
+          tertiaryEducation: null,
+        },
+        'EducationDetailsRequest',
+      ),
+    ).toEqual([]);
+    expect(fields(null)).toEqual(['(body)']);
+  });
+});
+
+describe('validateBody', () => {
+  const run = (body: unknown) => {
+    const res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    const next = jest.fn();
+    validateBody(applicationSchemas.NextOfKinRequest)(
+      { body } as Request,
+      res as unknown as Response,
+      next,
+    );
+    return { res, next };
+  };
+
+  it('passes valid bodies on', () => {
+    const { res, next } = run({
+      firstName: 'Rudo',
+      lastName: 'Moyo',
+      relationship: 'Mother',
+      contactTel: '0772222222',
+    });
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('answers 422 with every offending field', () => {
+    const { res, next } = run(undefined);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(res.json).toHaveBeenCalledWith({
+      message: 'Validation failed',
+      errors: ['firstName', 'lastName', 'relationship', 'contactTel'].map(
+        (field) => ({ field, message: 'is required' }),
+      ),
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt, { JwtPayload, VerifyErrors } from 'jsonwebtoken';
 
+export const APPLICANT_ROLE = 'applicant';
+
+const APPLICANT_TOKEN_TTL = process.env.APPLICANT_TOKEN_TTL || '30m';
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string | number;
@@ -8,19 +12,52 @@ export interface AuthenticatedRequest extends Request {
     role?: string;
     firstName?: string;
     campus?: string;
+    referenceNumber?: string;
   };
 }
 
-export const authenticateToken = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+const getSecret = () => process.env.SECRET_KEY ?? 'default-secret-key';
+
+/**
+ * Short-lived token for the applicant portal. `customerId` is the application id,
+ * so the token only ever opens the one application it was issued for.
+ */
+export const signApplicantToken = (applicant: { applicationId: number; referenceNumber: string; firstName?: string | null }) =>
+  jwt.sign(
+    {
+      customerId: applicant.applicationId,
+      referenceNumber: applicant.referenceNumber,
+      firstName: applicant.firstName ?? undefined,
+    },
+    getSecret(),
+    { expiresIn: APPLICANT_TOKEN_TTL } as jwt.SignOptions,
+  );
+
+export const isApplicant = (user: AuthenticatedRequest['user']) => user?.role === APPLICANT_ROLE;
+
+// True for staff, or for an applicant token issued for this reference number
+export const canAccessApplication = (user: AuthenticatedRequest['user'], referenceNumber: string) =>
+  !!user && (!isApplicant(user) || user.referenceNumber === referenceNumber);
+
+const verifyToken = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  options: { allowApplicant: boolean; optional?: boolean },
+): void => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
   if (!token) {
+    if (options.optional) {
+      next();
+      return;
+    }
     res.sendStatus(401);
     return;
   }
 
-  jwt.verify(token, process.env.SECRET_KEY ?? 'default-secret-key', (err: VerifyErrors | null, user: JwtPayload | string | undefined): void => {
+  jwt.verify(token, getSecret(), (err: VerifyErrors | null, user: JwtPayload | string | undefined): void => {
     if (err) {
       res.sendStatus(403); 
       return; 
@@ -28,7 +65,17 @@ export const authenticateToken = (req: AuthenticatedRequest, res: Response, next
 
     if (user && typeof user === 'object') {
       if ('customerId' in user) {
-        req.user = { id: user.customerId, firstName: user.firstName };
+        req.user = {
+          id: user.customerId,
+          firstName: user.firstName,
+          role: APPLICANT_ROLE,
+          referenceNumber: user.referenceNumber,
+        };
+        // Applicant tokens never open staff routes, and only open their own application
+        if (!options.allowApplicant || !canAccessApplication(req.user, req.params.referenceNumber)) {
+          res.sendStatus(403);
+          return;
+        }
       } else if ('userId' in user) {
         req.user = { id: user.userId, username: user.username, role: user.role,campus: user.campus };
       } else {
@@ -40,4 +87,16 @@ export const authenticateToken = (req: AuthenticatedRequest, res: Response, next
       res.sendStatus(403);
     }
   });
-};
\ No newline at end of file
+};
+
+// Staff routes
+export const authenticateToken = (req: AuthenticatedRequest, res: Response, next: NextFunction): void =>
+  verifyToken(req, res, next, { allowApplicant: false });
+
+// Routes under /applications/:referenceNumber that staff and the applicant may both use
+export const authenticateApplicant = (req: AuthenticatedRequest, res: Response, next: NextFunction): void =>
+  verifyToken(req, res, next, { allowApplicant: true });
+
+// Like authenticateApplicant, but lets the request through without a token so the route can fall back to a verification code
+export const optionalApplicantAuth = (req: AuthenticatedRequest, res: Response, next: NextFunction): void =>
+  verifyToken(req, res, next, { allowApplicant: true, optional: true });
@@ -0,0 +1,33 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './authenticateToken';
+
+// Roles allowed to push an application through an acceptance check that failed
+export const ACCEPTANCE_OVERRIDE_ROLES = ['admin'];
+
+// Roles that see applications from every campus, not just the one on their account
+export const ALL_CAMPUSES_ROLES = ['admin'];
+
+export const hasRole = (
+  user: AuthenticatedRequest['user'],
+  roles: string[],
+): boolean => !!user?.role && roles.includes(String(user.role).toLowerCase());
+
+/**
+ * True when the caller asked to override acceptance checks (`override: true` in the body).
+ * Whether they may do so is checked separately with `hasRole`.
+ */
+export const wantsOverride = (req: AuthenticatedRequest) =>
+  req.body?.override === true || req.body?.override === 'true';
+
+// Use after authenticateToken
+export const requireRole =
+  (...roles: string[]) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!hasRole(req.user, roles)) {
+      res
+        .status(403)
+        .json({ message: 'You do not have permission to do this' });
+      return;
+    }
+    next();
+  };
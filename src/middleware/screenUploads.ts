@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import multer from 'multer';
+import {
+  MAX_UPLOAD_BYTES,
+  UploadRejectedError,
+  buildStoredFileName,
+  inspectUpload,
+} from '../utils/uploadInspection';
+import { getMalwareScanner, quarantineUpload } from '../utils/malwareScanner';
+
+export const UPLOAD_TEMP_DIR = path.join(os.tmpdir(), 'wua-uploads');
+
+// Multer writes to a temp folder; files reach storage only after screening
+export const tempUploadStorage = multer.diskStorage({
+  destination: UPLOAD_TEMP_DIR,
+  filename: (_req, file, cb) =>
+    cb(null, buildStoredFileName(file.originalname)),
+});
+
+const collectFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  return Object.values(req.files ?? {}).flat();
+};
+
+const removeFiles = (files: Express.Multer.File[]) =>
+  Promise.all(
+    files.map((file) => fs.promises.unlink(file.path).catch(() => undefined)),
+  );
+
+/**
+ * Wraps a multer handler so oversized or unexpected files get a JSON 4xx
+ * instead of falling through to the default error handler.
+ */
+export const handleUploadErrors =
+  (upload: RequestHandler) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+          message:
+            error.code === 'LIMIT_FILE_SIZE'
+              ? `Files may not be larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`
+              : `${error.message}${error.field ? `: ${error.field}` : ''}`,
+        });
+        return;
+      }
+      next(error);
+    });
+  };
+
+/**
+ * Use after multer. Checks every uploaded file against the rules for its
+ * document type (magic bytes, extension, size cap) and runs the configured
+ * malware scanner. Infected files are quarantined; if any file fails, every
+ * file from the request is discarded so nothing half-accepted is left behind.
+ * On success each file's `mimetype` is replaced with the detected type, and
+ * whatever the route has not moved into storage is deleted once the response
+ * is done.
+ */
+export const screenUploads =
+  (
+    resolveDocumentType: (
+      req: Request,
+      file: Express.Multer.File,
+    ) => string | null,
+  ) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const files = collectFiles(req);
+    const scanner = getMalwareScanner();
+
+    for (const [index, file] of files.entries()) {
+      try {
+        const documentType = resolveDocumentType(req, file);
+        if (!documentType) {
+          throw new UploadRejectedError(
+            `Unexpected file: ${file.fieldname}`,
+            400,
+          );
+        }
+        const { mimeType } = await inspectUpload(file, documentType);
+
+        let result;
+        try {
+          result = await scanner.scanFile(file.path);
+        } catch (error) {
+          console.error(`Error scanning upload ${file.originalname}:`, error);
+          throw new UploadRejectedError(
+            'Uploads could not be checked for viruses right now, please try again later',
+            503,
+          );
+        }
+        if (!result.clean) {
+          await quarantineUpload({
+            filePath: file.path,
+            originalName: file.originalname,
+            fieldName: file.fieldname,
+            referenceNumber: req.params.referenceNumber ?? null,
+            result,
+          });
+          files.splice(index, 1);
+          throw new UploadRejectedError(
+            `${file.originalname} was rejected by the virus scanner`,
+            422,
+          );
+        }
+
+        file.mimetype = mimeType;
+      } catch (error) {
+        await removeFiles(files);
+        if (error instanceof UploadRejectedError) {
+          res.status(error.statusCode).json({ message: error.message });
+          return;
+        }
+        console.error('Error screening uploads:', error);
+        res.status(500).json({ message: 'Internal Server Error' });
+        return;
+      }
+    }
+
+    res.on('close', () => {
+      void removeFiles(files);
+    });
+    next();
+  };
@@ -0,0 +1,196 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Subset of the OpenAPI 3.0 schema object. Schemas written with this type are
+ * enforced by `validateBody` and registered as swagger components as-is.
+ */
+export type RequestSchema = {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  example?: unknown;
+  nullable?: boolean;
+  enum?: (string | number)[];
+  format?: 'date' | 'date-time' | 'email';
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, RequestSchema>;
+  required?: string[];
+  items?: RequestSchema;
+  minItems?: number;
+  maxItems?: number;
+};
+
+export type ValidationIssue = { field: string; message: string };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isBlank = (value: unknown) =>
+  value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const isValidDate = (value: string) => {
+  const datePart = value.slice(0, 10);
+  if (!DATE_PATTERN.test(datePart)) return false;
+  const parsed = new Date(`${datePart}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === datePart
+  );
+};
+
+// Form posts often send numbers as strings ("2019"), so numeric strings are accepted.
+const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const joinPath = (parent: string, key: string | number) =>
+  typeof key === 'number'
+    ? `${parent}[${key}]`
+    : parent
+      ? `${parent}.${key}`
+      : key;
+
+export const validateValue = (
+  value: unknown,
+  schema: RequestSchema,
+  field = '',
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) =>
+    issues.push({ field: field || '(body)', message });
+
+  if (value === null) {
+    if (!schema.nullable) fail('must not be null');
+    return issues;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail('must be an object');
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (isBlank(record[key])) {
+          issues.push({ field: joinPath(field, key), message: 'is required' });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties ?? {},
+      )) {
+        if (isBlank(record[key])) continue;
+        issues.push(
+          ...validateValue(record[key], propertySchema, joinPath(field, key)),
+        );
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        fail('must be an array');
+        break;
+      }
+      if (schema.minItems != null && value.length < schema.minItems) {
+        fail(`must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems != null && value.length > schema.maxItems) {
+        fail(`must contain at most ${schema.maxItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          issues.push(
+            ...validateValue(item, schema.items!, joinPath(field, index)),
+          );
+        });
+      }
+      break;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        fail('must be a string');
+        break;
+      }
+      const text = value.trim();
+      if (schema.minLength != null && text.length < schema.minLength) {
+        fail(`must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength != null && text.length > schema.maxLength) {
+        fail(`must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        fail(`must be one of: ${schema.enum.join(', ')}`);
+      }
+      if (schema.format === 'email' && !EMAIL_PATTERN.test(text)) {
+        fail('must be a valid email address');
+      }
+      if (
+        (schema.format === 'date' || schema.format === 'date-time') &&
+        !isValidDate(text)
+      ) {
+        fail('must be a valid date (YYYY-MM-DD)');
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+        fail(
+          schema.example
+            ? `has an invalid format (e.g. ${schema.example})`
+            : 'has an invalid format',
+        );
+      }
+      break;
+    }
+    case 'integer':
+    case 'number': {
+      const num = toNumber(value);
+      if (!Number.isFinite(num)) {
+        fail(
+          schema.type === 'integer' ? 'must be an integer' : 'must be a number',
+        );
+        break;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(num)) {
+        fail('must be an integer');
+      }
+      if (schema.minimum != null && num < schema.minimum) {
+        fail(`must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum != null && num > schema.maximum) {
+        fail(`must be at most ${schema.maximum}`);
+      }
+      if (schema.enum && !schema.enum.includes(num)) {
+        fail(`must be one of: ${schema.enum.join(', ')}`);
+      }
+      break;
+    }
+    case 'boolean': {
+      if (
+        ![true, false, 0, 1, '0', '1', 'true', 'false'].includes(value as never)
+      ) {
+        fail('must be a boolean');
+      }
+      break;
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Rejects the request with 422 and a list of offending fields when the JSON body
+ * does not match `schema`.
+ */
+export const validateBody =
+  (schema: RequestSchema) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const errors = validateValue(req.body ?? {}, schema);
+    if (errors.length) {
+      res.status(422).json({ message: 'Validation failed', errors });
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,54 @@
+import pool from './db';
+import { migrateUploads } from './utils/uploadMigration';
+
+// npm run migrate-uploads             report only
+// npm run migrate-uploads -- --apply  copy files and rewrite paths
+const run = async () => {
+  const apply = process.argv.includes('--apply');
+  try {
+    const report = await migrateUploads({ apply });
+
+    console.log(
+      `${report.references} file references, ${report.alreadyCanonical} already migrated`,
+    );
+    if (report.skippedTables.length) {
+      console.log(`Tables not found: ${report.skippedTables.join(', ')}`);
+    }
+
+    console.log(
+      `${apply ? 'Migrated' : 'Would migrate'} ${report.migrated.length} files:`,
+    );
+    for (const entry of report.migrated) {
+      console.log(
+        `  ${entry.reference.table}#${entry.reference.id}  ${entry.from} -> ${entry.key}`,
+      );
+    }
+
+    console.log(`Missing ${report.missing.length} files:`);
+    for (const reference of report.missing) {
+      console.log(
+        `  ${reference.table}.${reference.column}#${reference.id}  ${reference.storedPath}`,
+      );
+    }
+
+    console.log(
+      `Orphaned ${report.orphaned.length} files (no row points at them):`,
+    );
+    for (const file of report.orphaned) console.log(`  ${file}`);
+
+    if (report.superseded.length) {
+      console.log(
+        `${report.superseded.length} originals were already copied by an earlier run and can be deleted`,
+      );
+    }
+    if (!apply) console.log('Dry run: re-run with --apply to migrate');
+    process.exitCode = report.missing.length ? 1 : 0;
+  } catch (error) {
+    console.error('Error migrating uploads:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+};
+
+run();
@@ -5,18 +5,126 @@ import { User } from '../models/user';
 import jwt from 'jsonwebtoken';
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
-import { authenticateToken } from '../middleware/authenticateToken';
+import {
+    authenticateApplicant,
+    authenticateToken,
+    AuthenticatedRequest,
+    canAccessApplication,
+    isApplicant,
+    optionalApplicantAuth,
+    signApplicantToken,
+} from '../middleware/authenticateToken';
 import { RowDataPacket, OkPacket } from 'mysql2';
 import config from '../config';
-import fs from 'fs';
 import multer from 'multer';
-import path from 'path';
 import { Request, Response } from 'express';
+import {
+    APPLICATION_STATUSES,
+    AWAITING_DECISION_STATUSES,
+    ApplicationStatus,
+    MANUAL_STATUSES,
+    OFFER_STATUSES,
+    StatusTransitionError,
+    allowedTransitions,
+    getStatusHistory,
+    isApplicationStatus,
+    normalizeStatus,
+    transitionApplicationStatus,
+} from '../utils/applicationStatus';
+import { getRequiredDocumentFields, toDocumentType } from '../utils/applicationDocuments';
+import {
+    DraftSubmissionError,
+    createDraftKey,
+    parseDraftJson,
+    saveDraftVersion,
+    submitDraft,
+    verifyDraftKey,
+} from '../utils/applicationDrafts';
+import { validateBody } from '../middleware/validateRequest';
+import { evaluateCompleteness } from '../utils/applicationCompleteness';
+import { evaluateEligibilityForApplications } from '../utils/eligibility';
+import {
+    ASSIGNMENT_METHODS,
+    AssignmentMethod,
+    REVIEW_RECOMMENDATIONS,
+    REVIEWERS_PER_APPLICATION,
+    ReviewError,
+    getReviewSummary,
+    getRubric,
+    isReviewRecommendation,
+    pickReviewers,
+    scoreReview,
+} from '../utils/reviews';
+import { getActiveRejectionReason, issueRegretLetter, normalizeReasonCode } from '../utils/rejections';
+import { addToWaitlist, releaseSeat } from '../utils/waitlist';
+import {
+    addOfferConditions,
+    getOfferConditions,
+    parseOfferConditions,
+    setOfferConditionStatus,
+    summarizeOfferConditions,
+} from '../utils/offerConditions';
+import { getApplicationInterview } from '../utils/interviews';
+import { SEAT_HOLDING_STATUSES } from '../utils/capacity';
+import { buildApplicationTimeline } from '../utils/applicationTimeline';
+import { resolveMergedReference, resolveReferenceNumber } from '../utils/duplicates';
+import {
+    ensureProgrammeChoices,
+    getProgrammeChoices,
+    isChoiceDecision,
+    CHOICE_DECISIONS,
+    parseProgrammeChoices,
+    saveProgrammeChoices,
+    setChoiceDecision,
+} from '../utils/programmeChoices';
+import {
+    OTP_PURPOSES,
+    OtpThrottleError,
+    isOtpPurpose,
+    issueApplicantOtp,
+    verifyApplicantIdentity,
+    verifyApplicantOtp,
+} from '../utils/applicantOtp';
+import {
+    CorrectionStatus,
+    applyPersonalDetailsChanges,
+    buildCorrectionDiff,
+    notifyCorrectionDecision,
+    parseCorrectionChanges,
+    pickChangedFields,
+} from '../utils/corrections';
+import {
+    RefereeError,
+    getReferees,
+    inviteReferees,
+    requiresReferees,
+    saveReferees,
+} from '../utils/referees';
+import {
+    VERIFICATION_STATUSES,
+    getApplicationDocuments,
+    getUnverifiedRequiredDocuments,
+    isVerificationStatus,
+    notifyDocumentRejected,
+    setDocumentVerification,
+} from '../utils/documentVerification';
+import { groupDocumentVersions, parseDocumentType, recordDocumentUpload } from '../utils/documentVersions';
+import { MAX_UPLOAD_BYTES } from '../utils/uploadInspection';
+import { handleUploadErrors, screenUploads, tempUploadStorage } from '../middleware/screenUploads';
+import { STORAGE_AREAS, contentDisposition, getStorage, moveUploadToStorage, sendStoredFile, toStorageKey } from '../utils/fileStorage';
+import { INLINE_PREVIEW_TYPES, canViewApplicationDocuments, logDocumentAccess, withSignedDownloadUrls } from '../utils/documentAccess';
+import { buildApplicationDossier } from '../utils/applicationDossier';
+import { EXPORT_FORMATS, ExportError, isExportFormat, parseExportColumns, streamApplicationExport } from '../utils/applicationExport';
+import { applicationSchemas } from '../schemas/applicationSchemas';
 
 
 dotenv.config();
 
 const router = Router();
+
+// References of merged duplicates resolve to the surviving application
+router.param('referenceNumber', resolveMergedReference);
+
 /**
  * @swagger
  * /api/v1/applications:
@@ -28,41 +136,25 @@ const router = Router();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               startingSemester:
- *                 type: string
- *               programme:
- *                 type: string
- *               satelliteCampus:
- *                 type: string
- *               preferredSession:
- *                 type: string
- *               wuaDiscoveryMethod:
- *                 type: string
- *               previousRegistration:
- *                 type: string
- *               yearOfCommencement:
- *                 type: string
- *                 example: "2025"
- *               programType:
- *                 type: string
- *                 description: Type of program (e.g., Undergraduate, Postgraduate, PhD)
+ *             $ref: '#/components/schemas/ApplicationCreateRequest'
  *     responses:
  *       201:
  *         description: Application created successfully
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
 
 const uuid = require('uuid');
 
-router.post('/', async (req, res) => {
+router.post('/', validateBody(applicationSchemas.ApplicationCreateRequest), async (req, res) => {
     console.log('Received POST request to create application');
 
     const {
         startingSemester,
         programme,
+        programmeChoices,
         satelliteCampus,
         preferredSession,
         wuaDiscoveryMethod,
@@ -73,6 +165,13 @@ router.post('/', async (req, res) => {
 
     console.log('Request body:', req.body);
 
+    // A single programme is the applicant's only choice
+    const choices = parseProgrammeChoices(programmeChoices ?? (programme ? [programme] : []));
+    if (typeof choices === 'string') {
+        res.status(422).json({ message: choices });
+        return;
+    }
+
     try {
         let referenceNumber;
         let attempts = 0;
@@ -95,11 +194,18 @@ router.post('/', async (req, res) => {
         } while (!referenceNumber);
 
         console.log('Inserting application into database...');
-        const [result] = await pool.query(
+        const [result] = await pool.query<OkPacket>(
             `INSERT INTO applications 
-            (reference_number, starting_semester, programme, satellite_campus, preferred_session, wua_discovery_method, previous_registration, program_type)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [referenceNumber, startingSemester, programme, satelliteCampus, preferredSession, wuaDiscoveryMethod, previousRegistration, programType]
+            (reference_number, starting_semester, programme, satellite_campus, preferred_session, wua_discovery_method, previous_registration, program_type, accepted_status)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'draft')`,
+            [referenceNumber, startingSemester, choices[0], satelliteCampus, preferredSession, wuaDiscoveryMethod, previousRegistration, programType]
+        );
+        await saveProgrammeChoices(pool, result.insertId, choices);
+
+        await pool.query(
+            `INSERT INTO application_status_history (application_id, from_status, to_status, actor_type, reason)
+             VALUES (?, NULL, 'draft', 'applicant', 'Application started')`,
+            [result.insertId]
         );
 
         console.log('Application inserted successfully:', result);
@@ -138,9 +244,10 @@ router.post('/', async (req, res) => {
  *         description: Internal Server Error
  */
 router.post('/resume', async (req, res) => {
-    const { referenceNumber, surname, yearOfBirth } = req.body;
+    const { surname, yearOfBirth } = req.body;
 
     try {
+        const referenceNumber = await resolveReferenceNumber(pool, String(req.body.referenceNumber ?? ''));
         const [result] = await pool.query(
             'SELECT * FROM applications WHERE reference_number = ?',
             [referenceNumber]
@@ -233,55 +340,19 @@ router.post('/resume', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *               firstNames:
- *                 type: string
- *               surname:
- *                 type: string
- *               maritalStatus:
- *                 type: string
- *               maidenName:
- *                 type: string
- *               nationalId:
- *                 type: string
- *               passportNumber:
- *                 type: string
- *               dateOfBirth:
- *                 type: string
- *                 format: date
- *               placeOfBirth:
- *                 type: string
- *               gender:
- *                 type: string
- *               citizenship:
- *                 type: string
- *               nationality:
- *                 type: string
- *               residentialAddress:
- *                 type: string
- *               postalAddress:
- *                 type: string
- *               city:
- *                 type: string
- *               country:
- *                 type: string
- *               phone:
- *                 type: string
- *               email:
- *                 type: string
+ *             $ref: '#/components/schemas/PersonalDetailsRequest'
  *     responses:
  *       201:
  *         description: Personal details saved successfully
  *       404:
  *         description: Application not found
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
 
-router.post('/:referenceNumber/personal-details', async (req, res) => {
+router.post('/:referenceNumber/personal-details', validateBody(applicationSchemas.PersonalDetailsRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const {
         title,
@@ -410,54 +481,20 @@ router.get('/programmes', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *               firstNames:
- *                 type: string
- *               surname:
- *                 type: string
- *               maritalStatus:
- *                 type: string
- *               maidenName:
- *                 type: string
- *               nationalId:
- *                 type: string
- *               passportNumber:
- *                 type: string
- *               dateOfBirth:
- *                 type: string
- *                 format: date
- *               placeOfBirth:
- *                 type: string
- *               gender:
- *                 type: string
- *               citizenship:
- *                 type: string
- *               nationality:
- *                 type: string
- *               residentialAddress:
- *                 type: string
- *               postalAddress:
- *                 type: string
- *               city:
- *                 type: string
- *               country:
- *                 type: string
- *               phone:
- *                 type: string
- *               email:
- *                 type: string
+ *             $ref: '#/components/schemas/PersonalDetailsUpdateRequest'
  *     responses:
  *       200:
  *         description: Personal details updated successfully
  *       404:
  *         description: Application or personal details not found
+ *       409:
+ *         description: Application already submitted; request a correction instead
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
-router.put('/:referenceNumber/personal-details', async (req, res) => {
+router.put('/:referenceNumber/personal-details', validateBody(applicationSchemas.PersonalDetailsUpdateRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const {
       title,
@@ -481,13 +518,20 @@ router.put('/:referenceNumber/personal-details', async (req, res) => {
     } = req.body;
   
     try {
-      const [appResult] = await pool.query('SELECT id FROM applications WHERE reference_number = ?', [referenceNumber]);
+      const [appResult] = await pool.query('SELECT id, accepted_status FROM applications WHERE reference_number = ?', [referenceNumber]);
       const rows = appResult as RowDataPacket[];
   
       if (rows.length === 0) {
         return res.status(404).json({ message: 'Application not found' });
       }
   
+      // After submission, changes go through a correction request that staff approve
+      if (normalizeStatus(rows[0].accepted_status) !== 'draft') {
+        return res.status(409).json({
+          message: 'This application has been submitted; use POST /correction-requests to ask for a change',
+        });
+      }
+
       const applicationId = rows[0].id;
   
       const [existingDetails] = await pool.query('SELECT id FROM personal_details WHERE application_id = ?', [applicationId]);
@@ -547,27 +591,18 @@ router.put('/:referenceNumber/personal-details', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               firstName:
- *                 type: string
- *               lastName:
- *                 type: string
- *               relationship:
- *                 type: string
- *               contactAddress:
- *                 type: string
- *               contactTel:
- *                 type: string
+ *             $ref: '#/components/schemas/NextOfKinRequest'
  *     responses:
  *       201:
  *         description: Next of kin details saved successfully
  *       404:
  *         description: Application not found
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
-router.post('/:referenceNumber/next-of-kin', async (req, res) => {
+router.post('/:referenceNumber/next-of-kin', validateBody(applicationSchemas.NextOfKinRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const { firstName, lastName, relationship, contactAddress, contactTel } = req.body;
 
@@ -616,23 +651,7 @@ router.post('/:referenceNumber/next-of-kin', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               hasDisability:
- *                 type: string
- *                 enum: ["Yes", "No"]
- *               blindness:
- *                 type: boolean
- *               cerebralPalsy:
- *                 type: boolean
- *               deafness:
- *                 type: boolean
- *               speechImpairment:
- *                 type: boolean
- *               other:
- *                 type: string
- *               extraAdaptations:
- *                 type: string
+ *             $ref: '#/components/schemas/DisabilitiesRequest'
  *     responses:
  *       201:
  *         description: Disability information submitted successfully
@@ -640,11 +659,13 @@ router.post('/:referenceNumber/next-of-kin', async (req, res) => {
  *         description: Application not found
  *       400:
  *         description: Invalid request data
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
 
-router.post('/:referenceNumber/disabilities', async (req, res) => {
+router.post('/:referenceNumber/disabilities', validateBody(applicationSchemas.DisabilitiesRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const { hasDisability, blindness, cerebralPalsy, deafness, speechImpairment, other, extraAdaptations } = req.body;
 
@@ -693,50 +714,19 @@ router.post('/:referenceNumber/disabilities', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               qualifications:
- *                 type: array
- *                 items:
- *                   type: object
- *                   properties:
- *                     qualificationType:
- *                       type: string
- *                       enum: [Ordinary Level, Other Secondary School Qualification, Advanced Level, Tertiary Education]
- *                     examinationBoard:
- *                       type: string
- *                     subjects:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           subjectName:
- *                             type: string
- *                           grade:
- *                             type: string
- *                           yearWritten:
- *                             type: integer
- *               tertiaryEducation:
- *                 type: object
- *                 properties:
- *                   institutionName:
- *                     type: string
- *                   qualificationObtained:
- *                     type: string
- *                   fieldOfStudy:
- *                     type: string
- *                   yearCompleted:
- *                     type: integer
+ *             $ref: '#/components/schemas/EducationDetailsRequest'
  *     responses:
  *       201:
  *         description: Education details saved successfully
  *       404:
  *         description: Application not found
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
 
-router.post('/:referenceNumber/education-details', async (req, res) => {
+router.post('/:referenceNumber/education-details', validateBody(applicationSchemas.EducationDetailsRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const { qualifications, tertiaryEducation } = req.body;
 
@@ -815,35 +805,18 @@ router.post('/:referenceNumber/education-details', async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               workExperience:
- *                 type: array
- *                 items:
- *                   type: object
- *                   properties:
- *                     organisationName:
- *                       type: string
- *                     position:
- *                       type: string
- *                     startDate:
- *                       type: string
- *                       format: date
- *                     endDate:
- *                       type: string
- *                       format: date
- *                       nullable: true
- *                     duties:
- *                       type: string
+ *             $ref: '#/components/schemas/WorkExperienceRequest'
  *     responses:
  *       201:
  *         description: Work experience saved successfully
  *       404:
  *         description: Application not found
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
  *       500:
  *         description: Internal Server Error
  */
-router.post('/:referenceNumber/work-experience', async (req, res) => {
+router.post('/:referenceNumber/work-experience', validateBody(applicationSchemas.WorkExperienceRequest), async (req, res) => {
     const { referenceNumber } = req.params;
     const { workExperience } = req.body;
 
@@ -894,6 +867,9 @@ router.post('/:referenceNumber/work-experience', async (req, res) => {
  * /api/v1/applications/{referenceNumber}/documents:
  *   post:
  *     summary: Upload required documents for an application
+ *     description: >
+ *       The last step of the application wizard; submits the application. Only accepted while
+ *       the application is a draft.
  *     tags: [Documents]
  *     parameters:
  *       - in: path
@@ -934,43 +910,63 @@ router.post('/:referenceNumber/work-experience', async (req, res) => {
  *         description: Missing required documents
  *       404:
  *         description: Application not found
+ *       409:
+ *         description: Application already submitted; use the single-document PUT instead
  *       500:
  *         description: Internal Server Error
  */
 
 
-const uploadDir = path.join(__dirname, '..', 'uploads', 'documents');
-if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-}
+// Per-document type, size and virus checks happen in screenUploads; files are then moved into storage
+const upload = multer({ storage: tempUploadStorage, limits: { fileSize: MAX_UPLOAD_BYTES } });
 
-// Configure Multer Storage
-const storage = multer.diskStorage({
-    destination: (req, file, cb) => {
-        cb(null, uploadDir);
-    },
-    filename: (req, file, cb) => {
-        cb(null, `${Date.now()}-${file.originalname}`);
-    }
-});
+const sendApplicationReceivedEmail = async (referenceNumber: string) => {
+    const [userRows] = await pool.query<RowDataPacket[]>(
+        'SELECT CONCAT(first_names, " ", surname) AS full_name, email FROM personal_details pd JOIN applications a ON pd.application_id = a.id WHERE a.reference_number = ?',
+        [referenceNumber]
+    );
+    if (userRows.length === 0) return;
+
+    const { full_name, email } = userRows[0];
+
+    const transporter = nodemailer.createTransport({
+        host: 'smtp-mail.outlook.com',
+        port: 587,
+        secure: false,
+        auth: {
+            user: config.email.user,
+            pass: config.email.pass
+        },
+        tls: {
+            rejectUnauthorized: false
+        }
+    });
+
+    const mailOptions = {
+        from: config.email.user,
+        to: email,
+        subject: 'Your Application Has Been Received',
+        text: `Dear ${full_name},\n\nWe have received your application.\n\nThis is your reference number: ${referenceNumber}.\n\nYou can check your application status by visiting:\nhttps://apply.wua.ac.zw/apply-online/application-status\n\nAlso, check your email for our response.\n\nRegards,\nWomen's University in Africa`
+    };
 
-const upload = multer({ storage });
+    await transporter.sendMail(mailOptions);
+};
 
-router.post('/:referenceNumber/documents', upload.fields([
+router.post('/:referenceNumber/documents', handleUploadErrors(upload.fields([
     { name: 'academicCertificate', maxCount: 1 },
     { name: 'professionalCertificate', maxCount: 1 },
     { name: 'proposal', maxCount: 1 },
     { name: 'applicationFee', maxCount: 1 },
     { name: 'birthCertificate', maxCount: 1 },
     { name: 'identityCard', maxCount: 1 }
-]), async (req, res) => {
+])), screenUploads((_req, file) => toDocumentType(file.fieldname)), async (req, res) => {
     const { referenceNumber } = req.params;
     const files = req.files as { [fieldname: string]: Express.Multer.File[] };
 
     try {
         // 1. Check if the application exists
         const [appResult] = await pool.query(
-            'SELECT id, program_type FROM applications WHERE reference_number = ?',
+            'SELECT id, program_type, accepted_status FROM applications WHERE reference_number = ?',
             [referenceNumber]
         );
         const rows = appResult as RowDataPacket[];
@@ -979,16 +975,17 @@ router.post('/:referenceNumber/documents', upload.fields([
         }
         const applicationId = rows[0].id;
         const programType = rows[0].program_type;
+        const currentStatus = normalizeStatus(rows[0].accepted_status);
+
+        // Once submitted, documents change one at a time through PUT, which checks the token and verification state
+        if (currentStatus !== 'draft') {
+            return res.status(409).json({
+                message: 'Documents have already been submitted; replace a document with PUT /applications/{referenceNumber}/documents/{documentType}',
+            });
+        }
 
         // 2. Check if all required documents are present
-        const requiredDocs = [
-            'academicCertificate',
-            'professionalCertificate',
-            'applicationFee',
-            'birthCertificate',
-            'identityCard'
-        ];
-        if (programType === 'PhD') requiredDocs.push('proposal');
+        const requiredDocs = getRequiredDocumentFields(programType);
 
         for (const doc of requiredDocs) {
             if (!files[doc]) {
@@ -996,51 +993,27 @@ router.post('/:referenceNumber/documents', upload.fields([
             }
         }
 
-        // 3. Insert documents into the database
+        // 3. Record each file as a new version of its document
         for (const doc of requiredDocs) {
-            await pool.query(
-                'INSERT INTO documents (application_id, document_type, file_path) VALUES (?, ?, ?)',
-                [
-                    applicationId,
-                    doc.replace(/([A-Z])/g, '_$1').toLowerCase(),
-                    files[doc][0].path
-                ]
-            );
-        }
-
-        // 4. Fetch full name and email from personal_details
-        const [userResult] = await pool.query<RowDataPacket[]>(
-            'SELECT CONCAT(first_names, " ", surname) AS full_name, email FROM personal_details pd JOIN applications a ON pd.application_id = a.id WHERE a.reference_number = ?',
-            [referenceNumber]
-        );
-        
-        const userRows = userResult as RowDataPacket[];
-        if (userRows.length > 0) {
-            const { full_name, email } = userRows[0];
-
-            // 5. Send Email
-            const transporter = nodemailer.createTransport({
-                host: 'smtp-mail.outlook.com',
-                port: 587,
-                secure: false,
-                auth: {
-                    user: config.email.user,
-                    pass: config.email.pass
-                },
-                tls: {
-                    rejectUnauthorized: false
-                }
+            await recordDocumentUpload(pool, {
+                applicationId,
+                documentType: toDocumentType(doc),
+                filePath: await moveUploadToStorage(files[doc][0], STORAGE_AREAS.documents),
+                originalName: files[doc][0].originalname,
+                uploaderType: 'applicant',
             });
+        }
 
-            const mailOptions = {
-                from: config.email.user,
-                to: email,
-                subject: 'Your Application Has Been Received',
-                text: `Dear ${full_name},\n\nWe have received your application.\n\nThis is your reference number: ${referenceNumber}.\n\nYou can check your application status by visiting:\nhttps://apply.wua.ac.zw/apply-online/application-status\n\nAlso, check your email for our response.\n\nRegards,\nWomen's University in Africa`
-            };
+        // Uploading documents is the last wizard step, so it submits the application
+        await transitionApplicationStatus(pool, {
+            applicationId,
+            toStatus: 'submitted',
+            actorType: 'applicant',
+            reason: 'Required documents uploaded',
+        });
 
-            await transporter.sendMail(mailOptions);
-        }
+        // 4. Let the applicant know the application was received
+        await sendApplicationReceivedEmail(referenceNumber);
 
         return res.status(201).json({ message: 'Documents uploaded and email sent successfully' });
 
@@ -1050,128 +1023,553 @@ router.post('/:referenceNumber/documents', upload.fields([
     }
 });
 
-
 /**
  * @swagger
- * /api/v1/applications/dashboard:
+ * /api/v1/applications/{referenceNumber}/documents:
  *   get:
- *     summary: Get dashboard statistics and graphs
- *     description: >
- *       Returns application summary statistics, trends over the past 6 months, top 5 program distribution, and a program distribution graph.
- *       The `filter` query affects only the summary section and can be set to 'day', 'week', or 'month'.
+ *     summary: List uploaded documents with their verification status
+ *     description: Required document types whose latest upload is not yet verified are listed under outstanding.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: filter
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
  *         schema:
  *           type: string
- *           enum: [day, week, month]
- *         required: false
- *         description: Filter by time range (affects summary section)
  *     responses:
  *       200:
- *         description: Dashboard data
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 summary:
- *                   type: object
- *                   properties:
- *                     totalApplications:
- *                       type: object
- *                       properties:
- *                         count:
- *                           type: integer
- *                         change:
- *                           type: string
- *                     accepted:
- *                       type: object
- *                       properties:
- *                         count:
- *                           type: integer
- *                         change:
- *                           type: string
- *                     pending:
- *                       type: object
- *                       properties:
- *                         count:
- *                           type: integer
- *                         change:
- *                           type: string
- *                     rejected:
- *                       type: object
- *                       properties:
- *                         count:
- *                           type: integer
- *                         change:
- *                           type: string
- *                 trends:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       month:
- *                         type: string
- *                         example: "2024-12"
- *                       total:
- *                         type: integer
- *                       accepted:
- *                         type: integer
- *                       rejected:
- *                         type: integer
- *                 programDistribution:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       programme:
- *                         type: string
- *                       total:
- *                         type: integer
- *                 programDistributionGraph:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       month:
- *                         type: string
- *                         example: "2024-12"
- *                       programme:
- *                         type: string
- *                       count:
- *                         type: integer
+ *         description: Documents, newest upload of each type first, each with a short-lived downloadUrl
+ *       403:
+ *         description: Application belongs to another campus
+ *       404:
+ *         description: Application not found
  *       500:
  *         description: Internal Server Error
  */
+router.get('/:referenceNumber/documents', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
 
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, program_type, satellite_campus FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        if (!canViewApplicationDocuments(req.user, { referenceNumber, satelliteCampus: rows[0].satellite_campus })) {
+            return res.status(403).json({ message: 'You do not have access to documents for this campus' });
+        }
 
-router.get('/dashboard', async (req: Request, res: Response) => {
-    const filter = typeof req.query.filter === 'string' ? req.query.filter : 'month';
-  
-    const getDateRange = (filter: string) => {
-        const now = new Date();
-        const current = new Date();
-        const previous = new Date();
-      
-        let endOfCurrent: Date;
-      
-        if (filter === 'day') {
-          current.setHours(0, 0, 0, 0);
-          endOfCurrent = new Date(current);
-          endOfCurrent.setHours(23, 59, 59, 999);
-          previous.setDate(current.getDate() - 1);
-          previous.setHours(0, 0, 0, 0);
-        } else if (filter === 'week') {
-          const day = current.getDay();
-          current.setDate(current.getDate() - day);
-          current.setHours(0, 0, 0, 0);
-          endOfCurrent = new Date(current);
-          endOfCurrent.setDate(endOfCurrent.getDate() + 6); 
-          endOfCurrent.setHours(23, 59, 59, 999);
-          previous.setDate(current.getDate() - 7);
-          previous.setHours(0, 0, 0, 0);
-        } else {
+        const [documents, outstanding] = await Promise.all([
+            getApplicationDocuments(pool, rows[0].id),
+            getUnverifiedRequiredDocuments(pool, rows[0].id, rows[0].program_type),
+        ]);
+        return res.status(200).json({
+            referenceNumber,
+            allRequiredVerified: outstanding.length === 0,
+            outstanding,
+            documents: withSignedDownloadUrls(documents),
+        });
+    } catch (error) {
+        console.error('Error fetching documents:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/documents/{documentId}:
+ *   get:
+ *     summary: Download or preview one uploaded document
+ *     description: >
+ *       Open to the applicant (applicant token for this reference number) and to staff whose
+ *       campus matches the application's satellite campus; admins see every campus. Every
+ *       download is logged. With `disposition=inline`, PDFs and images are shown in the
+ *       browser; other types are always sent as attachments.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: disposition
+ *         schema:
+ *           type: string
+ *           enum: [attachment, inline]
+ *           default: attachment
+ *     responses:
+ *       200:
+ *         description: The document
+ *       401:
+ *         description: No token
+ *       403:
+ *         description: Token does not cover this application or campus
+ *       404:
+ *         description: Document or file not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/documents/:documentId', authenticateApplicant, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT d.id, d.application_id, d.document_type, d.file_path, dv.original_name, a.satellite_campus
+             FROM documents d
+             JOIN applications a ON a.id = d.application_id
+             LEFT JOIN document_versions dv ON dv.document_id = d.id
+             WHERE a.reference_number = ? AND d.id = ?`,
+            [referenceNumber, Number(req.params.documentId)]
+        );
+        const document = rows[0];
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        if (!canViewApplicationDocuments(req.user, { referenceNumber, satelliteCampus: document.satellite_campus })) {
+            return res.status(403).json({ message: 'You do not have access to documents for this campus' });
+        }
+
+        const key = toStorageKey(document.file_path);
+        const stored = key ? await getStorage().stat(key) : null;
+        if (!key || !stored) {
+            return res.status(404).json({ message: 'Document file not found on server' });
+        }
+        const inline = req.query.disposition === 'inline' && INLINE_PREVIEW_TYPES.includes(String(stored.contentType));
+
+        res.setHeader('Cache-Control', 'private, no-store');
+        const sent = await sendStoredFile(res, key, { fileName: document.original_name, inline });
+        if (!sent) {
+            return res.status(404).json({ message: 'Document file not found on server' });
+        }
+        await logDocumentAccess({
+            documentId: document.id,
+            applicationId: document.application_id,
+            user: req.user,
+            disposition: inline ? 'inline' : 'attachment',
+            req,
+        });
+        return undefined;
+    } catch (error) {
+        console.error('Error downloading document:', error);
+        if (res.headersSent) return undefined;
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/documents/{documentId}/verification:
+ *   patch:
+ *     summary: Verify or reject an uploaded document
+ *     description: >
+ *       Rejecting a document requires a reason and emails the applicant asking for a new copy.
+ *       Applications cannot be accepted until the latest upload of every required document is verified.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, verified, rejected]
+ *               reason:
+ *                 type: string
+ *                 description: Required when rejecting; shown to the applicant
+ *     responses:
+ *       200:
+ *         description: Verification recorded
+ *       400:
+ *         description: Invalid status or missing reason
+ *       404:
+ *         description: Application or document not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.patch('/:referenceNumber/documents/:documentId/verification', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const status = String(req.body?.status || '').trim().toLowerCase();
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!isVerificationStatus(status)) {
+        return res.status(400).json({ message: `status must be one of: ${VERIFICATION_STATUSES.join(', ')}` });
+    }
+    if (status === 'rejected' && !reason) {
+        return res.status(400).json({ message: 'A reason is required when rejecting a document' });
+    }
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const applicationId = rows[0].id;
+
+        const document = await setDocumentVerification(pool, {
+            applicationId,
+            documentId: Number(req.params.documentId),
+            status,
+            reason: reason || null,
+            actorId: toNullableUserId(req.user?.id),
+        });
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+
+        const emailSent = status === 'rejected'
+            ? await notifyDocumentRejected({ applicationId, documentType: document.document_type, reason })
+            : false;
+
+        return res.status(200).json({
+            message: `Document marked ${status}`,
+            documentId: document.id,
+            documentType: document.document_type,
+            status,
+            emailSent,
+        });
+    } catch (error) {
+        console.error('Error recording document verification:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/documents/{documentType}:
+ *   put:
+ *     summary: Replace a single document with a new version
+ *     description: >
+ *       The new file becomes the current version and goes back to pending verification;
+ *       earlier versions are kept in the document's history. Before submission anyone with
+ *       the reference number can replace a document; afterwards an applicant or staff token
+ *       is required, and applicants cannot replace a document that has been verified.
+ *     tags: [Documents]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentType
+ *         required: true
+ *         description: Upload field name (identityCard) or stored type (identity_card)
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Document replaced; version is the new version number
+ *       400:
+ *         description: Unknown document type or no file
+ *       401:
+ *         description: Token required once the application is submitted
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application is closed, or the document is already verified
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put('/:referenceNumber/documents/:documentType', optionalApplicantAuth, handleUploadErrors(upload.single('file')), screenUploads((req) => parseDocumentType(req.params.documentType)), async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const documentType = parseDocumentType(req.params.documentType);
+    if (!documentType) {
+        return res.status(400).json({ message: `Unknown document type: ${req.params.documentType}` });
+    }
+    if (!req.file) {
+        return res.status(400).json({ message: 'A file is required' });
+    }
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const applicationId = rows[0].id;
+        const status = normalizeStatus(rows[0].accepted_status);
+
+        if (['rejected', 'withdrawn', 'merged'].includes(status)) {
+            return res.status(409).json({ message: `Documents cannot be replaced on a ${status} application` });
+        }
+        if (status !== 'draft' && !canAccessApplication(req.user, referenceNumber)) {
+            return res.status(401).json({ message: 'Sign in to replace documents after submission' });
+        }
+
+        const staff = !!req.user && !isApplicant(req.user);
+        const current = (await getApplicationDocuments(pool, applicationId)).find(
+            (document) => document.current && document.documentType === documentType
+        );
+        if (!staff && current?.verification.status === 'verified') {
+            return res.status(409).json({ message: 'This document has already been verified and cannot be replaced' });
+        }
+
+        const { documentId, version } = await recordDocumentUpload(pool, {
+            applicationId,
+            documentType,
+            filePath: await moveUploadToStorage(req.file, STORAGE_AREAS.documents),
+            originalName: req.file.originalname,
+            uploadedBy: staff ? toNullableUserId(req.user?.id) : null,
+            uploaderType: staff ? 'staff' : 'applicant',
+        });
+
+        return res.status(200).json({
+            message: 'Document replaced',
+            documentId,
+            documentType,
+            version,
+            replacedDocumentId: current?.id ?? null,
+        });
+    } catch (error) {
+        console.error('Error replacing document:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+
+/**
+ * @swagger
+ * /api/v1/applications/dashboard:
+ *   get:
+ *     summary: Get dashboard statistics and graphs
+ *     description: >
+ *       Returns application summary statistics, trends over the past 6 months, top 5 program distribution, and a program distribution graph.
+ *       The `filter` query affects only the summary section and can be set to 'day', 'week', or 'month'.
+ *     parameters:
+ *       - in: query
+ *         name: filter
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *         required: false
+ *         description: Filter by time range (affects summary section)
+ *     responses:
+ *       200:
+ *         description: Dashboard data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     totalApplications:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         change:
+ *                           type: string
+ *                     accepted:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         change:
+ *                           type: string
+ *                     pending:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         change:
+ *                           type: string
+ *                     rejected:
+ *                       type: object
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         change:
+ *                           type: string
+ *                 trends:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       month:
+ *                         type: string
+ *                         example: "2024-12"
+ *                       total:
+ *                         type: integer
+ *                       accepted:
+ *                         type: integer
+ *                       rejected:
+ *                         type: integer
+ *                 programDistribution:
+ *                   type: array
+ *                   description: Top 5 programmes by first-choice demand
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       programme:
+ *                         type: string
+ *                       total:
+ *                         type: integer
+ *                 programDistributionGraph:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       month:
+ *                         type: string
+ *                         example: "2024-12"
+ *                       programme:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *                 placementDistribution:
+ *                   type: array
+ *                   description: Offers holding a seat per programme, split by the preference that was granted
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       programme:
+ *                         type: string
+ *                       total:
+ *                         type: integer
+ *                       firstChoice:
+ *                         type: integer
+ *                       secondChoice:
+ *                         type: integer
+ *                       thirdChoice:
+ *                         type: integer
+ *                       outsideChoices:
+ *                         type: integer
+ *       500:
+ *         description: Internal Server Error
+ */
+
+
+// Statuses that the legacy 'pending' filter/count stands for
+const PENDING_FILTER_STATUSES = ['pending', ...AWAITING_DECISION_STATUSES];
+
+const toSqlList = (values: string[]) => values.map((value) => pool.escape(value)).join(', ');
+
+// WHERE clause for the list filters, shared by GET / and GET /export
+const buildApplicationListFilters = (query: Request['query']) => {
+    const {
+        reference_number,
+        starting_semester,
+        programme,
+        satellite_campus,
+        created_at,
+        created_from,
+        created_to,
+        accepted_status,
+    } = query;
+    const filters: string[] = [];
+    const values: unknown[] = [];
+
+    if (reference_number) {
+        filters.push('a.reference_number = ?');
+        values.push(reference_number);
+    }
+    if (starting_semester) {
+        filters.push('a.starting_semester = ?');
+        values.push(starting_semester);
+    }
+    if (programme) {
+        filters.push('a.programme = ?');
+        values.push(programme);
+    }
+    if (satellite_campus) {
+        filters.push('a.satellite_campus = ?');
+        values.push(satellite_campus);
+    }
+    if (created_at) {
+        filters.push('DATE(a.created_at) = ?');
+        values.push(created_at);
+    }
+    if (created_from) {
+        filters.push('DATE(a.created_at) >= ?');
+        values.push(created_from);
+    }
+    if (created_to) {
+        filters.push('DATE(a.created_at) <= ?');
+        values.push(created_to);
+    }
+    if (accepted_status === 'pending') {
+        filters.push(`a.accepted_status IN (${toSqlList(PENDING_FILTER_STATUSES)})`);
+    } else if (accepted_status) {
+        filters.push('a.accepted_status = ?');
+        values.push(accepted_status);
+    }
+
+    return {
+        whereClause: filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '',
+        values,
+    };
+};
+
+router.get('/dashboard', async (req: Request, res: Response) => {
+    const filter = typeof req.query.filter === 'string' ? req.query.filter : 'month';
+  
+    const getDateRange = (filter: string) => {
+        const now = new Date();
+        const current = new Date();
+        const previous = new Date();
+      
+        let endOfCurrent: Date;
+      
+        if (filter === 'day') {
+          current.setHours(0, 0, 0, 0);
+          endOfCurrent = new Date(current);
+          endOfCurrent.setHours(23, 59, 59, 999);
+          previous.setDate(current.getDate() - 1);
+          previous.setHours(0, 0, 0, 0);
+        } else if (filter === 'week') {
+          const day = current.getDay();
+          current.setDate(current.getDate() - day);
+          current.setHours(0, 0, 0, 0);
+          endOfCurrent = new Date(current);
+          endOfCurrent.setDate(endOfCurrent.getDate() + 6); 
+          endOfCurrent.setHours(23, 59, 59, 999);
+          previous.setDate(current.getDate() - 7);
+          previous.setHours(0, 0, 0, 0);
+        } else {
           current.setDate(1);
           current.setHours(0, 0, 0, 0);
           endOfCurrent = new Date(current);
@@ -1182,186 +1580,2485 @@ router.get('/dashboard', async (req: Request, res: Response) => {
           previous.setDate(1);
           previous.setHours(0, 0, 0, 0);
         }
-      
-        return {
-          currentStart: current.toISOString().slice(0, 19).replace('T', ' '),
-          currentEnd: endOfCurrent.toISOString().slice(0, 19).replace('T', ' '),
-          previousStart: previous.toISOString().slice(0, 19).replace('T', ' '),
-        };
-      };
-      
-  
-    const { currentStart, previousStart, currentEnd } = getDateRange(filter);
-  
+      
+        return {
+          currentStart: current.toISOString().slice(0, 19).replace('T', ' '),
+          currentEnd: endOfCurrent.toISOString().slice(0, 19).replace('T', ' '),
+          previousStart: previous.toISOString().slice(0, 19).replace('T', ' '),
+        };
+      };
+      
+  
+    const { currentStart, previousStart, currentEnd } = getDateRange(filter);
+    const offerStatusSql = toSqlList(OFFER_STATUSES);
+    const pendingStatusSql = toSqlList(PENDING_FILTER_STATUSES);
+  
+    try {
+     
+      const [currentRows] = await pool.query(
+        `SELECT 
+          COUNT(*) AS total,
+          COALESCE(SUM(accepted_status IN (${offerStatusSql})), 0) AS accepted,
+          COALESCE(SUM(accepted_status IN (${pendingStatusSql})), 0) AS pending,
+          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
+        FROM applications
+        WHERE created_at BETWEEN ? AND ?`,
+        [currentStart, currentEnd]
+      );
+  
+      const currentTotal = (currentRows as any)[0];
+  
+     
+      const [previousRows] = await pool.query(
+        `SELECT 
+          COUNT(*) AS total,
+          COALESCE(SUM(accepted_status IN (${offerStatusSql})), 0) AS accepted,
+          COALESCE(SUM(accepted_status IN (${pendingStatusSql})), 0) AS pending,
+          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
+        FROM applications
+        WHERE created_at BETWEEN ? AND ?`,
+        [previousStart, currentStart]
+      );
+  
+      const previousTotal = (previousRows as any)[0];
+  
+      const calculateChange = (current: number, previous: number) => {
+        if (!previous) return 'N/A';
+        const change = ((current - previous) / previous) * 100;
+        return `${change.toFixed(1)}%`;
+      };
+  
+      // Trends (past 6 months)
+      const [trendsResult] = await pool.query(`
+        SELECT 
+          DATE_FORMAT(created_at, '%Y-%m') AS month,
+          COUNT(*) AS total,
+          COALESCE(SUM(accepted_status IN (${offerStatusSql})), 0) AS accepted,
+          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
+        FROM applications
+        WHERE created_at >= DATE_SUB(CURDATE(), INTERVAL 6 MONTH)
+        GROUP BY month
+        ORDER BY month DESC
+      `);
+     
+      // Demand is counted on first choices: applications.programme becomes the placement once accepted
+      const [distributionResult] = await pool.query(`
+        SELECT COALESCE(c.programme, a.programme) AS programme, COUNT(*) AS total
+        FROM applications a
+        LEFT JOIN application_programme_choices c ON c.application_id = a.id AND c.preference = 1
+        GROUP BY COALESCE(c.programme, a.programme)
+        ORDER BY total DESC
+        LIMIT 5
+      `);
+  
+      // Program distribution graph
+      const [programGraphResult] = await pool.query(`
+        SELECT 
+          DATE_FORMAT(a.created_at, '%Y-%m') AS month,
+          COALESCE(c.programme, a.programme) AS programme,
+          COUNT(*) AS count
+        FROM applications a
+        LEFT JOIN application_programme_choices c ON c.application_id = a.id AND c.preference = 1
+        WHERE a.created_at >= DATE_SUB(CURDATE(), INTERVAL 6 MONTH)
+        GROUP BY month, COALESCE(c.programme, a.programme)
+        ORDER BY month DESC
+      `);
+
+      // Final placements and which preference they were granted on
+      const [placementResult] = await pool.query(`
+        SELECT
+          a.programme,
+          COUNT(*) AS total,
+          COALESCE(SUM(g.preference = 1), 0) AS firstChoice,
+          COALESCE(SUM(g.preference = 2), 0) AS secondChoice,
+          COALESCE(SUM(g.preference = 3), 0) AS thirdChoice,
+          COALESCE(SUM(g.preference IS NULL), 0) AS outsideChoices
+        FROM applications a
+        LEFT JOIN application_programme_choices g ON g.application_id = a.id AND g.granted = 1
+        WHERE a.accepted_status IN (${toSqlList(SEAT_HOLDING_STATUSES)})
+        GROUP BY a.programme
+        ORDER BY total DESC
+      `);
+  
+      return res.status(200).json({
+        summary: {
+          totalApplications: {
+            count: currentTotal.total,
+            change: calculateChange(currentTotal.total, previousTotal.total),
+          },
+          accepted: {
+            count: currentTotal.accepted,
+            change: calculateChange(currentTotal.accepted, previousTotal.accepted),
+          },
+          pending: {
+            count: currentTotal.pending,
+            change: calculateChange(currentTotal.pending, previousTotal.pending),
+          },
+          rejected: {
+            count: currentTotal.rejected,
+            change: calculateChange(currentTotal.rejected, previousTotal.rejected),
+          },
+        },
+        trends: trendsResult,
+        programDistribution: distributionResult,
+        programDistributionGraph: programGraphResult,
+        placementDistribution: placementResult,
+      });
+    } catch (error) {
+      console.error('Dashboard API error:', error);
+      res.status(500).json({ message: 'Internal Server Error' });
+    }
+    return
+  });
+
+/**
+ * @swagger
+ * /api/v1/applications/drafts:
+ *   get:
+ *     summary: Get unsubmitted application drafts
+ *     tags: [Applications]
+ *     responses:
+ *       200:
+ *         description: List of unsubmitted drafts
+ *       500:
+ *         description: Internal Server Error
+ */
+const mapDraftRow = (row: RowDataPacket) => {
+    let parsedDraftJson: unknown = null;
+    try {
+        parsedDraftJson = row.draft_json ? JSON.parse(String(row.draft_json)) : null;
+    } catch {
+        parsedDraftJson = row.draft_json;
+    }
+
+    return {
+        id: row.id,
+        referenceNumber: row.reference_number,
+        email: row.email,
+        surname: row.surname,
+        forenames: row.forenames,
+        status: row.status,
+        referenceEmailSentAt: row.reference_email_sent_at,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        submittedAt: row.submitted_at,
+        version: Number(row.version ?? 0),
+        draftJson: parsedDraftJson,
+    };
+};
+
+router.get('/drafts', async (_req: Request, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT
+                d.id,
+                d.reference_number,
+                d.draft_json,
+                d.email,
+                d.surname,
+                d.forenames,
+                d.status,
+                d.reference_email_sent_at,
+                d.created_at,
+                d.updated_at,
+                d.submitted_at,
+                COALESCE(s.version, 0) AS version
+             FROM application_drafts d
+             LEFT JOIN application_draft_state s ON s.reference_number = d.reference_number
+             WHERE d.status = 'DRAFT' AND d.submitted_at IS NULL
+             ORDER BY d.updated_at DESC`
+        );
+
+        const drafts = rows.map(mapDraftRow);
+
+        return res.status(200).json({
+            count: drafts.length,
+            drafts,
+        });
+    } catch (error) {
+        console.error('Error fetching application drafts:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApplicationDraftRequest:
+ *       type: object
+ *       required: [draftJson]
+ *       properties:
+ *         draftJson:
+ *           type: object
+ *           description: >
+ *             Partial wizard state. Sections mirror the wizard route bodies:
+ *             application, personalDetails, nextOfKin, disabilities,
+ *             educationDetails, workExperience and documents ({ documentType, filePath }).
+ *         version:
+ *           type: integer
+ *           description: version returned by the last save. Required on PUT.
+ *         draftKey:
+ *           type: string
+ *           description: >
+ *             Key returned when the draft was created. Required on PUT, uploads and
+ *             submit unless an applicant token for the reference number is sent.
+ *         email:
+ *           type: string
+ *         surname:
+ *           type: string
+ *         forenames:
+ *           type: string
+ */
+
+const readDraftBody = (body: Record<string, unknown> | undefined) => {
+    const draftJson = parseDraftJson(body?.draftJson);
+    const personal = (draftJson.personalDetails ?? {}) as Record<string, unknown>;
+    const pick = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+    return {
+        draftJson,
+        email: pick(body?.email) ?? pick(personal.email),
+        surname: pick(body?.surname) ?? pick(personal.surname),
+        forenames: pick(body?.forenames) ?? pick(personal.first_names),
+    };
+};
+
+const getDraftRow = async (referenceNumber: string) => {
+    const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT d.*, COALESCE(s.version, 0) AS version
+         FROM application_drafts d
+         LEFT JOIN application_draft_state s ON s.reference_number = d.reference_number
+         WHERE d.reference_number = ?`,
+        [referenceNumber]
+    );
+    return rows[0] || null;
+};
+
+// The draft key handed out on creation, or any token allowed on this application
+const ownsDraft = async (req: AuthenticatedRequest, referenceNumber: string) =>
+    canAccessApplication(req.user, referenceNumber) || verifyDraftKey(pool, referenceNumber, req.body?.draftKey);
+
+/**
+ * @swagger
+ * /api/v1/applications/drafts/{referenceNumber}:
+ *   post:
+ *     summary: Start a server-side draft for the application wizard
+ *     description: >
+ *       Returns a draftKey, once. Send it with every later save, upload and the submit;
+ *       only its hash is kept. Starting a draft for an application that already exists
+ *       needs the applicant token for that reference number.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicationDraftRequest'
+ *     responses:
+ *       201:
+ *         description: Draft created, with its draftKey and version 1
+ *       403:
+ *         description: The application exists and no applicant token for it was sent
+ *       409:
+ *         description: A draft or submitted application already exists for this reference number
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/drafts/:referenceNumber', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const { draftJson, email, surname, forenames } = readDraftBody(req.body);
+
+    try {
+        if (await getDraftRow(referenceNumber)) {
+            return res.status(409).json({ message: 'Draft already exists, use PUT to update it' });
+        }
+
+        const [appRows] = await pool.query<RowDataPacket[]>(
+            'SELECT accepted_status FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (appRows.length > 0 && normalizeStatus(appRows[0].accepted_status) !== 'draft') {
+            return res.status(409).json({ message: 'Application has already been submitted' });
+        }
+        if (appRows.length > 0 && !canAccessApplication(req.user, referenceNumber)) {
+            return res.status(403).json({ message: 'Sign in as the applicant to save a draft of this application' });
+        }
+    } catch (error) {
+        console.error('Error creating application draft:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+
+    const connection = await pool.getConnection();
+    let draftKey: string;
+    try {
+        await connection.beginTransaction();
+        await connection.query(
+            `INSERT INTO application_drafts
+             (reference_number, draft_json, email, surname, forenames, status, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, 'DRAFT', NOW(), NOW())`,
+            [referenceNumber, JSON.stringify(draftJson), email, surname, forenames]
+        );
+        // Replaces the state a deleted draft may have left behind
+        await connection.query('DELETE FROM application_draft_state WHERE reference_number = ?', [referenceNumber]);
+        draftKey = await createDraftKey(connection, referenceNumber);
+        await connection.commit();
+    } catch (error) {
+        try {
+            await connection.rollback();
+        } catch (rollbackError) {
+            console.error('Error rolling back application draft creation:', rollbackError);
+        }
+        if ((error as NodeJS.ErrnoException)?.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ message: 'Draft already exists, use PUT to update it' });
+        }
+        console.error('Error creating application draft:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+
+    try {
+        const draft = await getDraftRow(referenceNumber);
+        return res.status(201).json({ message: 'Draft saved', draftKey, draft: draft ? mapDraftRow(draft) : null });
+    } catch (error) {
+        console.error('Error fetching application draft:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/drafts/{referenceNumber}:
+ *   put:
+ *     summary: Autosave wizard state into an existing draft
+ *     description: >
+ *       Uses optimistic concurrency. Send the version from the last save; if the draft
+ *       was saved elsewhere in the meantime the request fails with 409 and the current draft.
+ *       Needs the draftKey or an applicant token for the reference number.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicationDraftRequest'
+ *     responses:
+ *       200:
+ *         description: Draft saved, with its new version
+ *       400:
+ *         description: Missing or invalid version
+ *       403:
+ *         description: Missing or wrong draftKey
+ *       404:
+ *         description: Draft not found
+ *       409:
+ *         description: Draft changed since that version, or it was already submitted
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put('/drafts/:referenceNumber', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const { draftJson, email, surname, forenames } = readDraftBody(req.body);
+    const expectedVersion = Number(req.body?.version);
+
+    if (!Number.isInteger(expectedVersion) || expectedVersion < 0) {
+        return res.status(400).json({ message: 'version from the last save is required' });
+    }
+
+    try {
+        if (!(await getDraftRow(referenceNumber))) {
+            return res.status(404).json({ message: 'Draft not found' });
+        }
+        if (!(await ownsDraft(req, referenceNumber))) {
+            return res.status(403).json({ message: 'A valid draftKey is required' });
+        }
+
+        const saved = await saveDraftVersion(pool, {
+            referenceNumber,
+            expectedVersion,
+            draftJson,
+            email,
+            surname,
+            forenames,
+        });
+
+        const draft = await getDraftRow(referenceNumber);
+        if (!draft) {
+            return res.status(404).json({ message: 'Draft not found' });
+        }
+        if (!saved) {
+            return res.status(409).json({
+                message: draft.submitted_at
+                    ? 'Draft has already been submitted'
+                    : 'Draft was changed by another session. Reload it before saving again.',
+                draft: mapDraftRow(draft),
+            });
+        }
+
+        return res.status(200).json({ message: 'Draft saved', draft: mapDraftRow(draft) });
+    } catch (error) {
+        console.error('Error updating application draft:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/drafts/{referenceNumber}/documents/{documentType}:
+ *   post:
+ *     summary: Upload a document for a draft
+ *     description: >
+ *       The file is screened like any other upload and stored. Put the returned filePath in the
+ *       draft's documents list; on submit only files uploaded here for the same reference number
+ *       and document type are accepted.
+ *     tags: [Documents]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentType
+ *         required: true
+ *         description: Upload field name (identityCard) or stored type (identity_card)
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               draftKey:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Stored; filePath goes into the draft
+ *       400:
+ *         description: Unknown document type or no file
+ *       403:
+ *         description: Missing or wrong draftKey
+ *       404:
+ *         description: Draft not found
+ *       409:
+ *         description: Draft already submitted
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/drafts/:referenceNumber/documents/:documentType', optionalApplicantAuth, handleUploadErrors(upload.single('file')), screenUploads((req) => parseDocumentType(req.params.documentType)), async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const documentType = parseDocumentType(req.params.documentType);
+    if (!documentType) {
+        return res.status(400).json({ message: `Unknown document type: ${req.params.documentType}` });
+    }
+    if (!req.file) {
+        return res.status(400).json({ message: 'A file is required' });
+    }
+
+    try {
+        const draft = await getDraftRow(referenceNumber);
+        if (!draft) {
+            return res.status(404).json({ message: 'Draft not found' });
+        }
+        if (!(await ownsDraft(req, referenceNumber))) {
+            return res.status(403).json({ message: 'A valid draftKey is required' });
+        }
+        if (draft.submitted_at) {
+            return res.status(409).json({ message: 'Draft has already been submitted' });
+        }
+
+        const filePath = await moveUploadToStorage(req.file, STORAGE_AREAS.documents);
+        await pool.query(
+            'INSERT INTO application_draft_uploads (reference_number, document_type, storage_key, original_name) VALUES (?, ?, ?, ?)',
+            [referenceNumber, documentType, filePath, req.file.originalname]
+        );
+
+        return res.status(201).json({ documentType, filePath, originalName: req.file.originalname });
+    } catch (error) {
+        console.error('Error uploading draft document:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/drafts/{referenceNumber}/submit:
+ *   post:
+ *     summary: Submit a draft, creating the application and all wizard rows in one transaction
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               draftKey:
+ *                 type: string
+ *                 description: Not needed with an applicant token for the reference number
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *       400:
+ *         description: Draft is missing required sections
+ *       403:
+ *         description: Missing or wrong draftKey
+ *       404:
+ *         description: Draft not found
+ *       422:
+ *         description: A section fails the wizard's validation, or a document was not uploaded for this draft
+ *       409:
+ *         description: Draft or application already submitted
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/drafts/:referenceNumber/submit', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        if (!(await ownsDraft(req, referenceNumber))) {
+            return res.status(403).json({ message: 'A valid draftKey is required' });
+        }
+    } catch (error) {
+        console.error('Error checking application draft key:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+        await submitDraft(connection, referenceNumber);
+        await connection.commit();
+    } catch (error) {
+        try {
+            await connection.rollback();
+        } catch (rollbackError) {
+            console.error('Error rolling back application draft submission:', rollbackError);
+        }
+        if (error instanceof DraftSubmissionError) {
+            return res.status(error.statusCode).json({ message: error.message, errors: error.errors });
+        }
+        console.error('Error submitting application draft:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+
+    let emailSent = false;
+    try {
+        await sendApplicationReceivedEmail(referenceNumber);
+        emailSent = true;
+    } catch (emailError) {
+        console.error('Error sending application received email:', emailError);
+    }
+
+    return res.status(201).json({ message: 'Application submitted', referenceNumber, emailSent });
+});
+
+const toNullableUserId = (value: unknown): number | null => {
+    if (value == null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/reject:
+ *   patch:
+ *     summary: Reject an application with a catalogued reason and notify the applicant
+ *     description: >
+ *       Records the rejection, generates a regret letter (PDF with verification code)
+ *       and emails it to the applicant's personal_details email address.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reasonCode]
+ *             properties:
+ *               reasonCode:
+ *                 type: string
+ *                 description: Code from GET /api/v1/rejection-reasons
+ *                 example: ENTRY_REQUIREMENTS
+ *               note:
+ *                 type: string
+ *                 description: Optional note added to the letter and the email
+ *     responses:
+ *       200:
+ *         description: Application rejected successfully
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application cannot be rejected from its current status
+ *       422:
+ *         description: Missing or unknown reason code
+ *       500:
+ *         description: Internal Server Error
+ */
+const rejectApplication = async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const reasonCode = normalizeReasonCode(req.body?.reasonCode ?? req.body?.reason_code);
+    const rawNote = req.body?.note ?? req.body?.reason;
+    const note = typeof rawNote === 'string' ? rawNote.trim() || null : null;
+
+    if (!reasonCode) {
+        return res.status(422).json({ message: 'reasonCode is required' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        const reason = await getActiveRejectionReason(connection, reasonCode);
+        if (!reason) {
+            return res.status(422).json({ message: `Unknown rejection reason '${reasonCode}'` });
+        }
+
+        await connection.beginTransaction();
+
+        const [rows] = await connection.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ? FOR UPDATE',
+            [referenceNumber]
+        );
+
+        if (rows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const application = rows[0];
+
+        if (normalizeStatus(application.accepted_status) === 'rejected') {
+            await connection.rollback();
+            return res.status(200).json({ message: 'Application already rejected' });
+        }
+
+        await transitionApplicationStatus(connection, {
+            applicationId: application.id,
+            toStatus: 'rejected',
+            actorId: toNullableUserId(req.user?.id),
+            reason: [reason.label, note].filter(Boolean).join(' - '),
+        });
+
+        await connection.query('UPDATE application_rejections SET latest = 0 WHERE application_id = ?', [application.id]);
+        const [insertResult] = await connection.query<OkPacket>(
+            `INSERT INTO application_rejections (application_id, reference_number, reason_code, note, rejected_by)
+             VALUES (?, ?, ?, ?, ?)`,
+            [application.id, referenceNumber, reason.code, note, toNullableUserId(req.user?.id)]
+        );
+
+        await connection.commit();
+
+        const letter = await issueRegretLetter(pool, {
+            rejectionId: insertResult.insertId,
+            applicationId: application.id,
+            referenceNumber,
+            reason,
+            note,
+        });
+
+        return res.status(200).json({
+            message: 'Application rejected successfully',
+            referenceNumber,
+            acceptedStatus: 'rejected',
+            reasonCode: reason.code,
+            letterGenerated: letter.letterGenerated,
+            emailSent: letter.emailSent,
+            letterDownloadUrl: letter.verificationCode
+                ? `/api/v1/applications/${encodeURIComponent(referenceNumber)}/rejection-letter/download?code=${encodeURIComponent(letter.verificationCode)}`
+                : null,
+        });
+    } catch (error) {
+        try {
+            await connection.rollback();
+        } catch (rollbackError) {
+            console.error('Error rolling back application rejection:', rollbackError);
+        }
+        if (error instanceof StatusTransitionError) {
+            return res.status(409).json({ message: error.message });
+        }
+        console.error('Error rejecting application:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+};
+
+router.patch('/:referenceNumber/reject', authenticateToken, rejectApplication);
+router.post('/:referenceNumber/reject', authenticateToken, rejectApplication);
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/status:
+ *   get:
+ *     summary: Applicant-facing status and timeline of an application
+ *     description: >
+ *       Steps: submitted, documents received, under review, decision, offer issued,
+ *       offer responded and payment received. Each step is complete, pending or
+ *       not_applicable (after a rejection or withdrawal). Requires an applicant token
+ *       from POST /login for this application, or a staff token.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current status and timeline
+ *       401:
+ *         description: Missing token
+ *       403:
+ *         description: Token does not belong to this application
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/status', authenticateApplicant, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT a.id, a.reference_number, a.accepted_status, a.created_at, a.programme,
+                    a.starting_semester, a.satellite_campus, dp.name AS programme_name
+             FROM applications a
+             LEFT JOIN department_programme dp ON dp.code = a.programme
+             WHERE a.reference_number = ?`,
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const timeline = await buildApplicationTimeline(pool, rows[0]);
+        return res.status(200).json({
+            ...timeline,
+            programme: rows[0].programme_name || rows[0].programme,
+            startingSemester: rows[0].starting_semester,
+            satelliteCampus: rows[0].satellite_campus,
+        });
+    } catch (error) {
+        console.error('Error building application status timeline:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+// Where the statuses PATCH /status refuses are set instead
+const STATUS_ROUTES: Partial<Record<ApplicationStatus, string>> = {
+    submitted: 'POST /api/v1/applications/drafts/{referenceNumber}/submit',
+    accepted: 'POST /api/v1/student-numbers/assign/{referenceNumber}',
+    conditionally_accepted: 'POST /api/v1/student-numbers/assign/{referenceNumber}',
+    rejected: 'PATCH /api/v1/applications/{referenceNumber}/reject',
+    offer_accepted: 'POST /api/v1/applications/{referenceNumber}/offer-letter/respond',
+    offer_declined: 'POST /api/v1/applications/{referenceNumber}/offer-letter/respond',
+    withdrawn: 'POST /api/v1/applications/{referenceNumber}/withdraw',
+    merged: 'POST /api/v1/duplicates/merge',
+};
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/status:
+ *   patch:
+ *     summary: Move an application to another review-stage status
+ *     description: >
+ *       Lifecycle: draft → submitted → under_review → shortlisted →
+ *       accepted / conditionally_accepted / waitlisted / rejected →
+ *       offer_accepted / offer_declined → enrolled. This route only sets
+ *       under_review, shortlisted, waitlisted and enrolled. Offers are made through
+ *       POST /api/v1/student-numbers/assign/{referenceNumber}, rejections through
+ *       PATCH /api/v1/applications/{referenceNumber}/reject, offer responses through
+ *       POST /api/v1/applications/{referenceNumber}/offer-letter/respond and
+ *       withdrawals through POST /api/v1/applications/{referenceNumber}/withdraw.
+ *       Illegal moves are rejected.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [under_review, shortlisted, waitlisted, enrolled]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       400:
+ *         description: Unknown status, or a status that has its own route
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Transition not allowed from the current status
+ *       500:
+ *         description: Internal Server Error
+ */
+router.patch('/:referenceNumber/status', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const status = String(req.body?.status || '').trim().toLowerCase();
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() || null : null;
+
+    if (!isApplicationStatus(status)) {
+        return res.status(400).json({ message: `status must be one of: ${APPLICATION_STATUSES.join(', ')}` });
+    }
+    if (!MANUAL_STATUSES.includes(status)) {
+        return res.status(400).json({
+            message: STATUS_ROUTES[status]
+                ? `Use ${STATUS_ROUTES[status]} to move an application to '${status}'`
+                : `'${status}' cannot be set by hand`,
+            allowed: MANUAL_STATUSES,
+        });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ? FOR UPDATE',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const result = await transitionApplicationStatus(connection, {
+            applicationId: rows[0].id,
+            toStatus: status,
+            actorId: toNullableUserId(req.user?.id),
+            reason,
+        });
+
+        let waitlistRank: number | undefined;
+        if (status === 'waitlisted') {
+            const entry = await addToWaitlist(connection, {
+                applicationId: rows[0].id,
+                addedBy: toNullableUserId(req.user?.id),
+            });
+            waitlistRank = entry.rank;
+        }
+
+        await connection.commit();
+        return res.status(200).json({
+            message: result.changed ? 'Application status updated' : 'Application already has this status',
+            referenceNumber,
+            fromStatus: result.fromStatus,
+            acceptedStatus: result.toStatus,
+            waitlistRank,
+        });
+    } catch (error) {
+        try {
+            await connection.rollback();
+        } catch (rollbackError) {
+            console.error('Error rolling back status update:', rollbackError);
+        }
+        if (error instanceof StatusTransitionError) {
+            return res.status(409).json({ message: error.message, allowed: allowedTransitions(error.from) });
+        }
+        console.error('Error updating application status:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/review-queue:
+ *   get:
+ *     summary: Applications assigned to the logged-in reviewer
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, all]
+ *           default: pending
+ *     responses:
+ *       200:
+ *         description: Review assignments, oldest first
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/review-queue', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const status = String(req.query.status || 'pending');
+
+    try {
+        const filters = ['ar.reviewer_id = ?'];
+        const values: unknown[] = [req.user?.id];
+        if (status === 'pending' || status === 'completed') {
+            filters.push('ar.status = ?');
+            values.push(status);
+        }
+
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT ar.id AS assignment_id, ar.status AS review_status, ar.assignment_method,
+                    ar.assigned_at, ar.completed_at,
+                    a.reference_number, a.programme, a.starting_semester, a.satellite_campus,
+                    a.accepted_status, a.created_at,
+                    pd.first_names, pd.surname,
+                    dp.name AS programme_name
+             FROM application_reviewers ar
+             JOIN applications a ON a.id = ar.application_id
+             LEFT JOIN personal_details pd ON pd.application_id = a.id
+             LEFT JOIN department_programme dp ON dp.code = a.programme
+             WHERE ${filters.join(' AND ')}
+             ORDER BY ar.assigned_at ASC`,
+            values
+        );
+
+        return res.status(200).json(rows);
+    } catch (error) {
+        console.error('Error fetching review queue:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/reviewers:
+ *   post:
+ *     summary: Assign reviewers to an application
+ *     description: >
+ *       Pass reviewerIds to assign specific users, or a method to pick from the reviewer pool
+ *       (auto = programme reviewers, then department reviewers, then round-robin over everyone).
+ *       A submitted application moves to under_review once reviewers are assigned.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reviewerIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               method:
+ *                 type: string
+ *                 enum: [auto, programme, department, round_robin]
+ *                 default: auto
+ *               count:
+ *                 type: integer
+ *                 description: Number of reviewers to pick (defaults to REVIEWERS_PER_APPLICATION)
+ *     responses:
+ *       201:
+ *         description: Reviewers assigned
+ *       400:
+ *         description: Invalid method or reviewer ids
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: No reviewer available
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/reviewers', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const method = String(req.body?.method || 'auto') as AssignmentMethod;
+    const count = Number(req.body?.count ?? REVIEWERS_PER_APPLICATION);
+    const requestedIds: unknown[] = Array.isArray(req.body?.reviewerIds) ? req.body.reviewerIds : [];
+
+    if (!requestedIds.length && !ASSIGNMENT_METHODS.includes(method)) {
+        return res.status(400).json({ message: `method must be one of: ${ASSIGNMENT_METHODS.join(', ')}` });
+    }
+    if (!Number.isInteger(count) || count < 1) {
+        return res.status(400).json({ message: 'count must be a positive integer' });
+    }
+    if (requestedIds.some((id) => !Number.isInteger(Number(id)))) {
+        return res.status(400).json({ message: 'reviewerIds must be user ids' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [appRows] = await connection.query<RowDataPacket[]>(
+            'SELECT id, programme, accepted_status FROM applications WHERE reference_number = ? FOR UPDATE',
+            [referenceNumber]
+        );
+        if (appRows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const application = appRows[0];
+
+        let reviewerIds: number[];
+        let assignmentMethod: string;
+        if (requestedIds.length) {
+            reviewerIds = [...new Set(requestedIds.map(Number))];
+            assignmentMethod = 'manual';
+            const [users] = await connection.query<RowDataPacket[]>('SELECT id FROM users WHERE id IN (?)', [reviewerIds]);
+            if (users.length !== reviewerIds.length) {
+                await connection.rollback();
+                return res.status(400).json({ message: 'One or more reviewers do not exist' });
+            }
+        } else {
+            const picked = await pickReviewers(connection, {
+                applicationId: application.id,
+                programmeCode: application.programme,
+                method,
+                count,
+            });
+            reviewerIds = picked.reviewerIds;
+            assignmentMethod = picked.method;
+        }
+
+        if (!reviewerIds.length) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'No reviewer available for this application' });
+        }
+
+        await connection.query(
+            `INSERT IGNORE INTO application_reviewers (application_id, reviewer_id, assigned_by, assignment_method)
+             VALUES ?`,
+            [reviewerIds.map((id) => [application.id, id, toNullableUserId(req.user?.id), assignmentMethod])]
+        );
+
+        if (normalizeStatus(application.accepted_status) === 'submitted') {
+            await transitionApplicationStatus(connection, {
+                applicationId: application.id,
+                toStatus: 'under_review',
+                actorId: toNullableUserId(req.user?.id),
+                reason: 'Reviewers assigned',
+            });
+        }
+
+        await connection.commit();
+
+        return res.status(201).json({
+            message: 'Reviewers assigned',
+            referenceNumber,
+            assignmentMethod,
+            reviewerIds,
+        });
+    } catch (error) {
+        await connection.rollback();
+        console.error('Error assigning reviewers:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/reviews:
+ *   get:
+ *     summary: Get the rubric, reviewer assignments, reviews and aggregate recommendation
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review details
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/reviews', authenticateToken, async (req: Request, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [appRows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, programme FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (appRows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const application = appRows[0];
+
+        const [[assignments], [reviews], rubric, summary] = await Promise.all([
+            pool.query<RowDataPacket[]>(
+                `SELECT ar.reviewer_id, ar.status, ar.assignment_method, ar.assigned_at, ar.completed_at,
+                        u.username, u.firstName, u.lastName
+                 FROM application_reviewers ar
+                 LEFT JOIN users u ON u.id = ar.reviewer_id
+                 WHERE ar.application_id = ?
+                 ORDER BY ar.assigned_at ASC`,
+                [application.id]
+            ),
+            pool.query<RowDataPacket[]>(
+                `SELECT r.reviewer_id, r.scores, r.total_score, r.recommendation, r.comments, r.created_at, r.updated_at,
+                        u.username, u.firstName, u.lastName
+                 FROM application_reviews r
+                 LEFT JOIN users u ON u.id = r.reviewer_id
+                 WHERE r.application_id = ?
+                 ORDER BY r.created_at ASC`,
+                [application.id]
+            ),
+            getRubric(pool, application.programme),
+            getReviewSummary(pool, application.id),
+        ]);
+
+        return res.status(200).json({
+            referenceNumber,
+            rubric: rubric.criteria,
+            summary,
+            assignments,
+            reviews: reviews.map((review) => ({
+                ...review,
+                scores: JSON.parse(review.scores || '{}'),
+                total_score: Number(review.total_score),
+            })),
+        });
+    } catch (error) {
+        console.error('Error fetching application reviews:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/reviews:
+ *   post:
+ *     summary: Submit (or update) the logged-in reviewer's review
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [scores, recommendation]
+ *             properties:
+ *               scores:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *                 description: Score per rubric criterion key
+ *                 example: { academic_record: 8, relevant_experience: 6, supporting_documents: 9 }
+ *               recommendation:
+ *                 type: string
+ *                 enum: [accept, conditional_accept, waitlist, reject]
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review saved; returns the weighted score and the aggregate recommendation
+ *       403:
+ *         description: The logged-in user is not assigned to this application
+ *       404:
+ *         description: Application not found
+ *       422:
+ *         description: Missing or out-of-range scores / invalid recommendation
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/reviews', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const { scores, recommendation } = req.body ?? {};
+    const comments = typeof req.body?.comments === 'string' ? req.body.comments.trim() || null : null;
+
+    if (!isReviewRecommendation(recommendation)) {
+        return res.status(422).json({ message: `recommendation must be one of: ${REVIEW_RECOMMENDATIONS.join(', ')}` });
+    }
+    if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+        return res.status(422).json({ message: 'scores must be an object keyed by rubric criterion' });
+    }
+
+    try {
+        const [appRows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, programme FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (appRows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const application = appRows[0];
+
+        const [assignmentRows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM application_reviewers WHERE application_id = ? AND reviewer_id = ?',
+            [application.id, req.user?.id]
+        );
+        if (assignmentRows.length === 0) {
+            return res.status(403).json({ message: 'You are not assigned to review this application' });
+        }
+
+        const rubric = await getRubric(pool, application.programme);
+        const totalScore = scoreReview(rubric.criteria, scores);
+        const rubricScores = Object.fromEntries(
+            rubric.criteria.map((criterion) => [criterion.key, Number(scores[criterion.key])])
+        );
+
+        await pool.query(
+            `INSERT INTO application_reviews (application_id, reviewer_id, scores, total_score, recommendation, comments)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON DUPLICATE KEY UPDATE scores = VALUES(scores), total_score = VALUES(total_score),
+               recommendation = VALUES(recommendation), comments = VALUES(comments)`,
+            [application.id, req.user?.id, JSON.stringify(rubricScores), totalScore, recommendation, comments]
+        );
+        await pool.query(
+            `UPDATE application_reviewers
+             SET status = 'completed', completed_at = COALESCE(completed_at, NOW())
+             WHERE id = ?`,
+            [assignmentRows[0].id]
+        );
+
+        return res.status(200).json({
+            message: 'Review saved',
+            referenceNumber,
+            totalScore,
+            summary: await getReviewSummary(pool, application.id),
+        });
+    } catch (error) {
+        if (error instanceof ReviewError) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        console.error('Error saving review:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/programme-choices:
+ *   get:
+ *     summary: Ranked programme choices with the reviewers' decision on each
+ *     description: granted marks the preference an offer was made for.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Choices, most preferred first
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/programme-choices', authenticateApplicant, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, programme FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const choices = await getProgrammeChoices(pool, rows[0].id);
+        return res.status(200).json({
+            referenceNumber: req.params.referenceNumber,
+            grantedPreference: choices.find((choice) => choice.granted === 1)?.preference ?? null,
+            choices,
+        });
+    } catch (error) {
+        console.error('Error fetching programme choices:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/programme-choices:
+ *   put:
+ *     summary: Replace the applicant's ranked programme choices (up to three)
+ *     description: Only while the application is a draft. The first choice becomes the application's programme.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProgrammeChoicesRequest'
+ *     responses:
+ *       200:
+ *         description: Choices saved
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application already submitted
+ *       422:
+ *         description: Validation failed
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put('/:referenceNumber/programme-choices', validateBody(applicationSchemas.ProgrammeChoicesRequest), async (req: Request, res: Response) => {
+    const choices = parseProgrammeChoices(req.body.programmeChoices);
+    if (typeof choices === 'string') {
+        return res.status(422).json({ message: choices });
+    }
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        if (normalizeStatus(rows[0].accepted_status) !== 'draft') {
+            return res.status(409).json({ message: 'Programme choices cannot be changed after submission' });
+        }
+
+        await saveProgrammeChoices(pool, rows[0].id, choices);
+        return res.status(200).json({
+            message: 'Programme choices saved',
+            choices: await getProgrammeChoices(pool, rows[0].id),
+        });
+    } catch (error) {
+        console.error('Error saving programme choices:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/programme-choices/{preference}:
+ *   patch:
+ *     summary: Record the reviewers' decision on one programme choice
+ *     description: >
+ *       Approved choices are offered in preference order: accepting without an explicit
+ *       programme places the applicant in the highest-ranked approved choice.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: preference
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 3
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision]
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [pending, approved, rejected]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       400:
+ *         description: Invalid decision
+ *       404:
+ *         description: Application or choice not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.patch('/:referenceNumber/programme-choices/:preference', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const decision = String(req.body?.decision || '').trim().toLowerCase();
+    if (!isChoiceDecision(decision)) {
+        return res.status(400).json({ message: `decision must be one of: ${CHOICE_DECISIONS.join(', ')}` });
+    }
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, programme FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        await ensureProgrammeChoices(pool, rows[0].id, rows[0].programme);
+        const updated = await setChoiceDecision(pool, {
+            applicationId: rows[0].id,
+            preference: Number(req.params.preference),
+            decision,
+            note,
+            actorId: toNullableUserId(req.user?.id),
+        });
+        if (!updated) {
+            return res.status(404).json({ message: 'Programme choice not found' });
+        }
+
+        return res.status(200).json({
+            message: 'Programme choice decision recorded',
+            choices: await getProgrammeChoices(pool, rows[0].id),
+        });
+    } catch (error) {
+        console.error('Error deciding programme choice:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/referees:
+ *   get:
+ *     summary: Referees named on a postgraduate or PhD application and whether each has responded
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Referees with invitation, reminder and submission status
+ *       401:
+ *         description: Missing token
+ *       403:
+ *         description: Token does not belong to this application
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/referees', authenticateApplicant, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, program_type FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        return res.status(200).json({
+            referenceNumber: req.params.referenceNumber,
+            required: requiresReferees(rows[0].program_type),
+            referees: await getReferees(pool, rows[0].id),
+        });
+    } catch (error) {
+        console.error('Error fetching referees:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/referees:
+ *   put:
+ *     summary: Save the referees section of a postgraduate or PhD application
+ *     description: >
+ *       Replaces the referee list and emails each new referee a one-time link to upload a
+ *       letter or fill in a short reference form. Referees who have already responded are
+ *       kept. After submission the list can only be changed with an applicant or staff token.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefereesRequest'
+ *     responses:
+ *       200:
+ *         description: Referees saved; invited counts the referees emailed a link
+ *       400:
+ *         description: Program type does not take referees
+ *       401:
+ *         description: Token required once the application is submitted
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application is closed
+ *       422:
+ *         description: Validation failed
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put('/:referenceNumber/referees', optionalApplicantAuth, validateBody(applicationSchemas.RefereesRequest), async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, program_type, accepted_status FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const application = rows[0];
+        const status = normalizeStatus(application.accepted_status);
+
+        if (!requiresReferees(application.program_type)) {
+            return res.status(400).json({ message: 'Referees are only collected for postgraduate and PhD applications' });
+        }
+        if (['rejected', 'withdrawn', 'merged'].includes(status)) {
+            return res.status(409).json({ message: `Referees cannot be changed on a ${status} application` });
+        }
+        if (status !== 'draft' && !canAccessApplication(req.user, referenceNumber)) {
+            return res.status(401).json({ message: 'Sign in to change referees after submission' });
+        }
+
+        await saveReferees(application.id, req.body.referees);
+        const { invited, emailed } = await inviteReferees(application.id);
+
+        return res.status(200).json({
+            message: 'Referees saved',
+            invited,
+            emailed,
+            referees: await getReferees(pool, application.id),
+        });
+    } catch (error) {
+        if (error instanceof RefereeError) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        console.error('Error saving referees:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/referees/{refereeId}/remind:
+ *   post:
+ *     summary: Re-send a referee's upload link now
+ *     description: A new link is issued when the previous one has expired.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: refereeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Invitation re-sent
+ *       404:
+ *         description: Application or outstanding referee not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/referees/:refereeId/remind', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const { invited, emailed } = await inviteReferees(rows[0].id, Number(req.params.refereeId));
+        if (!invited) {
+            return res.status(404).json({ message: 'No outstanding referee with that id' });
+        }
+        return res.status(200).json({ message: 'Referee invitation re-sent', emailSent: emailed > 0 });
+    } catch (error) {
+        console.error('Error re-sending referee invitation:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/referees/{refereeId}/reference:
+ *   get:
+ *     summary: Read a submitted reference (staff only)
+ *     description: Downloads the uploaded letter, or returns the reference form answers as JSON.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: refereeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reference letter file or form answers
+ *       404:
+ *         description: No reference received from this referee
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/referees/:refereeId/reference', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT r.name, r.submitted_at, r.letter_file_name, r.letter_file_path, r.form_responses
+             FROM application_referees r
+             JOIN applications a ON a.id = r.application_id
+             WHERE a.reference_number = ? AND r.id = ? AND r.status = 'submitted'`,
+            [req.params.referenceNumber, Number(req.params.refereeId)]
+        );
+        const reference = rows[0];
+        if (!reference) {
+            return res.status(404).json({ message: 'No reference received from this referee' });
+        }
+
+        if (reference.letter_file_path) {
+            const sent = await sendStoredFile(res, toStorageKey(reference.letter_file_path), {
+                fileName: reference.letter_file_name,
+            });
+            if (!sent) {
+                return res.status(404).json({ message: 'Reference letter file not found on server' });
+            }
+            return undefined;
+        }
+        return res.status(200).json({
+            referee: reference.name,
+            submittedAt: reference.submitted_at,
+            form: reference.form_responses,
+        });
+    } catch (error) {
+        console.error('Error fetching reference:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/offer-conditions:
+ *   get:
+ *     summary: Conditions attached to a conditional offer, with met/unmet status
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conditions and a met/unmet summary
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/offer-conditions', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const conditions = await getOfferConditions(pool, rows[0].id);
+        return res.status(200).json({
+            referenceNumber: req.params.referenceNumber,
+            acceptedStatus: normalizeStatus(rows[0].accepted_status),
+            summary: summarizeOfferConditions(conditions),
+            conditions,
+        });
+    } catch (error) {
+        console.error('Error fetching offer conditions:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/offer-conditions:
+ *   post:
+ *     summary: Attach further conditions to a conditional offer
+ *     description: Only while the application is `conditionally_accepted`. Regenerate the offer letter to include them.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [conditions]
+ *             properties:
+ *               conditions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     description:
+ *                       type: string
+ *                       example: Submit pending A-Level results
+ *                     dueDate:
+ *                       type: string
+ *                       format: date
+ *     responses:
+ *       201:
+ *         description: Conditions added
+ *       400:
+ *         description: Invalid conditions
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application does not hold a conditional offer
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/offer-conditions', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const conditions = parseOfferConditions(req.body?.conditions);
+    if (typeof conditions === 'string') {
+        return res.status(400).json({ message: conditions });
+    }
+    if (!conditions.length) {
+        return res.status(400).json({ message: 'At least one condition is required' });
+    }
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        if (normalizeStatus(rows[0].accepted_status) !== 'conditionally_accepted') {
+            return res.status(409).json({ message: 'Conditions can only be added to a conditional offer' });
+        }
+
+        await addOfferConditions(pool, rows[0].id, conditions, toNullableUserId(req.user?.id));
+        const saved = await getOfferConditions(pool, rows[0].id);
+        return res.status(201).json({
+            message: 'Offer conditions added',
+            summary: summarizeOfferConditions(saved),
+            conditions: saved,
+        });
+    } catch (error) {
+        console.error('Error adding offer conditions:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/offer-conditions/{conditionId}:
+ *   patch:
+ *     summary: Mark an offer condition as met or unmet
+ *     description: |
+ *       When the last outstanding condition is met the offer becomes unconditional and an
+ *       unconditional offer letter is generated and emailed. A `conditionally_accepted`
+ *       application moves to `accepted`; one already at `offer_accepted` keeps that status.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: conditionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [met, unmet]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Condition updated
+ *       400:
+ *         description: Invalid status
+ *       404:
+ *         description: Application or condition not found
+ *       409:
+ *         description: Status transition not allowed
+ *       500:
+ *         description: Internal Server Error
+ */
+router.patch('/:referenceNumber/offer-conditions/:conditionId', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const status = String(req.body?.status || '').trim().toLowerCase();
+    if (status !== 'met' && status !== 'unmet') {
+        return res.status(400).json({ message: 'status must be met or unmet' });
+    }
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+
     try {
-     
-      const [currentRows] = await pool.query(
-        `SELECT 
-          COUNT(*) AS total,
-          COALESCE(SUM(accepted_status = 'accepted'), 0) AS accepted,
-          COALESCE(SUM(accepted_status = 'pending'), 0) AS pending,
-          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
-        FROM applications
-        WHERE created_at BETWEEN ? AND ?`,
-        [currentStart, currentEnd]
-      );
-  
-      const currentTotal = (currentRows as any)[0];
-  
-     
-      const [previousRows] = await pool.query(
-        `SELECT 
-          COUNT(*) AS total,
-          COALESCE(SUM(accepted_status = 'accepted'), 0) AS accepted,
-          COALESCE(SUM(accepted_status = 'pending'), 0) AS pending,
-          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
-        FROM applications
-        WHERE created_at BETWEEN ? AND ?`,
-        [previousStart, currentStart]
-      );
-  
-      const previousTotal = (previousRows as any)[0];
-  
-      const calculateChange = (current: number, previous: number) => {
-        if (!previous) return 'N/A';
-        const change = ((current - previous) / previous) * 100;
-        return `${change.toFixed(1)}%`;
-      };
-  
-      // Trends (past 6 months)
-      const [trendsResult] = await pool.query(`
-        SELECT 
-          DATE_FORMAT(created_at, '%Y-%m') AS month,
-          COUNT(*) AS total,
-          COALESCE(SUM(accepted_status = 'accepted'), 0) AS accepted,
-          COALESCE(SUM(accepted_status = 'rejected'), 0) AS rejected
-        FROM applications
-        WHERE created_at >= DATE_SUB(CURDATE(), INTERVAL 6 MONTH)
-        GROUP BY month
-        ORDER BY month DESC
-      `);
-     
-      const [distributionResult] = await pool.query(`
-        SELECT programme, COUNT(*) AS total
-        FROM applications
-        GROUP BY programme
-        ORDER BY total DESC
-        LIMIT 5
-      `);
-  
-      // Program distribution graph
-      const [programGraphResult] = await pool.query(`
-        SELECT 
-          DATE_FORMAT(created_at, '%Y-%m') AS month,
-          programme,
-          COUNT(*) AS count
-        FROM applications
-        WHERE created_at >= DATE_SUB(CURDATE(), INTERVAL 6 MONTH)
-        GROUP BY month, programme
-        ORDER BY month DESC
-      `);
-  
-      return res.status(200).json({
-        summary: {
-          totalApplications: {
-            count: currentTotal.total,
-            change: calculateChange(currentTotal.total, previousTotal.total),
-          },
-          accepted: {
-            count: currentTotal.accepted,
-            change: calculateChange(currentTotal.accepted, previousTotal.accepted),
-          },
-          pending: {
-            count: currentTotal.pending,
-            change: calculateChange(currentTotal.pending, previousTotal.pending),
-          },
-          rejected: {
-            count: currentTotal.rejected,
-            change: calculateChange(currentTotal.rejected, previousTotal.rejected),
-          },
-        },
-        trends: trendsResult,
-        programDistribution: distributionResult,
-        programDistributionGraph: programGraphResult,
-      });
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const result = await setOfferConditionStatus({
+            applicationId: rows[0].id,
+            conditionId: Number(req.params.conditionId),
+            status,
+            note,
+            actorId: toNullableUserId(req.user?.id),
+        });
+        if (!result) {
+            return res.status(404).json({ message: 'Offer condition not found' });
+        }
+
+        return res.status(200).json({
+            message: result.madeUnconditional
+                ? 'All conditions met; the offer is now unconditional'
+                : 'Offer condition updated',
+            ...result,
+        });
+    } catch (error) {
+        if (error instanceof StatusTransitionError) {
+            return res.status(409).json({ message: error.message });
+        }
+        console.error('Error updating offer condition:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/otp:
+ *   post:
+ *     summary: Email the applicant a one-time code for self-service actions
+ *     description: >
+ *       The code is sent to the email address in the application's personal details and expires after a few
+ *       minutes. Each application can be sent one code a minute and five an hour.
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicantOtpRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       404:
+ *         description: Application not found
+ *       422:
+ *         description: No email address on file, or validation failed
+ *       429:
+ *         description: Too many codes requested; see the Retry-After header
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/otp', validateBody(applicationSchemas.ApplicantOtpRequest), async (req: Request, res: Response) => {
+    const { purpose } = req.body;
+    if (!isOtpPurpose(purpose)) {
+        return res.status(422).json({ message: `purpose must be one of: ${OTP_PURPOSES.join(', ')}` });
+    }
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const sent = await issueApplicantOtp(rows[0].id, purpose);
+        if (!sent) {
+            return res.status(422).json({ message: 'No email address on file for this application' });
+        }
+        return res.status(200).json({ message: 'Verification code sent' });
+    } catch (error) {
+        if (error instanceof OtpThrottleError) {
+            res.set('Retry-After', String(error.retryAfterSeconds));
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        console.error('Error sending applicant OTP:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/login:
+ *   post:
+ *     summary: Sign in to the applicant portal with an emailed one-time code
+ *     description: >
+ *       Request the code with POST /otp (purpose login). The returned bearer token is short-lived
+ *       and only opens this application (offer and regret letters, offer response, GET /status,
+ *       withdrawal and correction requests).
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApplicantLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Applicant token issued
+ *       401:
+ *         description: Code is wrong, expired or already used
+ *       404:
+ *         description: Application not found
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/login', validateBody(applicationSchemas.ApplicantLoginRequest), async (req: Request, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT a.id, a.reference_number, pd.first_names
+             FROM applications a
+             LEFT JOIN personal_details pd ON pd.application_id = a.id
+             WHERE a.reference_number = ?`,
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const verified = await verifyApplicantOtp(rows[0].id, 'login', String(req.body.otp));
+        if (!verified) {
+            return res.status(401).json({ message: 'Invalid or expired code' });
+        }
+
+        const token = signApplicantToken({
+            applicationId: rows[0].id,
+            referenceNumber: rows[0].reference_number,
+            firstName: rows[0].first_names,
+        });
+        return res.status(200).json({ token, referenceNumber: rows[0].reference_number });
     } catch (error) {
-      console.error('Dashboard API error:', error);
-      res.status(500).json({ message: 'Internal Server Error' });
+        console.error('Error signing in applicant:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
     }
-    return
-  });
+});
 
 /**
  * @swagger
- * /api/v1/applications/drafts:
- *   get:
- *     summary: Get unsubmitted application drafts
+ * /api/v1/applications/{referenceNumber}/withdraw:
+ *   post:
+ *     summary: Withdraw an application (applicant)
+ *     description: >
+ *       Verified like /resume (surname + yearOfBirth), with a one-time code from
+ *       POST /otp (purpose withdraw), or with an applicant portal token.
+ *       Only applications without a decision can be withdrawn.
  *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WithdrawRequest'
  *     responses:
  *       200:
- *         description: List of unsubmitted drafts
+ *         description: Application withdrawn
+ *       401:
+ *         description: Identity could not be verified
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application can no longer be withdrawn
  *       500:
  *         description: Internal Server Error
  */
-router.get('/drafts', async (_req: Request, res: Response) => {
+router.post('/:referenceNumber/withdraw', optionalApplicantAuth, validateBody(applicationSchemas.WithdrawRequest), async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() || null : null;
+
     try {
         const [rows] = await pool.query<RowDataPacket[]>(
-            `SELECT
-                id,
-                reference_number,
-                draft_json,
-                email,
-                surname,
-                forenames,
-                status,
-                reference_email_sent_at,
-                created_at,
-                updated_at,
-                submitted_at
-             FROM application_drafts
-             WHERE status = 'DRAFT' AND submitted_at IS NULL
-             ORDER BY updated_at DESC`
-        );
-
-        const drafts = rows.map((row) => {
-            let parsedDraftJson: unknown = null;
-            try {
-                parsedDraftJson = row.draft_json ? JSON.parse(String(row.draft_json)) : null;
-            } catch {
-                parsedDraftJson = row.draft_json;
-            }
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
 
-            return {
-                id: row.id,
-                referenceNumber: row.reference_number,
-                email: row.email,
-                surname: row.surname,
-                forenames: row.forenames,
-                status: row.status,
-                referenceEmailSentAt: row.reference_email_sent_at,
-                createdAt: row.created_at,
-                updatedAt: row.updated_at,
-                submittedAt: row.submitted_at,
-                draftJson: parsedDraftJson,
-            };
+        const verified = isApplicant(req.user) || (await verifyApplicantIdentity(rows[0].id, 'withdraw', req.body));
+        if (!verified) {
+            return res.status(401).json({ message: 'Could not verify your identity' });
+        }
+
+        const result = await transitionApplicationStatus(pool, {
+            applicationId: rows[0].id,
+            toStatus: 'withdrawn',
+            actorType: 'applicant',
+            reason: ['Withdrawn by applicant', reason].filter(Boolean).join(' - '),
         });
 
         return res.status(200).json({
-            count: drafts.length,
-            drafts,
+            message: result.changed ? 'Application withdrawn' : 'Application is already withdrawn',
+            referenceNumber,
+            acceptedStatus: result.toStatus,
         });
     } catch (error) {
-        console.error('Error fetching application drafts:', error);
+        if (error instanceof StatusTransitionError) {
+            return res.status(409).json({ message: 'This application can no longer be withdrawn' });
+        }
+        console.error('Error withdrawing application:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/correction-requests:
+ *   post:
+ *     summary: Ask for a correction to personal details after submission (applicant)
+ *     description: >
+ *       Verified like /withdraw (surname + yearOfBirth, a one-time code with purpose correction,
+ *       or an applicant portal token).
+ *       Only fields that differ from the stored details are kept. Staff approve or reject the
+ *       request; approved changes are written to personal details. One pending request at a time.
+ *     tags: [Personal Details]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CorrectionRequest'
+ *     responses:
+ *       201:
+ *         description: Correction request recorded
+ *       400:
+ *         description: Nothing would change
+ *       401:
+ *         description: Identity could not be verified
+ *       404:
+ *         description: Application or personal details not found
+ *       409:
+ *         description: A correction request is already pending
+ *       422:
+ *         description: Validation failed; errors lists each invalid field
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/correction-requests', optionalApplicantAuth, validateBody(applicationSchemas.CorrectionRequest), async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const applicationId = rows[0].id;
+
+        const [details] = await pool.query<RowDataPacket[]>(
+            'SELECT * FROM personal_details WHERE application_id = ?',
+            [applicationId]
+        );
+        if (details.length === 0) {
+            return res.status(404).json({ message: 'Personal details not found' });
+        }
+
+        const verified = isApplicant(req.user) || (await verifyApplicantIdentity(applicationId, 'correction', req.body));
+        if (!verified) {
+            return res.status(401).json({ message: 'Could not verify your identity' });
+        }
+
+        const changes = pickChangedFields(details[0], req.body.changes);
+        if (!Object.keys(changes).length) {
+            return res.status(400).json({ message: 'The requested changes match the details already on file' });
+        }
+
+        const [pending] = await pool.query<RowDataPacket[]>(
+            "SELECT id FROM personal_detail_corrections WHERE application_id = ? AND status = 'pending'",
+            [applicationId]
+        );
+        if (pending.length > 0) {
+            return res.status(409).json({ message: 'A correction request is already pending for this application', correctionId: pending[0].id });
+        }
+
+        const [result] = await pool.query<OkPacket>(
+            'INSERT INTO personal_detail_corrections (application_id, changes, reason) VALUES (?, ?, ?)',
+            [applicationId, JSON.stringify(changes), req.body.reason.trim()]
+        );
+
+        return res.status(201).json({
+            message: 'Correction request submitted',
+            correctionId: result.insertId,
+            changes: buildCorrectionDiff(details[0], changes),
+        });
+    } catch (error) {
+        console.error('Error creating correction request:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
     }
 });
 
+// Pending requests are diffed against the live details; decided ones keep only the proposed values
+const withCorrectionDiffs = async (rows: RowDataPacket[]) => {
+    const applicationIds = [...new Set(rows.map((row) => row.application_id))];
+    const details = new Map<number, RowDataPacket>();
+    if (applicationIds.length) {
+        const [detailRows] = await pool.query<RowDataPacket[]>(
+            'SELECT * FROM personal_details WHERE application_id IN (?)',
+            [applicationIds]
+        );
+        detailRows.forEach((row) => details.set(row.application_id, row));
+    }
+
+    return rows.map((row) => ({
+        ...row,
+        changes: buildCorrectionDiff(
+            row.status === 'pending' ? details.get(row.application_id) : undefined,
+            parseCorrectionChanges(row.changes)
+        ),
+    }));
+};
 
 /**
  * @swagger
- * /api/v1/applications/{referenceNumber}/reject:
- *   patch:
- *     summary: Reject an application
+ * /api/v1/applications/correction-requests:
+ *   get:
+ *     summary: Personal-details correction requests awaiting a decision
+ *     tags: [Personal Details]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, all]
+ *           default: pending
+ *     responses:
+ *       200:
+ *         description: Correction requests with a field-by-field diff, oldest first
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/correction-requests', authenticateToken, async (req: Request, res: Response) => {
+    const status = String(req.query.status || 'pending');
+
+    try {
+        const filters: string[] = [];
+        const values: unknown[] = [];
+        if (status !== 'all') {
+            filters.push('c.status = ?');
+            values.push(status);
+        }
+
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT c.*, a.reference_number
+             FROM personal_detail_corrections c
+             JOIN applications a ON a.id = c.application_id
+             ${filters.length ? `WHERE ${filters.join(' AND ')}` : ''}
+             ORDER BY c.requested_at ASC`,
+            values
+        );
+        const corrections = await withCorrectionDiffs(rows);
+        return res.status(200).json(corrections);
+    } catch (error) {
+        console.error('Error fetching correction requests:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/correction-requests:
+ *   get:
+ *     summary: Correction requests for one application with a diff against the stored details
+ *     tags: [Personal Details]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Correction requests, newest first
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/correction-requests', authenticateToken, async (req: Request, res: Response) => {
+    try {
+        const [apps] = await pool.query<RowDataPacket[]>(
+            'SELECT id FROM applications WHERE reference_number = ?',
+            [req.params.referenceNumber]
+        );
+        if (apps.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT c.*, a.reference_number
+             FROM personal_detail_corrections c
+             JOIN applications a ON a.id = c.application_id
+             WHERE c.application_id = ?
+             ORDER BY c.requested_at DESC`,
+            [apps[0].id]
+        );
+        const corrections = await withCorrectionDiffs(rows);
+        return res.status(200).json(corrections);
+    } catch (error) {
+        console.error('Error fetching correction requests:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/correction-requests/{correctionId}/{decision}:
+ *   post:
+ *     summary: Approve or reject a personal-details correction request
+ *     description: Approving writes the proposed values to personal details. The applicant is emailed either way.
+ *     tags: [Personal Details]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: correctionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: decision
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [approve, reject]
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       400:
+ *         description: Invalid decision or missing note
+ *       404:
+ *         description: Correction request not found
+ *       409:
+ *         description: Request has already been decided
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/correction-requests/:correctionId/:decision', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber, correctionId, decision } = req.params;
+    if (decision !== 'approve' && decision !== 'reject') {
+        return res.status(400).json({ message: 'decision must be approve or reject' });
+    }
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+    if (decision === 'reject' && !note) {
+        return res.status(400).json({ message: 'A note is required when rejecting a correction request' });
+    }
+    const status: CorrectionStatus = decision === 'approve' ? 'approved' : 'rejected';
+
+    const connection = await pool.getConnection();
+    let correction: RowDataPacket;
+    try {
+        await connection.beginTransaction();
+
+        const [rows] = await connection.query<RowDataPacket[]>(
+            `SELECT c.*
+             FROM personal_detail_corrections c
+             JOIN applications a ON a.id = c.application_id
+             WHERE c.id = ? AND a.reference_number = ?
+             FOR UPDATE`,
+            [correctionId, referenceNumber]
+        );
+        correction = rows[0];
+        if (!correction) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Correction request not found' });
+        }
+        if (correction.status !== 'pending') {
+            await connection.rollback();
+            return res.status(409).json({ message: `Correction request has already been ${correction.status}` });
+        }
+
+        if (status === 'approved') {
+            await applyPersonalDetailsChanges(connection, correction.application_id, parseCorrectionChanges(correction.changes));
+        }
+        await connection.query(
+            `UPDATE personal_detail_corrections
+             SET status = ?, decided_by = ?, decided_at = NOW(), decision_note = ?
+             WHERE id = ?`,
+            [status, toNullableUserId(req.user?.id), note, correction.id]
+        );
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        console.error('Error deciding correction request:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+        connection.release();
+    }
+
+    const emailSent = await notifyCorrectionDecision({
+        applicationId: correction.application_id,
+        status,
+        note,
+    });
+
+    return res.status(200).json({
+        message: status === 'approved' ? 'Correction approved and applied' : 'Correction rejected',
+        correctionId: correction.id,
+        status,
+        emailSent,
+    });
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/completeness:
+ *   get:
+ *     summary: Show which wizard sections of an application are complete
  *     tags: [Applications]
  *     parameters:
  *       - in: path
@@ -1371,49 +4068,78 @@ router.get('/drafts', async (_req: Request, res: Response) => {
  *           type: string
  *     responses:
  *       200:
- *         description: Application rejected successfully
+ *         description: Per-section completeness and overall percentage
  *       404:
  *         description: Application not found
  *       500:
  *         description: Internal Server Error
  */
-const rejectApplication = async (req: Request, res: Response) => {
+router.get('/:referenceNumber/completeness', async (req: Request, res: Response) => {
     const { referenceNumber } = req.params;
 
     try {
         const [rows] = await pool.query<RowDataPacket[]>(
-            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            'SELECT * FROM applications WHERE reference_number = ?',
             [referenceNumber]
         );
-
         if (rows.length === 0) {
             return res.status(404).json({ message: 'Application not found' });
         }
 
-        const application = rows[0];
+        const completeness = await evaluateCompleteness(pool, rows[0]);
+        return res.status(200).json({ referenceNumber, ...completeness });
+    } catch (error) {
+        console.error('Error evaluating application completeness:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
 
-        if (application.accepted_status === 'rejected') {
-            return res.status(200).json({ message: 'Application already rejected' });
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/status-history:
+ *   get:
+ *     summary: Get the status transition history of an application
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current status, allowed next statuses and transition history
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/status-history', authenticateToken, async (req: Request, res: Response) => {
+    const { referenceNumber } = req.params;
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT id, accepted_status FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ message: 'Application not found' });
         }
 
-        await pool.query(
-            'UPDATE applications SET accepted_status = ? WHERE id = ?',
-            ['rejected', application.id]
-        );
+        const currentStatus = normalizeStatus(rows[0].accepted_status);
+        const history = await getStatusHistory(pool, rows[0].id);
 
         return res.status(200).json({
-            message: 'Application rejected successfully',
             referenceNumber,
-            acceptedStatus: 'rejected',
+            acceptedStatus: currentStatus,
+            allowedTransitions: allowedTransitions(currentStatus),
+            history,
         });
     } catch (error) {
-        console.error('Error rejecting application:', error);
+        console.error('Error fetching status history:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
     }
-};
-
-router.patch('/:referenceNumber/reject', rejectApplication);
-router.post('/:referenceNumber/reject', rejectApplication);
+});
 
 type OfferLetterRow = RowDataPacket & {
     id: number;
@@ -1455,14 +4181,6 @@ const safeTableMissing = (error: any) => {
     return Number(error?.errno) === 1146 || String(error?.code || '') === 'ER_NO_SUCH_TABLE';
 };
 
-const resolveUploadsDiskPath = (publicOrStoredPath: string) => {
-    const candidate = path.join(process.cwd(), String(publicOrStoredPath || '').replace(/^\//, ''));
-    const resolved = path.resolve(candidate);
-    const uploadsRoot = path.resolve(path.join(process.cwd(), 'uploads'));
-    if (!resolved.startsWith(uploadsRoot)) return null;
-    return resolved;
-};
-
 const getLatestOfferLetterForApplication = async (applicationId: number) => {
     const [rows] = await pool.query<OfferLetterRow[]>(
         `SELECT *
@@ -1487,6 +4205,18 @@ const getLatestOfferLetterForReferenceAndCode = async (referenceNumber: string,
     return rows[0] || null;
 };
 
+const getLatestOfferLetterForReference = async (referenceNumber: string) => {
+    const [rows] = await pool.query<OfferLetterRow[]>(
+        `SELECT *
+         FROM offer_letters
+         WHERE reference_number = ? AND latest = 1
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [referenceNumber],
+    );
+    return rows[0] || null;
+};
+
 const OFFER_LETTER_RESPONSES_TABLE = 'offer_letter_responses';
 const OFFER_LETTER_SIGNED_UPLOADS_TABLE = 'offer_letter_signed_uploads';
 
@@ -1530,7 +4260,13 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
  * /api/v1/applications/{referenceNumber}/full-details:
  *   get:
  *     summary: Get full application details including disabilities, education, work experience, etc.
+ *     description: >
+ *       Staff, or the applicant with their applicant token. Applicants do not see
+ *       eligibility, interview outcomes, scores and panels, or who uploaded and
+ *       verified their documents and where the files are stored.
  *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: referenceNumber
@@ -1540,13 +4276,18 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
  *     responses:
  *       200:
  *         description: Full application details retrieved successfully
+ *       401:
+ *         description: No token
+ *       403:
+ *         description: Applicant token for another application
  *       404:
  *         description: Application not found
  *       500:
  *         description: Internal Server Error
  */
-  router.get('/:referenceNumber/full-details', async (req, res) => {
+  router.get('/:referenceNumber/full-details', authenticateApplicant, async (req: AuthenticatedRequest, res: Response) => {
     const { referenceNumber } = req.params;
+    const applicant = isApplicant(req.user);
 
     try {
         const [appResult] = await pool.query<RowDataPacket[]>(
@@ -1575,11 +4316,15 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
             pool.query<RowDataPacket[]>('SELECT * FROM application_uploads WHERE application_id = ?', [applicationId])
         ]);
 
+        const eligibility = await evaluateEligibilityForApplications(pool, [
+            { id: applicationId, programme: application.programme },
+        ]);
+
         let offerLetter: OfferLetterRow | null = null;
         let offerLetterResponse: OfferLetterResponseRow | null = null;
         let signedOfferLetter: OfferLetterSignedUploadRow | null = null;
 
-        if (String(application.accepted_status || '').toLowerCase() === 'accepted') {
+        if (OFFER_STATUSES.includes(normalizeStatus(application.accepted_status))) {
             try {
                 offerLetter = await getLatestOfferLetterForApplication(applicationId);
                 if (offerLetter?.id) {
@@ -1591,6 +4336,58 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
             }
         }
 
+        let rejection: RowDataPacket | null = null;
+        if (normalizeStatus(application.accepted_status) === 'rejected') {
+            try {
+                const [rejectionRows] = await pool.query<RowDataPacket[]>(
+                    `SELECT r.reason_code, rr.label, rr.applicant_text, r.note, r.email_sent, r.created_at
+                     FROM application_rejections r
+                     LEFT JOIN rejection_reasons rr ON rr.code = r.reason_code
+                     WHERE r.application_id = ? AND r.latest = 1
+                     LIMIT 1`,
+                    [applicationId]
+                );
+                rejection = rejectionRows[0] || null;
+            } catch (error) {
+                if (!safeTableMissing(error)) throw error;
+            }
+        }
+
+        const offerConditions = await getOfferConditions(pool, applicationId);
+        const interview = await getApplicationInterview(pool, applicationId);
+        const programmeChoices = await getProgrammeChoices(pool, applicationId);
+        const referees = await getReferees(pool, applicationId);
+        const documents = await getApplicationDocuments(pool, applicationId);
+        const visibleDocuments = applicant
+            ? documents.map((document) => ({
+                  id: document.id,
+                  documentType: document.documentType,
+                  version: document.version,
+                  current: document.current,
+                  originalName: document.originalName,
+                  uploaderType: document.uploaderType,
+                  uploadedAt: document.uploadedAt,
+                  replacedAt: document.replacedAt,
+                  verification: {
+                      status: document.verification.status,
+                      reason: document.verification.reason,
+                      verifiedAt: document.verification.verifiedAt,
+                  },
+              }))
+            : documents;
+        const visibleInterview = applicant && interview
+            ? {
+                  id: interview.id,
+                  status: interview.status,
+                  invited_at: interview.invited_at,
+                  booked_at: interview.booked_at,
+                  starts_at: interview.starts_at,
+                  duration_minutes: interview.duration_minutes,
+                  location: interview.location,
+                  meeting_url: interview.meeting_url,
+              }
+            : interview;
+
         return res.status(200).json({
             referenceNumber: application.reference_number,
             starting_semester: application.starting_semester,
@@ -1606,6 +4403,22 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
                 nextOfKin: nextOfKinResult[0] || {},
                 academicSummary: academicSummaryResult[0] || {},
                 uploads: uploadsResult,
+                documents: groupDocumentVersions(visibleDocuments),
+                eligibility: applicant ? undefined : eligibility.get(applicationId) ?? null,
+                rejection: rejection
+                    ? {
+                          reasonCode: rejection.reason_code,
+                          reason: rejection.label,
+                          reasonText: rejection.applicant_text,
+                          note: rejection.note,
+                          emailSent: rejection.email_sent === 1,
+                          rejectedAt: rejection.created_at,
+                      }
+                    : null,
+                offerConditions,
+                interview: visibleInterview,
+                programmeChoices,
+                referees,
                 offerLetter: offerLetter
                     ? {
                           id: offerLetter.id,
@@ -1656,12 +4469,104 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
     }
 });
 
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/dossier.pdf:
+ *   get:
+ *     summary: Download the whole application as one PDF
+ *     description: >
+ *       Personal details, next of kin, disabilities, education and subjects, work experience,
+ *       the document checklist with verification status and the decision history, for
+ *       committee packs and audits. With `includeDocuments=true` the latest upload of each
+ *       document is added at the end: images as pages, and the pages of uploaded PDFs copied in.
+ *       Staff only, with the same campus restriction as document downloads; documents
+ *       included this way are recorded in the document access log.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDocuments
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: disposition
+ *         schema:
+ *           type: string
+ *           enum: [attachment, inline]
+ *           default: attachment
+ *     responses:
+ *       200:
+ *         description: Dossier PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: No token
+ *       403:
+ *         description: Application belongs to another campus
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/dossier.pdf', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const includeDocuments = ['1', 'true', 'yes'].includes(String(req.query.includeDocuments || '').toLowerCase());
+    const inline = req.query.disposition === 'inline';
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            'SELECT * FROM applications WHERE reference_number = ?',
+            [referenceNumber]
+        );
+        const application = rows[0];
+        if (!application) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        if (!canViewApplicationDocuments(req.user, { referenceNumber, satelliteCampus: application.satellite_campus })) {
+            return res.status(403).json({ message: 'You do not have access to applications for this campus' });
+        }
+
+        const dossier = await buildApplicationDossier(pool, application, { includeDocuments });
+        for (const document of dossier.appendedDocuments) {
+            await logDocumentAccess({
+                documentId: document.id,
+                applicationId: application.id,
+                user: req.user,
+                disposition: 'attachment',
+                req,
+            });
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Length', dossier.content.length);
+        res.setHeader('Content-Disposition', contentDisposition(dossier.fileName, inline));
+        res.setHeader('Cache-Control', 'private, no-store');
+        return res.status(200).send(dossier.content);
+    } catch (error) {
+        console.error('Error building application dossier:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
 /**
  * @swagger
  * /api/v1/applications/{referenceNumber}/offer-letter/download:
  *   get:
- *     summary: Download the latest offer letter (student, via verification code)
+ *     summary: Download the latest offer letter (student, via verification code or applicant token)
  *     tags: [Applications]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: referenceNumber
@@ -1670,7 +4575,7 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
  *           type: string
  *       - in: query
  *         name: code
- *         required: true
+ *         description: Not needed when an applicant token is sent
  *         schema:
  *           type: string
  *     responses:
@@ -1681,34 +4586,143 @@ const getLatestSignedOfferLetterUpload = async (offerLetterId: number) => {
  *       404:
  *         description: Offer letter not found
  */
-router.get('/:referenceNumber/offer-letter/download', async (req: Request, res: Response) => {
+router.get('/:referenceNumber/offer-letter/download', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
     const { referenceNumber } = req.params;
     const code = String(req.query.code || '').trim();
-    if (!code) return res.status(400).json({ message: 'Verification code is required' });
+    if (!code && !req.user) return res.status(400).json({ message: 'Verification code is required' });
 
     try {
-        const offerLetter = await getLatestOfferLetterForReferenceAndCode(referenceNumber, code);
+        const offerLetter = code
+            ? await getLatestOfferLetterForReferenceAndCode(referenceNumber, code)
+            : await getLatestOfferLetterForReference(referenceNumber);
         if (!offerLetter) return res.status(404).json({ message: 'Offer letter not found' });
 
-        const diskPath = resolveUploadsDiskPath(offerLetter.file_path);
-        if (!diskPath || !fs.existsSync(diskPath)) {
+        const fileName = typeof offerLetter.file_name === 'string' && offerLetter.file_name.trim() ? offerLetter.file_name : null;
+        const sent = await sendStoredFile(res, toStorageKey(offerLetter.file_path), { fileName });
+        if (!sent) {
             return res.status(404).json({ message: 'Offer letter file missing on server' });
         }
-
-        const fileName = typeof offerLetter.file_name === 'string' && offerLetter.file_name.trim() ? offerLetter.file_name : null;
-        return fileName ? res.download(diskPath, fileName) : res.download(diskPath);
+        return undefined;
     } catch (error) {
         console.error('Offer letter student download error:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
     }
 });
 
+/**
+ * @swagger
+ * /api/v1/applications/rejection-letter/verify:
+ *   get:
+ *     summary: Verify a regret letter by verification code
+ *     tags: [Applications]
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Regret letter is valid
+ *       400:
+ *         description: Missing code
+ *       404:
+ *         description: Regret letter not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/rejection-letter/verify', async (req: Request, res: Response) => {
+    const code = String(req.query.code || '').trim();
+    if (!code) return res.status(400).json({ message: 'Verification code is required' });
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT r.reference_number, r.created_at, r.latest, a.programme, a.starting_semester, a.satellite_campus
+             FROM application_rejections r
+             LEFT JOIN applications a ON a.id = r.application_id
+             WHERE r.verification_code = ?
+             LIMIT 1`,
+            [code]
+        );
+        if (!rows.length) return res.status(404).json({ message: 'Regret letter not found' });
+
+        const { latest, ...letter } = rows[0];
+        return res.status(200).json({
+            valid: true,
+            // A later decision on the same application supersedes this letter
+            current: latest === 1,
+            regretLetter: letter,
+        });
+    } catch (error) {
+        console.error('Regret letter verify error:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/applications/{referenceNumber}/rejection-letter/download:
+ *   get:
+ *     summary: Download the latest regret letter (applicant, via verification code or applicant token)
+ *     tags: [Applications]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         description: Not needed when an applicant token is sent
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Regret letter PDF downloaded
+ *       400:
+ *         description: Missing code
+ *       404:
+ *         description: Letter not found
+ */
+router.get('/:referenceNumber/rejection-letter/download', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
+    const { referenceNumber } = req.params;
+    const code = String(req.query.code || '').trim();
+    if (!code && !req.user) return res.status(400).json({ message: 'Verification code is required' });
+
+    try {
+        const [rows] = await pool.query<RowDataPacket[]>(
+            `SELECT file_name, file_path
+             FROM application_rejections
+             WHERE reference_number = ? AND latest = 1 ${code ? 'AND verification_code = ?' : ''}
+             LIMIT 1`,
+            code ? [referenceNumber, code] : [referenceNumber]
+        );
+        const letter = rows[0];
+        if (!letter?.file_path) return res.status(404).json({ message: 'Letter not found' });
+
+        const sent = await sendStoredFile(res, toStorageKey(letter.file_path), { fileName: letter.file_name });
+        if (!sent) {
+            return res.status(404).json({ message: 'Letter file missing on server' });
+        }
+        return undefined;
+    } catch (error) {
+        console.error('Regret letter download error:', error);
+        return res.status(500).json({ message: 'Internal Server Error' });
+    }
+});
+
 /**
  * @swagger
  * /api/v1/applications/{referenceNumber}/offer-letter/respond:
  *   post:
- *     summary: Accept or decline the latest offer letter (student, via verification code)
+ *     summary: Accept or decline the latest offer letter (student, via verification code or applicant token)
  *     tags: [Applications]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: referenceNumber
@@ -1721,13 +4735,14 @@ router.get('/:referenceNumber/offer-letter/download', async (req: Request, res:
  *         application/json:
  *           schema:
  *             type: object
- *             required: [decision, verificationCode]
+ *             required: [decision]
  *             properties:
  *               decision:
  *                 type: string
  *                 enum: [accepted, declined]
  *               verificationCode:
  *                 type: string
+ *                 description: Required unless an applicant token is sent
  *               skillsOfLifeChoice1:
  *                 type: string
  *                 description: First skills of life subject choice
@@ -1741,15 +4756,18 @@ router.get('/:referenceNumber/offer-letter/download', async (req: Request, res:
  *         description: Invalid input
  *       404:
  *         description: Offer letter not found
+ *       409:
+ *         description: The offer has already been answered, or can no longer be answered
  */
-router.post('/:referenceNumber/offer-letter/respond', async (req: Request, res: Response) => {
+router.post('/:referenceNumber/offer-letter/respond', optionalApplicantAuth, async (req: AuthenticatedRequest, res: Response) => {
     const { referenceNumber } = req.params;
     const decision = String(req.body?.decision || '').toLowerCase();
     const verificationCode = String(req.body?.verificationCode || req.body?.code || '').trim();
     const skillsOfLifeChoice1 = String(req.body?.skillsOfLifeChoice1 || '').trim() || null;
     const skillsOfLifeChoice2 = String(req.body?.skillsOfLifeChoice2 || '').trim() || null;
 
-    if (!verificationCode) return res.status(400).json({ message: 'verificationCode is required' });
+    // Only the applicant answers an offer: a staff token does not stand in for the code
+    if (!verificationCode && !isApplicant(req.user)) return res.status(400).json({ message: 'verificationCode is required' });
     if (decision !== 'accepted' && decision !== 'declined') {
         return res.status(400).json({ message: 'decision must be accepted or declined' });
     }
@@ -1765,11 +4783,28 @@ router.post('/:referenceNumber/offer-letter/respond', async (req: Request, res:
     }
 
     try {
-        const offerLetter = await getLatestOfferLetterForReferenceAndCode(referenceNumber, verificationCode);
+        const offerLetter = verificationCode
+            ? await getLatestOfferLetterForReferenceAndCode(referenceNumber, verificationCode)
+            : await getLatestOfferLetterForReference(referenceNumber);
         if (!offerLetter) return res.status(404).json({ message: 'Offer letter not found' });
 
+        // The status change and the saved response stand or fall together
+        const connection = await pool.getConnection();
         try {
-            await pool.query(
+            await connection.beginTransaction();
+            const transition = await transitionApplicationStatus(connection, {
+                applicationId: offerLetter.application_id,
+                toStatus: decision === 'accepted' ? 'offer_accepted' : 'offer_declined',
+                actorType: 'applicant',
+                reason: `Offer ${decision} by applicant`,
+            });
+            // A repeated answer must not record a second response or release the seat again
+            if (!transition.changed) {
+                await connection.rollback();
+                return res.status(409).json({ message: `This offer has already been ${decision}` });
+            }
+
+            await connection.query(
                 `INSERT INTO ${OFFER_LETTER_RESPONSES_TABLE}
                  (offer_letter_id, application_id, reference_number, student_number, decision,
                   skills_of_life_choice_1, skills_of_life_choice_2,
@@ -1787,13 +4822,29 @@ router.post('/:referenceNumber/offer-letter/respond', async (req: Request, res:
                     req.headers['user-agent'] ?? null,
                 ],
             );
+            await connection.commit();
         } catch (error) {
+            await connection.rollback();
+            if (error instanceof StatusTransitionError) {
+                return res.status(409).json({ message: error.message });
+            }
             if (safeTableMissing(error)) {
                 return res.status(500).json({
                     message: `Missing DB table '${OFFER_LETTER_RESPONSES_TABLE}'. Create it to store accept/decline responses.`,
                 });
             }
             throw error;
+        } finally {
+            connection.release();
+        }
+
+        if (decision === 'declined') {
+            // The applicant's response is already saved; a failed promotion must not undo it
+            try {
+                await releaseSeat({ applicationId: offerLetter.application_id, trigger: 'declined' });
+            } catch (error) {
+                console.error('Error promoting from waitlist after decline:', error);
+            }
         }
 
         return res.status(201).json({
@@ -1943,13 +4994,12 @@ router.get('/:referenceNumber/offer-letter/signed-download', async (req: Request
         const latestSigned = rows?.[0] ?? null;
         if (!latestSigned) return res.status(404).json({ message: 'Signed offer letter not uploaded yet' });
 
-        const diskPath = resolveUploadsDiskPath(latestSigned.file_path);
-        if (!diskPath || !fs.existsSync(diskPath)) {
+        const fileName = typeof latestSigned.file_name === 'string' && latestSigned.file_name.trim() ? latestSigned.file_name : null;
+        const sent = await sendStoredFile(res, toStorageKey(latestSigned.file_path), { fileName });
+        if (!sent) {
             return res.status(404).json({ message: 'Signed offer letter file missing on server' });
         }
-
-        const fileName = typeof latestSigned.file_name === 'string' && latestSigned.file_name.trim() ? latestSigned.file_name : null;
-        return fileName ? res.download(diskPath, fileName) : res.download(diskPath);
+        return undefined;
     } catch (error) {
         console.error('Signed offer letter download error:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
@@ -2029,12 +5079,29 @@ router.get('/admin/offer-letter/responses', authenticateToken, async (req: Reque
  *           type: string
  *           format: date
  *       - in: query
+ *         name: created_from
+ *         description: Applied on or after this date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: created_to
+ *         description: Applied on or before this date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
  *         name: accepted_status
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: eligibility_status
+ *         schema:
+ *           type: string
+ *           enum: [eligible, eligible_mature_entry, special_entry_review, not_eligible, no_requirements]
  *     responses:
  *       200:
- *         description: List of applications with paynow status and application fee amount
+ *         description: List of applications with paynow status, application fee amount and eligibility against the programme's entry requirements
  *         content:
  *           application/json:
  *             schema:
@@ -2050,50 +5117,22 @@ router.get('/admin/offer-letter/responses', authenticateToken, async (req: Reque
  *                     type: number
  *                     format: float
  *                     nullable: true
+ *                   eligibility:
+ *                     type: object
+ *                     nullable: true
+ *                     properties:
+ *                       status: { type: string }
+ *                       score: { type: integer, description: Percentage of entry rules met }
+ *                       checks: { type: array, items: { type: object } }
  *       500:
  *         description: Internal Server Error
  */
 
 router.get('/', async (req, res) => {
-    const {
-        reference_number,
-        starting_semester,
-        programme,
-        satellite_campus,
-        created_at,
-        accepted_status
-    } = req.query;
+    const { eligibility_status } = req.query;
 
     try {
-        const filters: string[] = [];
-        const values: any[] = [];
-
-        if (reference_number) {
-            filters.push('a.reference_number = ?');
-            values.push(reference_number);
-        }
-        if (starting_semester) {
-            filters.push('a.starting_semester = ?');
-            values.push(starting_semester);
-        }
-        if (programme) {
-            filters.push('a.programme = ?');
-            values.push(programme);
-        }
-        if (satellite_campus) {
-            filters.push('a.satellite_campus = ?');
-            values.push(satellite_campus);
-        }
-        if (created_at) {
-            filters.push('DATE(a.created_at) = ?');
-            values.push(created_at);
-        }
-        if (accepted_status) {
-            filters.push('a.accepted_status = ?');
-            values.push(accepted_status);
-        }
-
-        const whereClause = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+        const { whereClause, values } = buildApplicationListFilters(req.query);
 
         const query = `
             SELECT 
@@ -2113,108 +5152,129 @@ router.get('/', async (req, res) => {
 
         const [results] = await pool.query<RowDataPacket[]>(query, values);
 
-        return res.status(200).json(results);
+        const eligibility = await evaluateEligibilityForApplications(
+            pool,
+            results.map((row) => ({ id: row.id, programme: row.programme })),
+        );
+        const withEligibility = results.map((row) => ({
+            ...row,
+            eligibility: eligibility.get(row.id) ?? null,
+        }));
+
+        return res.status(200).json(
+            eligibility_status
+                ? withEligibility.filter((row) => row.eligibility?.status === eligibility_status)
+                : withEligibility,
+        );
     } catch (error) {
         console.error('Error fetching applications:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
     }
 });
 
-
-
 /**
  * @swagger
- * /api/v1/applications/download:
+ * /api/v1/applications/export:
  *   get:
- *     summary: Download a document by filename
- *     tags: [Documents]
+ *     summary: Export applications as CSV or XLSX
+ *     description: >
+ *       Takes the same filters as GET /api/v1/applications and streams one row per application,
+ *       so whole intakes can be exported. `columns` picks and orders the columns, as a
+ *       comma-separated list of `applications.*`, `personal_details.*` and `programme.*` keys,
+ *       for example `applications.reference_number,personal_details.surname,programme.name`.
+ *       Without it a default set of contact and application columns is exported.
+ *     tags: [Applications]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
- *         name: path
- *         required: true
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reference_number
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: starting_semester
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: programme
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: satellite_campus
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: created_at
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: created_from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: created_to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: accepted_status
  *         schema:
  *           type: string
- *         description: The filename of the document to download
  *     responses:
  *       200:
- *         description: File downloaded
+ *         description: The export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       400:
- *         description: Missing or invalid file path
- *       404:
- *         description: File not found
+ *         description: Unknown format or column
+ *       401:
+ *         description: No token
  *       500:
  *         description: Internal Server Error
  */
-const UPLOADS_DIR = path.join(__dirname, '..', 'uploads', 'documents');
-const UPLOADS_ROOT_DIR = path.join(process.cwd(), 'uploads');
-const EXTRA_UPLOADS_ROOTS = (process.env.UPLOADS_ROOTS || '')
-    .split(';')
-    .map((p) => p.trim())
-    .filter(Boolean);
-
-router.get('/download', async (req, res) => {
-    const { path: requestedPath } = req.query;
-
-    if (!requestedPath || typeof requestedPath !== 'string') {
-        return res.status(400).json({ message: 'Missing or invalid file path' });
-    }
-
-    const fileName = path.basename(requestedPath);
-
-    const resolveStoredPath = (storedPath: string) => {
-        if (!storedPath) return null;
-        const normalized = storedPath.replace(/\\/g, '/');
-        const candidate = path.isAbsolute(storedPath)
-            ? storedPath
-            : path.join(process.cwd(), normalized.replace(/^\//, ''));
-        const resolved = path.resolve(candidate);
-        const allowedRoots = [UPLOADS_ROOT_DIR, ...EXTRA_UPLOADS_ROOTS.map((p) => path.resolve(p))];
-        if (!allowedRoots.some((root) => resolved.startsWith(root))) return null;
-        return resolved;
-    };
+router.get('/export', authenticateToken, async (req: Request, res: Response) => {
+    const format = String(req.query.format || 'csv').toLowerCase();
+    if (!isExportFormat(format)) {
+        return res.status(400).json({ message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
 
     try {
-        // 1) If caller passes a full stored_path (e.g., /uploads/...), try it
-        let filePath = resolveStoredPath(requestedPath);
-
-        // 2) If not found, try DB lookup by stored_name or stored_path ending with filename
-        if (!filePath || !fs.existsSync(filePath)) {
-            const [rows] = await pool.query<RowDataPacket[]>(
-                `SELECT stored_path 
-                 FROM application_uploads 
-                 WHERE stored_name = ? OR stored_path LIKE ?
-                 ORDER BY created_at DESC
-                 LIMIT 1`,
-                [fileName, `%/${fileName}`]
-            );
-            if (rows.length > 0) {
-                const storedPath = String(rows[0].stored_path || '');
-                filePath = resolveStoredPath(storedPath);
-            }
-        }
-
-        // 3) Backwards compatibility: uploads/documents
-        if (!filePath || !fs.existsSync(filePath)) {
-            const legacyPath = path.join(UPLOADS_DIR, fileName);
-            if (fs.existsSync(legacyPath)) {
-                filePath = legacyPath;
-            }
+        const columns = parseExportColumns(req.query.columns);
+        const { whereClause, values } = buildApplicationListFilters(req.query);
+        await streamApplicationExport(res, { format, columns, where: whereClause, values });
+        return undefined;
+    } catch (error) {
+        if (error instanceof ExportError) {
+            return res.status(error.statusCode).json({ message: error.message });
         }
-
-        if (!filePath || !fs.existsSync(filePath)) {
-            return res.status(404).json({ message: 'File not found' });
+        console.error('Error exporting applications:', error);
+        // Too late for a status code; cut the download short so it is not mistaken for complete
+        if (res.headersSent) {
+            res.destroy();
+            return undefined;
         }
-
-        return res.download(filePath);
-    } catch (error) {
-        console.error('Error downloading file:', error);
         return res.status(500).json({ message: 'Internal Server Error' });
     }
 });
 
 
 
-
-  
-
 export default router;
@@ -0,0 +1,204 @@
+import { Router, Request, Response } from 'express';
+import pool from '../db';
+import { RowDataPacket } from 'mysql2';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '../middleware/authenticateToken';
+import { requireRole } from '../middleware/requireRole';
+import { StatusTransitionError } from '../utils/applicationStatus';
+import {
+  findDuplicateGroups,
+  MergeError,
+  mergeApplications,
+} from '../utils/duplicates';
+
+const router = Router();
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toUserId = (value: unknown) => {
+  const id = Number(value);
+  return Number.isFinite(id) ? id : null;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Duplicates
+ *   description: Detect applicants who started several applications and merge them
+ */
+
+/**
+ * @swagger
+ * /api/v1/duplicates:
+ *   get:
+ *     summary: Report groups of applications that look like the same person
+ *     description: >
+ *       Applications are grouped on matching national ID, passport number, email or phone
+ *       (ignoring formatting), or a close first name + surname match with the same date of birth.
+ *       Merged applications are left out.
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: referenceNumber
+ *         description: Only return the group containing this application
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Duplicate groups, each listing its applications and what matched
+ *       403:
+ *         description: Admins only
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const groups = await findDuplicateGroups(pool, {
+        referenceNumber: optionalString(req.query.referenceNumber),
+      });
+      return res.status(200).json({ total: groups.length, groups });
+    } catch (error) {
+      console.error('Error building duplicate report:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/duplicates/merges:
+ *   get:
+ *     summary: List merged reference numbers and the application they now resolve to
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Merge records, newest first
+ *       403:
+ *         description: Admins only
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/merges',
+  authenticateToken,
+  requireRole('admin'),
+  async (_req: Request, res: Response) => {
+    try {
+      const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT m.*, u.username AS merged_by_username
+         FROM application_merges m
+         LEFT JOIN users u ON u.id = m.merged_by
+         ORDER BY m.merged_at DESC, m.id DESC`,
+      );
+      return res.status(200).json(rows);
+    } catch (error) {
+      console.error('Error fetching application merges:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/duplicates/merge:
+ *   post:
+ *     summary: Merge duplicate applications into a surviving application
+ *     description: >
+ *       Documents, uploads and education rows of each duplicate move to the surviving
+ *       application. Duplicates are marked `merged` and their reference numbers keep
+ *       resolving to the survivor on every /applications/{referenceNumber} route.
+ *       Duplicates holding an offer cannot be merged.
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [survivingReference, duplicateReferences]
+ *             properties:
+ *               survivingReference:
+ *                 type: string
+ *               duplicateReferences:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Applications merged; moved lists the rows moved per table
+ *       400:
+ *         description: Missing or invalid references
+ *       403:
+ *         description: Admins only
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: An application cannot be merged from its current status
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/merge',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const survivingReference = optionalString(req.body?.survivingReference);
+    const duplicateReferences = Array.isArray(req.body?.duplicateReferences)
+      ? [
+          ...new Set(
+            req.body.duplicateReferences
+              .map(optionalString)
+              .filter(Boolean) as string[],
+          ),
+        ]
+      : [];
+    if (!survivingReference || !duplicateReferences.length) {
+      return res.status(400).json({
+        message: 'survivingReference and duplicateReferences are required',
+      });
+    }
+    if (duplicateReferences.includes(survivingReference)) {
+      return res.status(400).json({
+        message: 'The surviving application cannot also be a duplicate',
+      });
+    }
+
+    try {
+      const result = await mergeApplications({
+        survivingReference,
+        duplicateReferences,
+        actorId: toUserId(req.user?.id),
+        reason: optionalString(req.body?.reason) ?? null,
+      });
+      return res
+        .status(200)
+        .json({ message: 'Applications merged', ...result });
+    } catch (error) {
+      if (error instanceof MergeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error merging applications:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import {
+  StorageError,
+  getStorage,
+  normalizeStorageKey,
+  sendStoredFile,
+  verifyLocalSignedUrl,
+} from '../utils/fileStorage';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Files
+ *   description: Short-lived signed download links for stored files
+ */
+
+/**
+ * @swagger
+ * /api/v1/files/{key}:
+ *   get:
+ *     summary: Download a stored file through a signed link
+ *     description: >
+ *       Links are issued by the API (for example in document listings) and stop working
+ *       after a few minutes. Only used with local disk storage; with S3 storage the links
+ *       point at the object store directly.
+ *     tags: [Files]
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: documents/1733233846237-ab12cd34-identity-card.pdf
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: disposition
+ *         schema:
+ *           type: string
+ *           enum: [attachment, inline]
+ *     responses:
+ *       200:
+ *         description: File contents
+ *       403:
+ *         description: Link invalid or expired
+ *       404:
+ *         description: File not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  try {
+    const key = normalizeStorageKey(req.params[0]);
+    const signed =
+      getStorage().name === 'local'
+        ? verifyLocalSignedUrl(key, req.query)
+        : null;
+    if (!signed) {
+      return res
+        .status(403)
+        .json({ message: 'This download link is invalid or has expired' });
+    }
+
+    const sent = await sendStoredFile(res, key, signed);
+    if (!sent) return res.status(404).json({ message: 'File not found' });
+    return undefined;
+  } catch (error) {
+    if (error instanceof StorageError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error serving signed file:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+export default router;
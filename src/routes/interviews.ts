@@ -0,0 +1,856 @@
+import { Router, Request, Response } from 'express';
+import pool from '../db';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '../middleware/authenticateToken';
+import { requireRole } from '../middleware/requireRole';
+import {
+  bookInterviewSlot,
+  getApplicationInterview,
+  getSlotPanels,
+  INTERVIEW_OUTCOMES,
+  InterviewError,
+  inviteToInterview,
+  isInterviewOutcome,
+  isInterviewRequired,
+} from '../utils/interviews';
+import { resolveMergedReference } from '../utils/duplicates';
+
+const router = Router();
+
+router.param('referenceNumber', resolveMergedReference);
+
+const toUserId = (value: unknown) => {
+  const id = Number(value);
+  return Number.isFinite(id) ? id : null;
+};
+
+const parseUserIds = (value: unknown) =>
+  Array.isArray(value)
+    ? [...new Set(value.map(Number))].filter((id) => Number.isInteger(id))
+    : null;
+
+// Panel members must be existing staff accounts
+const findMissingUsers = async (userIds: number[]) => {
+  if (!userIds.length) return [];
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT id FROM users WHERE id IN (?)',
+    [userIds],
+  );
+  const found = new Set(rows.map((row) => Number(row.id)));
+  return userIds.filter((id) => !found.has(id));
+};
+
+const getApplicationByReference = async (referenceNumber: string) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT id, reference_number, programme, program_type FROM applications WHERE reference_number = ?',
+    [referenceNumber],
+  );
+  return rows[0] ?? null;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Interviews
+ *   description: Interview slots, panels, applicant booking and outcomes
+ */
+
+/**
+ * @swagger
+ * /api/v1/interviews/programmes:
+ *   get:
+ *     summary: Programmes that require an interview (PhD applications always do)
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Programme codes with interviews switched on
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/programmes',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT ip.programme_code, dp.name AS programme_name, ip.updated_at
+         FROM interview_programmes ip
+         LEFT JOIN department_programme dp ON dp.code = ip.programme_code
+         WHERE ip.is_required = 1
+         ORDER BY ip.programme_code`,
+      );
+      return res.status(200).json(rows);
+    } catch (error) {
+      console.error('Error fetching interview programmes:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/programmes/{code}:
+ *   put:
+ *     summary: Switch interviews on or off for a programme (admin only)
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [required]
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Setting saved
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/programmes/:code',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const required =
+      req.body?.required === true || req.body?.required === 'true' ? 1 : 0;
+
+    try {
+      const [programmes] = await pool.query<RowDataPacket[]>(
+        'SELECT code FROM department_programme WHERE code = ?',
+        [req.params.code],
+      );
+      if (!programmes.length) {
+        return res.status(404).json({ message: 'Programme not found' });
+      }
+
+      await pool.query(
+        `INSERT INTO interview_programmes (programme_code, is_required, updated_by)
+         VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE is_required = VALUES(is_required), updated_by = VALUES(updated_by)`,
+        [req.params.code, required, toUserId(req.user?.id)],
+      );
+      return res.status(200).json({
+        message: 'Interview setting saved',
+        programmeCode: req.params.code,
+        required: required === 1,
+      });
+    } catch (error) {
+      console.error('Error saving interview setting:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/slots:
+ *   get:
+ *     summary: List interview slots with bookings and panel members
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: programme
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only slots starting on or after this date (defaults to today)
+ *       - in: query
+ *         name: includeCancelled
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Interview slots
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/slots', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const filters = ['s.starts_at >= ?'];
+    const values: unknown[] = [
+      typeof req.query.from === 'string' && req.query.from
+        ? req.query.from
+        : new Date().toISOString().slice(0, 10),
+    ];
+    if (typeof req.query.programme === 'string' && req.query.programme) {
+      filters.push('s.programme_code = ?');
+      values.push(req.query.programme);
+    }
+    if (String(req.query.includeCancelled) !== 'true') {
+      filters.push('s.is_cancelled = 0');
+    }
+
+    const [slots] = await pool.query<RowDataPacket[]>(
+      `SELECT s.*,
+              (SELECT COUNT(*) FROM application_interviews ai
+               WHERE ai.slot_id = s.id AND ai.status IN ('booked', 'completed', 'no_show')) AS booked
+       FROM interview_slots s
+       WHERE ${filters.join(' AND ')}
+       ORDER BY s.starts_at ASC`,
+      values,
+    );
+    const panels = await getSlotPanels(
+      pool,
+      slots.map((slot) => slot.id),
+    );
+
+    return res.status(200).json(
+      slots.map((slot) => ({
+        ...slot,
+        booked: Number(slot.booked),
+        panel: panels.get(slot.id) ?? [],
+      })),
+    );
+  } catch (error) {
+    console.error('Error fetching interview slots:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/interviews/slots:
+ *   post:
+ *     summary: Create an interview slot for a programme
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [programme, startsAt]
+ *             properties:
+ *               programme:
+ *                 type: string
+ *                 description: Programme code
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2026-11-03T09:00:00+02:00
+ *               durationMinutes:
+ *                 type: integer
+ *                 default: 30
+ *               capacity:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Applicants that can be interviewed in this slot
+ *               location:
+ *                 type: string
+ *               meetingUrl:
+ *                 type: string
+ *               panelUserIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       201:
+ *         description: Slot created
+ *       400:
+ *         description: Invalid values or unknown panel members
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/slots',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const body = req.body ?? {};
+    const programme = String(body.programme ?? '').trim();
+    const startsAt = new Date(body.startsAt);
+    const durationMinutes =
+      body.durationMinutes == null ? 30 : Number(body.durationMinutes);
+    const capacity = body.capacity == null ? 1 : Number(body.capacity);
+    const panelUserIds = parseUserIds(body.panelUserIds ?? []);
+
+    if (!programme || Number.isNaN(startsAt.getTime())) {
+      return res
+        .status(400)
+        .json({ message: 'programme and a valid startsAt are required' });
+    }
+    if (
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes <= 0 ||
+      !Number.isInteger(capacity) ||
+      capacity <= 0
+    ) {
+      return res.status(400).json({
+        message: 'durationMinutes and capacity must be positive integers',
+      });
+    }
+    if (!panelUserIds) {
+      return res
+        .status(400)
+        .json({ message: 'panelUserIds must be an array of user ids' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+      const [programmes] = await connection.query<RowDataPacket[]>(
+        'SELECT code FROM department_programme WHERE code = ?',
+        [programme],
+      );
+      if (!programmes.length) {
+        return res.status(404).json({ message: 'Programme not found' });
+      }
+      const missing = await findMissingUsers(panelUserIds);
+      if (missing.length) {
+        return res
+          .status(400)
+          .json({ message: 'Unknown panel members', userIds: missing });
+      }
+
+      await connection.beginTransaction();
+      const [result] = await connection.query<OkPacket>(
+        `INSERT INTO interview_slots
+         (programme_code, starts_at, duration_minutes, capacity, location, meeting_url, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          programme,
+          startsAt,
+          durationMinutes,
+          capacity,
+          body.location ?? null,
+          body.meetingUrl ?? null,
+          toUserId(req.user?.id),
+        ],
+      );
+      if (panelUserIds.length) {
+        await connection.query(
+          'INSERT INTO interview_panel_members (slot_id, user_id) VALUES ?',
+          [panelUserIds.map((userId) => [result.insertId, userId])],
+        );
+      }
+      await connection.commit();
+
+      return res
+        .status(201)
+        .json({ message: 'Interview slot created', id: result.insertId });
+    } catch (error) {
+      await connection.rollback();
+      console.error('Error creating interview slot:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/slots/{id}/panel:
+ *   put:
+ *     summary: Replace the panel members of an interview slot
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userIds]
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       200:
+ *         description: Panel updated
+ *       400:
+ *         description: Invalid or unknown user ids
+ *       404:
+ *         description: Slot not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/slots/:id/panel',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const slotId = Number(req.params.id);
+    const userIds = parseUserIds(req.body?.userIds);
+    if (!userIds) {
+      return res
+        .status(400)
+        .json({ message: 'userIds must be an array of user ids' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+      const [slots] = await connection.query<RowDataPacket[]>(
+        'SELECT id FROM interview_slots WHERE id = ?',
+        [slotId],
+      );
+      if (!slots.length) {
+        return res.status(404).json({ message: 'Interview slot not found' });
+      }
+      const missing = await findMissingUsers(userIds);
+      if (missing.length) {
+        return res
+          .status(400)
+          .json({ message: 'Unknown panel members', userIds: missing });
+      }
+
+      await connection.beginTransaction();
+      await connection.query(
+        'DELETE FROM interview_panel_members WHERE slot_id = ?',
+        [slotId],
+      );
+      if (userIds.length) {
+        await connection.query(
+          'INSERT INTO interview_panel_members (slot_id, user_id) VALUES ?',
+          [userIds.map((userId) => [slotId, userId])],
+        );
+      }
+      await connection.commit();
+
+      const panels = await getSlotPanels(pool, [slotId]);
+      return res.status(200).json({
+        message: 'Interview panel updated',
+        panel: panels.get(slotId) ?? [],
+      });
+    } catch (error) {
+      await connection.rollback();
+      console.error('Error updating interview panel:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/slots/{id}:
+ *   delete:
+ *     summary: Cancel an interview slot that has no bookings
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Slot cancelled
+ *       404:
+ *         description: Slot not found
+ *       409:
+ *         description: Slot already has bookings
+ *       500:
+ *         description: Internal Server Error
+ */
+router.delete(
+  '/slots/:id',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const slotId = Number(req.params.id);
+    try {
+      const [bookings] = await pool.query<RowDataPacket[]>(
+        'SELECT COUNT(*) AS booked FROM application_interviews WHERE slot_id = ?',
+        [slotId],
+      );
+      if (Number(bookings[0].booked) > 0) {
+        return res.status(409).json({
+          message: 'Interview slot has bookings; move the applicants first',
+        });
+      }
+
+      const [result] = await pool.query<OkPacket>(
+        'UPDATE interview_slots SET is_cancelled = 1 WHERE id = ?',
+        [slotId],
+      );
+      if (!result.affectedRows) {
+        return res.status(404).json({ message: 'Interview slot not found' });
+      }
+      return res.status(200).json({ message: 'Interview slot cancelled' });
+    } catch (error) {
+      console.error('Error cancelling interview slot:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/{referenceNumber}:
+ *   get:
+ *     summary: Interview invitation, booking and outcome for an application
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Interview details (interview is null when not invited yet)
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/:referenceNumber',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const application = await getApplicationByReference(
+        req.params.referenceNumber,
+      );
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+
+      return res.status(200).json({
+        referenceNumber: application.reference_number,
+        required: await isInterviewRequired(pool, application),
+        interview: await getApplicationInterview(pool, application.id),
+      });
+    } catch (error) {
+      console.error('Error fetching interview:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/{referenceNumber}/invite:
+ *   post:
+ *     summary: Invite the applicant to book an interview
+ *     description: Issues a new booking code (older links stop working) and emails the booking link.
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation sent
+ *       404:
+ *         description: Application not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/:referenceNumber/invite',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const application = await getApplicationByReference(
+        req.params.referenceNumber,
+      );
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+
+      const invitation = await inviteToInterview({
+        applicationId: application.id,
+        invitedBy: toUserId(req.user?.id),
+      });
+      return res.status(200).json({
+        message: 'Interview invitation sent',
+        referenceNumber: application.reference_number,
+        bookingLink: invitation.bookingLink,
+        emailSent: invitation.emailSent,
+      });
+    } catch (error) {
+      console.error('Error inviting to interview:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/interviews/{referenceNumber}/slots:
+ *   get:
+ *     summary: Open interview slots the applicant can book (applicant, via booking code)
+ *     tags: [Interviews]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current booking and open slots
+ *       400:
+ *         description: Booking code missing
+ *       404:
+ *         description: Invitation not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:referenceNumber/slots', async (req: Request, res: Response) => {
+  const code = String(req.query.code || '').trim();
+  if (!code) {
+    return res.status(400).json({ message: 'Booking code is required' });
+  }
+
+  try {
+    const [interviews] = await pool.query<RowDataPacket[]>(
+      `SELECT ai.id, ai.status, ai.slot_id, a.programme
+       FROM application_interviews ai
+       JOIN applications a ON a.id = ai.application_id
+       WHERE a.reference_number = ? AND ai.booking_code = ?`,
+      [req.params.referenceNumber, code],
+    );
+    const interview = interviews[0];
+    if (!interview) {
+      return res
+        .status(404)
+        .json({ message: 'Interview invitation not found' });
+    }
+
+    const [slots] = await pool.query<RowDataPacket[]>(
+      `SELECT s.id, s.starts_at, s.duration_minutes, s.location, s.meeting_url
+       FROM interview_slots s
+       WHERE s.programme_code = ? AND s.is_cancelled = 0 AND s.starts_at > NOW()
+         AND (s.id = ? OR s.capacity > (
+           SELECT COUNT(*) FROM application_interviews ai
+           WHERE ai.slot_id = s.id AND ai.status = 'booked'))
+       ORDER BY s.starts_at ASC`,
+      [interview.programme, interview.slot_id],
+    );
+
+    return res.status(200).json({
+      referenceNumber: req.params.referenceNumber,
+      status: interview.status,
+      bookedSlotId: interview.slot_id,
+      slots,
+    });
+  } catch (error) {
+    console.error('Error fetching open interview slots:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/interviews/{referenceNumber}/book:
+ *   post:
+ *     summary: Book (or move) an interview slot (applicant, via booking code)
+ *     description: Emails a confirmation with an ICS calendar attachment.
+ *     tags: [Interviews]
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, slotId]
+ *             properties:
+ *               code:
+ *                 type: string
+ *               slotId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Interview booked
+ *       400:
+ *         description: Missing code or slot
+ *       404:
+ *         description: Invitation or slot not found
+ *       409:
+ *         description: Slot full or interview already held
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post('/:referenceNumber/book', async (req: Request, res: Response) => {
+  const code = String(req.body?.code || '').trim();
+  const slotId = Number(req.body?.slotId);
+  if (!code || !Number.isInteger(slotId)) {
+    return res.status(400).json({ message: 'code and slotId are required' });
+  }
+
+  try {
+    const { slot, emailSent } = await bookInterviewSlot({
+      referenceNumber: req.params.referenceNumber,
+      bookingCode: code,
+      slotId,
+    });
+    return res.status(200).json({
+      message: 'Interview booked',
+      referenceNumber: req.params.referenceNumber,
+      slot: {
+        id: slot.id,
+        startsAt: slot.starts_at,
+        durationMinutes: slot.duration_minutes,
+        location: slot.location,
+        meetingUrl: slot.meeting_url,
+      },
+      emailSent,
+    });
+  } catch (error) {
+    if (error instanceof InterviewError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error booking interview:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/interviews/{referenceNumber}/outcome:
+ *   put:
+ *     summary: Record the interview outcome and score
+ *     tags: [Interviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: referenceNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               attended:
+ *                 type: boolean
+ *                 default: true
+ *                 description: false records a no-show
+ *               outcome:
+ *                 type: string
+ *                 enum: [pass, fail, reserve]
+ *               score:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Outcome recorded
+ *       400:
+ *         description: Invalid outcome or score
+ *       404:
+ *         description: Application or interview not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:referenceNumber/outcome',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attended = req.body?.attended !== false;
+    const outcome = attended ? req.body?.outcome : null;
+    const score =
+      attended && req.body?.score != null ? Number(req.body.score) : null;
+
+    if (attended && !isInterviewOutcome(outcome)) {
+      return res.status(400).json({
+        message: `outcome must be one of: ${INTERVIEW_OUTCOMES.join(', ')}`,
+      });
+    }
+    if (score !== null && (Number.isNaN(score) || score < 0 || score > 100)) {
+      return res
+        .status(400)
+        .json({ message: 'score must be between 0 and 100' });
+    }
+
+    try {
+      const application = await getApplicationByReference(
+        req.params.referenceNumber,
+      );
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+
+      const [result] = await pool.query<OkPacket>(
+        `UPDATE application_interviews
+         SET status = ?, outcome = ?, score = ?, notes = ?, recorded_by = ?, recorded_at = NOW()
+         WHERE application_id = ?`,
+        [
+          attended ? 'completed' : 'no_show',
+          outcome,
+          score,
+          typeof req.body?.notes === 'string' ? req.body.notes : null,
+          toUserId(req.user?.id),
+          application.id,
+        ],
+      );
+      if (!result.affectedRows) {
+        return res
+          .status(404)
+          .json({ message: 'Applicant has not been invited to interview' });
+      }
+
+      return res.status(200).json({
+        message: 'Interview outcome recorded',
+        interview: await getApplicationInterview(pool, application.id),
+      });
+    } catch (error) {
+      console.error('Error recording interview outcome:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
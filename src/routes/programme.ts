@@ -5,13 +5,17 @@ import { User } from '../models/user';
 import jwt from 'jsonwebtoken';
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
-import { authenticateToken } from '../middleware/authenticateToken';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/authenticateToken';
 import { RowDataPacket, OkPacket } from 'mysql2';
 import config from '../config';
 import fs from 'fs';
 import multer from 'multer';
 import path from 'path';
 import { Request, Response } from 'express';
+import { toEntryRequirements } from '../utils/eligibility';
+import { getRubric } from '../utils/reviews';
+import { requireRole } from '../middleware/requireRole';
+import { getCapacitySummaries } from '../utils/capacity';
 
 dotenv.config();
 
@@ -99,7 +103,10 @@ type ProgrammeRow = RowDataPacket & {
  *         description: Page size
  *     responses:
  *       200:
- *         description: Programmes retrieved successfully
+ *         description: |
+ *           Programmes retrieved successfully. Each programme carries a `capacity` list with
+ *           seats, taken and remaining per satellite campus and starting semester, and per
+ *           local/foreign quota where one is set. An empty list means no seat limit.
  *       500:
  *         description: Internal Server Error
  */
@@ -160,12 +167,14 @@ router.get('/programmes', async (req: Request, res: Response) => {
       [...params, limitNum, offset]
     );
 
+    const capacities = await getCapacitySummaries(pool, rows);
+
     return res.status(200).json({
       page: pageNum,
       limit: limitNum,
       total,
       totalPages: Math.ceil(total / limitNum),
-      data: rows,
+      data: rows.map((row) => ({ ...row, capacity: capacities.get(row.id) ?? [] })),
     });
   } catch (error) {
     console.error('Error fetching programmes:', error);
@@ -254,6 +263,590 @@ router.get('/code/:code', async (req: Request, res: Response) => {
   }
 });
 
+const ENTRY_REQUIREMENT_FIELDS = [
+  'min_o_level_passes',
+  'min_a_level_passes',
+  'min_a_level_points',
+  'mature_entry_min_age',
+] as const;
+
+const DEFAULT_ENTRY_REQUIREMENTS = {
+  min_o_level_passes: 5,
+  required_o_level_subjects: ['English Language', 'Mathematics'],
+  min_a_level_passes: 0,
+  min_a_level_points: 0,
+  required_a_level_subjects: [] as string[],
+  mature_entry_min_age: 25,
+  notes: null as string | null,
+};
+
+const getEntryRequirements = async (programmeId: number) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT * FROM programme_entry_requirements WHERE programme_id = ?',
+    [programmeId]
+  );
+  return rows.length
+    ? { ...toEntryRequirements(rows[0]), notes: rows[0].notes as string | null, updated_at: rows[0].updated_at }
+    : null;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EntryRequirementsRequest:
+ *       type: object
+ *       description: Fields are optional; missing fields keep their current (or default) value
+ *       properties:
+ *         min_o_level_passes: { type: integer, example: 5 }
+ *         required_o_level_subjects:
+ *           type: array
+ *           items: { type: string }
+ *           example: ["English Language", "Mathematics"]
+ *         min_a_level_passes: { type: integer, example: 2 }
+ *         min_a_level_points: { type: integer, example: 8, description: "A=5, B=4, C=3, D=2, E=1" }
+ *         required_a_level_subjects:
+ *           type: array
+ *           items: { type: string }
+ *         mature_entry_min_age: { type: integer, example: 25 }
+ *         notes: { type: string, nullable: true }
+ *         mature_entry: { type: boolean, description: "Updates department_programme.mature_entry" }
+ *         special_entry: { type: boolean, description: "Updates department_programme.special_entry" }
+ */
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/entry-requirements:
+ *   get:
+ *     summary: Get the entry requirements of a programme
+ *     tags: [Programmes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Entry requirements (null when none are configured) plus the mature/special entry flags
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:id/entry-requirements', async (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+    const [programmes] = await pool.query<ProgrammeRow[]>(
+      'SELECT id, code, name, mature_entry, special_entry FROM department_programme WHERE id = ?',
+      [id]
+    );
+    if (programmes.length === 0) {
+      return res.status(404).json({ message: 'Programme not found' });
+    }
+
+    return res.status(200).json({
+      programme: programmes[0],
+      requirements: await getEntryRequirements(id),
+    });
+  } catch (error) {
+    console.error('Error fetching entry requirements:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/entry-requirements:
+ *   put:
+ *     summary: Create or update the entry requirements of a programme
+ *     tags: [Programmes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EntryRequirementsRequest'
+ *     responses:
+ *       200:
+ *         description: Entry requirements saved
+ *       400:
+ *         description: Invalid id / invalid values
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:id/entry-requirements',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+      const body = req.body ?? {};
+
+      const [programmes] = await pool.query<ProgrammeRow[]>(
+        'SELECT id FROM department_programme WHERE id = ?',
+        [id]
+      );
+      if (programmes.length === 0) {
+        return res.status(404).json({ message: 'Programme not found' });
+      }
+
+      const current = (await getEntryRequirements(id)) ?? DEFAULT_ENTRY_REQUIREMENTS;
+      const values: Record<string, unknown> = {
+        min_o_level_passes: current.min_o_level_passes,
+        min_a_level_passes: current.min_a_level_passes,
+        min_a_level_points: current.min_a_level_points,
+        mature_entry_min_age: current.mature_entry_min_age,
+      };
+
+      for (const field of ENTRY_REQUIREMENT_FIELDS) {
+        if (body[field] == null) continue;
+        const value = Number(body[field]);
+        if (!Number.isInteger(value) || value < 0) {
+          return res.status(400).json({ message: `${field} must be a non-negative integer` });
+        }
+        values[field] = value;
+      }
+
+      for (const field of ['required_o_level_subjects', 'required_a_level_subjects'] as const) {
+        const list = body[field] ?? current[field];
+        if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+          return res.status(400).json({ message: `${field} must be an array of subject names` });
+        }
+        values[field] = JSON.stringify(list.map((item: string) => item.trim()).filter(Boolean));
+      }
+
+      if (body.notes != null && (typeof body.notes !== 'string' || body.notes.length > 500)) {
+        return res.status(400).json({ message: 'notes must be text of at most 500 characters' });
+      }
+      values.notes = body.notes !== undefined ? body.notes : current.notes ?? null;
+      values.updated_by = req.user?.id ?? null;
+
+      await pool.query(
+        `INSERT INTO programme_entry_requirements SET programme_id = ?, ?
+         ON DUPLICATE KEY UPDATE ?`,
+        [id, values, values]
+      );
+
+      const flags: Record<string, number> = {};
+      for (const key of ['mature_entry', 'special_entry']) {
+        if (body[key] != null) {
+          flags[key] = body[key] === true || body[key] === 1 || body[key] === '1' ? 1 : 0;
+        }
+      }
+      if (Object.keys(flags).length) {
+        await pool.query('UPDATE department_programme SET ? WHERE id = ?', [flags, id]);
+      }
+
+      return res.status(200).json({
+        message: 'Entry requirements saved successfully',
+        requirements: await getEntryRequirements(id),
+      });
+    } catch (error) {
+      console.error('Error saving entry requirements:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/review-rubric:
+ *   get:
+ *     summary: Get the scoring rubric reviewers use for a programme
+ *     tags: [Programmes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rubric criteria (the default rubric when the programme has none)
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:id/review-rubric', async (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+    const [programmes] = await pool.query<ProgrammeRow[]>(
+      'SELECT id, code FROM department_programme WHERE id = ?',
+      [id]
+    );
+    if (programmes.length === 0) {
+      return res.status(404).json({ message: 'Programme not found' });
+    }
+
+    const [custom] = await pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) AS total FROM review_rubric_criteria WHERE programme_id = ?',
+      [id]
+    );
+    const rubric = await getRubric(pool, programmes[0].code);
+
+    return res.status(200).json({
+      programmeId: id,
+      isDefault: Number(custom[0]?.total ?? 0) === 0,
+      criteria: rubric.criteria,
+    });
+  } catch (error) {
+    console.error('Error fetching review rubric:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/review-rubric:
+ *   put:
+ *     summary: Replace the scoring rubric of a programme
+ *     description: Send an empty criteria list to go back to the default rubric.
+ *     tags: [Programmes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [criteria]
+ *             properties:
+ *               criteria:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [key, label]
+ *                   properties:
+ *                     key: { type: string, example: "academic_record" }
+ *                     label: { type: string, example: "Academic record" }
+ *                     description: { type: string, nullable: true }
+ *                     maxScore: { type: integer, example: 10 }
+ *                     weight: { type: number, example: 1 }
+ *     responses:
+ *       200:
+ *         description: Rubric saved
+ *       400:
+ *         description: Invalid criteria
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:id/review-rubric',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+    const criteria = req.body?.criteria;
+    if (!Array.isArray(criteria)) {
+      return res.status(400).json({ message: 'criteria must be an array' });
+    }
+
+    const rows: unknown[][] = [];
+    const keys = new Set<string>();
+    for (const [index, item] of criteria.entries()) {
+      const key = String(item?.key ?? '').trim().toLowerCase();
+      const label = String(item?.label ?? '').trim();
+      const maxScore = item?.maxScore == null ? 10 : Number(item.maxScore);
+      const weight = item?.weight == null ? 1 : Number(item.weight);
+
+      if (!/^[a-z0-9_]{1,50}$/.test(key) || !label) {
+        return res.status(400).json({
+          message: `criteria[${index}] needs a key (letters, digits, underscores) and a label`,
+        });
+      }
+      if (keys.has(key)) {
+        return res.status(400).json({ message: `Duplicate criterion key '${key}'` });
+      }
+      if (!Number.isInteger(maxScore) || maxScore <= 0 || !(weight > 0)) {
+        return res.status(400).json({
+          message: `criteria[${index}] maxScore and weight must be positive`,
+        });
+      }
+      keys.add(key);
+      rows.push([id, key, label, item?.description ?? null, maxScore, weight, index]);
+    }
+
+    const connection = await pool.getConnection();
+    try {
+      const [programmes] = await connection.query<ProgrammeRow[]>(
+        'SELECT id, code FROM department_programme WHERE id = ?',
+        [id]
+      );
+      if (programmes.length === 0) {
+        return res.status(404).json({ message: 'Programme not found' });
+      }
+
+      await connection.beginTransaction();
+      await connection.query('DELETE FROM review_rubric_criteria WHERE programme_id = ?', [id]);
+      if (rows.length) {
+        await connection.query(
+          `INSERT INTO review_rubric_criteria
+           (programme_id, criterion_key, label, description, max_score, weight, sort_order)
+           VALUES ?`,
+          [rows]
+        );
+      }
+      await connection.commit();
+
+      const rubric = await getRubric(pool, programmes[0].code);
+      return res.status(200).json({
+        message: 'Review rubric saved successfully',
+        isDefault: rows.length === 0,
+        criteria: rubric.criteria,
+      });
+    } catch (error) {
+      await connection.rollback();
+      console.error('Error saving review rubric:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/capacity:
+ *   get:
+ *     summary: Seats per satellite campus and starting semester, with seats remaining
+ *     tags: [Programmes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Capacity entries (empty when the programme has no seat limit)
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:id/capacity', async (req: Request, res: Response) => {
+  try {
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+    const [programmes] = await pool.query<ProgrammeRow[]>(
+      'SELECT id, code, name FROM department_programme WHERE id = ?',
+      [id]
+    );
+    if (programmes.length === 0) {
+      return res.status(404).json({ message: 'Programme not found' });
+    }
+
+    const capacities = await getCapacitySummaries(pool, programmes);
+    return res.status(200).json({
+      programme: programmes[0],
+      capacity: capacities.get(id) ?? [],
+    });
+  } catch (error) {
+    console.error('Error fetching programme capacity:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/capacity:
+ *   put:
+ *     summary: Set the seats for one satellite campus and starting semester (admin only)
+ *     description: |
+ *       localSeats and foreignSeats are optional sub-quotas. Applicants are counted as
+ *       foreign by citizenship, the same split used for programme_fee and foreign_fee.
+ *     tags: [Programmes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [satelliteCampus, startingSemester, totalSeats]
+ *             properties:
+ *               satelliteCampus:
+ *                 type: string
+ *               startingSemester:
+ *                 type: string
+ *               totalSeats:
+ *                 type: integer
+ *                 example: 60
+ *               localSeats:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 50
+ *               foreignSeats:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 10
+ *     responses:
+ *       200:
+ *         description: Capacity saved
+ *       400:
+ *         description: Invalid id / invalid values
+ *       404:
+ *         description: Programme not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:id/capacity',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const id = Number(req.params.id);
+    if (Number.isNaN(id)) return res.status(400).json({ message: 'Invalid id' });
+
+    const body = req.body ?? {};
+    const satelliteCampus = String(body.satelliteCampus ?? '').trim();
+    const startingSemester = String(body.startingSemester ?? '').trim();
+    if (!satelliteCampus || !startingSemester) {
+      return res.status(400).json({ message: 'satelliteCampus and startingSemester are required' });
+    }
+
+    const seats: Record<string, number | null> = {};
+    for (const [field, column] of [
+      ['totalSeats', 'total_seats'],
+      ['localSeats', 'local_seats'],
+      ['foreignSeats', 'foreign_seats'],
+    ]) {
+      if (body[field] == null) {
+        seats[column] = null;
+        continue;
+      }
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value < 0) {
+        return res.status(400).json({ message: `${field} must be a non-negative integer` });
+      }
+      seats[column] = value;
+    }
+    if (seats.total_seats == null) {
+      return res.status(400).json({ message: 'totalSeats is required' });
+    }
+    if ((seats.local_seats ?? 0) + (seats.foreign_seats ?? 0) > seats.total_seats) {
+      return res.status(400).json({ message: 'localSeats and foreignSeats cannot exceed totalSeats' });
+    }
+
+    try {
+      const [programmes] = await pool.query<ProgrammeRow[]>(
+        'SELECT id, code FROM department_programme WHERE id = ?',
+        [id]
+      );
+      if (programmes.length === 0) {
+        return res.status(404).json({ message: 'Programme not found' });
+      }
+
+      const values = { ...seats, updated_by: req.user?.id ?? null };
+      await pool.query(
+        `INSERT INTO programme_capacities
+         SET programme_id = ?, satellite_campus = ?, starting_semester = ?, ?
+         ON DUPLICATE KEY UPDATE ?`,
+        [id, satelliteCampus, startingSemester, values, values]
+      );
+
+      const capacities = await getCapacitySummaries(pool, programmes);
+      return res.status(200).json({
+        message: 'Capacity saved successfully',
+        capacity: capacities.get(id) ?? [],
+      });
+    } catch (error) {
+      console.error('Error saving programme capacity:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/programmes/{id}/capacity/{capacityId}:
+ *   delete:
+ *     summary: Remove the seat limit for one campus and intake (admin only)
+ *     tags: [Programmes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: capacityId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Capacity removed
+ *       404:
+ *         description: Capacity entry not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.delete(
+  '/:id/capacity/:capacityId',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const [result] = await pool.query<OkPacket>(
+        'DELETE FROM programme_capacities WHERE id = ? AND programme_id = ?',
+        [Number(req.params.capacityId), Number(req.params.id)]
+      );
+      if (!result.affectedRows) {
+        return res.status(404).json({ message: 'Capacity entry not found' });
+      }
+      return res.status(200).json({ message: 'Capacity removed successfully' });
+    } catch (error) {
+      console.error('Error removing programme capacity:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  }
+);
+
 /**
  * @swagger
  * components:
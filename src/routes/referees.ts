@@ -0,0 +1,194 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import {
+  REFERENCE_RECOMMENDATIONS,
+  RefereeError,
+  findRefereeInvitation,
+  parseReferenceForm,
+  submitReference,
+} from '../utils/referees';
+import { MAX_UPLOAD_BYTES, UPLOAD_RULES } from '../utils/uploadInspection';
+import {
+  handleUploadErrors,
+  screenUploads,
+  tempUploadStorage,
+} from '../middleware/screenUploads';
+import {
+  STORAGE_AREAS,
+  getStorage,
+  moveUploadToStorage,
+} from '../utils/fileStorage';
+
+const router = Router();
+
+const upload = multer({
+  storage: tempUploadStorage,
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Referees
+ *   description: One-time links referees use to send a reference for a postgraduate or PhD applicant
+ */
+
+/**
+ * @swagger
+ * /api/v1/referees/{token}:
+ *   get:
+ *     summary: Show who a reference link is for and the questions on the reference form
+ *     tags: [Referees]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Applicant, programme and form questions
+ *       404:
+ *         description: Link invalid, expired or already used
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const invitation = await findRefereeInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({
+        message:
+          'This reference link is invalid, has expired or has already been used',
+      });
+    }
+    return res.status(200).json({
+      referee: invitation.name,
+      applicant:
+        `${invitation.first_names ?? ''} ${invitation.surname ?? ''}`.trim(),
+      referenceNumber: invitation.reference_number,
+      programme: invitation.programme_name || invitation.programme,
+      relationship: invitation.relationship,
+      expiresAt: invitation.token_expires_at,
+      letter: {
+        field: 'letter',
+        accepts: UPLOAD_RULES.reference_letter.kinds,
+        maxBytes: UPLOAD_RULES.reference_letter.maxBytes,
+      },
+      form: {
+        knownSince: 'How long have you known the applicant?',
+        capacity: 'In what capacity do you know the applicant?',
+        strengths: "The applicant's academic and professional strengths",
+        concerns: 'Any concerns about the applicant (optional)',
+        recommendation: REFERENCE_RECOMMENDATIONS,
+        comments: 'Anything else you would like to add (optional)',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching referee invitation:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/referees/{token}:
+ *   post:
+ *     summary: Submit a reference (once) as an uploaded letter or the short form
+ *     description: >
+ *       Send either a `letter` file (PDF or Word, up to 10 MB) or the form fields. The link
+ *       stops working once a reference has been received.
+ *     tags: [Referees]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               letter:
+ *                 type: string
+ *                 format: binary
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [knownSince, capacity, strengths, recommendation]
+ *             properties:
+ *               knownSince:
+ *                 type: string
+ *               capacity:
+ *                 type: string
+ *               strengths:
+ *                 type: string
+ *               concerns:
+ *                 type: string
+ *               recommendation:
+ *                 type: string
+ *                 enum: [strongly_recommend, recommend, recommend_with_reservations, do_not_recommend]
+ *               comments:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Reference received
+ *       404:
+ *         description: Link invalid, expired or already used
+ *       413:
+ *         description: Letter larger than 10 MB
+ *       415:
+ *         description: Letter is not a PDF or Word document
+ *       422:
+ *         description: No letter and an incomplete form, or the letter failed the virus scan
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/:token',
+  handleUploadErrors(upload.single('letter')),
+  screenUploads(() => 'reference_letter'),
+  async (req: Request, res: Response) => {
+    const letter = req.file;
+    const form = letter ? null : parseReferenceForm(req.body ?? {});
+    if (typeof form === 'string') {
+      return res.status(422).json({
+        message: `Upload a letter or complete the form: ${form}`,
+      });
+    }
+
+    let letterKey: string | null = null;
+    try {
+      if (letter) {
+        letterKey = await moveUploadToStorage(letter, STORAGE_AREAS.references);
+      }
+      await submitReference({
+        token: req.params.token,
+        letter:
+          letter && letterKey
+            ? { fileName: letter.originalname, storageKey: letterKey }
+            : null,
+        form,
+      });
+      return res
+        .status(201)
+        .json({ message: 'Thank you, your reference has been received' });
+    } catch (error) {
+      if (letterKey) {
+        await getStorage()
+          .remove(letterKey)
+          .catch(() => undefined);
+      }
+      if (error instanceof RefereeError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error('Error saving reference:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
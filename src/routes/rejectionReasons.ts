@@ -0,0 +1,245 @@
+import { Router, Request, Response } from 'express';
+import pool from '../db';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import { authenticateToken } from '../middleware/authenticateToken';
+import { requireRole } from '../middleware/requireRole';
+import { normalizeReasonCode } from '../utils/rejections';
+
+const router = Router();
+
+const CODE_PATTERN = /^[A-Z0-9_]{2,50}$/;
+
+const trimmed = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : '';
+
+/**
+ * @swagger
+ * tags:
+ *   name: RejectionReasons
+ *   description: Catalogue of reasons used when rejecting applications
+ */
+
+/**
+ * @swagger
+ * /api/v1/rejection-reasons:
+ *   get:
+ *     summary: List rejection reasons
+ *     tags: [RejectionReasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Rejection reasons
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const includeInactive = String(req.query.includeInactive) === 'true';
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM rejection_reasons
+       ${includeInactive ? '' : 'WHERE is_active = 1'}
+       ORDER BY label ASC`,
+    );
+    return res.status(200).json(rows);
+  } catch (error) {
+    console.error('Error fetching rejection reasons:', error);
+    return res.status(500).json({ message: 'Internal Server Error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/rejection-reasons:
+ *   post:
+ *     summary: Add a rejection reason (admin only)
+ *     tags: [RejectionReasons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, label, applicantText]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: LATE_APPLICATION
+ *               label:
+ *                 type: string
+ *                 example: Late application
+ *               applicantText:
+ *                 type: string
+ *                 description: Sentence shown to the applicant in the regret letter and email
+ *     responses:
+ *       201:
+ *         description: Rejection reason created
+ *       400:
+ *         description: Missing or invalid fields
+ *       409:
+ *         description: Code already exists
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    const code = normalizeReasonCode(req.body?.code);
+    const label = trimmed(req.body?.label);
+    const applicantText = trimmed(req.body?.applicantText);
+
+    if (!CODE_PATTERN.test(code) || !label || !applicantText) {
+      return res.status(400).json({
+        message:
+          'code (letters, digits, underscores), label and applicantText are required',
+      });
+    }
+
+    try {
+      await pool.query<OkPacket>(
+        'INSERT INTO rejection_reasons (code, label, applicant_text) VALUES (?, ?, ?)',
+        [code, label, applicantText],
+      );
+      return res
+        .status(201)
+        .json({ message: 'Rejection reason created', code });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ER_DUP_ENTRY') {
+        return res
+          .status(409)
+          .json({ message: 'Rejection reason code already exists' });
+      }
+      console.error('Error creating rejection reason:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/rejection-reasons/{code}:
+ *   put:
+ *     summary: Update or reactivate a rejection reason (admin only)
+ *     tags: [RejectionReasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               applicantText:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Rejection reason updated
+ *       400:
+ *         description: No valid fields provided
+ *       404:
+ *         description: Rejection reason not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:code',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    const updates: Record<string, unknown> = {};
+    if (trimmed(req.body?.label)) updates.label = trimmed(req.body.label);
+    if (trimmed(req.body?.applicantText)) {
+      updates.applicant_text = trimmed(req.body.applicantText);
+    }
+    if (req.body?.isActive !== undefined) {
+      updates.is_active =
+        req.body.isActive === true || req.body.isActive === 'true' ? 1 : 0;
+    }
+
+    if (!Object.keys(updates).length) {
+      return res
+        .status(400)
+        .json({ message: 'No valid fields provided to update' });
+    }
+
+    try {
+      const [result] = await pool.query<OkPacket>(
+        'UPDATE rejection_reasons SET ? WHERE code = ?',
+        [updates, normalizeReasonCode(req.params.code)],
+      );
+      if (!result.affectedRows) {
+        return res.status(404).json({ message: 'Rejection reason not found' });
+      }
+      return res.status(200).json({ message: 'Rejection reason updated' });
+    } catch (error) {
+      console.error('Error updating rejection reason:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/rejection-reasons/{code}:
+ *   delete:
+ *     summary: Deactivate a rejection reason (admin only)
+ *     description: Past rejections keep their reason; it just cannot be chosen any more.
+ *     tags: [RejectionReasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rejection reason deactivated
+ *       404:
+ *         description: Rejection reason not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.delete(
+  '/:code',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const [result] = await pool.query<OkPacket>(
+        'UPDATE rejection_reasons SET is_active = 0 WHERE code = ?',
+        [normalizeReasonCode(req.params.code)],
+      );
+      if (!result.affectedRows) {
+        return res.status(404).json({ message: 'Rejection reason not found' });
+      }
+      return res.status(200).json({ message: 'Rejection reason deactivated' });
+    } catch (error) {
+      console.error('Error deactivating rejection reason:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
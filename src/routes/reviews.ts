@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import pool from '../db';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '../middleware/authenticateToken';
+import { requireRole } from '../middleware/requireRole';
+
+const router = Router();
+
+type ReviewerPoolRow = RowDataPacket & {
+  id: number;
+  user_id: number;
+  programme_code: string | null;
+  department_code: string | null;
+  is_active: 0 | 1;
+  created_at: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  pending_reviews: number;
+};
+
+const optionalCode = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Reviews
+ *   description: Reviewer pool used to assign application reviewers
+ */
+
+/**
+ * @swagger
+ * /api/v1/reviews/reviewers:
+ *   get:
+ *     summary: List reviewers in the pool with their outstanding review count
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: programme_code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: department_code
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reviewer pool entries
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/reviewers',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const where = ['rp.is_active = 1'];
+      const params: string[] = [];
+      const programmeCode = optionalCode(req.query.programme_code);
+      const departmentCode = optionalCode(req.query.department_code);
+      if (programmeCode) {
+        where.push('rp.programme_code = ?');
+        params.push(programmeCode);
+      }
+      if (departmentCode) {
+        where.push('rp.department_code = ?');
+        params.push(departmentCode);
+      }
+
+      const [rows] = await pool.query<ReviewerPoolRow[]>(
+        `SELECT rp.*, u.username, u.firstName, u.lastName,
+                (SELECT COUNT(*) FROM application_reviewers ar
+                 WHERE ar.reviewer_id = rp.user_id AND ar.status = 'pending') AS pending_reviews
+         FROM reviewer_pool rp
+         JOIN users u ON u.id = rp.user_id
+         WHERE ${where.join(' AND ')}
+         ORDER BY u.firstName ASC, u.lastName ASC`,
+        params,
+      );
+
+      return res.status(200).json(rows);
+    } catch (error) {
+      console.error('Error fetching reviewer pool:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/reviews/reviewers:
+ *   post:
+ *     summary: Add a user to the reviewer pool (admin only)
+ *     description: >
+ *       Leave programmeCode and departmentCode empty to add the user to the general
+ *       round-robin pool.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *               programmeCode:
+ *                 type: string
+ *                 nullable: true
+ *               departmentCode:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Reviewer added
+ *       400:
+ *         description: Invalid user id
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/reviewers',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = Number(req.body?.userId);
+      if (!Number.isInteger(userId) || userId <= 0) {
+        return res.status(400).json({ message: 'userId is required' });
+      }
+
+      const [users] = await pool.query<RowDataPacket[]>(
+        'SELECT id FROM users WHERE id = ?',
+        [userId],
+      );
+      if (!users.length) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const [result] = await pool.query<OkPacket>(
+        'INSERT INTO reviewer_pool (user_id, programme_code, department_code) VALUES (?, ?, ?)',
+        [
+          userId,
+          optionalCode(req.body?.programmeCode),
+          optionalCode(req.body?.departmentCode),
+        ],
+      );
+
+      return res
+        .status(201)
+        .json({ message: 'Reviewer added', id: result.insertId });
+    } catch (error) {
+      console.error('Error adding reviewer:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/reviews/reviewers/{id}:
+ *   delete:
+ *     summary: Remove a reviewer pool entry (admin only)
+ *     description: Existing assignments are kept; the reviewer just stops receiving new ones.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reviewer removed from the pool
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Pool entry not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.delete(
+  '/reviewers/:id',
+  authenticateToken,
+  requireRole('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const [result] = await pool.query<OkPacket>(
+        'UPDATE reviewer_pool SET is_active = 0 WHERE id = ? AND is_active = 1',
+        [Number(req.params.id)],
+      );
+      if (!result.affectedRows) {
+        return res.status(404).json({ message: 'Reviewer not found' });
+      }
+      return res.status(200).json({ message: 'Reviewer removed' });
+    } catch (error) {
+      console.error('Error removing reviewer:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
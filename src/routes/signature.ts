@@ -4,16 +4,19 @@ import path from 'path';
 import fs from 'fs';
 import pool from '../db';
 import { OkPacket, RowDataPacket } from 'mysql2';
+import { UPLOAD_TEMP_DIR } from '../middleware/screenUploads';
+import {
+  STORAGE_AREAS,
+  getStorage,
+  moveUploadToStorage,
+  toStorageKey,
+} from '../utils/fileStorage';
 
 const router = Router();
 
-// Ensure upload folder exists
-const uploadDir = path.join(process.cwd(), 'uploads', 'signatures');
-if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir, { recursive: true });
-
-// Multer storage
+// Multer writes to the temp folder; the image is moved into storage once the request checks out
 const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => cb(null, uploadDir),
+  destination: UPLOAD_TEMP_DIR,
   filename: (req, file, cb) => {
     // safe unique file name: role-timestamp.ext
     const role = String(req.body.role || 'signature')
@@ -54,6 +57,15 @@ type SignatureRow = RowDataPacket & {
   updated_at: string;
 };
 
+// file_path is a storage key; url is a short-lived link for showing the image
+const withSignedUrl = (row: SignatureRow) => {
+  const key = toStorageKey(row.file_path);
+  return {
+    ...row,
+    url: key ? getStorage().signedUrl(key, { inline: true, fileName: row.file_name }) : null,
+  };
+};
+
 /**
  * @swagger
  * tags:
@@ -96,7 +108,7 @@ router.get('/:role', async (req: Request, res: Response) => {
 
     if (!rows.length) return res.status(404).json({ message: 'Signature not found' });
 
-    return res.status(200).json(rows[0]);
+    return res.status(200).json(withSignedUrl(rows[0]));
   } catch (err) {
     console.error('Get signature error:', err);
     return res.status(500).json({ message: 'Internal Server Error' });
@@ -138,6 +150,7 @@ router.get('/:role', async (req: Request, res: Response) => {
  *         description: Internal Server Error
  */
 router.post('/', upload.single('signature'), async (req: Request, res: Response) => {
+  let storedKey: string | null = null;
   try {
     const { role, name, title } = req.body;
 
@@ -151,11 +164,11 @@ router.post('/', upload.single('signature'), async (req: Request, res: Response)
       return res.status(400).json({ message: 'signature file is required (field name: signature)' });
     }
 
+    storedKey = await moveUploadToStorage(req.file, STORAGE_AREAS.signatures);
+
     // Deactivate existing active signatures for this role
     await pool.query('UPDATE signatures SET is_active = 0 WHERE role = ?', [role]);
 
-    const publicPath = `/uploads/signatures/${req.file.filename}`;
-
     const [result] = await pool.query<OkPacket>(
       `INSERT INTO signatures
        (role, name, title, file_name, file_path, mime_type, file_size, is_active)
@@ -165,7 +178,7 @@ router.post('/', upload.single('signature'), async (req: Request, res: Response)
         name,
         title ?? null,
         req.file.filename,
-        publicPath,
+        storedKey,
         req.file.mimetype,
         req.file.size,
       ]
@@ -178,11 +191,12 @@ router.post('/', upload.single('signature'), async (req: Request, res: Response)
 
     return res.status(201).json({
       message: 'Signature uploaded successfully',
-      data: rows[0],
+      data: withSignedUrl(rows[0]),
     });
   } catch (err: any) {
     // If multer throws or DB fails, remove uploaded file
     if (req.file?.path && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+    if (storedKey) await getStorage().remove(storedKey).catch(() => undefined);
 
     console.error('Upload signature error:', err);
     return res.status(500).json({ message: err.message || 'Internal Server Error' });
@@ -226,6 +240,7 @@ router.post('/', upload.single('signature'), async (req: Request, res: Response)
  *         description: Internal Server Error
  */
 router.put('/:id', upload.single('signature'), async (req: Request, res: Response) => {
+  let storedKey: string | null = null;
   try {
     const id = Number(req.params.id);
     if (Number.isNaN(id)) {
@@ -264,16 +279,15 @@ router.put('/:id', upload.single('signature'), async (req: Request, res: Respons
       params.push(req.body.title || null);
     }
 
+    if (!updates.length && !req.file) {
+      return res.status(400).json({ message: 'Nothing to update' });
+    }
+
     // Replace file if new one uploaded
     if (req.file) {
-      const newPublicPath = `/uploads/signatures/${req.file.filename}`;
+      storedKey = await moveUploadToStorage(req.file, STORAGE_AREAS.signatures);
       updates.push('file_name = ?', 'file_path = ?', 'mime_type = ?', 'file_size = ?');
-      params.push(req.file.filename, newPublicPath, req.file.mimetype, req.file.size);
-    }
-
-    if (!updates.length) {
-      if (req.file?.path) fs.unlinkSync(req.file.path);
-      return res.status(400).json({ message: 'Nothing to update' });
+      params.push(req.file.filename, storedKey, req.file.mimetype, req.file.size);
     }
 
     // If this signature is active, ensure only one active per role
@@ -288,9 +302,11 @@ router.put('/:id', upload.single('signature'), async (req: Request, res: Respons
     );
 
     // delete old file if replaced
-    if (req.file) {
-      const oldDiskPath = path.join(process.cwd(), existing.file_path.replace(/^\//, ''));
-      if (fs.existsSync(oldDiskPath)) fs.unlinkSync(oldDiskPath);
+    const oldKey = toStorageKey(existing.file_path);
+    if (req.file && oldKey && oldKey !== storedKey) {
+      await getStorage()
+        .remove(oldKey)
+        .catch((error) => console.error('Error removing replaced signature:', error));
     }
 
     const [rows] = await pool.query<SignatureRow[]>(
@@ -298,9 +314,10 @@ router.put('/:id', upload.single('signature'), async (req: Request, res: Respons
       [id]
     );
 
-    return res.status(200).json({ message: 'Signature updated successfully', data: rows[0] });
+    return res.status(200).json({ message: 'Signature updated successfully', data: withSignedUrl(rows[0]) });
   } catch (err: any) {
     if (req.file?.path && fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
+    if (storedKey) await getStorage().remove(storedKey).catch(() => undefined);
     console.error('Update signature error:', err);
     return res.status(500).json({ message: err.message || 'Internal Server Error' });
   }
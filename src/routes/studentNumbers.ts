@@ -1,29 +1,45 @@
 import { Router, Request, Response } from 'express';
-import nodemailer from 'nodemailer';
-import path from 'path';
 import pool from '../db';
 import {
   authenticateToken,
   AuthenticatedRequest,
 } from '../middleware/authenticateToken';
 import { RowDataPacket } from 'mysql2';
-import { generateOfferLetter } from '../utils/offerLetter';
-import config from '../config';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  AdmissionError,
+  assignStudentNumber,
+  issueOfferLetter,
+  logOfferLetterEvent,
+  sendOfferEmail,
+} from '../utils/admission';
+import {
+  StatusTransitionError,
+  normalizeStatus,
+} from '../utils/applicationStatus';
+import {
+  describeOverride,
+  runAcceptanceChecks,
+} from '../utils/acceptanceChecks';
+import { getReviewSummary } from '../utils/reviews';
+import { sendStoredFile, toStorageKey } from '../utils/fileStorage';
+import {
+  addOfferConditions,
+  getOfferConditions,
+  parseOfferConditions,
+  summarizeOfferConditions,
+} from '../utils/offerConditions';
+import {
+  getProgrammeChoices,
+  pickApprovedChoice,
+} from '../utils/programmeChoices';
+import {
+  ACCEPTANCE_OVERRIDE_ROLES,
+  hasRole,
+  wantsOverride,
+} from '../middleware/requireRole';
 
 const router = Router();
 
-type ActiveRangeRow = RowDataPacket & {
-  id: number;
-  prefix: string;
-  start_number: number;
-  end_number: number;
-  next_number: number;
-  is_active: 0 | 1;
-};
-
-type OfferLetterEventAction = 'generated' | 'downloaded' | 'printed';
-
 const toNullableNumber = (value: unknown): number | null => {
   if (value == null) return null;
   if (typeof value === 'number' && Number.isFinite(value)) return value;
@@ -34,32 +50,6 @@ const toNullableNumber = (value: unknown): number | null => {
   return null;
 };
 
-const logOfferLetterEvent = async (params: {
-  offerLetterId: number;
-  applicationId: number;
-  action: OfferLetterEventAction;
-  userId?: number | null;
-  req?: Request;
-}) => {
-  try {
-    await pool.query(
-      `INSERT INTO offer_letter_events
-       (offer_letter_id, application_id, action, acted_by, ip_address, user_agent)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        params.offerLetterId,
-        params.applicationId,
-        params.action,
-        params.userId ?? null,
-        params.req?.ip ?? null,
-        params.req?.headers['user-agent'] ?? null,
-      ],
-    );
-  } catch (error) {
-    console.warn('Offer letter event log failed:', error);
-  }
-};
-
 /**
  * @swagger
  * tags:
@@ -206,20 +196,47 @@ router.get(
  *             properties:
  *               acceptedProgramme:
  *                 type: string
+ *                 description: Place the applicant outside their ranked choices
+ *               preference:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 3
+ *                 description: >
+ *                   Offer this ranked choice. Without preference or acceptedProgramme the
+ *                   highest-ranked approved choice is offered, else the first choice.
  *               startingSemester:
  *                 type: string
  *               yearOfCommencement:
  *                 type: integer
  *                 example: 2027
+ *               conditions:
+ *                 type: array
+ *                 description: Makes this a conditional offer (`conditionally_accepted`); the conditions are listed in the offer letter
+ *                 items:
+ *                   oneOf:
+ *                     - type: string
+ *                       example: Submit original A-Level certificate
+ *                     - type: object
+ *                       properties:
+ *                         description:
+ *                           type: string
+ *                         dueDate:
+ *                           type: string
+ *                           format: date
+ *               override:
+ *                 type: boolean
+ *                 description: Accept despite failed acceptance checks or a choice reviewers rejected (admin only)
  *     responses:
  *       200:
  *         description: Student number assigned (or already assigned)
  *       400:
- *         description: Missing data / invalid range
+ *         description: Missing data / invalid range / unknown preference
+ *       403:
+ *         description: Override requested by a user who may not override
  *       404:
  *         description: Application not found
  *       409:
- *         description: Range exhausted
+ *         description: Range exhausted, acceptance checks failed (e.g. incomplete application, reviews outstanding, reviewers not recommending acceptance, a required interview not passed, or the programme or local/foreign quota is full for the campus and intake), or the application cannot be accepted from its current status
  *       500:
  *         description: Internal Server Error
  */
@@ -232,6 +249,11 @@ router.post(
       typeof req.body?.acceptedProgramme === 'string'
         ? req.body.acceptedProgramme.trim()
         : '';
+    const preference =
+      req.body?.preference !== undefined ? Number(req.body.preference) : null;
+    if (preference !== null && !Number.isInteger(preference)) {
+      return res.status(400).json({ message: 'preference must be an integer' });
+    }
     const hasStartingSemesterInput =
       req.body?.startingSemester !== undefined ||
       req.body?.starting_semester !== undefined;
@@ -251,6 +273,11 @@ router.post(
         ).trim()
       : '';
 
+    const conditions = parseOfferConditions(req.body?.conditions);
+    if (typeof conditions === 'string') {
+      return res.status(400).json({ message: conditions });
+    }
+
     if (hasStartingSemesterInput && !startingSemesterInput) {
       return res
         .status(400)
@@ -274,7 +301,7 @@ router.post(
        FROM applications
        WHERE reference_number = ?
        FOR UPDATE`,
-        [referenceNumber], 
+        [referenceNumber],
       );
 
       if (!appRows.length) {
@@ -283,15 +310,36 @@ router.post(
       }
 
       const application = appRows[0];
-      const hasExistingStudentNumber =
-        typeof application.student_number === 'string' &&
-        application.student_number.trim() !== '';
-      let studentNumber = hasExistingStudentNumber
-        ? String(application.student_number).trim()
-        : '';
-      let range: ActiveRangeRow | null = null;
-
-      const programmeToAccept = acceptedProgramme || application.programme;
+      const choices = await getProgrammeChoices(connection, application.id);
+      let programmeToAccept = acceptedProgramme || application.programme;
+      if (preference !== null) {
+        const choice = choices.find((row) => row.preference === preference);
+        if (!choice) {
+          await connection.rollback();
+          return res
+            .status(400)
+            .json({ message: `The applicant has no choice ${preference}` });
+        }
+        if (choice.decision === 'rejected') {
+          if (!wantsOverride(req)) {
+            await connection.rollback();
+            return res.status(409).json({
+              message: `Reviewers rejected choice ${preference} (${choice.programme})`,
+            });
+          }
+          if (!hasRole(req.user, ACCEPTANCE_OVERRIDE_ROLES)) {
+            await connection.rollback();
+            return res.status(403).json({
+              message:
+                'You are not allowed to accept a choice reviewers rejected',
+            });
+          }
+        }
+        programmeToAccept = choice.programme;
+      } else if (!acceptedProgramme) {
+        programmeToAccept =
+          pickApprovedChoice(choices)?.programme ?? application.programme;
+      }
       const startingSemesterToSet = hasStartingSemesterInput
         ? startingSemesterInput
         : application.starting_semester;
@@ -303,40 +351,55 @@ router.post(
         });
       }
 
-      if (!hasExistingStudentNumber) {
-        const [rangeRows] = await connection.query<RowDataPacket[]>(
-          'SELECT * FROM student_number_ranges WHERE is_active = 1 LIMIT 1 FOR UPDATE',
-        );
-
-        if (!rangeRows.length) {
-          await connection.rollback();
-          return res
-            .status(400)
-            .json({ message: 'No active student number range set' });
-        }
-
-        range = rangeRows[0] as ActiveRangeRow;
-        if (range.next_number > range.end_number) {
-          await connection.rollback();
-          return res
-            .status(409)
-            .json({ message: 'Student number range exhausted' });
+      let overrideNote = '';
+      if (normalizeStatus(application.accepted_status) !== 'accepted') {
+        const blockers = await runAcceptanceChecks(connection, application.id, {
+          programme: programmeToAccept,
+          startingSemester: startingSemesterToSet,
+        });
+        if (blockers.length) {
+          if (!wantsOverride(req)) {
+            await connection.rollback();
+            return res.status(409).json({
+              message: 'Application cannot be accepted yet',
+              blockers,
+            });
+          }
+          if (!hasRole(req.user, ACCEPTANCE_OVERRIDE_ROLES)) {
+            await connection.rollback();
+            return res.status(403).json({
+              message: 'You are not allowed to override acceptance checks',
+              blockers,
+            });
+          }
+          overrideNote = ` (${describeOverride(blockers)})`;
         }
-
-        studentNumber = `${range.prefix}${range.next_number}`;
       }
 
-      await connection.query(
-        `UPDATE applications
-       SET accepted_status = ?, student_number = ?, programme = ?, starting_semester = ?
-       WHERE id = ?`,
-        [
-          'accepted',
-          studentNumber,
-          programmeToAccept,
-          startingSemesterToSet,
-          application.id,
-        ],
+      // A conditional offer stays conditional until its conditions are ticked off
+      const outstanding = summarizeOfferConditions(
+        await getOfferConditions(connection, application.id),
+      ).unmet;
+      const conditional =
+        conditions.length > 0 ||
+        (outstanding > 0 &&
+          normalizeStatus(application.accepted_status) ===
+            'conditionally_accepted');
+
+      const { studentNumber, reusedExistingStudentNumber, grantedPreference } =
+        await assignStudentNumber(connection, {
+          application,
+          programme: programmeToAccept,
+          startingSemester: startingSemesterToSet,
+          toStatus: conditional ? 'conditionally_accepted' : 'accepted',
+          actorId: toNullableNumber(req.user?.id),
+          reason: `${conditional ? 'Conditionally accepted' : 'Accepted'} and student number assigned${overrideNote}`,
+        });
+      await addOfferConditions(
+        connection,
+        application.id,
+        conditions,
+        toNullableNumber(req.user?.id),
       );
 
       let yearUpdateApplied = false;
@@ -359,267 +422,66 @@ router.post(
         }
       }
 
-      if (range) {
-        await connection.query(
-          'UPDATE student_number_ranges SET next_number = next_number + 1 WHERE id = ?',
-          [range.id],
-        );
-
-        await connection.query(
-          `INSERT INTO student_number_assignments
-         (application_id, reference_number, student_number, range_id, assigned_by)
-         VALUES (?, ?, ?, ?, ?)`,
-          [
-            application.id,
-            application.reference_number,
-            studentNumber,
-            range.id,
-            toNullableNumber(req.user?.id),
-          ],
-        );
-      }
-
       await connection.commit();
 
-      // Fetch student email + name + programme name for the message
-      const [infoRows] = await pool.query<any[]>(
-        `SELECT 
-         a.reference_number,
-         a.student_number,
-         a.programme AS programme_code,
-         a.year_of_commencement,
-         a.starting_semester,
-         a.satellite_campus,
-         pd.title,
-         pd.first_names,
-         pd.surname,
-         pd.email,
-         pd.postal_address,
-         pd.residential_address,
-         dp.name AS programme_name,
-         dp.programme_duration,
-         dp.prog_start_date,
-         dp.prog_end_date,
-         dp.programme_fee,
-         dp.down_payment
-       FROM applications a
-       LEFT JOIN personal_details pd ON pd.application_id = a.id
-       LEFT JOIN department_programme dp ON dp.code = a.programme
-       WHERE a.reference_number = ?`,
-        [referenceNumber],
-      );
-
-      const info = infoRows[0];
-      const fullName =
-        `${info?.first_names ?? ''} ${info?.surname ?? ''}`.trim();
-      const programmeName =
-        info?.programme_name || info?.programme_code || 'your programme';
-
-      // Fetch active signature for Deputy Registrar (Academic Affairs)
-      const [signatureRows] = await pool.query<RowDataPacket[]>(
-        `SELECT name, title, file_path 
-       FROM signatures 
-       WHERE role = ? AND is_active = 1 
-       ORDER BY created_at DESC 
-       LIMIT 1`,
-        ['Deputy Registrar (Academic Affairs)'],
-      );
-
-      const [settingsRows] = await pool.query<RowDataPacket[]>(
-        `SELECT 
-         down_payment_due_date,
-         total_fees_due_date,
-         registration_start_date,
-         registration_end_date,
-         orientation_start_date,
-         orientation_end_date,
-         orientation_time,
-         min_applicants_by_date,
-         offer_valid_until_date
-       FROM offer_letter_settings
-       WHERE is_active = 1
-       ORDER BY created_at DESC
-       LIMIT 1`,
-      );
-
-      const settings = settingsRows[0] as any;
-
-      const signature = signatureRows[0] as any;
-      const signatureFilePath = signature?.file_path
-        ? path.join(process.cwd(), signature.file_path.replace(/^\//, ''))
-        : null;
-
-      const logoFilePath = path.join(
-        process.cwd(),
-        'src',
-        'uploads',
-        'wua-logo.png',
-      );
-
-      let letterGenerated = false;
-      let letterPublicPath: string | null = null;
-      let letterFileName: string | null = null;
+      const reviewSummary = await getReviewSummary(pool, application.id);
 
+      let letter: Awaited<ReturnType<typeof issueOfferLetter>> | null = null;
       try {
-        const verificationCode = uuidv4();
-        const letter = await generateOfferLetter({
+        letter = await issueOfferLetter({
+          applicationId: application.id,
           referenceNumber,
           studentNumber,
-          verificationCode,
-          title: info?.title,
-          firstNames: info?.first_names,
-          surname: info?.surname,
-          programmeName,
-          programmeDuration: info?.programme_duration,
-          programmeStartDate: info?.prog_start_date,
-          programmeEndDate: info?.prog_end_date,
-          programmeFee: info?.programme_fee,
-          downPayment: info?.down_payment ?? 250,
-          downPaymentDueDate: settings?.down_payment_due_date ?? '',
-          totalFeesDueDate: settings?.total_fees_due_date ?? '',
-          registrationStartDate: settings?.registration_start_date ?? '',
-          registrationEndDate: settings?.registration_end_date ?? '',
-          orientationStartDate: settings?.orientation_start_date ?? '',
-          orientationEndDate: settings?.orientation_end_date ?? '',
-          orientationTime: settings?.orientation_time ?? '',
-          minApplicantsByDate: settings?.min_applicants_by_date ?? '',
-          offerValidUntilDate: settings?.offer_valid_until_date ?? '',
-          yearOfCommencement: info?.year_of_commencement,
-          satelliteCampus: info?.satellite_campus,
-          postalAddress: info?.postal_address,
-          residentialAddress: info?.residential_address,
-          signatureName: signature?.name ?? 'M. Chirongoma – Munyoro (Mrs)',
-          signatureTitle:
-            signature?.title ?? 'Deputy Registrar (Academic Affairs)',
-          signatureFilePath,
-          logoFilePath,
+          generatedBy: toNullableNumber(req.user?.id),
+          req,
         });
-
-        letterGenerated = true;
-        letterPublicPath = letter.publicPath;
-        letterFileName = letter.fileName;
-
-        await pool.query(
-          'UPDATE offer_letters SET latest = 0 WHERE application_id = ?',
-          [application.id],
-        );
-
-        const [insertResult] = await pool.query<any>(
-          `INSERT INTO offer_letters
-         (application_id, reference_number, student_number, file_name, file_path, verification_code, generated_by, latest)
-         VALUES (?, ?, ?, ?, ?, ?, ?, 1)`,
-          [
-            application.id,
-            referenceNumber,
-            studentNumber,
-            letterFileName,
-            letterPublicPath,
-            verificationCode,
-            toNullableNumber(req.user?.id),
-          ],
-        );
-
-        const offerLetterId = insertResult?.insertId;
-        if (offerLetterId) {
-          await logOfferLetterEvent({
-            offerLetterId,
-            applicationId: application.id,
-            action: 'generated',
-            userId: toNullableNumber(req.user?.id),
-            req,
-          });
-        }
       } catch (letterError) {
         console.error('Offer letter generation failed:', letterError);
       }
 
-      let emailSent = false;
-      if (info?.email) {
-        try {
-          const transporter = nodemailer.createTransport({
-            host: 'smtp-mail.outlook.com',
-            port: 587,
-            secure: false,
-            auth: {
-              user: config.email.user,
-              pass: config.email.pass,
-            },
-            tls: { rejectUnauthorized: false },
-          });
-
-          const safeName = `${fullName || 'Student'}`.trim();
-          const safeProgramme = `${programmeName}`.trim();
-          const safeStudentNumber = `${studentNumber}`.trim();
-
-          const htmlBody = `
-          <div style="font-family:system-ui,Segoe UI,Arial,sans-serif;background:#f4f4f4;padding:20px">
-            <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,.06);overflow:hidden">
-              <div style="background:#208F74;padding:16px 20px;border-bottom:4px solid rgba(255,215,0,.7);color:#ffffff">
-                <h2 style="margin:0;font-size:20px;">Women's University in Africa</h2>
-                <div style="font-size:13px;opacity:.9">Admissions</div>
-              </div>
-              <div style="padding:20px 22px 16px 22px;color:#222">
-                <p style="margin:0 0 10px 0;">Good day ${safeName},</p>
-                <p style="margin:0 0 10px 0;">Congratulations! You have been accepted to study ${safeProgramme} at the Women's University in Africa.</p>
-                <p style="margin:0 0 10px 0;">Your student number is:</p>
-                <p style="margin:8px 0 16px 0;font-size:20px;font-weight:700;color:#292727;">${safeStudentNumber}</p>
-                <p style="margin:0 0 10px 0;">We look forward to welcoming you. Your offer letter is attached as a PDF.</p>
-                <p style="margin:0 0 10px 0;">You can accept your offer letter on this page <a href='https://apply.wua.ac.zw/apply-online/application-status'>https://apply.wua.ac.zw/apply-online/application-status</a></p>
-                <p style="margin:18px 0 0 0;">Regards,<br/>Women's University in Africa</p>
-              </div>
-            </div>
-          </div>
-        `.trim();
-
-          const mailOptions: any = {
-            from: config.email.user,
-            to: info.email,
-            subject: 'WUA Admission Offer and Student Number',
-            text:
-              `Good day ${safeName},\n\n` +
-              `Congratulations! You have been accepted to study ${safeProgramme} at the Women's University in Africa.\n\n` +
-              `Your student number is: ${safeStudentNumber}\n\n` +
-              `We look forward to welcoming you. Your offer letter is attached as a PDF.\n\n` +
-              `Regards,\nWomen's University in Africa`,
-            html: htmlBody,
-          };
-
-          if (letterGenerated && letterPublicPath) {
-            const diskPath = path.join(
-              process.cwd(),
-              letterPublicPath.replace(/^\//, ''),
-            );
-            mailOptions.attachments = [
-              {
-                filename: letterFileName || `offer-letter-${studentNumber}.pdf`,
-                path: diskPath,
-              },
-            ];
-          }
+      const emailSent = await sendOfferEmail({
+        referenceNumber,
+        studentNumber,
+        letter,
+      });
 
-          await transporter.sendMail(mailOptions);
-          emailSent = true;
-        } catch (emailError) {
-          console.error('Error sending student number email:', emailError);
-        }
-      }
+      const [yearRows] = await pool.query<RowDataPacket[]>(
+        'SELECT year_of_commencement FROM applications WHERE id = ?',
+        [application.id],
+      );
 
       return res.status(200).json({
         message: 'Student number assigned successfully',
         studentNumber,
-        reusedExistingStudentNumber: hasExistingStudentNumber,
-        yearOfCommencement: info?.year_of_commencement ?? null,
+        reusedExistingStudentNumber,
+        yearOfCommencement: yearRows[0]?.year_of_commencement ?? null,
         yearUpdateApplied,
         yearUpdateWarning,
         startingSemester: startingSemesterToSet,
+        programme: programmeToAccept,
+        grantedPreference,
         emailSent,
-        letterGenerated,
-        offerLetterPath: letterPublicPath,
+        letterGenerated: !!letter,
+        offerLetterPath: letter?.storageKey ?? null,
+        acceptedStatus: conditional ? 'conditionally_accepted' : 'accepted',
+        offerConditions: await getOfferConditions(pool, application.id),
+        reviewSummary,
       });
     } catch (error) {
       try {
         await connection.rollback();
-      } catch {}
+      } catch (rollbackError) {
+        console.error(
+          'Error rolling back student number assignment:',
+          rollbackError,
+        );
+      }
+      if (error instanceof AdmissionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error assigning student number:', error);
       return res.status(500).json({ message: 'Internal Server Error' });
     } finally {
@@ -731,11 +593,15 @@ router.get(
         userId: toNullableNumber((req as AuthenticatedRequest).user?.id),
         req,
       });
-      const diskPath = path.join(
-        process.cwd(),
-        String(row.file_path).replace(/^\//, ''),
-      );
-      return res.download(diskPath, row.file_name || undefined);
+      const sent = await sendStoredFile(res, toStorageKey(row.file_path), {
+        fileName: row.file_name,
+      });
+      if (!sent) {
+        return res
+          .status(404)
+          .json({ message: 'Offer letter file missing on server' });
+      }
+      return undefined;
     } catch (error) {
       console.error('Offer letter download error:', error);
       return res.status(500).json({ message: 'Internal Server Error' });
@@ -790,11 +656,15 @@ router.get(
         userId: toNullableNumber((req as AuthenticatedRequest).user?.id),
         req,
       });
-      const diskPath = path.join(
-        process.cwd(),
-        String(row.file_path).replace(/^\//, ''),
-      );
-      return res.download(diskPath, row.file_name || undefined);
+      const sent = await sendStoredFile(res, toStorageKey(row.file_path), {
+        fileName: row.file_name,
+      });
+      if (!sent) {
+        return res
+          .status(404)
+          .json({ message: 'Offer letter file missing on server' });
+      }
+      return undefined;
     } catch (error) {
       console.error('Offer letter download error:', error);
       return res.status(500).json({ message: 'Internal Server Error' });
@@ -900,145 +770,17 @@ router.post(
           .json({ message: 'Student number not assigned yet' });
       }
 
-      const [infoRows] = await pool.query<any[]>(
-        `SELECT 
-         a.reference_number,
-         a.student_number,
-         a.programme AS programme_code,
-         a.year_of_commencement,
-         a.starting_semester,
-         a.satellite_campus,
-         pd.title,
-         pd.first_names,
-         pd.surname,
-         pd.email,
-         pd.postal_address,
-         pd.residential_address,
-         dp.name AS programme_name,
-         dp.programme_duration,
-         dp.prog_start_date,
-         dp.prog_end_date,
-         dp.programme_fee,
-         dp.down_payment
-       FROM applications a
-       LEFT JOIN personal_details pd ON pd.application_id = a.id
-       LEFT JOIN department_programme dp ON dp.code = a.programme
-       WHERE a.reference_number = ?`,
-        [referenceNumber],
-      );
-
-      const info = infoRows[0];
-      const programmeName =
-        info?.programme_name || info?.programme_code || 'your programme';
-
-      const [signatureRows] = await pool.query<RowDataPacket[]>(
-        `SELECT name, title, file_path 
-       FROM signatures 
-       WHERE role = ? AND is_active = 1 
-       ORDER BY created_at DESC 
-       LIMIT 1`,
-        ['Deputy Registrar (Academic Affairs)'],
-      );
-
-      const [settingsRows] = await pool.query<RowDataPacket[]>(
-        `SELECT 
-         down_payment_due_date,
-         total_fees_due_date,
-         registration_start_date,
-         registration_end_date,
-         orientation_start_date,
-         orientation_end_date,
-         orientation_time,
-         min_applicants_by_date,
-         offer_valid_until_date
-       FROM offer_letter_settings
-       WHERE is_active = 1
-       ORDER BY created_at DESC
-       LIMIT 1`,
-      );
-
-      const settings = settingsRows[0] as any;
-
-      const signature = signatureRows[0] as any;
-      const signatureFilePath = signature?.file_path
-        ? path.join(process.cwd(), signature.file_path.replace(/^\//, ''))
-        : null;
-
-      const logoFilePath = path.join(
-        process.cwd(),
-        'src',
-        'uploads',
-        'wua-logo.png',
-      );
-
-      const verificationCode = uuidv4();
-      const letter = await generateOfferLetter({
+      const letter = await issueOfferLetter({
+        applicationId: application.id,
         referenceNumber,
         studentNumber: application.student_number,
-        verificationCode,
-        title: info?.title,
-        firstNames: info?.first_names,
-        surname: info?.surname,
-        programmeName,
-        programmeDuration: info?.programme_duration,
-        programmeStartDate: info?.prog_start_date,
-        programmeEndDate: info?.prog_end_date,
-        programmeFee: info?.programme_fee,
-        downPayment: info?.down_payment ?? 250,
-        downPaymentDueDate: settings?.down_payment_due_date ?? '',
-        totalFeesDueDate: settings?.total_fees_due_date ?? '',
-        registrationStartDate: settings?.registration_start_date ?? '',
-        registrationEndDate: settings?.registration_end_date ?? '',
-        orientationStartDate: settings?.orientation_start_date ?? '',
-        orientationEndDate: settings?.orientation_end_date ?? '',
-        orientationTime: settings?.orientation_time ?? '',
-        minApplicantsByDate: settings?.min_applicants_by_date ?? '',
-        offerValidUntilDate: settings?.offer_valid_until_date ?? '',
-        yearOfCommencement: info?.year_of_commencement,
-        satelliteCampus: info?.satellite_campus,
-        postalAddress: info?.postal_address,
-        residentialAddress: info?.residential_address,
-        signatureName: signature?.name ?? 'M. Chirongoma – Munyoro (Mrs)',
-        signatureTitle:
-          signature?.title ?? 'Deputy Registrar (Academic Affairs)',
-        signatureFilePath,
-        logoFilePath,
+        generatedBy: toNullableNumber(req.user?.id),
+        req,
       });
 
-      await pool.query(
-        'UPDATE offer_letters SET latest = 0 WHERE application_id = ?',
-        [application.id],
-      );
-
-      const [insertResult] = await pool.query<any>(
-        `INSERT INTO offer_letters
-       (application_id, reference_number, student_number, file_name, file_path, verification_code, generated_by, latest)
-       VALUES (?, ?, ?, ?, ?, ?, ?, 1)`,
-        [
-          application.id,
-          referenceNumber,
-          application.student_number,
-          letter.fileName,
-          letter.publicPath,
-          verificationCode,
-          toNullableNumber(req.user?.id),
-        ],
-      );
-
-      const offerLetterId = insertResult?.insertId;
-      if (offerLetterId) {
-        await logOfferLetterEvent({
-          offerLetterId,
-          applicationId: application.id,
-          action: 'generated',
-          userId: toNullableNumber(req.user?.id),
-          req,
-        });
-      }
-
       return res.status(200).json({
         message: 'Offer letter regenerated',
-        offerLetterPath: letter.publicPath,
+        offerLetterPath: letter.storageKey,
       });
     } catch (error) {
       console.error('Offer letter regenerate error:', error);
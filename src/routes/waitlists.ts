@@ -0,0 +1,445 @@
+import { Router, Response } from 'express';
+import pool from '../db';
+import { RowDataPacket } from 'mysql2';
+import {
+  authenticateToken,
+  AuthenticatedRequest,
+} from '../middleware/authenticateToken';
+import {
+  ACCEPTANCE_OVERRIDE_ROLES,
+  hasRole,
+  wantsOverride,
+} from '../middleware/requireRole';
+import {
+  describeOverride,
+  runAcceptanceChecks,
+} from '../utils/acceptanceChecks';
+import { AdmissionError } from '../utils/admission';
+import {
+  StatusTransitionError,
+  transitionApplicationStatus,
+} from '../utils/applicationStatus';
+import {
+  addToWaitlist,
+  listWaitlist,
+  moveWaitlistEntry,
+  promoteWaitlistEntry,
+  removeWaitlistEntry,
+  WaitlistEntryStatus,
+} from '../utils/waitlist';
+
+const router = Router();
+
+const ENTRY_STATUSES: WaitlistEntryStatus[] = [
+  'waiting',
+  'pending_confirmation',
+  'promoted',
+  'removed',
+];
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toRank = (value: unknown) => {
+  const rank = Number(value);
+  return Number.isInteger(rank) && rank > 0 ? rank : null;
+};
+
+const toUserId = (value: unknown) => {
+  const id = Number(value);
+  return Number.isFinite(id) ? id : null;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Waitlists
+ *   description: Ranked waitlists per programme, campus and intake
+ */
+
+/**
+ * @swagger
+ * /api/v1/waitlists:
+ *   get:
+ *     summary: List waitlist entries in rank order
+ *     description: Without a status filter only active entries (waiting or pending confirmation) are returned.
+ *     tags: [Waitlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: programme
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: satellite_campus
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: starting_semester
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, pending_confirmation, promoted, removed]
+ *     responses:
+ *       200:
+ *         description: Waitlist entries
+ *       400:
+ *         description: Invalid status filter
+ *       500:
+ *         description: Internal Server Error
+ */
+router.get(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const status = optionalString(req.query.status);
+    if (status && !ENTRY_STATUSES.includes(status as WaitlistEntryStatus)) {
+      return res
+        .status(400)
+        .json({
+          message: `status must be one of: ${ENTRY_STATUSES.join(', ')}`,
+        });
+    }
+
+    try {
+      const rows = await listWaitlist(pool, {
+        programme: optionalString(req.query.programme),
+        satellite_campus: optionalString(req.query.satellite_campus),
+        starting_semester: optionalString(req.query.starting_semester),
+        status: status as WaitlistEntryStatus | undefined,
+      });
+      return res.status(200).json(rows);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/waitlists:
+ *   post:
+ *     summary: Waitlist an application
+ *     description: Moves the application to `waitlisted` and ranks it within its programme, campus and intake. Without a rank it is added at the bottom.
+ *     tags: [Waitlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [referenceNumber]
+ *             properties:
+ *               referenceNumber:
+ *                 type: string
+ *               rank:
+ *                 type: integer
+ *                 minimum: 1
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Application waitlisted
+ *       400:
+ *         description: Missing reference number
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application cannot be waitlisted from its current status
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const referenceNumber = optionalString(req.body?.referenceNumber);
+    if (!referenceNumber) {
+      return res.status(400).json({ message: 'referenceNumber is required' });
+    }
+    const actorId = toUserId(req.user?.id);
+
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const [rows] = await connection.query<RowDataPacket[]>(
+        'SELECT id FROM applications WHERE reference_number = ? FOR UPDATE',
+        [referenceNumber],
+      );
+      if (!rows.length) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Application not found' });
+      }
+
+      await transitionApplicationStatus(connection, {
+        applicationId: rows[0].id,
+        toStatus: 'waitlisted',
+        actorId,
+        reason: optionalString(req.body?.reason) ?? 'Added to waitlist',
+      });
+      const entry = await addToWaitlist(connection, {
+        applicationId: rows[0].id,
+        rank: toRank(req.body?.rank),
+        addedBy: actorId,
+      });
+
+      await connection.commit();
+      return res.status(201).json({
+        message: 'Application waitlisted',
+        referenceNumber,
+        entryId: entry.entryId,
+        rank: entry.rank,
+        ...entry.group,
+      });
+    } catch (error) {
+      await connection.rollback();
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error adding to waitlist:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/waitlists/{id}/rank:
+ *   put:
+ *     summary: Move a waitlist entry to a new rank
+ *     tags: [Waitlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rank]
+ *             properties:
+ *               rank:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       200:
+ *         description: Entry re-ranked
+ *       400:
+ *         description: Invalid rank
+ *       404:
+ *         description: Waitlist entry not found or no longer active
+ *       500:
+ *         description: Internal Server Error
+ */
+router.put(
+  '/:id/rank',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const rank = toRank(req.body?.rank);
+    if (!rank) {
+      return res
+        .status(400)
+        .json({ message: 'rank must be a positive integer' });
+    }
+
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const newRank = await moveWaitlistEntry(
+        connection,
+        Number(req.params.id),
+        rank,
+      );
+      if (newRank === null) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Waitlist entry not found' });
+      }
+      await connection.commit();
+      return res
+        .status(200)
+        .json({ message: 'Waitlist entry re-ranked', rank: newRank });
+    } catch (error) {
+      await connection.rollback();
+      console.error('Error re-ranking waitlist entry:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/waitlists/{id}:
+ *   delete:
+ *     summary: Take an entry off the waitlist
+ *     description: The application keeps its status; the remaining entries close up the gap.
+ *     tags: [Waitlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Entry removed
+ *       404:
+ *         description: Waitlist entry not found
+ *       500:
+ *         description: Internal Server Error
+ */
+router.delete(
+  '/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const removed = await removeWaitlistEntry(
+        connection,
+        Number(req.params.id),
+      );
+      if (!removed) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Waitlist entry not found' });
+      }
+      await connection.commit();
+      return res.status(200).json({ message: 'Waitlist entry removed' });
+    } catch (error) {
+      await connection.rollback();
+      console.error('Error removing waitlist entry:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    } finally {
+      connection.release();
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /api/v1/waitlists/{id}/promote:
+ *   post:
+ *     summary: Promote a waitlisted applicant
+ *     description: |
+ *       Accepts the application through the normal acceptance path: student number,
+ *       offer letter and email. Used to confirm entries queued as `pending_confirmation`
+ *       after an offer was declined or expired, or to promote out of order.
+ *     tags: [Waitlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               override:
+ *                 type: boolean
+ *                 description: Accept despite failed acceptance checks (admin only)
+ *     responses:
+ *       200:
+ *         description: Applicant promoted
+ *       403:
+ *         description: Not allowed to override acceptance checks
+ *       404:
+ *         description: Waitlist entry not found
+ *       409:
+ *         description: Entry is not active or acceptance checks failed
+ *       500:
+ *         description: Internal Server Error
+ */
+router.post(
+  '/:id/promote',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const entryId = Number(req.params.id);
+
+    try {
+      const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT w.status, w.application_id, w.trigger_reason, a.accepted_status
+         FROM waitlist_entries w
+         JOIN applications a ON a.id = w.application_id
+         WHERE w.id = ?`,
+        [entryId],
+      );
+      if (!rows.length) {
+        return res.status(404).json({ message: 'Waitlist entry not found' });
+      }
+      const entry = rows[0];
+      if (
+        !['waiting', 'pending_confirmation'].includes(entry.status) ||
+        entry.accepted_status !== 'waitlisted'
+      ) {
+        return res
+          .status(409)
+          .json({ message: 'Waitlist entry is no longer active' });
+      }
+
+      let overrideNote = '';
+      const blockers = await runAcceptanceChecks(pool, entry.application_id);
+      if (blockers.length) {
+        if (!wantsOverride(req)) {
+          return res.status(409).json({
+            message: 'Application cannot be accepted yet',
+            blockers,
+          });
+        }
+        if (!hasRole(req.user, ACCEPTANCE_OVERRIDE_ROLES)) {
+          return res.status(403).json({
+            message: 'You are not allowed to override acceptance checks',
+            blockers,
+          });
+        }
+        overrideNote = ` (${describeOverride(blockers)})`;
+      }
+
+      const admission = await promoteWaitlistEntry({
+        entryId,
+        actorId: toUserId(req.user?.id),
+        reason: `Promoted from waitlist${overrideNote}`,
+      });
+
+      return res.status(200).json({
+        message: 'Applicant promoted from waitlist',
+        triggerReason: entry.trigger_reason,
+        ...admission,
+      });
+    } catch (error) {
+      if (error instanceof AdmissionError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error promoting from waitlist:', error);
+      return res.status(500).json({ message: 'Internal Server Error' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,285 @@
+import { RequestSchema } from '../middleware/validateRequest';
+
+const PHONE_PATTERN = '^\\+?[0-9][0-9 ()-]{6,19}$';
+// Zimbabwean national ID, e.g. 63-123456A78 or 63123456 A 78
+const NATIONAL_ID_PATTERN = '^\\d{2}-?\\d{6,7}\\s?[A-Za-z]\\s?-?\\d{2}$';
+
+const nameField: RequestSchema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 100,
+};
+const phoneField: RequestSchema = {
+  type: 'string',
+  pattern: PHONE_PATTERN,
+  example: '+263771234567',
+};
+
+const personalDetailFields: Record<string, RequestSchema> = {
+  title: { type: 'string', maxLength: 20 },
+  firstNames: nameField,
+  surname: nameField,
+  maritalStatus: {
+    type: 'string',
+    enum: ['Single', 'Married', 'Divorced', 'Widowed', 'Separated'],
+  },
+  maidenName: { type: 'string', maxLength: 100 },
+  nationalId: {
+    type: 'string',
+    pattern: NATIONAL_ID_PATTERN,
+    example: '63-123456A78',
+  },
+  passportNumber: {
+    type: 'string',
+    pattern: '^[A-Za-z0-9]{6,12}$',
+    example: 'FN123456',
+  },
+  dateOfBirth: { type: 'string', format: 'date', example: '2001-05-14' },
+  placeOfBirth: { type: 'string', maxLength: 100 },
+  gender: { type: 'string', enum: ['Female', 'Male'] },
+  citizenship: { type: 'string', maxLength: 100 },
+  nationality: { type: 'string', maxLength: 100 },
+  residentialAddress: { type: 'string', maxLength: 255 },
+  postalAddress: { type: 'string', maxLength: 255 },
+  city: { type: 'string', maxLength: 100 },
+  country: { type: 'string', maxLength: 100 },
+  phone: phoneField,
+  email: { type: 'string', format: 'email', maxLength: 100 },
+};
+
+const personalDetailsRequired = [
+  'firstNames',
+  'surname',
+  'dateOfBirth',
+  'gender',
+  'phone',
+  'email',
+];
+
+const toSnakeCase = (key: string) =>
+  key.replace(/([A-Z])/g, '_$1').toLowerCase();
+
+/**
+ * POST /personal-details reads snake_case keys while PUT reads camelCase,
+ * so both schemas are generated from the same field list.
+ */
+const snakeCaseObject = (schema: RequestSchema): RequestSchema => ({
+  ...schema,
+  properties: Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([key, value]) => [
+      toSnakeCase(key),
+      value,
+    ]),
+  ),
+  required: schema.required?.map(toSnakeCase),
+});
+
+// Applicant self-service: surname + year of birth, or an emailed one-time code
+const applicantIdentityFields: Record<string, RequestSchema> = {
+  surname: nameField,
+  yearOfBirth: { type: 'integer', minimum: 1900, maximum: 2100 },
+  otp: { type: 'string', pattern: '^[0-9]{6}$' },
+};
+
+const programmeChoicesField: RequestSchema = {
+  type: 'array',
+  description: 'Programme codes, most preferred first',
+  minItems: 1,
+  maxItems: 3,
+  items: { type: 'string', minLength: 1, maxLength: 50 },
+};
+
+const personalDetailsUpdateRequest: RequestSchema = {
+  type: 'object',
+  required: personalDetailsRequired,
+  properties: personalDetailFields,
+};
+
+const subjectSchema: RequestSchema = {
+  type: 'object',
+  required: ['subjectName', 'grade'],
+  properties: {
+    subjectName: { type: 'string', minLength: 1, maxLength: 100 },
+    grade: { type: 'string', minLength: 1, maxLength: 5, example: 'B' },
+    yearWritten: { type: 'integer', minimum: 1950, maximum: 2100 },
+  },
+};
+
+export const applicationSchemas: Record<string, RequestSchema> = {
+  ApplicationCreateRequest: {
+    type: 'object',
+    description: 'Send programme, programmeChoices, or both',
+    properties: {
+      startingSemester: { type: 'string', maxLength: 50 },
+      programme: { type: 'string', minLength: 1, maxLength: 50 },
+      programmeChoices: programmeChoicesField,
+      satelliteCampus: { type: 'string', maxLength: 100 },
+      preferredSession: { type: 'string', maxLength: 50 },
+      wuaDiscoveryMethod: { type: 'string', maxLength: 100 },
+      previousRegistration: { type: 'string', maxLength: 100 },
+      yearOfCommencement: {
+        type: 'string',
+        pattern: '^\\d{4}$',
+        example: '2025',
+      },
+      programType: {
+        type: 'string',
+        maxLength: 50,
+        description: 'Type of program (e.g., Undergraduate, Postgraduate, PhD)',
+      },
+    },
+  },
+  PersonalDetailsRequest: snakeCaseObject(personalDetailsUpdateRequest),
+  PersonalDetailsUpdateRequest: personalDetailsUpdateRequest,
+  NextOfKinRequest: {
+    type: 'object',
+    required: ['firstName', 'lastName', 'relationship', 'contactTel'],
+    properties: {
+      firstName: nameField,
+      lastName: nameField,
+      relationship: { type: 'string', minLength: 1, maxLength: 50 },
+      contactAddress: { type: 'string', maxLength: 255 },
+      contactTel: phoneField,
+    },
+  },
+  DisabilitiesRequest: {
+    type: 'object',
+    required: ['hasDisability'],
+    properties: {
+      hasDisability: { type: 'string', enum: ['Yes', 'No'] },
+      blindness: { type: 'boolean' },
+      cerebralPalsy: { type: 'boolean' },
+      deafness: { type: 'boolean' },
+      speechImpairment: { type: 'boolean' },
+      other: { type: 'string', maxLength: 255 },
+      extraAdaptations: { type: 'string', maxLength: 500 },
+    },
+  },
+  EducationDetailsRequest: {
+    type: 'object',
+    required: ['qualifications'],
+    properties: {
+      qualifications: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['qualificationType'],
+          properties: {
+            qualificationType: {
+              type: 'string',
+              enum: [
+                'Ordinary Level',
+                'Other Secondary School Qualification',
+                'Advanced Level',
+                'Tertiary Education',
+              ],
+            },
+            examinationBoard: { type: 'string', maxLength: 100 },
+            subjects: { type: 'array', items: subjectSchema },
+          },
+        },
+      },
+      tertiaryEducation: {
+        type: 'object',
+        nullable: true,
+        required: ['institutionName', 'qualificationObtained'],
+        properties: {
+          institutionName: { type: 'string', minLength: 1, maxLength: 150 },
+          qualificationObtained: {
+            type: 'string',
+            minLength: 1,
+            maxLength: 150,
+          },
+          fieldOfStudy: { type: 'string', maxLength: 150 },
+          yearCompleted: { type: 'integer', minimum: 1950, maximum: 2100 },
+        },
+      },
+    },
+  },
+  WorkExperienceRequest: {
+    type: 'object',
+    properties: {
+      workExperience: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['organisationName', 'position', 'startDate'],
+          properties: {
+            organisationName: { type: 'string', minLength: 1, maxLength: 150 },
+            position: { type: 'string', minLength: 1, maxLength: 100 },
+            startDate: { type: 'string', format: 'date' },
+            endDate: { type: 'string', format: 'date', nullable: true },
+            duties: { type: 'string', maxLength: 1000 },
+          },
+        },
+      },
+    },
+  },
+  ApplicantOtpRequest: {
+    type: 'object',
+    required: ['purpose'],
+    properties: {
+      purpose: { type: 'string', enum: ['login', 'withdraw', 'correction'] },
+    },
+  },
+  ApplicantLoginRequest: {
+    type: 'object',
+    required: ['otp'],
+    properties: {
+      otp: applicantIdentityFields.otp,
+    },
+  },
+  WithdrawRequest: {
+    type: 'object',
+    properties: {
+      ...applicantIdentityFields,
+      reason: { type: 'string', maxLength: 1000 },
+    },
+  },
+  CorrectionRequest: {
+    type: 'object',
+    required: ['changes', 'reason'],
+    properties: {
+      ...applicantIdentityFields,
+      reason: { type: 'string', minLength: 1, maxLength: 1000 },
+      changes: {
+        type: 'object',
+        properties: personalDetailFields,
+      },
+    },
+  },
+  ProgrammeChoicesRequest: {
+    type: 'object',
+    required: ['programmeChoices'],
+    properties: {
+      programmeChoices: programmeChoicesField,
+    },
+  },
+  RefereesRequest: {
+    type: 'object',
+    required: ['referees'],
+    properties: {
+      referees: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 3,
+        items: {
+          type: 'object',
+          required: ['name', 'email', 'institution', 'relationship'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 150 },
+            email: { type: 'string', format: 'email', maxLength: 255 },
+            institution: { type: 'string', minLength: 1, maxLength: 200 },
+            relationship: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 150,
+              description: 'e.g. Supervisor, Lecturer, Employer',
+            },
+          },
+        },
+      },
+    },
+  },
+};
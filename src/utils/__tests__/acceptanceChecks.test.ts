@@ -0,0 +1,146 @@
+import { Pool } from 'mysql2/promise';
+import { describeOverride, runAcceptanceChecks } from '../acceptanceChecks';
+import { evaluateCompleteness } from '../applicationCompleteness';
+import { checkCapacity } from '../capacity';
+import { getUnverifiedRequiredDocuments } from '../documentVerification';
+import { getApplicationInterview, isInterviewRequired } from '../interviews';
+import { ReviewSummary, getReviewSummary } from '../reviews';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../applicationCompleteness');
+jest.mock('../capacity');
+jest.mock('../documentVerification', () => ({
+  ...jest.requireActual('../documentVerification'),
+  getUnverifiedRequiredDocuments: jest.fn(),
+}));
+jest.mock('../interviews');
+jest.mock('../reviews');
+
+const db = {
+  query: jest.fn(async () => [
+    [
+      {
+        id: 7,
+        program_type: 'Undergraduate',
+        programme: 'BSc Accounting',
+        satellite_campus: 'Harare Campus',
+        starting_semester: 'January 2027',
+      },
+    ],
+  ]),
+} as unknown as Pool;
+
+const reviewSummary = (summary: Partial<ReviewSummary>): ReviewSummary => ({
+  assigned: 0,
+  completed: 0,
+  pending: 0,
+  averageScore: null,
+  recommendation: null,
+  votes: { accept: 0, conditional_accept: 0, waitlist: 0, reject: 0 },
+  ...summary,
+});
+
+const checks = async () =>
+  (await runAcceptanceChecks(db, 7)).map((blocker) => blocker.check);
+
+beforeEach(() => {
+  jest.mocked(evaluateCompleteness).mockResolvedValue({
+    isComplete: true,
+  } as Awaited<ReturnType<typeof evaluateCompleteness>>);
+  jest.mocked(getUnverifiedRequiredDocuments).mockResolvedValue([]);
+  jest.mocked(getReviewSummary).mockResolvedValue(reviewSummary({}));
+  jest.mocked(isInterviewRequired).mockResolvedValue(false);
+  jest.mocked(checkCapacity).mockResolvedValue(null);
+});
+
+describe('runAcceptanceChecks', () => {
+  it('passes an application nobody was asked to review', async () => {
+    expect(await checks()).toEqual([]);
+  });
+
+  it('blocks while assigned reviews are outstanding', async () => {
+    jest
+      .mocked(getReviewSummary)
+      .mockResolvedValue(
+        reviewSummary({ assigned: 2, completed: 1, pending: 1 }),
+      );
+    const [blocker] = await runAcceptanceChecks(db, 7);
+    expect(blocker).toMatchObject({
+      check: 'review',
+      message: '1 of 2 reviews outstanding',
+    });
+  });
+
+  it('blocks when the reviewers do not recommend an offer', async () => {
+    jest
+      .mocked(getReviewSummary)
+      .mockResolvedValue(
+        reviewSummary({ assigned: 2, completed: 2, recommendation: 'reject' }),
+      );
+    expect(await checks()).toEqual(['review']);
+
+    jest
+      .mocked(getReviewSummary)
+      .mockResolvedValue(
+        reviewSummary({ completed: 0, recommendation: 'waitlist' }),
+      );
+    expect(await checks()).toEqual(['review']);
+
+    jest.mocked(getReviewSummary).mockResolvedValue(
+      reviewSummary({
+        assigned: 1,
+        completed: 1,
+        recommendation: 'conditional_accept',
+      }),
+    );
+    expect(await checks()).toEqual([]);
+  });
+
+  it('requires a passed interview only where one is required', async () => {
+    jest.mocked(isInterviewRequired).mockResolvedValue(true);
+    jest.mocked(getApplicationInterview).mockResolvedValue(null);
+    expect(await checks()).toEqual(['interview']);
+
+    jest.mocked(getApplicationInterview).mockResolvedValue({
+      outcome: 'pass',
+    } as Awaited<ReturnType<typeof getApplicationInterview>>);
+    expect(await checks()).toEqual([]);
+  });
+
+  it('collects every failing check', async () => {
+    jest.mocked(evaluateCompleteness).mockResolvedValue({
+      isComplete: false,
+      percentage: 80,
+      sections: [],
+    } as unknown as Awaited<ReturnType<typeof evaluateCompleteness>>);
+    jest
+      .mocked(getUnverifiedRequiredDocuments)
+      .mockResolvedValue([{ documentType: 'identity_card' }] as Awaited<
+        ReturnType<typeof getUnverifiedRequiredDocuments>
+      >);
+    jest.mocked(checkCapacity).mockResolvedValue({
+      message: 'Programme is full',
+    } as Awaited<ReturnType<typeof checkCapacity>>);
+
+    const blockers = await runAcceptanceChecks(db, 7);
+    expect(blockers.map((blocker) => blocker.check)).toEqual([
+      'completeness',
+      'documents',
+      'capacity',
+    ]);
+    expect(describeOverride(blockers)).toBe(
+      'Override of: completeness, documents, capacity',
+    );
+  });
+
+  it('checks capacity for the programme being offered', async () => {
+    await runAcceptanceChecks(db, 7, { programme: 'BSc Economics' });
+    expect(checkCapacity).toHaveBeenCalledWith(db, {
+      applicationId: 7,
+      programme: 'BSc Economics',
+      satelliteCampus: 'Harare Campus',
+      startingSemester: 'January 2027',
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../../db';
+import {
+  OtpThrottleError,
+  issueApplicantOtp,
+  verifyApplicantIdentity,
+  verifyApplicantOtp,
+} from '../applicantOtp';
+import { sendApplicantEmail } from '../notification';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), getConnection: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+const hash = (code: string) =>
+  crypto.createHash('sha256').update(code).digest('hex');
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('issueApplicantOtp', () => {
+  const givenHistory = (
+    recent: { issued: number; since_last?: number; since_first?: number },
+    email: string | null = 'chipo@example.com',
+  ) => {
+    const connection = {
+      beginTransaction: jest.fn(),
+      commit: jest.fn(),
+      rollback: jest.fn(),
+      release: jest.fn(),
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM applications a')) {
+          return [
+            [
+              {
+                reference_number: 'APL-2026-0001',
+                first_names: 'Chipo',
+                surname: 'Moyo',
+                email,
+              },
+            ],
+          ];
+        }
+        if (sql.includes('COUNT(*) AS issued')) return [[recent]];
+        return [{ affectedRows: 1 }];
+      }),
+    };
+    jest
+      .mocked(pool.getConnection)
+      .mockResolvedValue(connection as unknown as PoolConnection);
+    return connection;
+  };
+
+  const throttleError = async () => {
+    try {
+      await issueApplicantOtp(7, 'withdraw');
+    } catch (error) {
+      return error as OtpThrottleError;
+    }
+    throw new Error('Expected issueApplicantOtp to throw');
+  };
+
+  it('replaces earlier codes, stores only the hash and emails the code', async () => {
+    const connection = givenHistory({ issued: 0 });
+    await expect(issueApplicantOtp(7, 'withdraw')).resolves.toBe(true);
+
+    const calls = connection.query.mock.calls as unknown as [
+      string,
+      unknown[],
+    ][];
+    expect(calls[2]).toEqual([
+      expect.stringContaining('SET used_at = NOW()'),
+      [7, 'withdraw'],
+    ]);
+    const [, [, purpose, storedHash]] = calls[3];
+    expect(purpose).toBe('withdraw');
+    expect(connection.commit).toHaveBeenCalled();
+
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    const code = /code (\d{6}) to withdraw your application/.exec(
+      email.text ?? '',
+    )?.[1];
+    expect(email.to).toBe('chipo@example.com');
+    expect(storedHash).toBe(hash(code ?? ''));
+  });
+
+  it('refuses a new code within the cooldown', async () => {
+    const connection = givenHistory({
+      issued: 1,
+      since_last: 20,
+      since_first: 20,
+    });
+    const error = await throttleError();
+    expect(error).toBeInstanceOf(OtpThrottleError);
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfterSeconds).toBe(40);
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+    expect(sendApplicantEmail).not.toHaveBeenCalled();
+  });
+
+  it('caps the codes sent per hour', async () => {
+    givenHistory({ issued: 5, since_last: 600, since_first: 3000 });
+    const error = await throttleError();
+    expect(error.message).toBe(
+      'Too many codes requested. Please try again later.',
+    );
+    expect(error.retryAfterSeconds).toBe(600);
+  });
+
+  it('returns false for applications without an email address', async () => {
+    const connection = givenHistory({ issued: 0 }, null);
+    await expect(issueApplicantOtp(7, 'login')).resolves.toBe(false);
+    expect(connection.query).toHaveBeenCalledTimes(1);
+    expect(sendApplicantEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyApplicantOtp', () => {
+  // The latest open code, then the results of the attempt and use updates
+  const givenCode = (code: string | null, claimed = 1, used = 1) => {
+    jest
+      .mocked(pool.query)
+      .mockResolvedValueOnce([
+        code ? [{ id: 3, code_hash: hash(code) }] : [],
+        [],
+      ] as never)
+      .mockResolvedValueOnce([{ affectedRows: claimed }, []] as never)
+      .mockResolvedValueOnce([{ affectedRows: used }, []] as never);
+  };
+
+  it('accepts the latest code once', async () => {
+    givenCode('123456');
+    await expect(verifyApplicantOtp(7, 'withdraw', ' 123456 ')).resolves.toBe(
+      true,
+    );
+    expect(jest.mocked(pool.query).mock.calls[1][1]).toEqual([3, 5]);
+
+    givenCode('123456', 1, 0);
+    await expect(verifyApplicantOtp(7, 'withdraw', '123456')).resolves.toBe(
+      false,
+    );
+  });
+
+  it('counts wrong guesses without using the code up', async () => {
+    givenCode('123456');
+    await expect(verifyApplicantOtp(7, 'withdraw', '654321')).resolves.toBe(
+      false,
+    );
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses once the attempts are spent', async () => {
+    givenCode('123456', 0);
+    await expect(verifyApplicantOtp(7, 'withdraw', '123456')).resolves.toBe(
+      false,
+    );
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses when no code is open', async () => {
+    givenCode(null);
+    await expect(verifyApplicantOtp(7, 'withdraw', '123456')).resolves.toBe(
+      false,
+    );
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('verifyApplicantIdentity', () => {
+  it('checks a one-time code when one is given', async () => {
+    jest.mocked(pool.query).mockResolvedValueOnce([[], []] as never);
+    await expect(
+      verifyApplicantIdentity(7, 'correction', {
+        otp: '123456',
+        surname: 'Moyo',
+        yearOfBirth: 2001,
+      }),
+    ).resolves.toBe(false);
+    expect(jest.mocked(pool.query).mock.calls[0][1]).toEqual([7, 'correction']);
+  });
+
+  it('falls back to surname and year of birth', async () => {
+    jest.mocked(pool.query).mockResolvedValueOnce([[{ id: 1 }], []] as never);
+    await expect(
+      verifyApplicantIdentity(7, 'withdraw', {
+        surname: ' Moyo ',
+        yearOfBirth: '2001',
+      }),
+    ).resolves.toBe(true);
+    expect(jest.mocked(pool.query).mock.calls[0][1]).toEqual([
+      7,
+      'Moyo%',
+      2001,
+    ]);
+  });
+
+  it('refuses incomplete credentials without a lookup', async () => {
+    await expect(
+      verifyApplicantIdentity(7, 'withdraw', { surname: 'Moyo' }),
+    ).resolves.toBe(false);
+    await expect(
+      verifyApplicantIdentity(7, 'withdraw', { otp: ' ', yearOfBirth: 2001 }),
+    ).resolves.toBe(false);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
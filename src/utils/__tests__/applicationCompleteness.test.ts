@@ -0,0 +1,153 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { evaluateCompleteness } from '../applicationCompleteness';
+import {
+  getRequiredDocumentTypes,
+  isPhdProgramType,
+  isPostgraduateProgramType,
+} from '../applicationDocuments';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+const BASE_DOCUMENTS = [
+  'academic_certificate',
+  'professional_certificate',
+  'application_fee',
+  'birth_certificate',
+  'identity_card',
+];
+
+const APPLICATION = {
+  id: 7,
+  programme: 'BSc Accounting',
+  starting_semester: 'January 2027',
+  satellite_campus: 'Harare Campus',
+  program_type: 'Undergraduate',
+} as unknown as RowDataPacket;
+
+// Every section of the wizard filled in unless overridden
+const fakeDb = (
+  options: {
+    personal?: Record<string, unknown> | null;
+    kin?: boolean;
+    work?: boolean;
+    documents?: string[];
+    referees?: number;
+  } = {},
+) => {
+  const present = (flag?: boolean) => [flag === false ? [] : [{ id: 1 }]];
+  return {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('FROM personal_details')) {
+        return [
+          options.personal === null
+            ? []
+            : [
+                {
+                  first_names: 'Chipo',
+                  surname: 'Moyo',
+                  date_of_birth: '2001-05-04',
+                  gender: 'Female',
+                  phone: '+263771234567',
+                  email: 'chipo@example.com',
+                  ...options.personal,
+                },
+              ],
+        ];
+      }
+      if (sql.includes('FROM next_of_kin')) return present(options.kin);
+      if (sql.includes('FROM work_experience')) return present(options.work);
+      if (sql.includes('FROM documents')) {
+        return [
+          (options.documents ?? BASE_DOCUMENTS).map((documentType) => ({
+            document_type: documentType,
+          })),
+        ];
+      }
+      if (sql.includes('FROM application_referees')) {
+        return [[{ total: options.referees ?? 2 }]];
+      }
+      return present(true);
+    }),
+  } as unknown as Pool;
+};
+
+const missing = async (db: Pool, application: RowDataPacket = APPLICATION) =>
+  Object.fromEntries(
+    (await evaluateCompleteness(db, application)).sections
+      .filter((section) => section.required && !section.complete)
+      .map((section) => [section.section, section.missing]),
+  );
+
+describe('evaluateCompleteness', () => {
+  it('reports a fully completed undergraduate application', async () => {
+    const report = await evaluateCompleteness(
+      fakeDb({ work: false, referees: 0 }),
+      APPLICATION,
+    );
+    expect(report).toMatchObject({
+      completedSections: 6,
+      requiredSections: 6,
+      percentage: 100,
+      isComplete: true,
+    });
+  });
+
+  it('lists missing and blank fields per section', async () => {
+    expect(
+      await missing(fakeDb({ personal: { phone: ' ' }, kin: false }), {
+        ...APPLICATION,
+        satellite_campus: null,
+      } as RowDataPacket),
+    ).toEqual({
+      application: ['satellite_campus'],
+      personalDetails: ['phone'],
+      nextOfKin: ['next_of_kin'],
+    });
+
+    const report = await evaluateCompleteness(
+      fakeDb({ personal: null, documents: [] }),
+      APPLICATION,
+    );
+    expect(report.percentage).toBe(67);
+    expect(report.isComplete).toBe(false);
+  });
+
+  it('asks postgraduate applicants for work experience and two referees', async () => {
+    const postgraduate = {
+      ...APPLICATION,
+      program_type: ' postgraduate ',
+    } as RowDataPacket;
+    expect(
+      await missing(fakeDb({ work: false, referees: 1 }), postgraduate),
+    ).toEqual({ workExperience: ['work_experience'], referees: ['referees'] });
+    expect(await missing(fakeDb(), postgraduate)).toEqual({});
+  });
+
+  it('asks PhD applicants for a proposal', async () => {
+    expect(
+      await missing(fakeDb(), {
+        ...APPLICATION,
+        program_type: 'PhD',
+      } as RowDataPacket),
+    ).toEqual({ documents: ['proposal'] });
+  });
+});
+
+describe('program types', () => {
+  it('compares program types whatever their casing or padding', () => {
+    expect(isPhdProgramType(' PHD ')).toBe(true);
+    expect(isPostgraduateProgramType('phd')).toBe(true);
+    expect(isPostgraduateProgramType('Postgraduate')).toBe(true);
+    expect(isPostgraduateProgramType('Undergraduate')).toBe(false);
+    expect(isPostgraduateProgramType(null)).toBe(false);
+  });
+
+  it('names the required documents as stored', () => {
+    expect(getRequiredDocumentTypes('Undergraduate')).toEqual(BASE_DOCUMENTS);
+    expect(getRequiredDocumentTypes('phd')).toEqual([
+      ...BASE_DOCUMENTS,
+      'proposal',
+    ]);
+  });
+});
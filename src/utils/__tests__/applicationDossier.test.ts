@@ -0,0 +1,150 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { PDFDocument } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { buildApplicationDossier } from '../applicationDossier';
+import { getStatusHistory } from '../applicationStatus';
+import { getApplicationDocuments } from '../documentVerification';
+import { getStorage } from '../fileStorage';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../applicationStatus', () => ({
+  ...jest.requireActual('../applicationStatus'),
+  getStatusHistory: jest.fn(),
+}));
+jest.mock('../documentVerification', () => ({
+  ...jest.requireActual('../documentVerification'),
+  getApplicationDocuments: jest.fn(),
+}));
+jest.mock('../fileStorage', () => ({
+  ...jest.requireActual('../fileStorage'),
+  getStorage: jest.fn(),
+}));
+
+type Documents = Awaited<ReturnType<typeof getApplicationDocuments>>;
+
+const db = {
+  query: jest.fn(async (sql: string) =>
+    sql.includes('FROM personal_details')
+      ? [[{ title: 'Ms', first_names: 'Chipo', surname: 'Moyo' }]]
+      : [[]],
+  ),
+} as unknown as Pool;
+
+const application = {
+  id: 7,
+  reference_number: 'APL-2026-0001',
+  programme: 'BACC',
+  program_type: 'Undergraduate',
+  accepted_status: 'under_review',
+  created_at: new Date('2026-01-05T08:00:00Z'),
+} as unknown as RowDataPacket;
+
+const upload = (
+  id: number,
+  documentType: string,
+  options: { current?: boolean; version?: number } = {},
+) => ({
+  id,
+  documentType,
+  filePath: `documents/${id}.bin`,
+  version: options.version ?? 1,
+  current: options.current ?? true,
+  originalName: `${documentType}.bin`,
+  verification: { status: 'pending' },
+});
+
+// A PDF whose pages are small enough to tell apart from the A4 dossier pages
+const uploadedPdf = async (pages: number) => {
+  const pdf = await PDFDocument.create();
+  for (let page = 0; page < pages; page += 1) pdf.addPage([200, 300]);
+  return Buffer.from(await pdf.save());
+};
+
+const pageWidths = async (content: Buffer) =>
+  (await PDFDocument.load(content))
+    .getPages()
+    .map((page) => Math.round(page.getWidth()));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(getStatusHistory).mockResolvedValue([]);
+});
+
+describe('buildApplicationDossier', () => {
+  it('renders the application without attachments by default', async () => {
+    jest
+      .mocked(getApplicationDocuments)
+      .mockResolvedValue([upload(1, 'identity_card')] as Documents);
+
+    const dossier = await buildApplicationDossier(db, application);
+
+    expect(dossier.fileName).toBe('APL-2026-0001-dossier.pdf');
+    expect(dossier.content.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(dossier.appendedDocuments).toEqual([]);
+    expect(getStorage).not.toHaveBeenCalled();
+  });
+
+  it('appends the latest upload of each document behind a cover page', async () => {
+    jest
+      .mocked(getApplicationDocuments)
+      .mockResolvedValue([
+        upload(1, 'academic_certificate', { version: 2 }),
+        upload(2, 'academic_certificate', { current: false }),
+        upload(3, 'identity_card'),
+        upload(4, 'birth_certificate'),
+        upload(5, 'application_fee'),
+      ] as Documents);
+    const files: Record<string, Buffer> = {
+      'documents/1.bin': await uploadedPdf(2),
+      'documents/2.bin': await uploadedPdf(1),
+      'documents/3.bin': await QRCode.toBuffer('photo', { type: 'png' }),
+      'documents/4.bin': Buffer.from('plain text'),
+    };
+    jest.mocked(getStorage).mockReturnValue({
+      get: jest.fn(async (key: string) => files[key] ?? null),
+    } as unknown as ReturnType<typeof getStorage>);
+
+    const plain = await pageWidths(
+      (await buildApplicationDossier(db, application)).content,
+    );
+    const dossier = await buildApplicationDossier(db, application, {
+      includeDocuments: true,
+    });
+
+    expect(dossier.appendedDocuments).toEqual([
+      { id: 1, documentType: 'academic_certificate' },
+      { id: 3, documentType: 'identity_card' },
+    ]);
+    // Certificate cover, its two pages, then the image on its own page
+    expect(await pageWidths(dossier.content)).toEqual([
+      ...plain,
+      595,
+      200,
+      200,
+      595,
+    ]);
+  });
+
+  it('keeps a cover page for PDFs that cannot be read', async () => {
+    jest
+      .mocked(getApplicationDocuments)
+      .mockResolvedValue([upload(1, 'academic_certificate')] as Documents);
+    jest.mocked(getStorage).mockReturnValue({
+      get: jest.fn(async () => Buffer.from('%PDF-1.4 truncated')),
+    } as unknown as ReturnType<typeof getStorage>);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const dossier = await buildApplicationDossier(db, application, {
+      includeDocuments: true,
+    });
+
+    expect(dossier.appendedDocuments).toEqual([
+      { id: 1, documentType: 'academic_certificate' },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      'Failed to add document 1 to dossier:',
+      expect.any(Error),
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import {
+  ApplicationDraft,
+  DraftSubmissionError,
+  createDraftKey,
+  parseDraftJson,
+  saveDraftVersion,
+  submitDraft,
+  verifyDraftKey,
+} from '../applicationDrafts';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+const REQUIRED_UPLOADS = [
+  'academic_certificate',
+  'professional_certificate',
+  'application_fee',
+  'birth_certificate',
+  'identity_card',
+].map((documentType) => ({
+  document_type: documentType,
+  storage_key: `documents/${documentType}.pdf`,
+  original_name: `${documentType}.pdf`,
+}));
+
+const DRAFT: ApplicationDraft = {
+  application: {
+    programme: 'BACC',
+    startingSemester: 'January 2027',
+    programType: 'Undergraduate',
+  },
+  personalDetails: {
+    first_names: 'Chipo',
+    surname: 'Moyo',
+    date_of_birth: '2001-05-04',
+    gender: 'Female',
+    phone: '+263771234567',
+    email: 'chipo@example.com',
+  },
+  nextOfKin: {
+    firstName: 'Rudo',
+    lastName: 'Moyo',
+    relationship: 'Mother',
+    contactTel: '+263772222222',
+  },
+  disabilities: { hasDisability: 'No' },
+  educationDetails: {
+    qualifications: [
+      {
+        qualificationType: 'Ordinary Level',
+        subjects: [{ subjectName: 'English', grade: 'B' }],
+      },
+    ],
+  },
+  documents: REQUIRED_UPLOADS.map((upload) => ({
+    documentType: upload.document_type,
+    filePath: upload.storage_key,
+  })),
+};
+
+// Answers the lookups submitDraft makes; every write succeeds
+const fakeConnection = (options: {
+  draft?: ApplicationDraft;
+  submittedAt?: Date | null;
+  existing?: { id: number; accepted_status: string } | null;
+  existingDocuments?: { document_type: string; file_path: string }[];
+  uploads?: typeof REQUIRED_UPLOADS;
+  noDraft?: boolean;
+}) => {
+  const query = jest.fn(async (sql: string) => {
+    if (/FROM application_drafts WHERE reference_number/.test(sql)) {
+      return [
+        options.noDraft
+          ? []
+          : [
+              {
+                id: 3,
+                draft_json: JSON.stringify(options.draft ?? DRAFT),
+                submitted_at: options.submittedAt ?? null,
+              },
+            ],
+      ];
+    }
+    if (/FROM applications WHERE reference_number/.test(sql)) {
+      return [options.existing ? [options.existing] : []];
+    }
+    if (/SELECT document_type, file_path FROM documents/.test(sql)) {
+      return [options.existingDocuments ?? []];
+    }
+    if (/FROM application_draft_uploads/.test(sql)) {
+      return [options.uploads ?? REQUIRED_UPLOADS];
+    }
+    if (/SELECT accepted_status FROM applications WHERE id/.test(sql)) {
+      return [[{ accepted_status: 'draft' }]];
+    }
+    if (sql.startsWith('SELECT COUNT(*)')) return [[{ total: 1 }]];
+    return [{ affectedRows: 1, insertId: 11 }];
+  });
+  return { query };
+};
+
+const submit = (connection: ReturnType<typeof fakeConnection>) =>
+  submitDraft(connection as unknown as PoolConnection, 'APL-2026-0001');
+
+const submissionError = async (
+  connection: ReturnType<typeof fakeConnection>,
+) => {
+  try {
+    await submit(connection);
+  } catch (error) {
+    return error as DraftSubmissionError;
+  }
+  throw new Error('Expected submitDraft to throw');
+};
+
+const statements = (connection: ReturnType<typeof fakeConnection>) =>
+  connection.query.mock.calls.map(([sql]) => sql as string);
+
+describe('submitDraft', () => {
+  it('creates the application, its documents and the submitted status', async () => {
+    const connection = fakeConnection({});
+    await expect(submit(connection)).resolves.toEqual({ applicationId: 11 });
+
+    const sql = statements(connection);
+    expect(sql.filter((s) => /^INSERT INTO applications/.test(s))).toHaveLength(
+      1,
+    );
+    expect(sql.filter((s) => /^INSERT INTO documents/.test(s))).toHaveLength(
+      REQUIRED_UPLOADS.length,
+    );
+    const calls = connection.query.mock.calls as unknown as [string, unknown][];
+    expect(
+      calls.find(([s]) =>
+        /^UPDATE applications SET accepted_status/.test(s),
+      )?.[1],
+    ).toEqual(['submitted', 11]);
+    expect(sql[sql.length - 1]).toMatch(/SET status = 'SUBMITTED'/);
+  });
+
+  it('rejects missing and already submitted drafts', async () => {
+    expect(await submissionError(fakeConnection({ noDraft: true }))).toEqual(
+      new DraftSubmissionError('Draft not found', 404),
+    );
+    expect(
+      (await submissionError(fakeConnection({ submittedAt: new Date() })))
+        .statusCode,
+    ).toBe(409);
+    expect(
+      (
+        await submissionError(
+          fakeConnection({ existing: { id: 9, accepted_status: 'submitted' } }),
+        )
+      ).statusCode,
+    ).toBe(409);
+  });
+
+  it('lists the sections a draft is missing', async () => {
+    const error = await submissionError(
+      fakeConnection({
+        draft: { ...DRAFT, nextOfKin: undefined, documents: [] },
+      }),
+    );
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toContain('nextOfKin');
+    expect(error.message).toContain('documents.identity_card');
+  });
+
+  it('asks PhD drafts for a proposal whatever the program type casing', async () => {
+    const error = await submissionError(
+      fakeConnection({
+        draft: {
+          ...DRAFT,
+          application: { ...DRAFT.application, programType: ' phd ' },
+        },
+      }),
+    );
+    expect(error.message).toBe(
+      'Draft is incomplete. Missing: documents.proposal',
+    );
+  });
+
+  it('refuses files that were not uploaded for this draft', async () => {
+    const error = await submissionError(
+      fakeConnection({
+        uploads: REQUIRED_UPLOADS.filter(
+          (upload) => upload.document_type !== 'identity_card',
+        ),
+      }),
+    );
+    expect(error.statusCode).toBe(422);
+    expect(error.errors).toEqual([
+      {
+        field: 'documents[4].filePath',
+        message: 'was not uploaded as identity_card for this draft',
+      },
+    ]);
+  });
+
+  it('validates sections against the wizard schemas', async () => {
+    const error = await submissionError(
+      fakeConnection({
+        draft: {
+          ...DRAFT,
+          nextOfKin: { ...DRAFT.nextOfKin, contactTel: 'call me' },
+        },
+      }),
+    );
+    expect(error.statusCode).toBe(422);
+    expect(error.errors?.map((issue) => issue.field)).toEqual([
+      'nextOfKin.contactTel',
+    ]);
+  });
+
+  it('keeps documents the wizard already recorded', async () => {
+    const connection = fakeConnection({
+      existing: { id: 9, accepted_status: 'draft' },
+      existingDocuments: REQUIRED_UPLOADS.map((upload) => ({
+        document_type: upload.document_type,
+        file_path: upload.storage_key,
+      })),
+    });
+    await expect(submit(connection)).resolves.toEqual({ applicationId: 9 });
+    const sql = statements(connection);
+    expect(sql.some((s) => /^DELETE FROM documents/.test(s))).toBe(false);
+    expect(sql.some((s) => /^INSERT INTO documents/.test(s))).toBe(false);
+  });
+});
+
+describe('draft keys', () => {
+  it('only stores the hash and accepts the key it handed out', async () => {
+    let stored = '';
+    const db = {
+      query: jest.fn(async (sql: string, values: string[]) => {
+        if (sql.startsWith('INSERT')) {
+          stored = values[1];
+          return [{ affectedRows: 1 }];
+        }
+        return [[{ key_hash: stored }]];
+      }),
+    } as unknown as Pool;
+
+    const key = await createDraftKey(db, 'APL-2026-0001');
+    expect(stored).not.toContain(key);
+    expect(stored).toBe(crypto.createHash('sha256').update(key).digest('hex'));
+
+    await expect(verifyDraftKey(db, 'APL-2026-0001', key)).resolves.toBe(true);
+    await expect(
+      verifyDraftKey(db, 'APL-2026-0001', `${key.slice(1)}0`),
+    ).resolves.toBe(false);
+    await expect(verifyDraftKey(db, 'APL-2026-0001', undefined)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('refuses every key for drafts that never had one', async () => {
+    const db = {
+      query: jest.fn(async () => [[{ key_hash: null }]]),
+    } as unknown as Pool;
+    await expect(verifyDraftKey(db, 'APL-2026-0001', 'anything')).resolves.toBe(
+      false,
+    );
+  });
+});
+
+describe('saveDraftVersion', () => {
+  const params = {
+    referenceNumber: 'APL-2026-0001',
+    expectedVersion: 4,
+    draftJson: {},
+    email: null,
+    surname: null,
+    forenames: null,
+  };
+
+  it('only saves over the expected version', async () => {
+    const db = {
+      query: jest.fn(async () => [{ affectedRows: 0 }]),
+    };
+    await expect(saveDraftVersion(db as unknown as Pool, params)).resolves.toBe(
+      false,
+    );
+
+    const [, [update, values]] = db.query.mock.calls as unknown as [
+      unknown,
+      [string, unknown[]],
+    ];
+    expect(update).toMatch(/s\.version = s\.version \+ 1/);
+    expect(update).toMatch(/AND s\.version = \? AND d\.submitted_at IS NULL/);
+    expect(values.slice(-2)).toEqual(['APL-2026-0001', 4]);
+  });
+
+  it('reports a successful save', async () => {
+    const db = { query: jest.fn(async () => [{ affectedRows: 1 }]) };
+    await expect(saveDraftVersion(db as unknown as Pool, params)).resolves.toBe(
+      true,
+    );
+  });
+});
+
+describe('parseDraftJson', () => {
+  it('reads objects and JSON text and falls back to an empty draft', () => {
+    expect(parseDraftJson({ nextOfKin: {} })).toEqual({ nextOfKin: {} });
+    expect(parseDraftJson('{"disabilities":{}}')).toEqual({ disabilities: {} });
+    expect(parseDraftJson('not json')).toEqual({});
+    expect(parseDraftJson(null)).toEqual({});
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  ExportError,
+  isExportFormat,
+  parseExportColumns,
+  toCsvCell,
+} from '../applicationExport';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+describe('parseExportColumns', () => {
+  it('uses the default columns when none are asked for', () => {
+    expect(parseExportColumns(undefined)).toBe(DEFAULT_EXPORT_COLUMNS);
+    expect(parseExportColumns('')).toBe(DEFAULT_EXPORT_COLUMNS);
+  });
+
+  it('reads comma separated and repeated columns, in order and once each', () => {
+    expect(
+      parseExportColumns([
+        'personal_details.surname, applications.reference_number',
+        'personal_details.surname',
+      ]),
+    ).toEqual(['personal_details.surname', 'applications.reference_number']);
+  });
+
+  it('rejects unknown columns instead of dropping them', () => {
+    expect(() =>
+      parseExportColumns('applications.id,users.password,pd.surname'),
+    ).toThrow(
+      new ExportError(
+        'Unknown export columns: users.password, pd.surname',
+        400,
+      ),
+    );
+  });
+
+  it('rejects a list without any column', () => {
+    expect(() => parseExportColumns(' , ')).toThrow(
+      'Choose at least one column to export',
+    );
+  });
+
+  it('only selects whitelisted table columns', () => {
+    for (const column of Object.values(EXPORT_COLUMNS)) {
+      expect(column.sql).toMatch(/^(a|pd|dp)\.[a-z_]+$/);
+    }
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts csv and xlsx only', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(true);
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('toCsvCell', () => {
+  it('writes empty cells for missing values', () => {
+    expect(toCsvCell(null)).toBe('');
+    expect(toCsvCell(undefined)).toBe('');
+  });
+
+  it('writes dates as ISO timestamps and numbers as they are', () => {
+    expect(toCsvCell(new Date('2026-01-15T10:00:00.000Z'))).toBe(
+      '2026-01-15T10:00:00.000Z',
+    );
+    expect(toCsvCell(250)).toBe('250');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCsvCell('Harare, Zimbabwe')).toBe('"Harare, Zimbabwe"');
+    expect(toCsvCell('The "Main" campus')).toBe('"The ""Main"" campus"');
+    expect(toCsvCell('line one\r\nline two')).toBe('"line one\r\nline two"');
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+263771234567', '-1', '@SUM(A1)', '\tx'])(
+    'stops %j from running as a formula',
+    (value) => {
+      expect(toCsvCell(value).replace(/^"/, '')).toMatch(/^'/);
+    },
+  );
+});
@@ -0,0 +1,172 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import {
+  APPLICATION_STATUSES,
+  MANUAL_STATUSES,
+  OFFER_STATUSES,
+  StatusTransitionError,
+  allowedTransitions,
+  canTransition,
+  normalizeStatus,
+  transitionApplicationStatus,
+} from '../applicationStatus';
+
+// Answers the status lookup with `status` and records every other query
+const fakeConnection = (status: string | null) => {
+  const connection = {
+    query: jest.fn(async (sql: string) =>
+      sql.startsWith('SELECT')
+        ? [status === null ? [] : [{ accepted_status: status }]]
+        : [{ affectedRows: 1 }],
+    ),
+    beginTransaction: jest.fn(async () => undefined),
+    commit: jest.fn(async () => undefined),
+    rollback: jest.fn(async () => undefined),
+    release: jest.fn(),
+  };
+  return connection;
+};
+
+const asConnection = (connection: ReturnType<typeof fakeConnection>) =>
+  connection as unknown as PoolConnection;
+
+const fakePool = (connection: ReturnType<typeof fakeConnection>) =>
+  ({ getConnection: jest.fn(async () => connection) }) as unknown as Pool;
+
+describe('status transitions', () => {
+  it('only leads to known statuses and never to the same status', () => {
+    for (const from of APPLICATION_STATUSES) {
+      for (const to of allowedTransitions(from)) {
+        expect(APPLICATION_STATUSES).toContain(to);
+        expect(to).not.toBe(from);
+      }
+    }
+  });
+
+  it('follows the admissions lifecycle', () => {
+    expect(canTransition('draft', 'submitted')).toBe(true);
+    expect(canTransition('submitted', 'accepted')).toBe(true);
+    expect(canTransition('conditionally_accepted', 'accepted')).toBe(true);
+    expect(canTransition('accepted', 'offer_accepted')).toBe(true);
+    expect(canTransition('offer_accepted', 'enrolled')).toBe(true);
+
+    expect(canTransition('draft', 'accepted')).toBe(false);
+    expect(canTransition('rejected', 'accepted')).toBe(false);
+    expect(canTransition('accepted', 'withdrawn')).toBe(false);
+    expect(canTransition('offer_declined', 'offer_accepted')).toBe(false);
+  });
+
+  it('ends at enrolled, declined and merged', () => {
+    expect(allowedTransitions('enrolled')).toEqual([]);
+    expect(allowedTransitions('offer_declined')).toEqual([]);
+    expect(allowedTransitions('merged')).toEqual([]);
+  });
+
+  it('only merges applications that never held an offer', () => {
+    const mergeable = APPLICATION_STATUSES.filter((status) =>
+      canTransition(status, 'merged'),
+    );
+    expect(mergeable).not.toContain('accepted');
+    expect(mergeable).not.toContain('conditionally_accepted');
+    expect(mergeable).not.toContain('offer_accepted');
+  });
+
+  it('lets applicants withdraw only while no decision has been made', () => {
+    expect(
+      APPLICATION_STATUSES.filter((from) => canTransition(from, 'withdrawn')),
+    ).toEqual([
+      'draft',
+      'submitted',
+      'under_review',
+      'shortlisted',
+      'waitlisted',
+    ]);
+  });
+
+  it('leaves offers and rejections off the statuses staff set by hand', () => {
+    for (const status of MANUAL_STATUSES) {
+      expect(
+        OFFER_STATUSES.filter((offer) => offer !== 'enrolled'),
+      ).not.toContain(status);
+      expect(status).not.toBe('rejected');
+    }
+    expect(
+      APPLICATION_STATUSES.filter((from) => canTransition(from, 'enrolled')),
+    ).toEqual(['offer_accepted']);
+  });
+
+  it('returns a copy of the allowed list', () => {
+    allowedTransitions('draft').push('enrolled');
+    expect(canTransition('draft', 'enrolled')).toBe(false);
+  });
+});
+
+describe('normalizeStatus', () => {
+  it('maps legacy and unknown values onto submitted', () => {
+    expect(normalizeStatus('pending')).toBe('submitted');
+    expect(normalizeStatus(null)).toBe('submitted');
+    expect(normalizeStatus('')).toBe('submitted');
+    expect(normalizeStatus('approved')).toBe('submitted');
+  });
+
+  it('is case and whitespace insensitive', () => {
+    expect(normalizeStatus(' Offer_Accepted ')).toBe('offer_accepted');
+  });
+});
+
+describe('transitionApplicationStatus', () => {
+  const params = { applicationId: 7, toStatus: 'accepted' as const };
+
+  it('updates the status and records the history row', async () => {
+    const connection = fakeConnection('submitted');
+    await expect(
+      transitionApplicationStatus(asConnection(connection), {
+        ...params,
+        actorId: 3,
+      }),
+    ).resolves.toEqual({
+      changed: true,
+      fromStatus: 'submitted',
+      toStatus: 'accepted',
+    });
+    const [lock, update, history] = connection.query.mock.calls;
+    expect(lock[0]).toMatch(/FOR UPDATE$/);
+    expect(update[0]).toMatch(/^UPDATE applications/);
+    expect(history[0]).toMatch(/INSERT INTO application_status_history/);
+    expect(connection.beginTransaction).not.toHaveBeenCalled();
+  });
+
+  it('writes nothing when the status does not change', async () => {
+    const connection = fakeConnection('accepted');
+    await expect(
+      transitionApplicationStatus(asConnection(connection), params),
+    ).resolves.toMatchObject({ changed: false });
+    expect(connection.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses transitions the lifecycle does not allow', async () => {
+    const connection = fakeConnection('rejected');
+    await expect(
+      transitionApplicationStatus(asConnection(connection), params),
+    ).rejects.toBeInstanceOf(StatusTransitionError);
+    expect(connection.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs in a transaction of its own when given the pool', async () => {
+    const connection = fakeConnection('submitted');
+    await transitionApplicationStatus(fakePool(connection), params);
+    expect(connection.beginTransaction).toHaveBeenCalled();
+    expect(connection.commit).toHaveBeenCalled();
+    expect(connection.rollback).not.toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+
+  it('rolls back its own transaction on failure', async () => {
+    const connection = fakeConnection(null);
+    await expect(
+      transitionApplicationStatus(fakePool(connection), params),
+    ).rejects.toThrow('Application 7 not found');
+    expect(connection.commit).not.toHaveBeenCalled();
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
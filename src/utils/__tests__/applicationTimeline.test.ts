@@ -0,0 +1,167 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { getStatusHistory } from '../applicationStatus';
+import { buildApplicationTimeline } from '../applicationTimeline';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../applicationStatus', () => ({
+  ...jest.requireActual('../applicationStatus'),
+  getStatusHistory: jest.fn(),
+}));
+
+const missingTable = Object.assign(new Error("Table doesn't exist"), {
+  errno: 1146,
+});
+
+// Upload, letter and response lookups answer from `options`
+const fakeDb = (
+  options: {
+    uploads?: { first_at: string | null; total: number };
+    documents?: number;
+    offerAt?: string | null;
+    downloadedAt?: string | null;
+    response?: { decision: string; decided_at: string } | null;
+    noResponseTables?: boolean;
+  } = {},
+) =>
+  ({
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('FROM application_uploads')) {
+        return [[options.uploads ?? { first_at: null, total: 0 }]];
+      }
+      if (sql.includes('FROM documents')) {
+        return [[{ total: options.documents ?? 0 }]];
+      }
+      if (sql.includes('FROM offer_letters ')) {
+        return [[{ first_at: options.offerAt ?? null }]];
+      }
+      if (options.noResponseTables) throw missingTable;
+      if (sql.includes('FROM offer_letter_events')) {
+        return [[{ first_at: options.downloadedAt ?? null }]];
+      }
+      return [options.response ? [options.response] : []];
+    }),
+  }) as unknown as Pool;
+
+const givenHistory = (...entries: [string, string][]) =>
+  jest.mocked(getStatusHistory).mockResolvedValue(
+    entries.map(([to_status, created_at]) => ({
+      to_status,
+      created_at,
+    })) as Awaited<ReturnType<typeof getStatusHistory>>,
+  );
+
+const application = (status: string) =>
+  ({
+    id: 7,
+    reference_number: 'APL-2026-0001',
+    accepted_status: status,
+    created_at: '2026-01-05T08:00:00Z',
+  }) as unknown as RowDataPacket;
+
+const states = async (db: Pool, status: string) =>
+  Object.fromEntries(
+    (await buildApplicationTimeline(db, application(status))).steps.map(
+      (step) => [step.key, step.state],
+    ),
+  );
+
+describe('buildApplicationTimeline', () => {
+  it('walks an accepted offer through to enrolment', async () => {
+    givenHistory(
+      ['submitted', '2026-01-10T08:00:00Z'],
+      ['under_review', '2026-01-12T08:00:00Z'],
+      ['accepted', '2026-02-01T08:00:00Z'],
+      ['offer_accepted', '2026-02-05T08:00:00Z'],
+      ['enrolled', '2026-03-01T08:00:00Z'],
+    );
+    const timeline = await buildApplicationTimeline(
+      fakeDb({
+        uploads: { first_at: '2026-01-09T08:00:00Z', total: 4 },
+        documents: 2,
+        offerAt: '2026-02-01T09:00:00Z',
+        downloadedAt: '2026-02-02T09:00:00Z',
+        response: { decision: 'accepted', decided_at: '2026-02-05T08:00:00Z' },
+      }),
+      application('enrolled'),
+    );
+
+    expect(timeline.statusLabel).toBe('Enrolled');
+    expect(timeline.steps.every((step) => step.state === 'complete')).toBe(
+      true,
+    );
+    const detail = Object.fromEntries(
+      timeline.steps.map((step) => [step.key, step.detail]),
+    );
+    expect(detail.documents_received).toBe('6 documents on file.');
+    expect(detail.decision).toBe('You have been offered a place.');
+    expect(detail.offer_issued).toMatch(/^You downloaded your offer letter on/);
+    expect(detail.offer_responded).toBe('You accepted the offer.');
+  });
+
+  it('leaves later steps pending while the application is open', async () => {
+    givenHistory(['submitted', '2026-01-10T08:00:00Z']);
+    expect(await states(fakeDb({ documents: 1 }), 'submitted')).toEqual({
+      submitted: 'complete',
+      documents_received: 'complete',
+      under_review: 'pending',
+      decision: 'pending',
+      offer_issued: 'pending',
+      offer_responded: 'pending',
+      payment_received: 'pending',
+    });
+  });
+
+  it('closes the remaining steps of a rejected application', async () => {
+    givenHistory(
+      ['submitted', '2026-01-10T08:00:00Z'],
+      ['rejected', '2026-01-20T08:00:00Z'],
+    );
+    const timeline = await buildApplicationTimeline(
+      fakeDb(),
+      application('rejected'),
+    );
+    const byKey = Object.fromEntries(
+      timeline.steps.map((step) => [step.key, step]),
+    );
+    // A decision straight from submitted still shows the review step done
+    expect(byKey.under_review.state).toBe('complete');
+    expect(byKey.decision.detail).toBe(
+      'Unfortunately your application was not successful.',
+    );
+    expect(byKey.offer_issued.state).toBe('not_applicable');
+    expect(byKey.payment_received.state).toBe('not_applicable');
+  });
+
+  it('explains offers that lapsed without a response', async () => {
+    givenHistory(
+      ['submitted', '2026-01-10T08:00:00Z'],
+      ['accepted', '2026-02-01T08:00:00Z'],
+      ['offer_declined', '2026-03-05T02:00:00Z'],
+    );
+    const timeline = await buildApplicationTimeline(
+      fakeDb({ offerAt: '2026-02-01T09:00:00Z', noResponseTables: true }),
+      application('offer_declined'),
+    );
+    const byKey = Object.fromEntries(
+      timeline.steps.map((step) => [step.key, step]),
+    );
+    expect(byKey.offer_responded).toMatchObject({
+      state: 'complete',
+      detail: 'The offer was not accepted before it expired.',
+    });
+    expect(byKey.payment_received.state).toBe('not_applicable');
+  });
+
+  it('dates legacy submissions without history from the application', async () => {
+    givenHistory();
+    const timeline = await buildApplicationTimeline(
+      fakeDb(),
+      application('pending'),
+    );
+    expect(timeline.status).toBe('submitted');
+    expect(timeline.steps[0].date).toEqual(new Date('2026-01-05T08:00:00Z'));
+
+    givenHistory();
+    expect((await states(fakeDb(), 'draft')).submitted).toBe('pending');
+  });
+});
@@ -0,0 +1,173 @@
+import { Pool } from 'mysql2/promise';
+import {
+  SEAT_HOLDING_STATUSES,
+  checkCapacity,
+  getCapacitySummaries,
+  getFeeCategory,
+} from '../capacity';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+const CAPACITY = {
+  id: 4,
+  programme_id: 1,
+  satellite_campus: 'Harare Campus',
+  starting_semester: 'January 2027',
+  total_seats: 3,
+  local_seats: 2,
+  foreign_seats: null,
+};
+
+type Citizenship = { citizenship: string | null; nationality: string | null };
+
+const LOCAL: Citizenship = { citizenship: 'Zimbabwean', nationality: null };
+const FOREIGN: Citizenship = { citizenship: 'Zambian', nationality: null };
+
+const fakeDb = (options: {
+  capacity?: Partial<typeof CAPACITY> | null;
+  applicant?: Citizenship;
+  taken: Citizenship[];
+}) =>
+  ({
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('FROM programme_capacities')) {
+        return [
+          options.capacity === null
+            ? []
+            : [{ ...CAPACITY, ...options.capacity }],
+        ];
+      }
+      if (sql.startsWith('SELECT citizenship')) {
+        return [[options.applicant ?? LOCAL]];
+      }
+      return [options.taken];
+    }),
+  }) as unknown as Pool & { query: jest.Mock };
+
+const PARAMS = {
+  applicationId: 7,
+  programme: 'BACC',
+  satelliteCampus: 'Harare Campus',
+  startingSemester: 'January 2027',
+};
+
+describe('checkCapacity', () => {
+  it('locks the capacity row and leaves out the application itself', async () => {
+    const db = fakeDb({ taken: [LOCAL] });
+    await expect(checkCapacity(db, PARAMS)).resolves.toBeNull();
+
+    const [[lockSql], , [, takenValues]] = db.query.mock.calls;
+    expect(lockSql).toMatch(/FOR UPDATE$/);
+    expect(takenValues).toEqual([
+      'BACC',
+      'Harare Campus',
+      'January 2027',
+      SEAT_HOLDING_STATUSES,
+      7,
+    ]);
+  });
+
+  it('refuses once every seat is held', async () => {
+    const result = await checkCapacity(
+      fakeDb({ applicant: FOREIGN, taken: [LOCAL, FOREIGN, FOREIGN] }),
+      PARAMS,
+    );
+    expect(result).toEqual({
+      message: 'Programme is full for this campus and intake',
+      details: {
+        satelliteCampus: 'Harare Campus',
+        startingSemester: 'January 2027',
+        category: 'foreign',
+        total: { seats: 3, taken: 3, remaining: 0 },
+        quota: null,
+      },
+    });
+  });
+
+  it("refuses when the applicant's quota is full though seats remain", async () => {
+    const result = await checkCapacity(
+      fakeDb({ taken: [LOCAL, { citizenship: null, nationality: null }] }),
+      PARAMS,
+    );
+    expect(result?.message).toBe('The local quota for this intake is full');
+    expect(result?.details.quota).toEqual({ seats: 2, taken: 2, remaining: 0 });
+
+    await expect(
+      checkCapacity(
+        fakeDb({ applicant: FOREIGN, taken: [LOCAL, LOCAL] }),
+        PARAMS,
+      ),
+    ).resolves.toBeNull();
+  });
+
+  it('skips intakes without configured capacity', async () => {
+    await expect(
+      checkCapacity(fakeDb({ capacity: null, taken: [] }), PARAMS),
+    ).resolves.toBeNull();
+
+    const db = fakeDb({ taken: [] });
+    await expect(
+      checkCapacity(db, { ...PARAMS, satelliteCampus: null }),
+    ).resolves.toBeNull();
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('getCapacitySummaries', () => {
+  it('counts held seats per intake and quota', async () => {
+    const db = {
+      query: jest.fn(async (sql: string) =>
+        sql.includes('FROM programme_capacities')
+          ? [
+              [
+                CAPACITY,
+                { ...CAPACITY, id: 5, starting_semester: 'August 2027' },
+              ],
+            ]
+          : [
+              [
+                {
+                  programme: 'BACC',
+                  satellite_campus: 'harare campus',
+                  starting_semester: 'January 2027',
+                  ...LOCAL,
+                },
+                {
+                  programme: 'BACC',
+                  satellite_campus: 'Harare Campus',
+                  starting_semester: 'January 2027',
+                  ...FOREIGN,
+                },
+              ],
+            ],
+      ),
+    } as unknown as Pool;
+
+    const summaries = await getCapacitySummaries(db, [{ id: 1, code: 'BACC' }]);
+    expect(summaries.get(1)).toEqual([
+      {
+        id: 4,
+        satelliteCampus: 'Harare Campus',
+        startingSemester: 'January 2027',
+        total: { seats: 3, taken: 2, remaining: 1 },
+        quotas: { local: { seats: 2, taken: 1, remaining: 1 } },
+      },
+      {
+        id: 5,
+        satelliteCampus: 'Harare Campus',
+        startingSemester: 'August 2027',
+        total: { seats: 3, taken: 0, remaining: 3 },
+        quotas: { local: { seats: 2, taken: 0, remaining: 2 } },
+      },
+    ]);
+  });
+});
+
+describe('getFeeCategory', () => {
+  it('treats Zimbabweans and unstated citizenship as local', () => {
+    expect(getFeeCategory({ citizenship: ' ZIMBABWE ' })).toBe('local');
+    expect(getFeeCategory({ nationality: 'Zimbabwean' })).toBe('local');
+    expect(getFeeCategory(undefined)).toBe('local');
+    expect(getFeeCategory({ citizenship: 'South African' })).toBe('foreign');
+  });
+});
@@ -0,0 +1,143 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import pool from '../../db';
+import {
+  applyPersonalDetailsChanges,
+  buildCorrectionDiff,
+  notifyCorrectionDecision,
+  parseCorrectionChanges,
+  pickChangedFields,
+} from '../corrections';
+import { sendApplicantEmail } from '../notification';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+const STORED = {
+  first_names: 'Chipo',
+  surname: 'Moyo',
+  date_of_birth: new Date('2001-05-04T00:00:00Z'),
+  national_id: null,
+  email: 'chipo@example.com',
+} as unknown as RowDataPacket;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('pickChangedFields', () => {
+  it('keeps only known fields whose value differs from the stored one', () => {
+    expect(
+      pickChangedFields(STORED, {
+        firstNames: ' Chipo ',
+        surname: 'Moyo-Dube',
+        dateOfBirth: '2001-05-04',
+        nationalId: '63-123456A78',
+        studentNumber: 'W260001',
+      }),
+    ).toEqual({ surname: 'Moyo-Dube', nationalId: '63-123456A78' });
+  });
+
+  it('treats a cleared field as a change', () => {
+    expect(pickChangedFields(STORED, { email: '' })).toEqual({ email: '' });
+    expect(pickChangedFields(STORED, { nationalId: '' })).toEqual({});
+  });
+});
+
+describe('buildCorrectionDiff', () => {
+  it('pairs each proposed value with the stored one', () => {
+    expect(
+      buildCorrectionDiff(STORED, {
+        surname: 'Moyo-Dube',
+        nationalId: '63-123456A78',
+        unknown: 'x',
+      }),
+    ).toEqual([
+      { field: 'surname', current: 'Moyo', proposed: 'Moyo-Dube' },
+      { field: 'nationalId', current: null, proposed: '63-123456A78' },
+    ]);
+    expect(buildCorrectionDiff(undefined, { surname: 'Moyo' })).toEqual([
+      { field: 'surname', current: null, proposed: 'Moyo' },
+    ]);
+  });
+});
+
+describe('applyPersonalDetailsChanges', () => {
+  it('writes the mapped columns only', async () => {
+    const db = { query: jest.fn() } as unknown as Pool;
+    await applyPersonalDetailsChanges(db, 7, {
+      surname: 'Moyo-Dube',
+      maidenName: 'Moyo',
+      accepted_status: 'accepted',
+    });
+    expect(db.query).toHaveBeenCalledWith(
+      'UPDATE personal_details SET ? WHERE application_id = ?',
+      [{ surname: 'Moyo-Dube', maiden_name: 'Moyo' }, 7],
+    );
+  });
+
+  it('skips the update when nothing maps to a column', async () => {
+    const db = { query: jest.fn() } as unknown as Pool;
+    await applyPersonalDetailsChanges(db, 7, { accepted_status: 'accepted' });
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseCorrectionChanges', () => {
+  it('reads stored JSON and tolerates bad values', () => {
+    expect(parseCorrectionChanges('{"surname":"Moyo"}')).toEqual({
+      surname: 'Moyo',
+    });
+    expect(parseCorrectionChanges({ surname: 'Moyo' })).toEqual({
+      surname: 'Moyo',
+    });
+    expect(parseCorrectionChanges('{')).toEqual({});
+    expect(parseCorrectionChanges(null)).toEqual({});
+  });
+});
+
+describe('notifyCorrectionDecision', () => {
+  const givenContact = (contact: Record<string, unknown> | null) =>
+    jest
+      .mocked(pool.query)
+      .mockResolvedValue([(contact ? [contact] : []) as RowDataPacket[], []]);
+
+  it('tells the applicant the outcome and the office note', async () => {
+    givenContact({
+      reference_number: 'APL-2026-0001',
+      first_names: 'Chipo',
+      surname: 'Moyo',
+      email: 'chipo@example.com',
+    });
+    await expect(
+      notifyCorrectionDecision({
+        applicationId: 7,
+        status: 'rejected',
+        note: 'Please send a copy of your marriage certificate.',
+      }),
+    ).resolves.toBe(true);
+
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    expect(email.subject).toBe('Correction request rejected');
+    expect(email.text).toContain('Dear Chipo Moyo');
+    expect(email.text).toContain('APL-2026-0001 could not be approved');
+    expect(email.text).toContain('marriage certificate');
+  });
+
+  it('reports applicants it could not email', async () => {
+    givenContact({ reference_number: 'APL-2026-0001', email: null });
+    await expect(
+      notifyCorrectionDecision({ applicationId: 7, status: 'approved' }),
+    ).resolves.toBe(false);
+    expect(sendApplicantEmail).not.toHaveBeenCalled();
+
+    givenContact({ reference_number: 'APL-2026-0001', email: 'a@b.co' });
+    jest.mocked(sendApplicantEmail).mockRejectedValueOnce(new Error('SMTP'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(
+      notifyCorrectionDecision({ applicationId: 7, status: 'approved' }),
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { AuthenticatedRequest } from '../../middleware/authenticateToken';
+import { canViewApplicationDocuments } from '../documentAccess';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+type User = AuthenticatedRequest['user'];
+
+const APPLICATION = {
+  referenceNumber: 'APL-2026-0001',
+  satelliteCampus: 'Harare Campus',
+};
+
+describe('canViewApplicationDocuments', () => {
+  it('lets applicants open only their own application', () => {
+    const own: User = {
+      id: 1,
+      role: 'applicant',
+      referenceNumber: 'APL-2026-0001',
+    };
+    const other: User = {
+      id: 2,
+      role: 'applicant',
+      referenceNumber: 'APL-2026-0002',
+    };
+    expect(canViewApplicationDocuments(own, APPLICATION)).toBe(true);
+    expect(canViewApplicationDocuments(other, APPLICATION)).toBe(false);
+  });
+
+  it('lets admins open documents from every campus', () => {
+    expect(
+      canViewApplicationDocuments({ id: 1, role: 'Admin' }, APPLICATION),
+    ).toBe(true);
+  });
+
+  it("limits other staff to their own campus, however it's written", () => {
+    const staff = (campus?: string): User => ({ id: 5, role: 'sales', campus });
+    expect(canViewApplicationDocuments(staff(' harare '), APPLICATION)).toBe(
+      true,
+    );
+    expect(canViewApplicationDocuments(staff('Bulawayo'), APPLICATION)).toBe(
+      false,
+    );
+    expect(canViewApplicationDocuments(staff(undefined), APPLICATION)).toBe(
+      false,
+    );
+    expect(
+      canViewApplicationDocuments(staff(''), {
+        ...APPLICATION,
+        satelliteCampus: null,
+      }),
+    ).toBe(false);
+  });
+
+  it('refuses anonymous callers', () => {
+    expect(canViewApplicationDocuments(undefined, APPLICATION)).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import pool from '../../db';
+import {
+  describeDocumentType,
+  getApplicationDocuments,
+  getUnverifiedRequiredDocuments,
+  notifyDocumentRejected,
+  setDocumentVerification,
+} from '../documentVerification';
+import { sendApplicantEmail } from '../notification';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+// Document rows newest first within each type, as the query orders them
+const documentsDb = (
+  rows: { id: number; type: string; status?: string; reason?: string }[],
+) =>
+  ({
+    query: jest.fn(async () => [
+      rows.map((row) => ({
+        id: row.id,
+        document_type: row.type,
+        file_path: `documents/${row.id}.pdf`,
+        verification_status: row.status ?? 'pending',
+        verification_reason: row.reason ?? null,
+      })),
+    ]),
+  }) as unknown as Pool;
+
+const verified = (id: number, type: string) => ({
+  id,
+  type,
+  status: 'verified',
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('getApplicationDocuments', () => {
+  it('numbers uploads per type and marks the latest as current', async () => {
+    const documents = await getApplicationDocuments(
+      documentsDb([
+        { id: 9, type: 'academic_certificate' },
+        { id: 4, type: 'academic_certificate', status: 'rejected' },
+        { id: 5, type: 'identity_card' },
+      ]),
+      7,
+    );
+    expect(
+      documents.map(({ id, version, current }) => ({ id, version, current })),
+    ).toEqual([
+      { id: 9, version: 2, current: true },
+      { id: 4, version: 1, current: false },
+      { id: 5, version: 1, current: true },
+    ]);
+    expect(documents[1].verification.status).toBe('rejected');
+  });
+});
+
+describe('getUnverifiedRequiredDocuments', () => {
+  const ALL_VERIFIED = [
+    verified(1, 'academic_certificate'),
+    verified(2, 'professional_certificate'),
+    verified(3, 'application_fee'),
+    verified(4, 'birth_certificate'),
+    verified(5, 'identity_card'),
+  ];
+
+  it('passes when the latest upload of every required type is verified', async () => {
+    await expect(
+      getUnverifiedRequiredDocuments(
+        documentsDb(ALL_VERIFIED),
+        7,
+        'Undergraduate',
+      ),
+    ).resolves.toEqual([]);
+  });
+
+  it('judges each type by its latest upload only', async () => {
+    const unverified = await getUnverifiedRequiredDocuments(
+      documentsDb([
+        {
+          id: 9,
+          type: 'academic_certificate',
+          status: 'rejected',
+          reason: 'Blurred',
+        },
+        ...ALL_VERIFIED,
+      ]),
+      7,
+      'Undergraduate',
+    );
+    expect(unverified).toEqual([
+      {
+        documentType: 'academic_certificate',
+        documentId: 9,
+        status: 'rejected',
+        reason: 'Blurred',
+      },
+    ]);
+  });
+
+  it('lists required types that were never uploaded', async () => {
+    const unverified = await getUnverifiedRequiredDocuments(
+      documentsDb(ALL_VERIFIED),
+      7,
+      'PhD',
+    );
+    expect(unverified).toEqual([
+      {
+        documentType: 'proposal',
+        documentId: null,
+        status: 'missing',
+        reason: null,
+      },
+    ]);
+  });
+});
+
+describe('setDocumentVerification', () => {
+  const verificationDb = (found: boolean) =>
+    ({
+      query: jest.fn(async (sql: string) =>
+        sql.startsWith('SELECT')
+          ? [found ? [{ id: 9, document_type: 'identity_card' }] : []]
+          : [{ affectedRows: 1 }],
+      ),
+    }) as unknown as Pool & { query: jest.Mock };
+
+  it('records the verifier and clears them when reset to pending', async () => {
+    const db = verificationDb(true);
+    await expect(
+      setDocumentVerification(db, {
+        applicationId: 7,
+        documentId: 9,
+        status: 'rejected',
+        reason: 'Expired',
+        actorId: 4,
+      }),
+    ).resolves.toEqual({ id: 9, document_type: 'identity_card' });
+    expect(db.query.mock.calls[1][1]).toEqual([
+      9,
+      7,
+      'rejected',
+      'Expired',
+      4,
+      expect.any(Date),
+    ]);
+
+    await setDocumentVerification(db, {
+      applicationId: 7,
+      documentId: 9,
+      status: 'pending',
+      actorId: 4,
+    });
+    expect(db.query.mock.calls[3][1]).toEqual([
+      9,
+      7,
+      'pending',
+      null,
+      null,
+      null,
+    ]);
+  });
+
+  it('ignores documents of other applications', async () => {
+    const db = verificationDb(false);
+    await expect(
+      setDocumentVerification(db, {
+        applicationId: 7,
+        documentId: 9,
+        status: 'verified',
+      }),
+    ).resolves.toBeNull();
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('notifyDocumentRejected', () => {
+  it('asks the applicant to upload the document again', async () => {
+    jest.mocked(pool.query).mockResolvedValue([
+      [
+        {
+          reference_number: 'APL-2026-0001',
+          first_names: 'Chipo',
+          surname: 'Moyo',
+          email: 'chipo@example.com',
+        },
+      ] as RowDataPacket[],
+      [],
+    ]);
+    await expect(
+      notifyDocumentRejected({
+        applicationId: 7,
+        documentType: 'birth_certificate',
+        reason: 'The scan is unreadable',
+      }),
+    ).resolves.toBe(true);
+
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    expect(email.subject).toBe('Please re-upload your birth certificate');
+    expect(email.text).toContain('Reason: The scan is unreadable');
+  });
+
+  it('skips applicants without an email address', async () => {
+    jest
+      .mocked(pool.query)
+      .mockResolvedValue([[{ email: null }] as RowDataPacket[], []]);
+    await expect(
+      notifyDocumentRejected({
+        applicationId: 7,
+        documentType: 'birth_certificate',
+        reason: 'Unreadable',
+      }),
+    ).resolves.toBe(false);
+    expect(sendApplicantEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeDocumentType', () => {
+  it('turns stored types into labels', () => {
+    expect(describeDocumentType('academic_certificate')).toBe(
+      'Academic certificate',
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { Pool } from 'mysql2/promise';
+import {
+  groupDocumentVersions,
+  parseDocumentType,
+  recordDocumentUpload,
+} from '../documentVersions';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+describe('recordDocumentUpload', () => {
+  it('adds a version and marks the previous one replaced', async () => {
+    const query = jest.fn(async (sql: string) => {
+      if (sql.startsWith('INSERT INTO documents')) return [{ insertId: 12 }];
+      if (sql.startsWith('SELECT COUNT(*)')) return [[{ total: 3 }]];
+      return [{ affectedRows: 1 }];
+    });
+    const db = { query } as unknown as Pool;
+
+    await expect(
+      recordDocumentUpload(db, {
+        applicationId: 7,
+        documentType: 'identity_card',
+        filePath: 'documents/id-v3.pdf',
+        originalName: 'ID.pdf',
+        uploadedBy: 4,
+        uploaderType: 'staff',
+      }),
+    ).resolves.toEqual({ documentId: 12, version: 3 });
+
+    const calls = query.mock.calls as unknown as [string, unknown[]][];
+    expect(calls[0][1]).toEqual([7, 'identity_card', 'documents/id-v3.pdf']);
+    expect(calls[1]).toEqual([
+      expect.stringContaining('SET replaced_at = NOW()'),
+      [7, 'identity_card'],
+    ]);
+    expect(calls[2][1]).toEqual([12, 7, 'identity_card', 'ID.pdf', 4, 'staff']);
+  });
+});
+
+describe('groupDocumentVersions', () => {
+  it('keeps the newest upload of each type current', () => {
+    const documents = [
+      { id: 9, documentType: 'academic_certificate' },
+      { id: 4, documentType: 'academic_certificate' },
+      { id: 2, documentType: 'academic_certificate' },
+      { id: 5, documentType: 'identity_card' },
+    ];
+    expect(groupDocumentVersions(documents)).toEqual([
+      {
+        documentType: 'academic_certificate',
+        current: documents[0],
+        previousVersions: [documents[1], documents[2]],
+      },
+      {
+        documentType: 'identity_card',
+        current: documents[3],
+        previousVersions: [],
+      },
+    ]);
+  });
+});
+
+describe('parseDocumentType', () => {
+  it('accepts upload field names and stored types', () => {
+    expect(parseDocumentType('identityCard')).toBe('identity_card');
+    expect(parseDocumentType('identity_card')).toBe('identity_card');
+    expect(parseDocumentType('passportPhoto')).toBeNull();
+  });
+});
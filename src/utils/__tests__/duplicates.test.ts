@@ -0,0 +1,132 @@
+import { Pool } from 'mysql2/promise';
+import { findDuplicateGroups } from '../duplicates';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+type Applicant = {
+  reference_number: string;
+  first_names?: string;
+  surname?: string;
+  date_of_birth?: string | null;
+  national_id?: string | null;
+  passport_number?: string | null;
+  email?: string | null;
+  phone?: string | null;
+};
+
+const dbWith = (applicants: Applicant[]) =>
+  ({
+    query: jest.fn(async () => [
+      applicants.map((applicant, index) => ({
+        application_id: index + 1,
+        first_names: 'Someone',
+        surname: `Applicant${index}`,
+        ...applicant,
+      })),
+    ]),
+  }) as unknown as Pool;
+
+const references = (groups: Awaited<ReturnType<typeof findDuplicateGroups>>) =>
+  groups.map((group) =>
+    group.applications.map((row) => row.reference_number).sort(),
+  );
+
+describe('findDuplicateGroups', () => {
+  it('matches IDs, emails and phone numbers after normalising them', async () => {
+    const groups = await findDuplicateGroups(
+      dbWith([
+        { reference_number: 'A1', national_id: '63-123456 A 12' },
+        { reference_number: 'A2', national_id: '63123456a12' },
+        { reference_number: 'B1', email: ' Tendai@Example.com' },
+        { reference_number: 'B2', email: 'tendai@example.com' },
+        { reference_number: 'C1', phone: '+263 77 123 4567' },
+        { reference_number: 'C2', phone: '0771234567' },
+        { reference_number: 'D1', passport_number: 'FN123456' },
+      ]),
+    );
+    expect(references(groups)).toEqual([
+      ['A1', 'A2'],
+      ['B1', 'B2'],
+      ['C1', 'C2'],
+    ]);
+    expect(groups[0].matches).toEqual([
+      { field: 'national_id', value: '63123456A12' },
+    ]);
+    expect(groups[2].matches).toEqual([{ field: 'phone', value: '771234567' }]);
+  });
+
+  it('ignores blank values and numbers too short to compare', async () => {
+    const groups = await findDuplicateGroups(
+      dbWith([
+        { reference_number: 'A1', national_id: '', email: null, phone: '123' },
+        { reference_number: 'A2', national_id: ' ', email: '', phone: '123' },
+      ]),
+    );
+    expect(groups).toEqual([]);
+  });
+
+  it('matches close names with the same date of birth', async () => {
+    const groups = await findDuplicateGroups(
+      dbWith([
+        {
+          reference_number: 'A1',
+          first_names: 'Chipo Ruvimbo',
+          surname: 'Moyo',
+          date_of_birth: '2001-05-04',
+        },
+        {
+          reference_number: 'A2',
+          first_names: 'Chippo',
+          surname: 'Moyoh',
+          date_of_birth: '2001-05-04',
+        },
+        {
+          reference_number: 'A3',
+          first_names: 'Chipo',
+          surname: 'Moyo',
+          date_of_birth: '2001-05-05',
+        },
+        {
+          reference_number: 'A4',
+          first_names: 'Rudo',
+          surname: 'Moyo',
+          date_of_birth: '2001-05-04',
+        },
+      ]),
+    );
+    expect(references(groups)).toEqual([['A1', 'A2']]);
+    expect(groups[0].matches).toEqual([
+      { field: 'name_and_dob', value: 'moyo 2001-05-04' },
+    ]);
+  });
+
+  it('puts transitive matches in one group', async () => {
+    const groups = await findDuplicateGroups(
+      dbWith([
+        { reference_number: 'A1', email: 'a@example.com' },
+        { reference_number: 'A2', email: 'a@example.com', phone: '0771234567' },
+        { reference_number: 'A3', phone: '263771234567' },
+      ]),
+    );
+    expect(references(groups)).toEqual([['A1', 'A2', 'A3']]);
+    expect(groups[0].matches.map((match) => match.field).sort()).toEqual([
+      'email',
+      'phone',
+    ]);
+  });
+
+  it('keeps only the groups that contain the requested reference', async () => {
+    const db = dbWith([
+      { reference_number: 'A1', email: 'a@example.com' },
+      { reference_number: 'A2', email: 'a@example.com' },
+      { reference_number: 'B1', email: 'b@example.com' },
+      { reference_number: 'B2', email: 'b@example.com' },
+    ]);
+    expect(
+      references(await findDuplicateGroups(db, { referenceNumber: 'B2' })),
+    ).toEqual([['B1', 'B2']]);
+    expect(await findDuplicateGroups(db, { referenceNumber: 'C1' })).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import {
+  EntryRequirements,
+  evaluateEligibility,
+  evaluateEligibilityForApplications,
+  toEntryRequirements,
+} from '../eligibility';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+const REQUIREMENTS: EntryRequirements = {
+  min_o_level_passes: 5,
+  required_o_level_subjects: ['Mathematics', 'English Language'],
+  min_a_level_passes: 2,
+  min_a_level_points: 6,
+  required_a_level_subjects: [],
+  mature_entry_min_age: 25,
+};
+
+const results = (type: string, grades: Record<string, string>) => ({
+  qualification_type: type,
+  subjects: Object.entries(grades).map(([subject_name, grade]) => ({
+    subject_name,
+    grade,
+  })),
+});
+
+const O_LEVELS = results('Ordinary Level', {
+  Maths: 'B',
+  English: 'c',
+  Biology: 'A',
+  History: 'C',
+  Geography: 'A*',
+  Shona: 'D',
+});
+
+const evaluate = (
+  qualifications: ReturnType<typeof results>[],
+  overrides: Partial<Parameters<typeof evaluateEligibility>[0]> = {},
+) =>
+  evaluateEligibility({
+    requirements: REQUIREMENTS,
+    matureEntry: false,
+    specialEntry: false,
+    qualifications,
+    ...overrides,
+  });
+
+describe('evaluateEligibility', () => {
+  it('passes applicants who meet every rule, matching subject aliases', () => {
+    const result = evaluate([
+      O_LEVELS,
+      results('Advanced Level', { Accounting: 'B', Economics: 'C' }),
+    ]);
+    expect(result).toMatchObject({
+      status: 'eligible',
+      score: 100,
+      oLevelPasses: 5,
+      aLevelPasses: 2,
+      aLevelPoints: 7,
+    });
+  });
+
+  it('scores the share of rules met and names the failures', () => {
+    const result = evaluate([
+      O_LEVELS,
+      results('Advanced Level', { Accounting: 'B', Economics: 'F' }),
+    ]);
+    expect(result.status).toBe('not_eligible');
+    expect(result.score).toBe(60);
+    expect(
+      result.checks.filter((check) => !check.passed).map((c) => c.rule),
+    ).toEqual(['min_a_level_passes', 'min_a_level_points']);
+  });
+
+  it('counts a subject once however often it was sat', () => {
+    const result = evaluate([
+      results('Ordinary Level', { Mathematics: 'C' }),
+      results('Ordinary Level', { maths: 'A' }),
+    ]);
+    expect(result.oLevelPasses).toBe(1);
+  });
+
+  it('falls back to mature entry by age, then special entry', () => {
+    const failing = [results('Ordinary Level', { Mathematics: 'E' })];
+    expect(
+      evaluate(failing, { matureEntry: true, dateOfBirth: '1980-01-01' })
+        .status,
+    ).toBe('eligible_mature_entry');
+
+    const young = evaluate(failing, {
+      matureEntry: true,
+      specialEntry: true,
+      dateOfBirth: '2015-01-01',
+    });
+    expect(young.status).toBe('special_entry_review');
+    expect(young.checks[young.checks.length - 1]).toMatchObject({
+      rule: 'mature_entry_age',
+      passed: false,
+    });
+
+    expect(evaluate(failing, { matureEntry: true }).checks.pop()).toEqual({
+      rule: 'mature_entry_age',
+      passed: false,
+      expected: 25,
+      actual: 'unknown',
+    });
+  });
+
+  it('reports programmes without entry rules', () => {
+    expect(evaluate([O_LEVELS], { requirements: null })).toMatchObject({
+      status: 'no_requirements',
+      checks: [],
+      oLevelPasses: 5,
+    });
+  });
+});
+
+describe('toEntryRequirements', () => {
+  it('reads subject lists stored as JSON or comma separated text', () => {
+    expect(
+      toEntryRequirements({
+        min_o_level_passes: '5',
+        required_o_level_subjects: '["Mathematics"]',
+        required_a_level_subjects: 'Accounting, Economics',
+      } as unknown as RowDataPacket),
+    ).toEqual({
+      min_o_level_passes: 5,
+      required_o_level_subjects: ['Mathematics'],
+      min_a_level_passes: 0,
+      min_a_level_points: 0,
+      required_a_level_subjects: ['Accounting', 'Economics'],
+      mature_entry_min_age: 25,
+    });
+  });
+});
+
+describe('evaluateEligibilityForApplications', () => {
+  it('groups subjects by qualification and matches programmes by code', async () => {
+    const db = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM department_programme')) {
+          return [
+            [
+              {
+                code: 'BACC',
+                programme_id: 1,
+                mature_entry: 0,
+                special_entry: 1,
+                min_o_level_passes: 2,
+              },
+            ],
+          ];
+        }
+        if (sql.includes('FROM education_details')) {
+          return [
+            [
+              {
+                application_id: 1,
+                education_id: 10,
+                qualification_type: 'Ordinary Level',
+                subject_name: 'Mathematics',
+                grade: 'A',
+              },
+              {
+                application_id: 1,
+                education_id: 10,
+                qualification_type: 'Ordinary Level',
+                subject_name: 'English',
+                grade: 'B',
+              },
+              {
+                application_id: 2,
+                education_id: 20,
+                qualification_type: 'Ordinary Level',
+                subject_name: null,
+                grade: null,
+              },
+            ],
+          ];
+        }
+        return [[]];
+      }),
+    } as unknown as Pool;
+
+    const evaluated = await evaluateEligibilityForApplications(db, [
+      { id: 1, programme: 'BACC' },
+      { id: 2, programme: 'BACC' },
+      { id: 3, programme: 'UNKNOWN' },
+    ]);
+    expect(evaluated.get(1)?.status).toBe('eligible');
+    expect(evaluated.get(2)?.status).toBe('special_entry_review');
+    expect(evaluated.get(3)?.status).toBe('no_requirements');
+  });
+
+  it('does not query for an empty batch', async () => {
+    const db = { query: jest.fn() } as unknown as Pool;
+    expect((await evaluateEligibilityForApplications(db, [])).size).toBe(0);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
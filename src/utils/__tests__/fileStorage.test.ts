@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  StorageError,
+  createLocalStorage,
+  normalizeStorageKey,
+  storageKey,
+  toStorageKey,
+  verifyLocalSignedUrl,
+} from '../fileStorage';
+
+const SECRET = 'test-signing-secret';
+
+const signedQuery = (url: string) => {
+  const parsed = new URL(url, 'http://localhost');
+  return {
+    key: decodeURIComponent(parsed.pathname.replace(/^\/files\//, '')),
+    query: Object.fromEntries(parsed.searchParams),
+  };
+};
+
+describe('normalizeStorageKey', () => {
+  it('turns backslashes into slashes and drops leading slashes', () => {
+    expect(normalizeStorageKey('\\documents\\a.pdf')).toBe('documents/a.pdf');
+    expect(normalizeStorageKey('//documents/a.pdf')).toBe('documents/a.pdf');
+  });
+
+  it.each([
+    '',
+    '../secrets.txt',
+    'documents/../../etc/passwd',
+    'documents/./a.pdf',
+    'documents//a.pdf',
+    'documents\\..\\..\\a.pdf',
+    'documents/',
+  ])('rejects %j', (key) => {
+    expect(() => normalizeStorageKey(key)).toThrow(StorageError);
+  });
+});
+
+describe('storageKey', () => {
+  it('keeps only the base name of the file', () => {
+    expect(storageKey('documents', '../../etc/passwd')).toBe(
+      'documents/passwd',
+    );
+  });
+});
+
+describe('toStorageKey', () => {
+  it('maps absolute multer paths, public paths and keys onto a key', () => {
+    expect(toStorageKey('/srv/app/src/uploads/documents/x.pdf')).toBe(
+      'documents/x.pdf',
+    );
+    expect(toStorageKey('C:\\app\\src\\uploads\\documents\\x.pdf')).toBe(
+      'documents/x.pdf',
+    );
+    expect(toStorageKey('/uploads/offer-letters/x.pdf')).toBe(
+      'offer-letters/x.pdf',
+    );
+    expect(toStorageKey('uploads/documents/x.pdf')).toBe('documents/x.pdf');
+    expect(toStorageKey('documents/x.pdf')).toBe('documents/x.pdf');
+  });
+
+  it('returns null for empty paths and paths that leave the storage root', () => {
+    expect(toStorageKey(null)).toBeNull();
+    expect(toStorageKey('')).toBeNull();
+    expect(toStorageKey('/srv/uploads/../../etc/passwd')).toBeNull();
+    expect(toStorageKey('../documents/x.pdf')).toBeNull();
+  });
+});
+
+describe('local storage signed URLs', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  const storage = () =>
+    createLocalStorage({
+      root,
+      signingSecret: SECRET,
+      downloadUrlBase: '/files',
+    });
+
+  it('stores files under the root and reads them back', async () => {
+    await storage().put('documents/a.pdf', Buffer.from('%PDF-1.4'));
+    expect(fs.existsSync(path.join(root, 'documents', 'a.pdf'))).toBe(true);
+    expect((await storage().get('documents/a.pdf'))?.toString()).toBe(
+      '%PDF-1.4',
+    );
+  });
+
+  it('refuses keys that would escape the root', async () => {
+    await expect(
+      storage().put('../escaped.txt', Buffer.from('x')),
+    ).rejects.toThrow(StorageError);
+    await expect(storage().get('documents/../../escaped.txt')).rejects.toThrow(
+      StorageError,
+    );
+  });
+
+  it('signs URLs that verify for the same key', () => {
+    const url = storage().signedUrl('documents/my file.pdf', {
+      fileName: 'My file.pdf',
+      inline: true,
+    });
+    const { key, query } = signedQuery(url);
+    expect(key).toBe('documents/my file.pdf');
+    expect(verifyLocalSignedUrl(key, query, SECRET)).toEqual({
+      fileName: 'My file.pdf',
+      inline: true,
+    });
+  });
+
+  it('rejects URLs for another key, another secret or a changed query', () => {
+    const { key, query } = signedQuery(
+      storage().signedUrl('documents/a.pdf', { fileName: 'a.pdf' }),
+    );
+    expect(verifyLocalSignedUrl('documents/b.pdf', query, SECRET)).toBeNull();
+    expect(verifyLocalSignedUrl(key, query, 'another-secret')).toBeNull();
+    expect(
+      verifyLocalSignedUrl(key, { ...query, name: 'b.pdf' }, SECRET),
+    ).toBeNull();
+    expect(
+      verifyLocalSignedUrl(key, { ...query, disposition: 'inline' }, SECRET),
+    ).toBeNull();
+    expect(
+      verifyLocalSignedUrl(key, { ...query, signature: 'abc' }, SECRET),
+    ).toBeNull();
+    expect(
+      verifyLocalSignedUrl(key, { ...query, signature: undefined }, SECRET),
+    ).toBeNull();
+  });
+
+  it('rejects expired URLs', () => {
+    const { key, query } = signedQuery(
+      storage().signedUrl('documents/a.pdf', { expiresInSeconds: -1 }),
+    );
+    expect(verifyLocalSignedUrl(key, query, SECRET)).toBeNull();
+  });
+});
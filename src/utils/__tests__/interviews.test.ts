@@ -0,0 +1,80 @@
+import { buildBookingLink, buildInterviewIcs } from '../interviews';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+const EVENT = {
+  uid: 'interview-42@wua.ac.zw',
+  start: new Date('2026-03-02T08:30:00.000Z'),
+  durationMinutes: 45,
+  summary: 'Interview: BSc Accounting',
+  description: 'Bring your ID, certificates; and a pen',
+};
+
+describe('buildInterviewIcs', () => {
+  it('builds a single VEVENT with CRLF line endings', () => {
+    const ics = buildInterviewIcs(EVENT);
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+    expect(lines).toContain('UID:interview-42@wua.ac.zw');
+    expect(lines).toContain('DTSTART:20260302T083000Z');
+    expect(lines).toContain('DTEND:20260302T091500Z');
+    expect(ics).not.toMatch(/[^\r]\n/);
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const ics = buildInterviewIcs({
+      ...EVENT,
+      description: 'Room 4, Block B; bring C:\\docs\nand arrive early',
+      location: 'Harare, Campus',
+    });
+    expect(ics).toContain(
+      'DESCRIPTION:Room 4\\, Block B\\; bring C:\\\\docs\\nand arrive early',
+    );
+    expect(ics).toContain('LOCATION:Harare\\, Campus');
+  });
+
+  it('leaves out the location and URL when there are none', () => {
+    const ics = buildInterviewIcs({ ...EVENT, location: null, url: null });
+    expect(ics).not.toContain('LOCATION:');
+    expect(ics).not.toContain('URL:');
+  });
+
+  it('keeps a newline in the summary from starting a new property', () => {
+    const ics = buildInterviewIcs({
+      ...EVENT,
+      summary: 'Interview\nATTENDEE:mailto:someone@example.com',
+    });
+    expect(ics.split('\r\n')).not.toContain(
+      'ATTENDEE:mailto:someone@example.com',
+    );
+  });
+});
+
+describe('buildBookingLink', () => {
+  const base = process.env.INTERVIEW_BOOKING_URL_BASE;
+
+  afterEach(() => {
+    if (base === undefined) delete process.env.INTERVIEW_BOOKING_URL_BASE;
+    else process.env.INTERVIEW_BOOKING_URL_BASE = base;
+  });
+
+  it('points at the API when no booking page is configured', () => {
+    delete process.env.INTERVIEW_BOOKING_URL_BASE;
+    expect(buildBookingLink('APL/2026/1', 'a b')).toBe(
+      '/api/v1/interviews/APL%2F2026%2F1/slots?code=a%20b',
+    );
+  });
+
+  it('appends the reference and code to the configured page', () => {
+    process.env.INTERVIEW_BOOKING_URL_BASE = 'https://apply.wua.ac.zw/book/';
+    expect(buildBookingLink('APL1', 'c0de')).toBe(
+      'https://apply.wua.ac.zw/book?ref=APL1&code=c0de',
+    );
+    process.env.INTERVIEW_BOOKING_URL_BASE = 'https://apply.wua.ac.zw/?p=b';
+    expect(buildBookingLink('APL1', 'c0de')).toBe(
+      'https://apply.wua.ac.zw/?p=b&ref=APL1&code=c0de',
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import pool from '../../db';
+import { issueOfferLetter, sendOfferEmail } from '../admission';
+import { transitionApplicationStatus } from '../applicationStatus';
+import {
+  OfferCondition,
+  parseOfferConditions,
+  setOfferConditionStatus,
+  summarizeOfferConditions,
+} from '../offerConditions';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), getConnection: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../admission', () => ({
+  issueOfferLetter: jest.fn(),
+  sendOfferEmail: jest.fn(),
+}));
+jest.mock('../applicationStatus', () => ({
+  ...jest.requireActual('../applicationStatus'),
+  transitionApplicationStatus: jest.fn(),
+}));
+
+const conditions = (...statuses: ('met' | 'unmet')[]) =>
+  statuses.map((status, index) => ({
+    id: index + 1,
+    status,
+  })) as OfferCondition[];
+
+// A transaction over one application whose conditions read back as given
+const givenApplication = (options: {
+  status: string;
+  conditions: OfferCondition[];
+  updated?: number;
+  firstUnconditional?: boolean;
+}) => {
+  const connection = {
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(async (sql: string) => {
+      if (sql.startsWith('SELECT id, reference_number')) {
+        return [
+          [
+            {
+              id: 7,
+              reference_number: 'APL-2026-0001',
+              accepted_status: options.status,
+              student_number: 'W260001',
+            },
+          ],
+        ];
+      }
+      if (sql.startsWith('UPDATE offer_conditions')) {
+        return [{ affectedRows: options.updated ?? 1 }];
+      }
+      if (sql.includes('FROM offer_conditions')) return [options.conditions];
+      if (sql.includes('unconditional_offers')) {
+        return [{ affectedRows: options.firstUnconditional === false ? 0 : 1 }];
+      }
+      return [{ affectedRows: 1 }];
+    }),
+  };
+  jest
+    .mocked(pool.getConnection)
+    .mockResolvedValue(connection as unknown as PoolConnection);
+  jest
+    .mocked(pool.query)
+    .mockResolvedValue([options.conditions as RowDataPacket[], []]);
+  return connection;
+};
+
+const markMet = () =>
+  setOfferConditionStatus({
+    applicationId: 7,
+    conditionId: 2,
+    status: 'met',
+    actorId: 4,
+  });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(issueOfferLetter).mockResolvedValue({
+    fileName: 'offer.pdf',
+  } as Awaited<ReturnType<typeof issueOfferLetter>>);
+  jest.mocked(sendOfferEmail).mockResolvedValue(true);
+});
+
+describe('setOfferConditionStatus', () => {
+  it('makes a conditional offer unconditional when the last condition is met', async () => {
+    const connection = givenApplication({
+      status: 'conditionally_accepted',
+      conditions: conditions('met', 'met'),
+    });
+
+    await expect(markMet()).resolves.toMatchObject({
+      summary: { total: 2, met: 2, unmet: 0, allMet: true },
+      madeUnconditional: true,
+      letterGenerated: true,
+      emailSent: true,
+    });
+    expect(transitionApplicationStatus).toHaveBeenCalledWith(connection, {
+      applicationId: 7,
+      toStatus: 'accepted',
+      actorId: 4,
+      reason: 'All offer conditions met',
+    });
+    expect(connection.commit).toHaveBeenCalled();
+    expect(issueOfferLetter).toHaveBeenCalledWith({
+      applicationId: 7,
+      referenceNumber: 'APL-2026-0001',
+      studentNumber: 'W260001',
+      generatedBy: 4,
+    });
+  });
+
+  it('keeps an accepted offer accepted but still sends the new letter', async () => {
+    givenApplication({
+      status: 'offer_accepted',
+      conditions: conditions('met'),
+    });
+    await expect(markMet()).resolves.toMatchObject({
+      madeUnconditional: true,
+    });
+    expect(transitionApplicationStatus).not.toHaveBeenCalled();
+    expect(sendOfferEmail).toHaveBeenCalled();
+  });
+
+  it('only makes an offer unconditional once', async () => {
+    givenApplication({
+      status: 'conditionally_accepted',
+      conditions: conditions('met'),
+      firstUnconditional: false,
+    });
+    await expect(markMet()).resolves.toMatchObject({
+      madeUnconditional: false,
+      letterGenerated: false,
+      emailSent: false,
+    });
+    expect(transitionApplicationStatus).not.toHaveBeenCalled();
+    expect(issueOfferLetter).not.toHaveBeenCalled();
+  });
+
+  it('waits for every condition', async () => {
+    const connection = givenApplication({
+      status: 'conditionally_accepted',
+      conditions: conditions('met', 'unmet'),
+    });
+    await expect(markMet()).resolves.toMatchObject({
+      summary: { met: 1, unmet: 1, allMet: false },
+      madeUnconditional: false,
+    });
+    expect(
+      connection.query.mock.calls.some(([sql]) =>
+        sql.includes('unconditional_offers'),
+      ),
+    ).toBe(false);
+  });
+
+  it('emails the outcome even when the letter cannot be generated', async () => {
+    jest.mocked(issueOfferLetter).mockRejectedValue(new Error('no template'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    givenApplication({
+      status: 'conditionally_accepted',
+      conditions: conditions('met'),
+    });
+    await expect(markMet()).resolves.toMatchObject({
+      letterGenerated: false,
+      emailSent: true,
+    });
+    expect(sendOfferEmail).toHaveBeenCalledWith({
+      referenceNumber: 'APL-2026-0001',
+      studentNumber: 'W260001',
+      letter: null,
+    });
+  });
+
+  it('returns null for a condition of another application', async () => {
+    const connection = givenApplication({
+      status: 'conditionally_accepted',
+      conditions: [],
+      updated: 0,
+    });
+    await expect(markMet()).resolves.toBeNull();
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.commit).not.toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
+
+describe('parseOfferConditions', () => {
+  it('accepts strings and objects with due dates', () => {
+    expect(
+      parseOfferConditions([
+        ' Submit certified A-Level results ',
+        { description: 'Pay the deposit', dueDate: '2027-01-15' },
+      ]),
+    ).toEqual([
+      { description: 'Submit certified A-Level results', dueDate: null },
+      { description: 'Pay the deposit', dueDate: '2027-01-15' },
+    ]);
+    expect(parseOfferConditions(undefined)).toEqual([]);
+  });
+
+  it('names the first unusable entry', () => {
+    expect(parseOfferConditions('Pay the deposit')).toBe(
+      'conditions must be an array',
+    );
+    expect(parseOfferConditions(['ok', { description: ' ' }])).toBe(
+      'conditions[1] needs a description of at most 500 characters',
+    );
+    expect(
+      parseOfferConditions([{ description: 'Pay', dueDate: '15/01/2027' }]),
+    ).toBe('conditions[0].dueDate must be YYYY-MM-DD');
+  });
+});
+
+describe('summarizeOfferConditions', () => {
+  it('never reports an offer without conditions as all met', () => {
+    expect(summarizeOfferConditions([])).toEqual({
+      total: 0,
+      met: 0,
+      unmet: 0,
+      allMet: false,
+    });
+  });
+});
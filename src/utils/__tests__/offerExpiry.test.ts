@@ -0,0 +1,109 @@
+import pool from '../../db';
+import {
+  StatusTransitionError,
+  transitionApplicationStatus,
+} from '../applicationStatus';
+import { expireUnansweredOffers } from '../offerExpiry';
+import { releaseSeat } from '../waitlist';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../waitlist', () => ({ releaseSeat: jest.fn() }));
+jest.mock('../applicationStatus', () => ({
+  ...jest.requireActual('../applicationStatus'),
+  transitionApplicationStatus: jest.fn(),
+}));
+
+const NOW = new Date('2026-06-30T12:00:00Z');
+
+const givenOffers = (
+  validUntil: string | null,
+  offers: { id: number; issued: string }[],
+) => {
+  jest.mocked(pool.query).mockImplementation((async (sql: string) =>
+    sql.includes('FROM offer_letter_settings')
+      ? [validUntil ? [{ offer_valid_until_date: validUntil }] : []]
+      : [
+          offers.map((offer) => ({
+            application_id: offer.id,
+            reference_number: `APL-2026-000${offer.id}`,
+            created_at: offer.issued,
+          })),
+        ]) as unknown as typeof pool.query);
+};
+
+const declinedIds = () =>
+  jest
+    .mocked(transitionApplicationStatus)
+    .mock.calls.map(([, params]) => params.applicationId);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(transitionApplicationStatus).mockResolvedValue({
+    changed: true,
+  } as Awaited<ReturnType<typeof transitionApplicationStatus>>);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('expireUnansweredOffers', () => {
+  it('declines offers older than the answer period and frees their seats', async () => {
+    givenOffers(null, [
+      { id: 1, issued: '2026-05-01T09:00:00Z' },
+      { id: 2, issued: '2026-06-15T09:00:00Z' },
+    ]);
+
+    await expect(expireUnansweredOffers(NOW)).resolves.toEqual([
+      'APL-2026-0001',
+    ]);
+    expect(transitionApplicationStatus).toHaveBeenCalledWith(pool, {
+      applicationId: 1,
+      toStatus: 'offer_declined',
+      actorType: 'system',
+      reason: 'Offer expired on 2026-05-31 without a response',
+    });
+    expect(releaseSeat).toHaveBeenCalledWith({
+      applicationId: 1,
+      trigger: 'expired',
+    });
+  });
+
+  it('keeps offers open until a later settings date', async () => {
+    givenOffers('2026-07-15', [{ id: 1, issued: '2026-05-01T09:00:00Z' }]);
+    await expect(expireUnansweredOffers(NOW)).resolves.toEqual([]);
+    expect(transitionApplicationStatus).not.toHaveBeenCalled();
+  });
+
+  it('gives offers issued after the settings date their full period', async () => {
+    givenOffers('2026-06-01', [
+      { id: 1, issued: '2026-05-01T09:00:00Z' },
+      { id: 2, issued: '2026-06-10T09:00:00Z' },
+    ]);
+    await expireUnansweredOffers(NOW);
+    expect(declinedIds()).toEqual([1]);
+  });
+
+  it('skips offers that were answered meanwhile and carries on after errors', async () => {
+    givenOffers(null, [
+      { id: 1, issued: '2026-04-01T09:00:00Z' },
+      { id: 2, issued: '2026-04-01T09:00:00Z' },
+      { id: 3, issued: '2026-04-01T09:00:00Z' },
+    ]);
+    jest
+      .mocked(transitionApplicationStatus)
+      .mockResolvedValueOnce({ changed: false } as Awaited<
+        ReturnType<typeof transitionApplicationStatus>
+      >)
+      .mockRejectedValueOnce(
+        new StatusTransitionError('offer_accepted', 'offer_declined'),
+      );
+
+    await expect(expireUnansweredOffers(NOW)).resolves.toEqual([
+      'APL-2026-0003',
+    ]);
+    expect(releaseSeat).toHaveBeenCalledTimes(1);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
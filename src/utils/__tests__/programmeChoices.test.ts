@@ -0,0 +1,160 @@
+import { Pool } from 'mysql2/promise';
+import {
+  ProgrammeChoice,
+  ensureProgrammeChoices,
+  parseProgrammeChoices,
+  pickApprovedChoice,
+  recordGrantedChoice,
+  saveProgrammeChoices,
+  setChoiceDecision,
+} from '../programmeChoices';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+
+const choice = (preference: number, decision: string) =>
+  ({ preference, programme: `P${preference}`, decision }) as ProgrammeChoice;
+
+const recordingDb = (
+  answer: (sql: string) => unknown = () => ({ affectedRows: 1 }),
+) => {
+  const query = jest.fn(async (sql: string) => [answer(sql)]);
+  const values = (call: number) =>
+    (query.mock.calls as unknown as [string, unknown[]][])[call][1];
+  return { db: { query } as unknown as Pool, query, values };
+};
+
+describe('parseProgrammeChoices', () => {
+  it('returns trimmed codes in preference order', () => {
+    expect(parseProgrammeChoices([' BACC', 'BECON '])).toEqual([
+      'BACC',
+      'BECON',
+    ]);
+  });
+
+  it('explains what is wrong with the list', () => {
+    expect(parseProgrammeChoices('BACC')).toBe(
+      'programmeChoices must be an array',
+    );
+    expect(parseProgrammeChoices([])).toBe(
+      'At least one programme choice is required',
+    );
+    expect(parseProgrammeChoices(['BACC', ' '])).toBe(
+      'programmeChoices must list programme codes',
+    );
+    expect(parseProgrammeChoices(['A', 'B', 'C', 'D'])).toBe(
+      'At most 3 programme choices are allowed',
+    );
+    expect(parseProgrammeChoices(['BACC', 'BACC'])).toBe(
+      'Each programme can only be chosen once',
+    );
+  });
+});
+
+describe('saveProgrammeChoices', () => {
+  it('replaces the choices and mirrors the first onto the application', async () => {
+    const { db, query } = recordingDb();
+    await saveProgrammeChoices(db, 7, ['BACC', 'BECON']);
+    expect(query.mock.calls).toEqual([
+      [expect.stringMatching(/^DELETE/), [7]],
+      [
+        expect.stringMatching(/^INSERT/),
+        [
+          [
+            [7, 1, 'BACC'],
+            [7, 2, 'BECON'],
+          ],
+        ],
+      ],
+      ['UPDATE applications SET programme = ? WHERE id = ?', ['BACC', 7]],
+    ]);
+  });
+});
+
+describe('ensureProgrammeChoices', () => {
+  it('turns the legacy programme into the first choice', async () => {
+    let saved = false;
+    const { db, query } = recordingDb((sql) => {
+      if (sql.startsWith('INSERT')) saved = true;
+      if (sql.startsWith('SELECT')) return saved ? [choice(1, 'pending')] : [];
+      return { affectedRows: 1 };
+    });
+    await expect(ensureProgrammeChoices(db, 7, 'BACC')).resolves.toEqual([
+      choice(1, 'pending'),
+    ]);
+    expect(query).toHaveBeenCalledTimes(5);
+  });
+
+  it('leaves existing choices and applications without a programme alone', async () => {
+    const existing = recordingDb(() => [choice(1, 'approved')]);
+    await ensureProgrammeChoices(existing.db, 7, 'BACC');
+    expect(existing.query).toHaveBeenCalledTimes(1);
+
+    const none = recordingDb(() => []);
+    await expect(ensureProgrammeChoices(none.db, 7, null)).resolves.toEqual([]);
+    expect(none.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('setChoiceDecision', () => {
+  it('records who decided, and clears it when reset to pending', async () => {
+    const { db, values } = recordingDb();
+    await expect(
+      setChoiceDecision(db, {
+        applicationId: 7,
+        preference: 2,
+        decision: 'approved',
+        actorId: 4,
+      }),
+    ).resolves.toBe(true);
+    expect(values(0)).toEqual(['approved', null, 4, expect.any(Date), 7, 2]);
+
+    await setChoiceDecision(db, {
+      applicationId: 7,
+      preference: 2,
+      decision: 'pending',
+      actorId: 4,
+    });
+    expect(values(1)).toEqual(['pending', null, null, null, 7, 2]);
+  });
+
+  it('reports preferences that do not exist', async () => {
+    const { db } = recordingDb(() => ({ affectedRows: 0 }));
+    await expect(
+      setChoiceDecision(db, {
+        applicationId: 7,
+        preference: 4,
+        decision: 'rejected',
+      }),
+    ).resolves.toBe(false);
+  });
+});
+
+describe('pickApprovedChoice', () => {
+  it('picks the highest-ranked approved choice', () => {
+    expect(
+      pickApprovedChoice([
+        choice(1, 'rejected'),
+        choice(2, 'approved'),
+        choice(3, 'approved'),
+      ])?.preference,
+    ).toBe(2);
+    expect(pickApprovedChoice([choice(1, 'pending')])).toBeNull();
+  });
+});
+
+describe('recordGrantedChoice', () => {
+  it('returns the granted preference, or null for other placements', async () => {
+    const granted = recordingDb((sql) =>
+      sql.startsWith('SELECT') ? [{ preference: 2 }] : { affectedRows: 3 },
+    );
+    await expect(recordGrantedChoice(granted.db, 7, 'BECON')).resolves.toBe(2);
+    expect(granted.values(0)).toEqual(['BECON', 7]);
+
+    const elsewhere = recordingDb((sql) =>
+      sql.startsWith('SELECT') ? [] : { affectedRows: 3 },
+    );
+    await expect(
+      recordGrantedChoice(elsewhere.db, 7, 'BSOC'),
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import pool from '../../db';
+import { sendApplicantEmail } from '../notification';
+import {
+  RefereeError,
+  RefereeInput,
+  buildRefereeLink,
+  inviteReferees,
+  parseReferenceForm,
+  requiresReferees,
+  saveReferees,
+  sendRefereeReminders,
+  submitReference,
+} from '../referees';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), getConnection: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+
+const referee = (email: string, name = 'Dr Referee'): RefereeInput => ({
+  name: ` ${name} `,
+  email,
+  institution: 'UZ',
+  relationship: 'Supervisor',
+});
+
+// A transaction whose SELECT answers with `rows`
+const givenTransaction = (rows: Record<string, unknown>[]) => {
+  const connection = {
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(async (sql: string) =>
+      sql.startsWith('SELECT') ? [rows] : [{ affectedRows: 1 }],
+    ),
+  };
+  jest
+    .mocked(pool.getConnection)
+    .mockResolvedValue(connection as unknown as PoolConnection);
+  return connection;
+};
+
+const writes = (connection: ReturnType<typeof givenTransaction>) =>
+  (connection.query.mock.calls as unknown as [string, unknown[]][]).filter(
+    ([sql]) => !sql.startsWith('SELECT'),
+  );
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.mocked(sendApplicantEmail).mockResolvedValue(undefined as never);
+});
+
+describe('saveReferees', () => {
+  it('matches referees on email, adds new ones and drops the rest', async () => {
+    const connection = givenTransaction([
+      { id: 1, email: 'KEPT@uz.ac.zw', status: 'invited' },
+      { id: 2, email: 'dropped@uz.ac.zw', status: 'invited' },
+    ]);
+    await saveReferees(7, [
+      referee(' kept@uz.ac.zw ', 'Prof Kept'),
+      referee('new@nust.ac.zw'),
+    ]);
+
+    expect(writes(connection)).toEqual([
+      [expect.stringMatching(/^DELETE/), [[2]]],
+      [
+        'UPDATE application_referees SET ? WHERE id = ?',
+        [
+          {
+            name: 'Prof Kept',
+            email: 'kept@uz.ac.zw',
+            institution: 'UZ',
+            relationship: 'Supervisor',
+          },
+          1,
+        ],
+      ],
+      [
+        'INSERT INTO application_referees SET ?',
+        [
+          expect.objectContaining({
+            email: 'new@nust.ac.zw',
+            application_id: 7,
+          }),
+        ],
+      ],
+    ]);
+    expect(connection.commit).toHaveBeenCalled();
+  });
+
+  it('never touches referees who already responded', async () => {
+    const connection = givenTransaction([
+      { id: 1, email: 'done@uz.ac.zw', status: 'submitted' },
+    ]);
+    await saveReferees(7, [referee('done@uz.ac.zw', 'Renamed')]);
+    expect(writes(connection)).toEqual([]);
+
+    await saveReferees(7, [referee('other@uz.ac.zw')]);
+    expect(writes(connection).some(([sql]) => sql.startsWith('DELETE'))).toBe(
+      false,
+    );
+  });
+
+  it('refuses duplicate emails and more than three referees', async () => {
+    const connection = givenTransaction([
+      { id: 1, email: 'a@uz.ac.zw', status: 'submitted' },
+      { id: 2, email: 'b@uz.ac.zw', status: 'submitted' },
+    ]);
+    await expect(
+      saveReferees(7, [referee('c@uz.ac.zw'), referee('C@uz.ac.zw')]),
+    ).rejects.toEqual(
+      new RefereeError('Each referee must have a different email address', 422),
+    );
+    await expect(
+      saveReferees(7, [referee('c@uz.ac.zw'), referee('d@uz.ac.zw')]),
+    ).rejects.toMatchObject({ statusCode: 422 });
+    expect(connection.rollback).toHaveBeenCalledTimes(2);
+    expect(writes(connection)).toEqual([]);
+  });
+});
+
+describe('inviteReferees', () => {
+  const NOW = Date.now();
+
+  it('issues fresh links for expired ones and keeps valid links', async () => {
+    const valid = new Date(NOW + 86400000);
+    jest.mocked(pool.query).mockImplementation((async (sql: string) => {
+      if (sql.includes('FROM application_referees')) {
+        return [
+          [
+            {
+              id: 1,
+              email: 'a@uz.ac.zw',
+              upload_token: 'still-valid',
+              token_expires_at: valid,
+            },
+            {
+              id: 2,
+              email: 'b@uz.ac.zw',
+              upload_token: 'old',
+              token_expires_at: new Date(NOW - 1000),
+            },
+          ],
+        ];
+      }
+      if (sql.includes('FROM applications a')) {
+        return [[{ first_names: 'Chipo', surname: 'Moyo', programme: 'MBA' }]];
+      }
+      return [{ affectedRows: 1 }];
+    }) as unknown as typeof pool.query);
+
+    await expect(inviteReferees(7)).resolves.toEqual({
+      invited: 2,
+      emailed: 2,
+    });
+    const updates = (
+      jest.mocked(pool.query).mock.calls as unknown as [string, unknown[]][]
+    ).filter(([sql]) => sql.includes('UPDATE'));
+    expect(updates[0][1].slice(0, 2)).toEqual(['still-valid', valid]);
+    expect(updates[1][1][0]).not.toBe('old');
+    expect((updates[1][1][1] as Date).getTime() - NOW).toBeGreaterThanOrEqual(
+      29 * 86400000,
+    );
+
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    expect(email.subject).toBe('Reference requested for Chipo Moyo');
+    expect(email.text).toContain('/api/v1/referees/still-valid');
+  });
+
+  it('does nothing when everyone was invited already', async () => {
+    jest.mocked(pool.query).mockResolvedValue([[], []] as never);
+    await expect(inviteReferees(7)).resolves.toEqual({
+      invited: 0,
+      emailed: 0,
+    });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('submitReference', () => {
+  it('stores the form and burns the link', async () => {
+    const connection = givenTransaction([{ id: 3, application_id: 7 }]);
+    await expect(
+      submitReference({
+        token: 'abc',
+        form: {
+          knownSince: '2019',
+          capacity: 'Supervisor',
+          strengths: 'Diligent',
+          concerns: null,
+          recommendation: 'recommend',
+          comments: null,
+        },
+      }),
+    ).resolves.toEqual({ refereeId: 3, applicationId: 7 });
+
+    const [[sql, values]] = writes(connection);
+    expect(sql).toContain('upload_token = NULL');
+    expect(values[0]).toBeNull();
+    expect(JSON.parse(values[2] as string).recommendation).toBe('recommend');
+  });
+
+  it('refuses used or expired links', async () => {
+    const connection = givenTransaction([]);
+    await expect(submitReference({ token: 'abc' })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
+
+describe('sendRefereeReminders', () => {
+  it('counts only the reminders that were sent', async () => {
+    jest.mocked(pool.query).mockImplementation((async (sql: string) =>
+      sql.startsWith('SELECT * FROM application_referees')
+        ? [
+            [
+              { id: 1, application_id: 7, email: 'a@uz.ac.zw' },
+              { id: 2, application_id: 7, email: 'b@uz.ac.zw' },
+            ] as RowDataPacket[],
+          ]
+        : [[]]) as unknown as typeof pool.query);
+    jest
+      .mocked(sendApplicantEmail)
+      .mockRejectedValueOnce(new Error('SMTP down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(sendRefereeReminders()).resolves.toBe(1);
+    const updates = (
+      jest.mocked(pool.query).mock.calls as unknown as [string, unknown[]][]
+    ).filter(([sql]) => sql.includes('reminder_count + 1'));
+    expect(updates).toHaveLength(1);
+    expect(updates[0][1][1]).toBe(2);
+  });
+});
+
+describe('reference helpers', () => {
+  it('asks postgraduate and PhD applicants for referees', () => {
+    expect(requiresReferees(' Postgraduate')).toBe(true);
+    expect(requiresReferees('PHD')).toBe(true);
+    expect(requiresReferees('Undergraduate')).toBe(false);
+  });
+
+  it('builds links on the configured base or the API', () => {
+    const base = process.env.REFEREE_UPLOAD_URL_BASE;
+    try {
+      delete process.env.REFEREE_UPLOAD_URL_BASE;
+      expect(buildRefereeLink('a b')).toBe('/api/v1/referees/a%20b');
+      process.env.REFEREE_UPLOAD_URL_BASE = 'https://apply.wua.ac.zw/ref/';
+      expect(buildRefereeLink('t')).toBe('https://apply.wua.ac.zw/ref?token=t');
+      process.env.REFEREE_UPLOAD_URL_BASE = 'https://apply.wua.ac.zw/?page=ref';
+      expect(buildRefereeLink('t')).toBe(
+        'https://apply.wua.ac.zw/?page=ref&token=t',
+      );
+    } finally {
+      if (base === undefined) delete process.env.REFEREE_UPLOAD_URL_BASE;
+      else process.env.REFEREE_UPLOAD_URL_BASE = base;
+    }
+  });
+
+  it('validates the reference form', () => {
+    expect(parseReferenceForm({ knownSince: '2019' })).toBe(
+      'knownSince, capacity, strengths and recommendation are required',
+    );
+    expect(
+      parseReferenceForm({
+        knownSince: '2019',
+        capacity: 'Supervisor',
+        strengths: 'Diligent',
+        recommendation: 'maybe',
+      }),
+    ).toMatch(/^recommendation must be one of strongly_recommend/);
+    expect(
+      parseReferenceForm({
+        knownSince: ' 2019 ',
+        capacity: 'Supervisor',
+        strengths: 'Diligent',
+        recommendation: 'recommend',
+        concerns: '  ',
+      }),
+    ).toEqual({
+      knownSince: '2019',
+      capacity: 'Supervisor',
+      strengths: 'Diligent',
+      concerns: null,
+      recommendation: 'recommend',
+      comments: null,
+    });
+  });
+});
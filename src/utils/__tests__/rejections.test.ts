@@ -0,0 +1,126 @@
+import { Pool } from 'mysql2/promise';
+import { sendApplicantEmail } from '../notification';
+import { generateRegretLetter } from '../regretLetter';
+import {
+  RejectionReason,
+  issueRegretLetter,
+  normalizeReasonCode,
+} from '../rejections';
+
+jest.mock('../../db', () => ({ __esModule: true, default: {} }));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../offerLetter', () => ({
+  loadLetterSignatory: jest.fn(async () => ({ signatureName: 'Registrar' })),
+}));
+jest.mock('../regretLetter', () => ({ generateRegretLetter: jest.fn() }));
+
+const REASON = {
+  id: 1,
+  code: 'MIN_REQ',
+  label: 'Minimum requirements',
+  applicant_text: 'You do not meet the minimum entry requirements.',
+  is_active: 1,
+} as RejectionReason;
+
+const PARAMS = {
+  rejectionId: 5,
+  applicationId: 7,
+  referenceNumber: 'APL-2026-0001',
+  reason: REASON,
+  note: null,
+};
+
+const fakeDb = (info: Record<string, unknown> | null) =>
+  ({
+    query: jest.fn(async (sql: string) =>
+      sql.startsWith('SELECT') ? [info ? [info] : []] : [{ affectedRows: 1 }],
+    ),
+  }) as unknown as Pool & { query: jest.Mock };
+
+const updates = (db: { query: jest.Mock }) =>
+  (db.query.mock.calls as [string, unknown[]][]).filter(([sql]) =>
+    sql.startsWith('UPDATE'),
+  );
+
+beforeEach(() => {
+  jest.mocked(generateRegretLetter).mockResolvedValue({
+    fileName: 'APL-2026-0001-regret.pdf',
+    storageKey: 'letters/APL-2026-0001-regret.pdf',
+    content: Buffer.from('%PDF'),
+  } as Awaited<ReturnType<typeof generateRegretLetter>>);
+  jest.mocked(sendApplicantEmail).mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('issueRegretLetter', () => {
+  it('stores the letter against the rejection and emails it', async () => {
+    const db = fakeDb({
+      first_names: 'Chipo',
+      surname: 'Moyo',
+      email: 'chipo@example.com',
+      programme_code: 'BACC',
+      programme_name: null,
+    });
+    const result = await issueRegretLetter(db, {
+      ...PARAMS,
+      note: 'You may apply for the foundation course.',
+    });
+
+    expect(result).toEqual({
+      letterGenerated: true,
+      letterPath: 'letters/APL-2026-0001-regret.pdf',
+      verificationCode: expect.any(String),
+      emailSent: true,
+    });
+    const [[, stored], [, sent]] = updates(db);
+    expect(stored).toEqual([
+      'APL-2026-0001-regret.pdf',
+      'letters/APL-2026-0001-regret.pdf',
+      result.verificationCode,
+      5,
+    ]);
+    expect(sent).toEqual([5]);
+
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    expect(email.to).toBe('chipo@example.com');
+    expect(email.text).toContain('Dear Chipo Moyo');
+    expect(email.text).toContain('study BACC');
+    expect(email.text).toContain(REASON.applicant_text);
+    expect(email.text).toContain('foundation course');
+    expect(email.attachments).toHaveLength(1);
+  });
+
+  it('still emails the outcome when the letter cannot be generated', async () => {
+    jest
+      .mocked(generateRegretLetter)
+      .mockRejectedValue(new Error('template missing'));
+    const db = fakeDb({ email: 'chipo@example.com' });
+
+    expect(await issueRegretLetter(db, PARAMS)).toEqual({
+      letterGenerated: false,
+      letterPath: null,
+      verificationCode: null,
+      emailSent: true,
+    });
+    const email = jest.mocked(sendApplicantEmail).mock.calls[0][0];
+    expect(email.text).toContain('Dear Applicant');
+    expect(email.attachments).toBeUndefined();
+  });
+
+  it('reports an email that was not sent', async () => {
+    jest.mocked(sendApplicantEmail).mockRejectedValue(new Error('SMTP down'));
+    const db = fakeDb({ email: 'chipo@example.com' });
+    expect((await issueRegretLetter(db, PARAMS)).emailSent).toBe(false);
+    expect(updates(db)).toHaveLength(1);
+
+    const noEmail = fakeDb({ first_names: 'Chipo' });
+    expect((await issueRegretLetter(noEmail, PARAMS)).emailSent).toBe(false);
+  });
+});
+
+describe('normalizeReasonCode', () => {
+  it('trims and upper-cases codes and ignores anything else', () => {
+    expect(normalizeReasonCode(' min_req ')).toBe('MIN_REQ');
+    expect(normalizeReasonCode(3)).toBe('');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  DEFAULT_RUBRIC,
+  ReviewError,
+  RubricCriterion,
+  isReviewRecommendation,
+  scoreReview,
+} from '../reviews';
+
+const criterion = (
+  key: string,
+  maxScore: number,
+  weight: number,
+): RubricCriterion => ({
+  key,
+  label: key,
+  description: null,
+  maxScore,
+  weight,
+});
+
+const RUBRIC = [criterion('academic', 10, 2), criterion('interview', 5, 1)];
+
+const scoreError = (scores: Record<string, unknown>) => {
+  try {
+    scoreReview(RUBRIC, scores);
+  } catch (error) {
+    return error as ReviewError;
+  }
+  throw new Error('Expected scoreReview to throw');
+};
+
+describe('scoreReview', () => {
+  it('returns the weighted total as a percentage', () => {
+    expect(scoreReview(RUBRIC, { academic: 10, interview: 5 })).toBe(100);
+    expect(scoreReview(RUBRIC, { academic: 0, interview: 0 })).toBe(0);
+    // (0.5 * 2 + 1 * 1) / 3
+    expect(scoreReview(RUBRIC, { academic: 5, interview: 5 })).toBe(66.67);
+  });
+
+  it('accepts numeric strings', () => {
+    expect(scoreReview(RUBRIC, { academic: '10', interview: '5' })).toBe(100);
+  });
+
+  it.each([
+    [{ interview: 5 }, "Score for 'academic' is required"],
+    [{ academic: '', interview: 5 }, "Score for 'academic' is required"],
+    [{ academic: 'ten', interview: 5 }, "Score for 'academic' is required"],
+    [
+      { academic: 11, interview: 5 },
+      "Score for 'academic' must be between 0 and 10",
+    ],
+    [
+      { academic: 5, interview: -1 },
+      "Score for 'interview' must be between 0 and 5",
+    ],
+  ])('rejects %j', (scores, message) => {
+    const error = scoreError(scores);
+    expect(error).toBeInstanceOf(ReviewError);
+    expect(error.message).toBe(message);
+    expect(error.statusCode).toBe(422);
+  });
+
+  it('ignores scores for criteria that are not on the rubric', () => {
+    expect(
+      scoreReview(RUBRIC, { academic: 10, interview: 5, extra: 1000 }),
+    ).toBe(100);
+  });
+
+  it('returns 0 for a rubric without weight', () => {
+    expect(scoreReview([], {})).toBe(0);
+  });
+
+  it('scores the default rubric', () => {
+    const full = Object.fromEntries(
+      DEFAULT_RUBRIC.map((entry) => [entry.key, entry.maxScore]),
+    );
+    expect(scoreReview(DEFAULT_RUBRIC, full)).toBe(100);
+  });
+});
+
+describe('isReviewRecommendation', () => {
+  it('accepts only the known recommendations', () => {
+    expect(isReviewRecommendation('conditional_accept')).toBe(true);
+    expect(isReviewRecommendation('maybe')).toBe(false);
+    expect(isReviewRecommendation(null)).toBe(false);
+  });
+});
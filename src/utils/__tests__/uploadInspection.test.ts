@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  UploadRejectedError,
+  buildStoredFileName,
+  detectFileKind,
+  inspectUpload,
+  sanitizeFileName,
+} from '../uploadInspection';
+
+const PDF = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const DOC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0]);
+const zip = (firstEntry: string) =>
+  Buffer.concat([
+    Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    Buffer.alloc(26),
+    Buffer.from(firstEntry, 'latin1'),
+  ]);
+
+describe('detectFileKind', () => {
+  it.each([
+    ['pdf', PDF],
+    ['png', PNG],
+    ['jpeg', JPEG],
+    ['doc', DOC],
+    ['docx', zip('[Content_Types].xml')],
+  ])('recognises %s from its leading bytes', (kind, header) => {
+    expect(detectFileKind(header)).toBe(kind);
+  });
+
+  it('does not take any zip archive for a Word document', () => {
+    expect(detectFileKind(zip('payload.exe'))).toBeNull();
+  });
+
+  it('returns null for unknown, empty and truncated headers', () => {
+    expect(detectFileKind(Buffer.from('MZ\x90\x00', 'latin1'))).toBeNull();
+    expect(detectFileKind(Buffer.alloc(0))).toBeNull();
+    expect(detectFileKind(PNG.subarray(0, 4))).toBeNull();
+    expect(detectFileKind(Buffer.from('<html>%PDF-'))).toBeNull();
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('replaces spaces and awkward characters with dashes', () => {
+    expect(sanitizeFileName('HELPDESK TRAINING DOC WUA.docx')).toBe(
+      'HELPDESK-TRAINING-DOC-WUA.docx',
+    );
+    expect(sanitizeFileName('Résumé (final) #2.PDF')).toBe(
+      'Resume-final-2.pdf',
+    );
+  });
+
+  it('never keeps a directory part', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('..\\..\\windows\\win.ini')).not.toMatch(/[\\/]/);
+    expect(sanitizeFileName('/uploads/documents/.hidden')).toBe('hidden');
+  });
+
+  it('falls back to "file" when nothing usable is left', () => {
+    expect(sanitizeFileName('')).toBe('file');
+    expect(sanitizeFileName('...')).toBe('file');
+    expect(sanitizeFileName('%%%.pdf')).toBe('file.pdf');
+  });
+
+  it('caps the length of the name', () => {
+    const name = sanitizeFileName(`${'a'.repeat(300)}.pdf`);
+    expect(name).toBe(`${'a'.repeat(80)}.pdf`);
+  });
+});
+
+describe('buildStoredFileName', () => {
+  it('prefixes the sanitised name so two uploads never collide', () => {
+    const first = buildStoredFileName('my file.pdf');
+    expect(first).toMatch(/^\d+-[0-9a-f]{8}-my-file\.pdf$/);
+    expect(buildStoredFileName('my file.pdf')).not.toBe(first);
+  });
+});
+
+describe('inspectUpload', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'upload-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const upload = async (originalname: string, content: Buffer) => {
+    const filePath = path.join(dir, 'upload');
+    await fs.promises.writeFile(filePath, content);
+    return { path: filePath, size: content.length, originalname };
+  };
+
+  const rejection = (promise: Promise<unknown>) =>
+    promise.then(
+      () => null,
+      (error: UploadRejectedError) => error.statusCode,
+    );
+
+  it('accepts a file whose contents and extension match its type', async () => {
+    await expect(
+      inspectUpload(await upload('id.pdf', PDF), 'identity_card'),
+    ).resolves.toEqual({ kind: 'pdf', mimeType: 'application/pdf' });
+  });
+
+  it('rejects unknown document types', async () => {
+    expect(
+      await rejection(inspectUpload(await upload('a.pdf', PDF), 'other')),
+    ).toBe(400);
+  });
+
+  it('rejects files over the cap for their type', async () => {
+    const file = { ...(await upload('id.pdf', PDF)), size: 6 * 1024 * 1024 };
+    expect(await rejection(inspectUpload(file, 'identity_card'))).toBe(413);
+  });
+
+  it('rejects contents the type does not allow', async () => {
+    expect(
+      await rejection(
+        inspectUpload(await upload('id.doc', DOC), 'identity_card'),
+      ),
+    ).toBe(415);
+  });
+
+  it('rejects an extension that does not match the contents', async () => {
+    expect(
+      await rejection(
+        inspectUpload(await upload('id.png', PDF), 'identity_card'),
+      ),
+    ).toBe(415);
+  });
+});
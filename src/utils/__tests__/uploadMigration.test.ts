@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../../db';
+import {
+  canonicalKey,
+  isCanonicalKey,
+  migrateUploads,
+} from '../uploadMigration';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), getConnection: jest.fn() },
+}));
+
+let mockRoots: { current: string; legacy: string };
+jest.mock('../fileStorage', () => {
+  const actual = jest.requireActual('../fileStorage');
+  return {
+    ...actual,
+    get LOCAL_STORAGE_ROOT() {
+      return mockRoots.current;
+    },
+    get LEGACY_UPLOAD_ROOTS() {
+      return [mockRoots.legacy];
+    },
+    getStorage: () =>
+      actual.createLocalStorage({
+        root: mockRoots.current,
+        signingSecret: '',
+        downloadUrlBase: '',
+      }),
+  };
+});
+
+const CONTENT = Buffer.from('%PDF-1.4 transcript');
+const SHA256 = crypto.createHash('sha256').update(CONTENT).digest('hex');
+const KEY = `documents/${SHA256.slice(0, 2)}/${SHA256}.pdf`;
+
+const missingTable = Object.assign(new Error("Table doesn't exist"), {
+  errno: 1146,
+});
+
+// Stored paths per table; tables left out do not exist
+const givenDatabase = (
+  tables: Record<string, { id: number; stored_path: string }[]>,
+  migratedPaths: string[] = [],
+) => {
+  jest.mocked(pool.query).mockImplementation((async (
+    sql: string,
+    values?: unknown[],
+  ) => {
+    if (sql.includes('FROM upload_migrations')) {
+      return [migratedPaths.map((old_path) => ({ old_path }))];
+    }
+    const rows = tables[String(values?.[1])];
+    if (!rows) throw missingTable;
+    return [rows];
+  }) as unknown as typeof pool.query);
+};
+
+const givenConnection = () => {
+  const connection = {
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(async () => [{ affectedRows: 1 }]),
+  };
+  jest
+    .mocked(pool.getConnection)
+    .mockResolvedValue(connection as unknown as PoolConnection);
+  return connection;
+};
+
+const writeFile = async (root: string, key: string, content = CONTENT) => {
+  await fs.promises.mkdir(path.dirname(path.join(root, key)), {
+    recursive: true,
+  });
+  await fs.promises.writeFile(path.join(root, key), content);
+};
+
+const label = (root: string, key: string) =>
+  path.relative(process.cwd(), path.join(root, key));
+
+beforeEach(async () => {
+  jest.resetAllMocks();
+  const base = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'migrate-'));
+  mockRoots = {
+    current: path.join(base, 'uploads'),
+    legacy: path.join(base, 'src', 'uploads'),
+  };
+});
+
+afterEach(async () => {
+  await fs.promises.rm(path.dirname(mockRoots.current), {
+    recursive: true,
+    force: true,
+  });
+});
+
+describe('migrateUploads', () => {
+  it('only reports what it would do unless applied', async () => {
+    await writeFile(mockRoots.legacy, 'documents/transcript.pdf');
+    await writeFile(mockRoots.current, 'documents/stray.pdf');
+    await writeFile(mockRoots.current, 'quarantine/virus.pdf');
+    givenDatabase({
+      documents: [
+        { id: 1, stored_path: '/srv/app/src/uploads/documents/transcript.pdf' },
+        { id: 2, stored_path: 'uploads/documents/lost.pdf' },
+      ],
+    });
+
+    const report = await migrateUploads();
+
+    expect(report).toMatchObject({
+      applied: false,
+      references: 2,
+      alreadyCanonical: 0,
+      migrated: [
+        {
+          reference: { table: 'documents', id: 1 },
+          from: 'documents/transcript.pdf',
+          key: KEY,
+          sha256: SHA256,
+        },
+      ],
+      missing: [{ table: 'documents', id: 2 }],
+      orphaned: [label(mockRoots.current, 'documents/stray.pdf')],
+      superseded: [],
+    });
+    expect(report.skippedTables).toContain('offer_letters');
+    expect(pool.getConnection).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(mockRoots.current, KEY))).toBe(false);
+  });
+
+  it('copies files to content keys and rewrites rows that did not change', async () => {
+    await writeFile(mockRoots.legacy, 'documents/transcript.pdf');
+    givenDatabase({
+      documents: [{ id: 1, stored_path: 'documents/transcript.pdf' }],
+    });
+    const connection = givenConnection();
+
+    await migrateUploads({ apply: true });
+
+    expect(fs.readFileSync(path.join(mockRoots.current, KEY))).toEqual(CONTENT);
+    expect(
+      fs.existsSync(path.join(mockRoots.legacy, 'documents/transcript.pdf')),
+    ).toBe(true);
+    const [update, insert] = connection.query.mock.calls as unknown as [
+      string,
+      unknown[],
+    ][];
+    expect(update[1]).toEqual([
+      'documents',
+      'file_path',
+      KEY,
+      1,
+      'file_path',
+      'documents/transcript.pdf',
+    ]);
+    expect(insert[1]).toEqual([
+      'documents',
+      'file_path',
+      1,
+      'documents/transcript.pdf',
+      KEY,
+      SHA256,
+      CONTENT.length,
+    ]);
+    expect(connection.commit).toHaveBeenCalled();
+  });
+
+  it('skips migrated rows and reports their originals as superseded', async () => {
+    await writeFile(mockRoots.legacy, 'documents/transcript.pdf');
+    await writeFile(mockRoots.current, KEY);
+    givenDatabase({ documents: [{ id: 1, stored_path: KEY }] }, [
+      'documents/transcript.pdf',
+    ]);
+
+    const report = await migrateUploads({ apply: true });
+
+    expect(report).toMatchObject({
+      alreadyCanonical: 1,
+      migrated: [],
+      orphaned: [],
+      superseded: [label(mockRoots.legacy, 'documents/transcript.pdf')],
+    });
+    expect(pool.getConnection).not.toHaveBeenCalled();
+  });
+
+  it('rolls back when the row cannot be rewritten', async () => {
+    await writeFile(mockRoots.legacy, 'documents/transcript.pdf');
+    givenDatabase({
+      documents: [{ id: 1, stored_path: 'documents/transcript.pdf' }],
+    });
+    const connection = givenConnection();
+    connection.query.mockRejectedValueOnce(new Error('Lock wait timeout'));
+
+    await expect(migrateUploads({ apply: true })).rejects.toThrow(
+      'Lock wait timeout',
+    );
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
+
+describe('canonical keys', () => {
+  it('derive from the area, the content hash and the extension', () => {
+    expect(canonicalKey('documents', SHA256, 'C:\\scans\\ID.PDF')).toBe(KEY);
+    expect(canonicalKey('signatures', SHA256, 'signature')).toBe(
+      `signatures/${SHA256.slice(0, 2)}/${SHA256}`,
+    );
+    expect(isCanonicalKey(KEY)).toBe(true);
+    expect(isCanonicalKey('documents/transcript.pdf')).toBe(false);
+    expect(isCanonicalKey(null)).toBe(false);
+  });
+});
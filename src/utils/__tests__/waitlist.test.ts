@@ -0,0 +1,227 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import pool from '../../db';
+import { AdmissionError, admitApplication } from '../admission';
+import {
+  addToWaitlist,
+  moveWaitlistEntry,
+  promoteWaitlistEntry,
+  releaseSeat,
+  removeWaitlistEntry,
+} from '../waitlist';
+
+jest.mock('../../db', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), getConnection: jest.fn() },
+}));
+jest.mock('../notification', () => ({ sendApplicantEmail: jest.fn() }));
+jest.mock('../acceptanceChecks', () => ({ runAcceptanceChecks: jest.fn() }));
+jest.mock('../admission', () => ({
+  ...jest.requireActual('../admission'),
+  admitApplication: jest.fn(),
+}));
+
+const GROUP = {
+  programme: 'BACC',
+  satellite_campus: 'Harare Campus',
+  starting_semester: 'January 2027',
+};
+
+// The other active entries in the group, in rank order
+const fakeConnection = (
+  others: number[],
+  entry = { id: 9, rank_position: 0 },
+) => {
+  const query = jest.fn(async (sql: string) => {
+    if (/^SELECT programme, satellite_campus/.test(sql)) return [[GROUP]];
+    if (/^SELECT id, rank_position/.test(sql)) return [[entry]];
+    if (/^SELECT w\.programme/.test(sql)) return [[GROUP]];
+    if (/SELECT w\.id\s/.test(sql)) {
+      return [others.map((id) => ({ id }))];
+    }
+    return [{ affectedRows: 1 }];
+  });
+  return { query };
+};
+
+// Final rank of each entry, from the renumbering updates
+const ranks = (connection: ReturnType<typeof fakeConnection>) =>
+  Object.fromEntries(
+    (connection.query.mock.calls as unknown as [string, number[]][])
+      .filter(([sql]) => sql.includes('SET rank_position = ? WHERE id'))
+      .map(([, [rank, id]]) => [id, rank]),
+  );
+
+const asConnection = (connection: ReturnType<typeof fakeConnection>) =>
+  connection as unknown as PoolConnection;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('addToWaitlist', () => {
+  it('puts a new entry at the bottom of its group', async () => {
+    const connection = fakeConnection([3, 4]);
+    await expect(
+      addToWaitlist(asConnection(connection), { applicationId: 70 }),
+    ).resolves.toEqual({ entryId: 9, rank: 3, group: GROUP });
+    expect(ranks(connection)).toEqual({ 3: 1, 4: 2, 9: 3 });
+  });
+
+  it('inserts at the requested rank and clamps ranks past the end', async () => {
+    const connection = fakeConnection([3, 4, 5]);
+    await addToWaitlist(asConnection(connection), {
+      applicationId: 70,
+      rank: 2,
+    });
+    expect(ranks(connection)).toEqual({ 3: 1, 9: 2, 4: 3, 5: 4 });
+
+    const past = fakeConnection([3]);
+    await expect(
+      addToWaitlist(asConnection(past), { applicationId: 70, rank: 10 }),
+    ).resolves.toMatchObject({ rank: 2 });
+  });
+
+  it('keeps the rank of an entry that is already waiting', async () => {
+    const connection = fakeConnection([3, 4], { id: 9, rank_position: 1 });
+    await addToWaitlist(asConnection(connection), { applicationId: 70 });
+    expect(ranks(connection)).toEqual({ 9: 1, 3: 2, 4: 3 });
+  });
+});
+
+describe('moveWaitlistEntry', () => {
+  it('re-ranks an active entry within its group', async () => {
+    const connection = fakeConnection([3, 4]);
+    await expect(
+      moveWaitlistEntry(asConnection(connection), 9, 1),
+    ).resolves.toBe(1);
+    expect(ranks(connection)).toEqual({ 9: 1, 3: 2, 4: 3 });
+  });
+
+  it('ignores entries that are no longer active', async () => {
+    const connection = { query: jest.fn(async () => [[]]) };
+    await expect(
+      moveWaitlistEntry(connection as unknown as PoolConnection, 9, 1),
+    ).resolves.toBeNull();
+    expect(connection.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('removeWaitlistEntry', () => {
+  it('closes the gap the entry leaves', async () => {
+    const connection = fakeConnection([3, 5]);
+    await expect(
+      removeWaitlistEntry(asConnection(connection), 4),
+    ).resolves.toBe(true);
+    expect(
+      connection.query.mock.calls.some(([sql]) =>
+        sql.includes("SET status = 'removed'"),
+      ),
+    ).toBe(true);
+    expect(ranks(connection)).toEqual({ 3: 1, 5: 2 });
+  });
+});
+
+describe('promoteWaitlistEntry', () => {
+  beforeEach(() => {
+    jest
+      .mocked(pool.query)
+      .mockResolvedValue([[{ application_id: 70 }] as RowDataPacket[], []]);
+  });
+
+  it('admits the applicant and marks the entry promoted before commit', async () => {
+    jest.mocked(admitApplication).mockImplementation(async (params) => {
+      const connection = {
+        query: jest.fn(async () => [{ affectedRows: 1 } as ResultSetHeader]),
+      };
+      await params.beforeCommit?.(connection as unknown as PoolConnection);
+      expect(connection.query.mock.calls[0]).toEqual([
+        expect.stringContaining(
+          "WHERE id = ? AND status IN ('waiting', 'pending_confirmation')",
+        ),
+        [4, 9],
+      ]);
+      return { studentNumber: 'W260001' } as Awaited<
+        ReturnType<typeof admitApplication>
+      >;
+    });
+
+    await expect(
+      promoteWaitlistEntry({ entryId: 9, actorId: 4, reason: 'Seat free' }),
+    ).resolves.toEqual({ studentNumber: 'W260001' });
+    expect(admitApplication).toHaveBeenCalledWith(
+      expect.objectContaining({ applicationId: 70, actorType: 'staff' }),
+    );
+  });
+
+  it('refuses an entry someone else already promoted', async () => {
+    jest.mocked(admitApplication).mockImplementation(async (params) => {
+      const connection = { query: jest.fn(async () => [{ affectedRows: 0 }]) };
+      await params.beforeCommit?.(connection as unknown as PoolConnection);
+      throw new Error('Expected the hook to refuse');
+    });
+
+    await expect(
+      promoteWaitlistEntry({ entryId: 9, reason: 'Seat free' }),
+    ).rejects.toEqual(
+      new AdmissionError('Waitlist entry is no longer active', 409),
+    );
+  });
+
+  it('returns null for unknown entries', async () => {
+    jest.mocked(pool.query).mockResolvedValue([[], []]);
+    await expect(
+      promoteWaitlistEntry({ entryId: 9, reason: 'Seat free' }),
+    ).resolves.toBeNull();
+    expect(admitApplication).not.toHaveBeenCalled();
+  });
+});
+
+describe('releaseSeat', () => {
+  const connectionWith = (
+    entries: { id: number; application_id: number }[],
+  ) => {
+    const connection = {
+      beginTransaction: jest.fn(),
+      commit: jest.fn(),
+      rollback: jest.fn(),
+      release: jest.fn(),
+      query: jest.fn(async (sql: string) => {
+        if (sql.startsWith('SELECT reference_number')) {
+          return [[{ reference_number: 'APL-2026-0001', ...GROUP }]];
+        }
+        if (sql.includes('FROM waitlist_entries w')) return [entries];
+        return [{ affectedRows: 1 }];
+      }),
+    };
+    jest
+      .mocked(pool.getConnection)
+      .mockResolvedValue(connection as unknown as PoolConnection);
+    return connection;
+  };
+
+  it('leaves the top waiting applicant pending staff confirmation', async () => {
+    const connection = connectionWith([{ id: 9, application_id: 70 }]);
+    await expect(
+      releaseSeat({ applicationId: 1, trigger: 'declined' }),
+    ).resolves.toEqual({ entryId: 9, promoted: false });
+
+    const [sql, values] = connection.query.mock.calls[2] as unknown as [
+      string,
+      unknown[],
+    ];
+    expect(sql).toContain("SET status = 'pending_confirmation'");
+    expect(values).toEqual(['Seat released by APL-2026-0001 (declined)', 9]);
+    expect(connection.commit).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+    expect(admitApplication).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when nobody is waiting', async () => {
+    const connection = connectionWith([]);
+    await expect(
+      releaseSeat({ applicationId: 1, trigger: 'expired' }),
+    ).resolves.toBeNull();
+    expect(connection.rollback).toHaveBeenCalled();
+    expect(connection.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { evaluateCompleteness } from './applicationCompleteness';
+import { checkCapacity } from './capacity';
+import {
+  describeDocumentType,
+  getUnverifiedRequiredDocuments,
+} from './documentVerification';
+import { getApplicationInterview, isInterviewRequired } from './interviews';
+import { getReviewSummary } from './reviews';
+
+export type AcceptanceBlocker = {
+  check: string;
+  message: string;
+  details?: unknown;
+};
+
+/**
+ * Runs every check that must pass before an application can be accepted.
+ * An empty result means the application may be accepted; otherwise an authorised
+ * user has to override the blockers explicitly. `placement` is the programme and
+ * intake being offered when they differ from what the applicant applied for.
+ */
+export const runAcceptanceChecks = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  placement: { programme?: string; startingSemester?: string } = {},
+): Promise<AcceptanceBlocker[]> => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT * FROM applications WHERE id = ?',
+    [applicationId],
+  );
+  if (!rows.length) return [];
+  const application = rows[0];
+
+  const blockers: AcceptanceBlocker[] = [];
+
+  const completeness = await evaluateCompleteness(db, application);
+  if (!completeness.isComplete) {
+    blockers.push({
+      check: 'completeness',
+      message: `Application is incomplete (${completeness.percentage}% complete)`,
+      details: completeness.sections.filter(
+        (section) => section.required && !section.complete,
+      ),
+    });
+  }
+
+  const unverified = await getUnverifiedRequiredDocuments(
+    db,
+    applicationId,
+    application.program_type,
+  );
+  if (unverified.length) {
+    blockers.push({
+      check: 'documents',
+      message: `Required documents not verified: ${unverified
+        .map((document) => describeDocumentType(document.documentType))
+        .join(', ')}`,
+      details: unverified,
+    });
+  }
+
+  // Reviews only block once reviewers are assigned or have recommended something
+  const reviews = await getReviewSummary(db, applicationId);
+  if (reviews.pending) {
+    blockers.push({
+      check: 'review',
+      message: `${reviews.pending} of ${reviews.assigned} reviews outstanding`,
+      details: reviews,
+    });
+  } else if (
+    (reviews.assigned || reviews.recommendation) &&
+    reviews.recommendation !== 'accept' &&
+    reviews.recommendation !== 'conditional_accept'
+  ) {
+    blockers.push({
+      check: 'review',
+      message: `Reviewers recommend: ${reviews.recommendation ?? 'none'}`,
+      details: reviews,
+    });
+  }
+
+  if (await isInterviewRequired(db, application)) {
+    const interview = await getApplicationInterview(db, applicationId);
+    if (interview?.outcome !== 'pass') {
+      blockers.push({
+        check: 'interview',
+        message: !interview
+          ? 'Applicant has not been invited to interview'
+          : interview.outcome
+            ? `Interview outcome: ${interview.outcome}`
+            : `Interview not yet held (${interview.status})`,
+        details: interview,
+      });
+    }
+  }
+
+  const capacity = await checkCapacity(db, {
+    applicationId,
+    programme: placement.programme || application.programme,
+    satelliteCampus: application.satellite_campus,
+    startingSemester:
+      placement.startingSemester || application.starting_semester,
+  });
+  if (capacity) {
+    blockers.push({
+      check: 'capacity',
+      message: capacity.message,
+      details: capacity.details,
+    });
+  }
+
+  return blockers;
+};
+
+export const describeOverride = (blockers: AcceptanceBlocker[]) =>
+  `Override of: ${blockers.map((blocker) => blocker.check).join(', ')}`;
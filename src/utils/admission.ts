@@ -0,0 +1,458 @@
+import { Request } from 'express';
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../db';
+import { generateOfferLetter, loadLetterSignatory } from './offerLetter';
+import { sendApplicantEmail } from './notification';
+import {
+  ApplicationStatus,
+  StatusActorType,
+  transitionApplicationStatus,
+} from './applicationStatus';
+import {
+  ensureProgrammeChoices,
+  recordGrantedChoice,
+} from './programmeChoices';
+
+export type OfferLetterEventAction = 'generated' | 'downloaded' | 'printed';
+
+type ActiveRangeRow = RowDataPacket & {
+  id: number;
+  prefix: string;
+  start_number: number;
+  end_number: number;
+  next_number: number;
+  is_active: 0 | 1;
+};
+
+export class AdmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'AdmissionError';
+  }
+}
+
+export const logOfferLetterEvent = async (params: {
+  offerLetterId: number;
+  applicationId: number;
+  action: OfferLetterEventAction;
+  userId?: number | null;
+  req?: Request;
+}) => {
+  try {
+    await pool.query(
+      `INSERT INTO offer_letter_events
+       (offer_letter_id, application_id, action, acted_by, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        params.offerLetterId,
+        params.applicationId,
+        params.action,
+        params.userId ?? null,
+        params.req?.ip ?? null,
+        params.req?.headers['user-agent'] ?? null,
+      ],
+    );
+  } catch (error) {
+    console.warn('Offer letter event log failed:', error);
+  }
+};
+
+/**
+ * Accepts an application inside the caller's transaction: takes the next number
+ * from the active range (unless one was assigned before), moves the status and
+ * records the assignment. The application row must already be locked FOR UPDATE.
+ */
+export const assignStudentNumber = async (
+  connection: PoolConnection,
+  params: {
+    application: RowDataPacket;
+    programme: string;
+    startingSemester: string;
+    toStatus?: ApplicationStatus;
+    actorId?: number | null;
+    actorType?: StatusActorType;
+    reason: string;
+  },
+) => {
+  const { application } = params;
+  const reusedExistingStudentNumber =
+    typeof application.student_number === 'string' &&
+    application.student_number.trim() !== '';
+  let studentNumber = reusedExistingStudentNumber
+    ? String(application.student_number).trim()
+    : '';
+  let range: ActiveRangeRow | null = null;
+
+  if (!reusedExistingStudentNumber) {
+    const [rangeRows] = await connection.query<RowDataPacket[]>(
+      'SELECT * FROM student_number_ranges WHERE is_active = 1 LIMIT 1 FOR UPDATE',
+    );
+
+    if (!rangeRows.length) {
+      throw new AdmissionError('No active student number range set', 400);
+    }
+
+    range = rangeRows[0] as ActiveRangeRow;
+    if (range.next_number > range.end_number) {
+      throw new AdmissionError('Student number range exhausted', 409);
+    }
+
+    studentNumber = `${range.prefix}${range.next_number}`;
+  }
+
+  await transitionApplicationStatus(connection, {
+    applicationId: application.id,
+    toStatus: params.toStatus ?? 'accepted',
+    actorId: params.actorId,
+    actorType: params.actorType,
+    reason: params.reason,
+  });
+
+  // Legacy applications get their original programme as first choice before it is overwritten
+  await ensureProgrammeChoices(
+    connection,
+    application.id,
+    application.programme,
+  );
+  await connection.query(
+    `UPDATE applications
+     SET student_number = ?, programme = ?, starting_semester = ?
+     WHERE id = ?`,
+    [studentNumber, params.programme, params.startingSemester, application.id],
+  );
+
+  if (range) {
+    await connection.query(
+      'UPDATE student_number_ranges SET next_number = next_number + 1 WHERE id = ?',
+      [range.id],
+    );
+
+    await connection.query(
+      `INSERT INTO student_number_assignments
+       (application_id, reference_number, student_number, range_id, assigned_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        application.id,
+        application.reference_number,
+        studentNumber,
+        range.id,
+        params.actorId ?? null,
+      ],
+    );
+  }
+
+  const grantedPreference = await recordGrantedChoice(
+    connection,
+    application.id,
+    params.programme,
+  );
+
+  return { studentNumber, reusedExistingStudentNumber, grantedPreference };
+};
+
+const getOfferLetterInfo = async (
+  db: Pool | PoolConnection,
+  referenceNumber: string,
+) => {
+  const [infoRows] = await db.query<RowDataPacket[]>(
+    `SELECT
+       a.reference_number,
+       a.student_number,
+       a.programme AS programme_code,
+       a.year_of_commencement,
+       a.starting_semester,
+       a.satellite_campus,
+       pd.title,
+       pd.first_names,
+       pd.surname,
+       pd.email,
+       pd.postal_address,
+       pd.residential_address,
+       dp.name AS programme_name,
+       dp.programme_duration,
+       dp.prog_start_date,
+       dp.prog_end_date,
+       dp.programme_fee,
+       dp.down_payment
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     LEFT JOIN department_programme dp ON dp.code = a.programme
+     WHERE a.reference_number = ?`,
+    [referenceNumber],
+  );
+  return infoRows[0];
+};
+
+const getActiveOfferLetterSettings = async (db: Pool | PoolConnection) => {
+  const [settingsRows] = await db.query<RowDataPacket[]>(
+    `SELECT
+       down_payment_due_date,
+       total_fees_due_date,
+       registration_start_date,
+       registration_end_date,
+       orientation_start_date,
+       orientation_end_date,
+       orientation_time,
+       min_applicants_by_date,
+       offer_valid_until_date
+     FROM offer_letter_settings
+     WHERE is_active = 1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+  );
+  return settingsRows[0];
+};
+
+/**
+ * Generates a fresh offer letter from the current application, programme and
+ * offer-letter settings, marks it as the latest one and logs the event. Unmet
+ * offer conditions are listed in the letter.
+ */
+export const issueOfferLetter = async (params: {
+  applicationId: number;
+  referenceNumber: string;
+  studentNumber: string;
+  generatedBy?: number | null;
+  req?: Request;
+}) => {
+  const info = await getOfferLetterInfo(pool, params.referenceNumber);
+  const settings = await getActiveOfferLetterSettings(pool);
+  const signatory = await loadLetterSignatory(pool);
+  const [conditionRows] = await pool.query<RowDataPacket[]>(
+    `SELECT description, DATE_FORMAT(due_date, '%Y-%m-%d') AS due_date
+     FROM offer_conditions
+     WHERE application_id = ? AND status = 'unmet'
+     ORDER BY id ASC`,
+    [params.applicationId],
+  );
+  const programmeName =
+    info?.programme_name || info?.programme_code || 'your programme';
+
+  const verificationCode = uuidv4();
+  const letter = await generateOfferLetter({
+    referenceNumber: params.referenceNumber,
+    studentNumber: params.studentNumber,
+    verificationCode,
+    title: info?.title,
+    firstNames: info?.first_names,
+    surname: info?.surname,
+    programmeName,
+    programmeDuration: info?.programme_duration,
+    programmeStartDate: info?.prog_start_date,
+    programmeEndDate: info?.prog_end_date,
+    programmeFee: info?.programme_fee,
+    downPayment: info?.down_payment ?? 250,
+    downPaymentDueDate: settings?.down_payment_due_date ?? '',
+    totalFeesDueDate: settings?.total_fees_due_date ?? '',
+    registrationStartDate: settings?.registration_start_date ?? '',
+    registrationEndDate: settings?.registration_end_date ?? '',
+    orientationStartDate: settings?.orientation_start_date ?? '',
+    orientationEndDate: settings?.orientation_end_date ?? '',
+    orientationTime: settings?.orientation_time ?? '',
+    minApplicantsByDate: settings?.min_applicants_by_date ?? '',
+    offerValidUntilDate: settings?.offer_valid_until_date ?? '',
+    yearOfCommencement: info?.year_of_commencement,
+    satelliteCampus: info?.satellite_campus,
+    postalAddress: info?.postal_address,
+    residentialAddress: info?.residential_address,
+    conditions: conditionRows.map((row) => ({
+      description: row.description,
+      dueDate: row.due_date,
+    })),
+    ...signatory,
+  });
+
+  await pool.query(
+    'UPDATE offer_letters SET latest = 0 WHERE application_id = ?',
+    [params.applicationId],
+  );
+
+  const [insertResult] = await pool.query<ResultSetHeader>(
+    `INSERT INTO offer_letters
+     (application_id, reference_number, student_number, file_name, file_path, verification_code, generated_by, latest)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 1)`,
+    [
+      params.applicationId,
+      params.referenceNumber,
+      params.studentNumber,
+      letter.fileName,
+      letter.storageKey,
+      verificationCode,
+      params.generatedBy ?? null,
+    ],
+  );
+
+  const offerLetterId = insertResult?.insertId;
+  if (offerLetterId) {
+    await logOfferLetterEvent({
+      offerLetterId,
+      applicationId: params.applicationId,
+      action: 'generated',
+      userId: params.generatedBy ?? null,
+      req: params.req,
+    });
+  }
+
+  return { ...letter, offerLetterId, verificationCode, info, programmeName };
+};
+
+/**
+ * Emails the student number and (when generated) the offer letter to the applicant.
+ * Returns false instead of throwing so callers can report it.
+ */
+export const sendOfferEmail = async (params: {
+  referenceNumber: string;
+  studentNumber: string;
+  letter?: { content: Buffer; fileName: string } | null;
+}) => {
+  const info = await getOfferLetterInfo(pool, params.referenceNumber);
+  if (!info?.email) return false;
+
+  const safeName =
+    `${`${info.first_names ?? ''} ${info.surname ?? ''}`.trim() || 'Student'}`.trim();
+  const safeProgramme = `${
+    info.programme_name || info.programme_code || 'your programme'
+  }`.trim();
+  const safeStudentNumber = `${params.studentNumber}`.trim();
+
+  const htmlBody = `
+    <div style="font-family:system-ui,Segoe UI,Arial,sans-serif;background:#f4f4f4;padding:20px">
+      <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,.06);overflow:hidden">
+        <div style="background:#208F74;padding:16px 20px;border-bottom:4px solid rgba(255,215,0,.7);color:#ffffff">
+          <h2 style="margin:0;font-size:20px;">Women's University in Africa</h2>
+          <div style="font-size:13px;opacity:.9">Admissions</div>
+        </div>
+        <div style="padding:20px 22px 16px 22px;color:#222">
+          <p style="margin:0 0 10px 0;">Good day ${safeName},</p>
+          <p style="margin:0 0 10px 0;">Congratulations! You have been accepted to study ${safeProgramme} at the Women's University in Africa.</p>
+          <p style="margin:0 0 10px 0;">Your student number is:</p>
+          <p style="margin:8px 0 16px 0;font-size:20px;font-weight:700;color:#292727;">${safeStudentNumber}</p>
+          <p style="margin:0 0 10px 0;">We look forward to welcoming you. Your offer letter is attached as a PDF.</p>
+          <p style="margin:0 0 10px 0;">You can accept your offer letter on this page <a href='https://apply.wua.ac.zw/apply-online/application-status'>https://apply.wua.ac.zw/apply-online/application-status</a></p>
+          <p style="margin:18px 0 0 0;">Regards,<br/>Women's University in Africa</p>
+        </div>
+      </div>
+    </div>
+  `.trim();
+
+  try {
+    await sendApplicantEmail({
+      to: info.email,
+      subject: 'WUA Admission Offer and Student Number',
+      text:
+        `Good day ${safeName},\n\n` +
+        `Congratulations! You have been accepted to study ${safeProgramme} at the Women's University in Africa.\n\n` +
+        `Your student number is: ${safeStudentNumber}\n\n` +
+        `We look forward to welcoming you. Your offer letter is attached as a PDF.\n\n` +
+        `Regards,\nWomen's University in Africa`,
+      html: htmlBody,
+      attachments: params.letter
+        ? [
+            {
+              filename:
+                params.letter.fileName ||
+                `offer-letter-${params.studentNumber}.pdf`,
+              content: params.letter.content,
+            },
+          ]
+        : undefined,
+    });
+    return true;
+  } catch (emailError) {
+    console.error('Error sending student number email:', emailError);
+    return false;
+  }
+};
+
+/**
+ * Full acceptance outside of a request: assigns the student number in its own
+ * transaction, then generates the offer letter and emails it. Used when a
+ * waitlisted applicant is promoted.
+ */
+export const admitApplication = async (params: {
+  applicationId: number;
+  actorId?: number | null;
+  actorType?: StatusActorType;
+  reason: string;
+  // Runs in the admission transaction, after the status change; throw to undo it
+  beforeCommit?: (connection: PoolConnection) => Promise<void>;
+}) => {
+  const connection = await pool.getConnection();
+  let studentNumber: string;
+  let referenceNumber: string;
+  try {
+    await connection.beginTransaction();
+
+    const [appRows] = await connection.query<RowDataPacket[]>(
+      `SELECT id, reference_number, programme, accepted_status, student_number, starting_semester
+       FROM applications
+       WHERE id = ?
+       FOR UPDATE`,
+      [params.applicationId],
+    );
+    if (!appRows.length) {
+      throw new AdmissionError('Application not found', 404);
+    }
+    const application = appRows[0];
+    if (!application.starting_semester) {
+      throw new AdmissionError(
+        'startingSemester is required to accept an application',
+        400,
+      );
+    }
+
+    const assigned = await assignStudentNumber(connection, {
+      application,
+      programme: application.programme,
+      startingSemester: application.starting_semester,
+      actorId: params.actorId,
+      actorType: params.actorType,
+      reason: params.reason,
+    });
+    await params.beforeCommit?.(connection);
+    await connection.commit();
+
+    studentNumber = assigned.studentNumber;
+    referenceNumber = application.reference_number;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  let letter: Awaited<ReturnType<typeof issueOfferLetter>> | null = null;
+  try {
+    letter = await issueOfferLetter({
+      applicationId: params.applicationId,
+      referenceNumber,
+      studentNumber,
+      generatedBy: params.actorId,
+    });
+  } catch (letterError) {
+    console.error('Offer letter generation failed:', letterError);
+  }
+
+  const emailSent = await sendOfferEmail({
+    referenceNumber,
+    studentNumber,
+    letter,
+  });
+
+  return {
+    referenceNumber,
+    studentNumber,
+    letterGenerated: !!letter,
+    offerLetterPath: letter?.storageKey ?? null,
+    emailSent,
+  };
+};
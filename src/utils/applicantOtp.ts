@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import pool from '../db';
+import { sendApplicantEmail } from './notification';
+
+export type OtpPurpose = 'login' | 'withdraw' | 'correction';
+
+export const OTP_PURPOSES: OtpPurpose[] = ['login', 'withdraw', 'correction'];
+
+const OTP_TTL_MINUTES = Number(process.env.APPLICANT_OTP_TTL_MINUTES || 10);
+const OTP_MAX_ATTEMPTS = 5;
+// Per application, across purposes, so new codes cannot buy more guesses
+const OTP_RESEND_COOLDOWN_SECONDS = 60;
+const OTP_MAX_PER_HOUR = 5;
+
+const OTP_PURPOSE_TEXT: Record<OtpPurpose, string> = {
+  login: 'sign in to the applicant portal',
+  withdraw: 'withdraw your application',
+  correction: 'request a correction to your personal details',
+};
+
+const hashCode = (code: string) =>
+  crypto.createHash('sha256').update(code).digest('hex');
+
+export const isOtpPurpose = (value: unknown): value is OtpPurpose =>
+  typeof value === 'string' && (OTP_PURPOSES as string[]).includes(value);
+
+export class OtpThrottleError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly retryAfterSeconds: number,
+  ) {
+    super(message);
+    this.name = 'OtpThrottleError';
+  }
+}
+
+/**
+ * Emails a six-digit one-time code to the address in personal_details. Earlier
+ * unused codes for the same purpose stop working. Returns false when the
+ * application has no email address on file, and throws OtpThrottleError when
+ * a code was sent within the cooldown or the hourly cap is used up.
+ */
+export const issueApplicantOtp = async (
+  applicationId: number,
+  purpose: OtpPurpose,
+) => {
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  const connection = await pool.getConnection();
+  let contact: RowDataPacket | undefined;
+  try {
+    await connection.beginTransaction();
+    // Locking the application serialises parallel requests for the same applicant
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT a.reference_number, pd.first_names, pd.surname, pd.email
+       FROM applications a
+       LEFT JOIN personal_details pd ON pd.application_id = a.id
+       WHERE a.id = ?
+       FOR UPDATE`,
+      [applicationId],
+    );
+    contact = rows[0];
+    if (!contact?.email) {
+      await connection.rollback();
+      return false;
+    }
+
+    const [recent] = await connection.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS issued,
+              TIMESTAMPDIFF(SECOND, MAX(created_at), NOW()) AS since_last,
+              TIMESTAMPDIFF(SECOND, MIN(created_at), NOW()) AS since_first
+       FROM applicant_otps
+       WHERE application_id = ? AND created_at > DATE_SUB(NOW(), INTERVAL 1 HOUR)`,
+      [applicationId],
+    );
+    const {
+      issued,
+      since_last: sinceLast,
+      since_first: sinceFirst,
+    } = recent[0];
+    if (issued > 0 && sinceLast < OTP_RESEND_COOLDOWN_SECONDS) {
+      throw new OtpThrottleError(
+        'A code was sent a moment ago. Please wait before asking for another.',
+        429,
+        OTP_RESEND_COOLDOWN_SECONDS - sinceLast,
+      );
+    }
+    if (issued >= OTP_MAX_PER_HOUR) {
+      throw new OtpThrottleError(
+        'Too many codes requested. Please try again later.',
+        429,
+        Math.max(3600 - sinceFirst, 1),
+      );
+    }
+
+    await connection.query(
+      `UPDATE applicant_otps SET used_at = NOW()
+       WHERE application_id = ? AND purpose = ? AND used_at IS NULL`,
+      [applicationId, purpose],
+    );
+    await connection.query(
+      `INSERT INTO applicant_otps (application_id, purpose, code_hash, expires_at)
+       VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))`,
+      [applicationId, purpose, hashCode(code), OTP_TTL_MINUTES],
+    );
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const fullName =
+    `${contact.first_names ?? ''} ${contact.surname ?? ''}`.trim() ||
+    'Applicant';
+  await sendApplicantEmail({
+    to: contact.email,
+    subject: `Your WUA verification code: ${code}`,
+    text:
+      `Dear ${fullName},\n\n` +
+      `Use the code ${code} to ${OTP_PURPOSE_TEXT[purpose]} (reference ${contact.reference_number}). ` +
+      `It expires in ${OTP_TTL_MINUTES} minutes.\n\n` +
+      'If you did not ask for this code you can ignore this email.\n\n' +
+      `Regards,\nWomen's University in Africa`,
+  });
+  return true;
+};
+
+/**
+ * Checks and consumes a one-time code. Every guess counts against the latest
+ * code, which is burnt after five attempts.
+ */
+export const verifyApplicantOtp = async (
+  applicationId: number,
+  purpose: OtpPurpose,
+  code: string,
+) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, code_hash
+     FROM applicant_otps
+     WHERE application_id = ? AND purpose = ? AND used_at IS NULL AND expires_at > NOW()
+     ORDER BY id DESC
+     LIMIT 1`,
+    [applicationId, purpose],
+  );
+  const otp = rows[0];
+  if (!otp) return false;
+
+  // Claiming the attempt first keeps parallel guesses within the limit
+  const [claimed] = await pool.query<ResultSetHeader>(
+    'UPDATE applicant_otps SET attempts = attempts + 1 WHERE id = ? AND attempts < ?',
+    [otp.id, OTP_MAX_ATTEMPTS],
+  );
+  if (!claimed.affectedRows) return false;
+
+  const expected = Buffer.from(otp.code_hash, 'hex');
+  const actual = Buffer.from(hashCode(code.trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) return false;
+
+  const [used] = await pool.query<ResultSetHeader>(
+    'UPDATE applicant_otps SET used_at = NOW() WHERE id = ? AND used_at IS NULL',
+    [otp.id],
+  );
+  return used.affectedRows > 0;
+};
+
+/**
+ * Applicant self-service checks: either surname + year of birth (as on
+ * /resume) or a one-time code sent to the applicant's email.
+ */
+export const verifyApplicantIdentity = async (
+  applicationId: number,
+  purpose: OtpPurpose,
+  credentials: { surname?: unknown; yearOfBirth?: unknown; otp?: unknown },
+) => {
+  if (typeof credentials.otp === 'string' && credentials.otp.trim()) {
+    return verifyApplicantOtp(applicationId, purpose, credentials.otp);
+  }
+
+  const surname =
+    typeof credentials.surname === 'string' ? credentials.surname.trim() : '';
+  const yearOfBirth = Number(credentials.yearOfBirth);
+  if (!surname || !Number.isInteger(yearOfBirth)) return false;
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT id FROM personal_details WHERE application_id = ? AND surname LIKE ? AND YEAR(date_of_birth) = ?',
+    [applicationId, `${surname}%`, yearOfBirth],
+  );
+  return rows.length > 0;
+};
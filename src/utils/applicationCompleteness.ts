@@ -0,0 +1,172 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import {
+  getRequiredDocumentTypes,
+  isPostgraduateProgramType,
+} from './applicationDocuments';
+import { REQUIRED_REFEREES } from './referees';
+
+export type CompletenessSection = {
+  section: string;
+  label: string;
+  required: boolean;
+  complete: boolean;
+  missing: string[];
+};
+
+export type CompletenessReport = {
+  sections: CompletenessSection[];
+  completedSections: number;
+  requiredSections: number;
+  percentage: number;
+  isComplete: boolean;
+};
+
+const PERSONAL_DETAIL_FIELDS = [
+  'first_names',
+  'surname',
+  'date_of_birth',
+  'gender',
+  'phone',
+  'email',
+];
+
+const blank = (value: unknown) =>
+  value == null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Checks every wizard section of an application. Work experience and referees are
+ * only required for postgraduate and PhD applications; everything else is always
+ * required.
+ */
+export const evaluateCompleteness = async (
+  db: Pool | PoolConnection,
+  application: RowDataPacket,
+): Promise<CompletenessReport> => {
+  const applicationId = application.id;
+
+  const [
+    [personalRows],
+    [kinRows],
+    [disabilityRows],
+    [educationRows],
+    [workRows],
+    [documentRows],
+    [refereeRows],
+  ] = await Promise.all([
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM personal_details WHERE application_id = ? LIMIT 1',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT id FROM next_of_kin WHERE application_id = ? LIMIT 1',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT id FROM disabilities WHERE application_id = ? LIMIT 1',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT id FROM education_details WHERE application_id = ? LIMIT 1',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT id FROM work_experience WHERE application_id = ? LIMIT 1',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT DISTINCT document_type FROM documents WHERE application_id = ?',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT COUNT(*) AS total FROM application_referees WHERE application_id = ?',
+      [applicationId],
+    ),
+  ]);
+
+  const personal = personalRows[0];
+  const uploadedTypes = new Set(
+    documentRows.map((row) => String(row.document_type)),
+  );
+  const isPostgraduate = isPostgraduateProgramType(application.program_type);
+
+  const sections: CompletenessSection[] = [
+    {
+      section: 'application',
+      label: 'Programme selection',
+      required: true,
+      complete: false,
+      missing: ['programme', 'starting_semester', 'satellite_campus'].filter(
+        (field) => blank(application[field]),
+      ),
+    },
+    {
+      section: 'personalDetails',
+      label: 'Personal details',
+      required: true,
+      complete: false,
+      missing: personal
+        ? PERSONAL_DETAIL_FIELDS.filter((field) => blank(personal[field]))
+        : ['personal_details'],
+    },
+    {
+      section: 'nextOfKin',
+      label: 'Next of kin',
+      required: true,
+      complete: false,
+      missing: kinRows.length ? [] : ['next_of_kin'],
+    },
+    {
+      section: 'disabilities',
+      label: 'Disabilities',
+      required: true,
+      complete: false,
+      missing: disabilityRows.length ? [] : ['disabilities'],
+    },
+    {
+      section: 'educationDetails',
+      label: 'Education details',
+      required: true,
+      complete: false,
+      missing: educationRows.length ? [] : ['education_details'],
+    },
+    {
+      section: 'workExperience',
+      label: 'Work experience',
+      required: isPostgraduate,
+      complete: false,
+      missing: workRows.length ? [] : ['work_experience'],
+    },
+    {
+      section: 'referees',
+      label: 'Referees',
+      required: isPostgraduate,
+      complete: false,
+      missing:
+        Number(refereeRows[0]?.total ?? 0) >= REQUIRED_REFEREES
+          ? []
+          : ['referees'],
+    },
+    {
+      section: 'documents',
+      label: 'Documents',
+      required: true,
+      complete: false,
+      missing: getRequiredDocumentTypes(application.program_type).filter(
+        (type) => !uploadedTypes.has(type),
+      ),
+    },
+  ].map((section) => ({ ...section, complete: section.missing.length === 0 }));
+
+  const required = sections.filter((section) => section.required);
+  const completed = required.filter((section) => section.complete);
+
+  return {
+    sections,
+    completedSections: completed.length,
+    requiredSections: required.length,
+    percentage: required.length
+      ? Math.round((completed.length / required.length) * 100)
+      : 100,
+    isComplete: completed.length === required.length,
+  };
+};
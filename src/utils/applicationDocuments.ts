@@ -0,0 +1,50 @@
+// Multipart field names accepted by POST /applications/{referenceNumber}/documents
+export const DOCUMENT_FIELDS = [
+  'academicCertificate',
+  'professionalCertificate',
+  'proposal',
+  'applicationFee',
+  'birthCertificate',
+  'identityCard',
+] as const;
+
+export type DocumentField = (typeof DOCUMENT_FIELDS)[number];
+
+// applications.program_type is free text ('PhD', 'phd', ' Postgraduate '), so every
+// check compares it through these
+export const normalizeProgramType = (programType: unknown) =>
+  String(programType ?? '')
+    .trim()
+    .toLowerCase();
+
+export const isPhdProgramType = (programType: unknown) =>
+  normalizeProgramType(programType) === 'phd';
+
+// PhD counts as postgraduate
+export const isPostgraduateProgramType = (programType: unknown) =>
+  ['postgraduate', 'phd'].includes(normalizeProgramType(programType));
+
+/**
+ * Documents every applicant must upload. PhD applicants also submit a research proposal.
+ */
+export const getRequiredDocumentFields = (
+  programType: string | null | undefined,
+): DocumentField[] => {
+  const required: DocumentField[] = [
+    'academicCertificate',
+    'professionalCertificate',
+    'applicationFee',
+    'birthCertificate',
+    'identityCard',
+  ];
+  if (isPhdProgramType(programType)) required.push('proposal');
+  return required;
+};
+
+// academicCertificate -> academic_certificate, as stored in documents.document_type
+export const toDocumentType = (field: string) =>
+  field.replace(/([A-Z])/g, '_$1').toLowerCase();
+
+export const getRequiredDocumentTypes = (
+  programType: string | null | undefined,
+) => getRequiredDocumentFields(programType).map(toDocumentType);
@@ -0,0 +1,413 @@
+import path from 'path';
+import { PDFDocument as PdfLibDocument } from 'pdf-lib';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { getRequiredDocumentTypes } from './applicationDocuments';
+import { ApplicationStatus, getStatusHistory } from './applicationStatus';
+import { STATUS_LABELS } from './applicationTimeline';
+import {
+  describeDocumentType,
+  getApplicationDocuments,
+} from './documentVerification';
+import { getStorage, toStorageKey } from './fileStorage';
+import { finishPdf, renderLetterhead } from './offerLetter';
+import { detectFileKind } from './uploadInspection';
+
+type Field = [label: string, value: unknown];
+
+const formatValue = (value: unknown) => {
+  if (value == null || value === '') return '-';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+const formatDateTime = (value: unknown) =>
+  value instanceof Date
+    ? value.toISOString().slice(0, 16).replace('T', ' ')
+    : formatValue(value);
+
+const yesNo = (value: unknown) => (Number(value) ? 'Yes' : 'No');
+
+const renderHeading = (doc: PDFKit.PDFDocument, title: string) => {
+  if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+  doc.x = doc.page.margins.left;
+  doc.moveDown(1);
+  doc.font('Times-Bold').fontSize(13).text(title);
+  doc.moveDown(0.3);
+  doc.font('Times-Roman').fontSize(10);
+};
+
+const renderFields = (doc: PDFKit.PDFDocument, fields: Field[]) => {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const labelWidth = 150;
+  for (const [label, value] of fields) {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 20) doc.addPage();
+    const y = doc.y;
+    doc.font('Times-Bold').text(label, left, y, { width: labelWidth });
+    const labelBottom = doc.y;
+    doc.font('Times-Roman').text(formatValue(value), left + labelWidth, y, {
+      width: width - labelWidth,
+    });
+    doc.y = Math.max(doc.y, labelBottom) + 2;
+  }
+  doc.x = left;
+};
+
+const renderNone = (doc: PDFKit.PDFDocument, text: string) => {
+  doc.font('Times-Italic').text(text).font('Times-Roman');
+};
+
+// One line per entry, for sections that are lists rather than single records
+const renderLines = (doc: PDFKit.PDFDocument, lines: string[]) => {
+  for (const line of lines) doc.text(line, { lineGap: 2 });
+};
+
+export type DossierDocument = {
+  id: number;
+  documentType: string;
+};
+
+/**
+ * Renders everything on an application into one PDF for committees and
+ * auditors: personal details, next of kin, disabilities, education and
+ * subjects, work experience, the document checklist and the status history.
+ * With `includeDocuments`, the latest upload of each document is added at
+ * the end behind a cover page: images as pages of their own, and the pages
+ * of uploaded PDFs copied in with pdf-lib once pdfkit has finished, since
+ * pdfkit cannot read another PDF. Returns the PDF and the documents that
+ * went into it.
+ */
+export const buildApplicationDossier = async (
+  db: Pool | PoolConnection,
+  application: RowDataPacket,
+  options: { includeDocuments?: boolean } = {},
+) => {
+  const applicationId = Number(application.id);
+  const [
+    [personalRows],
+    [kinRows],
+    [disabilityRows],
+    [educationRows],
+    [tertiaryRows],
+    [workRows],
+  ] = await Promise.all([
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM personal_details WHERE application_id = ?',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM next_of_kin WHERE application_id = ?',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM disabilities WHERE application_id = ?',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      `SELECT ed.id, ed.qualification_type, ed.examination_board,
+              s.subject_name, s.grade, s.year_written
+       FROM education_details ed
+       LEFT JOIN subjects s ON s.education_id = ed.id
+       WHERE ed.application_id = ?
+       ORDER BY ed.id ASC, s.id ASC`,
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM tertiary_education WHERE application_id = ?',
+      [applicationId],
+    ),
+    db.query<RowDataPacket[]>(
+      'SELECT * FROM work_experience WHERE application_id = ? ORDER BY start_date DESC',
+      [applicationId],
+    ),
+  ]);
+  const documents = await getApplicationDocuments(db, applicationId);
+  const history = await getStatusHistory(db, applicationId);
+
+  const referenceNumber = String(application.reference_number);
+  const personal = personalRows[0] ?? {};
+  const kin = kinRows[0];
+  const disability = disabilityRows[0];
+  const fullName = [personal.title, personal.first_names, personal.surname]
+    .filter(Boolean)
+    .join(' ');
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: `Application dossier ${referenceNumber}` },
+  });
+  let pageCount = 1;
+  doc.on('pageAdded', () => {
+    pageCount += 1;
+  });
+
+  renderLetterhead(doc, {
+    logoFilePath: path.join(process.cwd(), 'src', 'uploads', 'wua-logo.png'),
+  });
+
+  // Scanning the code on a printed copy opens the application in the admin portal
+  const baseUrl = process.env.APPLICATION_ADMIN_URL_BASE;
+  const qrPayload = baseUrl
+    ? `${baseUrl.replace(/\/$/, '')}/${encodeURIComponent(referenceNumber)}`
+    : referenceNumber;
+  try {
+    const qrBuffer = await QRCode.toBuffer(qrPayload, {
+      type: 'png',
+      width: 120,
+      margin: 1,
+    });
+    doc.image(
+      qrBuffer,
+      doc.page.width - doc.page.margins.right - 90,
+      doc.page.margins.top,
+      { width: 90 },
+    );
+  } catch (error) {
+    console.warn('Failed to generate QR code for dossier:', error);
+  }
+
+  doc.moveDown(1);
+  doc
+    .font('Times-Bold')
+    .fontSize(15)
+    .text(`APPLICATION DOSSIER - ${referenceNumber}`);
+  doc.moveDown(0.3);
+  renderFields(doc, [
+    ['Applicant', fullName],
+    ['Programme', application.programme],
+    ['Satellite campus', application.satellite_campus],
+    ['Starting semester', application.starting_semester],
+    ['Status', application.accepted_status],
+    ['Submitted', formatDateTime(application.created_at)],
+  ]);
+
+  renderHeading(doc, 'Personal Details');
+  renderFields(doc, [
+    ['Title', personal.title],
+    ['First names', personal.first_names],
+    ['Surname', personal.surname],
+    ['Maiden name', personal.maiden_name],
+    ['Marital status', personal.marital_status],
+    ['Gender', personal.gender],
+    ['Date of birth', personal.date_of_birth],
+    ['Place of birth', personal.place_of_birth],
+    ['National ID', personal.national_id],
+    ['Passport number', personal.passport_number],
+    ['Citizenship', personal.citizenship],
+    ['Nationality', personal.nationality],
+    ['Residential address', personal.residential_address],
+    ['Postal address', personal.postal_address],
+    ['City', personal.city],
+    ['Country', personal.country],
+    ['Phone', personal.phone],
+    ['Email', personal.email],
+  ]);
+
+  renderHeading(doc, 'Next of Kin');
+  if (kin) {
+    renderFields(doc, [
+      ['Name', [kin.first_name, kin.last_name].filter(Boolean).join(' ')],
+      ['Relationship', kin.relationship],
+      ['Contact address', kin.contact_address],
+      ['Contact telephone', kin.contact_tel],
+    ]);
+  } else {
+    renderNone(doc, 'No next of kin recorded.');
+  }
+
+  renderHeading(doc, 'Disabilities');
+  if (disability) {
+    renderFields(doc, [
+      ['Has a disability', yesNo(disability.has_disability)],
+      ['Blindness', yesNo(disability.blindness)],
+      ['Cerebral palsy', yesNo(disability.cerebral_palsy)],
+      ['Deafness', yesNo(disability.deafness)],
+      ['Speech impairment', yesNo(disability.speech_impairment)],
+      ['Other', disability.other],
+      ['Adaptations needed', disability.extra_adaptations],
+    ]);
+  } else {
+    renderNone(doc, 'No disability information recorded.');
+  }
+
+  renderHeading(doc, 'Education');
+  const qualifications = new Map<number, RowDataPacket[]>();
+  for (const row of educationRows) {
+    qualifications.set(row.id, [...(qualifications.get(row.id) ?? []), row]);
+  }
+  if (!qualifications.size && !tertiaryRows.length) {
+    renderNone(doc, 'No qualifications recorded.');
+  }
+  for (const subjects of qualifications.values()) {
+    const { qualification_type, examination_board } = subjects[0];
+    doc
+      .font('Times-Bold')
+      .text(
+        `${formatValue(qualification_type)} (${formatValue(examination_board)})`,
+      );
+    doc.font('Times-Roman');
+    renderLines(
+      doc,
+      subjects
+        .filter((subject) => subject.subject_name)
+        .map(
+          (subject) =>
+            `    ${subject.subject_name}: ${formatValue(subject.grade)} (${formatValue(subject.year_written)})`,
+        ),
+    );
+    doc.moveDown(0.3);
+  }
+  for (const tertiary of tertiaryRows) {
+    doc.font('Times-Bold').text('Tertiary education');
+    renderFields(doc, [
+      ['Institution', tertiary.institution_name],
+      ['Qualification', tertiary.qualification_obtained],
+      ['Field of study', tertiary.field_of_study],
+      ['Year completed', tertiary.year_completed],
+    ]);
+  }
+
+  renderHeading(doc, 'Work Experience');
+  if (!workRows.length) renderNone(doc, 'No work experience recorded.');
+  for (const work of workRows) {
+    doc
+      .font('Times-Bold')
+      .text(
+        `${formatValue(work.position)}, ${formatValue(work.organisation_name)}`,
+      );
+    doc
+      .font('Times-Roman')
+      .text(
+        `${formatValue(work.start_date)} to ${work.end_date ? formatValue(work.end_date) : 'present'}`,
+      );
+    if (work.duties) doc.text(String(work.duties), { lineGap: 2 });
+    doc.moveDown(0.4);
+  }
+
+  renderHeading(doc, 'Document Checklist');
+  const current = documents.filter((document) => document.current);
+  const latest = new Map(
+    current.map((document) => [document.documentType, document]),
+  );
+  const required = getRequiredDocumentTypes(application.program_type);
+  const checklist = [
+    ...required,
+    ...current
+      .map((document) => document.documentType)
+      .filter((documentType) => !required.includes(documentType)),
+  ];
+  if (!checklist.length) renderNone(doc, 'No documents uploaded.');
+  for (const documentType of checklist) {
+    const document = latest.get(documentType);
+    const status = document?.verification.status ?? 'missing';
+    const detail = [
+      required.includes(documentType) ? 'required' : 'optional',
+      document ? `version ${document.version}` : null,
+      document?.verification.verifiedByUsername
+        ? `by ${document.verification.verifiedByUsername} on ${formatDateTime(document.verification.verifiedAt)}`
+        : null,
+      document?.verification.reason,
+    ].filter(Boolean);
+    renderFields(doc, [
+      [
+        describeDocumentType(documentType),
+        `${status.toUpperCase()} (${detail.join('; ')})`,
+      ],
+    ]);
+  }
+
+  renderHeading(doc, 'Decision History');
+  if (!history.length) renderNone(doc, 'No status changes recorded.');
+  for (const entry of history) {
+    const label =
+      STATUS_LABELS[entry.to_status as ApplicationStatus] ?? entry.to_status;
+    const actor = entry.actor_username ?? entry.actor_type;
+    doc
+      .font('Times-Bold')
+      .text(`${formatDateTime(entry.created_at)}  ${label}`, {
+        continued: true,
+      })
+      .font('Times-Roman')
+      .text(`  (${actor})`);
+    if (entry.reason) doc.text(`    ${entry.reason}`, { lineGap: 2 });
+  }
+
+  const appended: DossierDocument[] = [];
+  // Uploaded PDFs and the page index their pages go in at
+  const merges: { source: PdfLibDocument; at: number }[] = [];
+  if (options.includeDocuments) {
+    const storage = getStorage();
+    for (const document of current) {
+      const key = toStorageKey(document.filePath);
+      if (!key) continue;
+      const content = await storage.get(key);
+      const kind = content ? detectFileKind(content) : null;
+      if (!content || !kind || !['pdf', 'png', 'jpeg'].includes(kind)) continue;
+
+      const title = `${describeDocumentType(document.documentType)} (version ${document.version})`;
+      const fileName =
+        document.originalName ||
+        path.basename(key) ||
+        `${document.documentType}.${kind}`;
+      doc.addPage();
+      doc.font('Times-Bold').fontSize(13).text(title);
+      doc.font('Times-Roman').fontSize(10).text(fileName);
+      doc.moveDown(0.5);
+
+      if (kind === 'pdf') {
+        try {
+          const source = await PdfLibDocument.load(content, {
+            ignoreEncryption: true,
+          });
+          const pages = source.getPageCount();
+          merges.push({ source, at: pageCount });
+          doc.text(
+            `The ${pages === 1 ? 'page that follows is' : `${pages} pages that follow are`} this document.`,
+          );
+        } catch (error) {
+          console.warn(
+            `Failed to add document ${document.id} to dossier:`,
+            error,
+          );
+          doc.text('This PDF could not be read.');
+        }
+      } else {
+        try {
+          const width =
+            doc.page.width - doc.page.margins.left - doc.page.margins.right;
+          const height = doc.page.height - doc.page.margins.bottom - doc.y;
+          doc.image(content, doc.page.margins.left, doc.y, {
+            fit: [width, height],
+            align: 'center',
+          });
+        } catch (error) {
+          console.warn(
+            `Failed to add document ${document.id} to dossier:`,
+            error,
+          );
+          doc.text('This image could not be read.');
+        }
+      }
+      appended.push({ id: document.id, documentType: document.documentType });
+    }
+  }
+
+  let content = await finishPdf(doc);
+  if (merges.length) {
+    const merged = await PdfLibDocument.load(content);
+    // Working backwards keeps the earlier insertion points where they were
+    for (const { source, at } of merges.reverse()) {
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      pages.forEach((page, index) => merged.insertPage(at + index, page));
+    }
+    content = Buffer.from(await merged.save());
+  }
+  return {
+    fileName: `${referenceNumber}-dossier.pdf`,
+    content,
+    appendedDocuments: appended,
+  };
+};
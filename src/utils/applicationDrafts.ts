@@ -0,0 +1,540 @@
+import crypto from 'crypto';
+import { OkPacket, Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import {
+  getRequiredDocumentTypes,
+  toDocumentType,
+} from './applicationDocuments';
+import {
+  normalizeStatus,
+  transitionApplicationStatus,
+} from './applicationStatus';
+import { recordDocumentUpload } from './documentVersions';
+import { toStorageKey } from './fileStorage';
+import { ValidationIssue, validateValue } from '../middleware/validateRequest';
+import { applicationSchemas } from '../schemas/applicationSchemas';
+import {
+  parseProgrammeChoices,
+  saveProgrammeChoices,
+} from './programmeChoices';
+
+/**
+ * Shape of `application_drafts.draft_json`. Each section mirrors the request body of
+ * the matching wizard route so the frontend can reuse the same form state.
+ */
+export type ApplicationDraft = {
+  application?: {
+    startingSemester?: string;
+    programme?: string;
+    // Ranked, most preferred first; defaults to [programme]
+    programmeChoices?: string[];
+    satelliteCampus?: string;
+    preferredSession?: string;
+    wuaDiscoveryMethod?: string;
+    previousRegistration?: string;
+    programType?: string;
+  };
+  personalDetails?: Record<string, unknown>;
+  nextOfKin?: {
+    firstName?: string;
+    lastName?: string;
+    relationship?: string;
+    contactAddress?: string;
+    contactTel?: string;
+  };
+  disabilities?: {
+    hasDisability?: string;
+    blindness?: boolean;
+    cerebralPalsy?: boolean;
+    deafness?: boolean;
+    speechImpairment?: boolean;
+    other?: string;
+    extraAdaptations?: string;
+  };
+  educationDetails?: {
+    qualifications?: {
+      qualificationType?: string;
+      examinationBoard?: string;
+      subjects?: {
+        subjectName?: string;
+        grade?: string;
+        yearWritten?: number;
+      }[];
+    }[];
+    tertiaryEducation?: {
+      institutionName?: string;
+      qualificationObtained?: string;
+      fieldOfStudy?: string;
+      yearCompleted?: number;
+    };
+  };
+  workExperience?: {
+    organisationName?: string;
+    position?: string;
+    startDate?: string;
+    endDate?: string | null;
+    duties?: string;
+  }[];
+  // Files are uploaded through POST /drafts/{referenceNumber}/documents/{documentType};
+  // filePath is the storage key that upload returned
+  documents?: { documentType?: string; filePath?: string }[];
+};
+
+export class DraftSubmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly errors?: ValidationIssue[],
+  ) {
+    super(message);
+    this.name = 'DraftSubmissionError';
+  }
+}
+
+export const parseDraftJson = (value: unknown): ApplicationDraft => {
+  if (value && typeof value === 'object') return value as ApplicationDraft;
+  if (typeof value !== 'string' || !value.trim()) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const PERSONAL_DETAIL_COLUMNS = [
+  'title',
+  'first_names',
+  'surname',
+  'marital_status',
+  'maiden_name',
+  'national_id',
+  'passport_number',
+  'date_of_birth',
+  'place_of_birth',
+  'gender',
+  'citizenship',
+  'nationality',
+  'residential_address',
+  'postal_address',
+  'city',
+  'country',
+  'phone',
+  'email',
+];
+
+// Tables holding wizard sections that are rewritten from the draft on submit.
+// documents is not one of them: uploads carry version and verification history
+// and are only ever added to.
+const CHILD_TABLES = [
+  'personal_details',
+  'next_of_kin',
+  'disabilities',
+  'tertiary_education',
+  'work_experience',
+];
+
+const listMissingSections = (
+  draft: ApplicationDraft,
+  uploadedTypes: string[],
+) => {
+  const missing: string[] = [];
+  if (
+    !draft.application?.programme &&
+    !draft.application?.programmeChoices?.length
+  ) {
+    missing.push('application.programme');
+  }
+  if (!draft.personalDetails) missing.push('personalDetails');
+  if (!draft.nextOfKin) missing.push('nextOfKin');
+  if (!draft.disabilities?.hasDisability) missing.push('disabilities');
+  if (!Array.isArray(draft.educationDetails?.qualifications)) {
+    missing.push('educationDetails.qualifications');
+  }
+
+  const uploaded = new Set([
+    ...uploadedTypes,
+    ...(draft.documents ?? []).map((doc) =>
+      toDocumentType(String(doc.documentType ?? '')),
+    ),
+  ]);
+  for (const type of getRequiredDocumentTypes(draft.application?.programType)) {
+    if (!uploaded.has(type)) missing.push(`documents.${type}`);
+  }
+  return missing;
+};
+
+// Each section goes through the schema its wizard route enforces
+const DRAFT_SECTION_SCHEMAS = [
+  ['application', applicationSchemas.ApplicationCreateRequest],
+  ['personalDetails', applicationSchemas.PersonalDetailsRequest],
+  ['nextOfKin', applicationSchemas.NextOfKinRequest],
+  ['disabilities', applicationSchemas.DisabilitiesRequest],
+  ['educationDetails', applicationSchemas.EducationDetailsRequest],
+] as const;
+
+const validateDraftSections = (draft: ApplicationDraft) => {
+  const issues = DRAFT_SECTION_SCHEMAS.flatMap(([section, schema]) =>
+    draft[section] === undefined
+      ? []
+      : validateValue(draft[section], schema, section),
+  );
+  // The wizard route takes { workExperience: [...] }; the draft holds the list itself
+  issues.push(
+    ...validateValue(
+      { workExperience: draft.workExperience },
+      applicationSchemas.WorkExperienceRequest,
+    ),
+  );
+  return issues;
+};
+
+/**
+ * Resolves each draft document to an upload the server screened and stored for
+ * this reference number, so a draft cannot point at somebody else's file.
+ */
+const resolveDraftDocuments = async (
+  connection: PoolConnection,
+  referenceNumber: string,
+  documents: ApplicationDraft['documents'],
+) => {
+  const [uploads] = await connection.query<RowDataPacket[]>(
+    'SELECT document_type, storage_key, original_name FROM application_draft_uploads WHERE reference_number = ?',
+    [referenceNumber],
+  );
+  const byKey = new Map(uploads.map((row) => [String(row.storage_key), row]));
+
+  const resolved: {
+    documentType: string;
+    filePath: string;
+    originalName: string | null;
+  }[] = [];
+  const issues: ValidationIssue[] = [];
+  (documents ?? []).forEach((doc, index) => {
+    if (!doc.documentType || !doc.filePath) return;
+    const documentType = toDocumentType(doc.documentType);
+    const upload = byKey.get(toStorageKey(doc.filePath) ?? '');
+    if (!upload || upload.document_type !== documentType) {
+      issues.push({
+        field: `documents[${index}].filePath`,
+        message: `was not uploaded as ${documentType} for this draft`,
+      });
+      return;
+    }
+    resolved.push({
+      documentType,
+      filePath: String(upload.storage_key),
+      originalName: upload.original_name ?? null,
+    });
+  });
+  return { resolved, issues };
+};
+
+const hashDraftKey = (key: string) =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Issues the key that proves ownership of a new draft and starts its version
+ * counter at 1. Only the key's hash is stored; the caller hands the key out once.
+ */
+export const createDraftKey = async (
+  db: Pool | PoolConnection,
+  referenceNumber: string,
+) => {
+  const key = crypto.randomBytes(24).toString('hex');
+  await db.query(
+    'INSERT INTO application_draft_state (reference_number, key_hash, version) VALUES (?, ?, 1)',
+    [referenceNumber, hashDraftKey(key)],
+  );
+  return key;
+};
+
+export const verifyDraftKey = async (
+  db: Pool | PoolConnection,
+  referenceNumber: string,
+  key: unknown,
+) => {
+  if (typeof key !== 'string' || !key.trim()) return false;
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT key_hash FROM application_draft_state WHERE reference_number = ?',
+    [referenceNumber],
+  );
+  if (!rows[0]?.key_hash) return false;
+  const expected = Buffer.from(rows[0].key_hash, 'hex');
+  const actual = Buffer.from(hashDraftKey(key.trim()), 'hex');
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Saves new wizard state if the draft is still at `expectedVersion`, bumping the
+ * version. Returns false when another save got there first or the draft was
+ * submitted. Drafts started before versions existed count as version 0.
+ */
+export const saveDraftVersion = async (
+  db: Pool | PoolConnection,
+  params: {
+    referenceNumber: string;
+    expectedVersion: number;
+    draftJson: ApplicationDraft;
+    email: string | null;
+    surname: string | null;
+    forenames: string | null;
+  },
+) => {
+  await db.query(
+    'INSERT IGNORE INTO application_draft_state (reference_number, version) VALUES (?, 0)',
+    [params.referenceNumber],
+  );
+  const [result] = await db.query<OkPacket>(
+    `UPDATE application_drafts d
+     JOIN application_draft_state s ON s.reference_number = d.reference_number
+     SET d.draft_json = ?,
+         d.email = COALESCE(?, d.email),
+         d.surname = COALESCE(?, d.surname),
+         d.forenames = COALESCE(?, d.forenames),
+         d.updated_at = NOW(),
+         s.version = s.version + 1
+     WHERE d.reference_number = ? AND s.version = ? AND d.submitted_at IS NULL`,
+    [
+      JSON.stringify(params.draftJson),
+      params.email,
+      params.surname,
+      params.forenames,
+      params.referenceNumber,
+      params.expectedVersion,
+    ],
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * Turns a saved draft into rows in applications and every wizard table.
+ * Must run inside a transaction on `connection`; the caller commits or rolls back.
+ */
+export const submitDraft = async (
+  connection: PoolConnection,
+  referenceNumber: string,
+) => {
+  const [draftRows] = await connection.query<RowDataPacket[]>(
+    'SELECT id, draft_json, submitted_at FROM application_drafts WHERE reference_number = ? FOR UPDATE',
+    [referenceNumber],
+  );
+  if (!draftRows.length) {
+    throw new DraftSubmissionError('Draft not found', 404);
+  }
+  if (draftRows[0].submitted_at) {
+    throw new DraftSubmissionError('Draft has already been submitted', 409);
+  }
+
+  const draft = parseDraftJson(draftRows[0].draft_json);
+
+  const [existingRows] = await connection.query<RowDataPacket[]>(
+    'SELECT id, accepted_status FROM applications WHERE reference_number = ? FOR UPDATE',
+    [referenceNumber],
+  );
+  // Documents the wizard already uploaded to the application, by type and stored path
+  const [existingDocuments] = existingRows.length
+    ? await connection.query<RowDataPacket[]>(
+        'SELECT document_type, file_path FROM documents WHERE application_id = ?',
+        [existingRows[0].id],
+      )
+    : [[] as RowDataPacket[]];
+
+  const missing = listMissingSections(
+    draft,
+    existingDocuments.map((row) => String(row.document_type)),
+  );
+  if (missing.length) {
+    throw new DraftSubmissionError(
+      `Draft is incomplete. Missing: ${missing.join(', ')}`,
+      400,
+    );
+  }
+
+  const documents = await resolveDraftDocuments(
+    connection,
+    referenceNumber,
+    draft.documents,
+  );
+  const issues = [...validateDraftSections(draft), ...documents.issues];
+  if (issues.length) {
+    throw new DraftSubmissionError('Validation failed', 422, issues);
+  }
+
+  const app = draft.application ?? {};
+  const programmeChoices = parseProgrammeChoices(
+    app.programmeChoices?.length ? app.programmeChoices : [app.programme],
+  );
+  if (typeof programmeChoices === 'string') {
+    throw new DraftSubmissionError(programmeChoices, 400);
+  }
+  const appValues = [
+    app.startingSemester ?? null,
+    programmeChoices[0],
+    app.satelliteCampus ?? null,
+    app.preferredSession ?? null,
+    app.wuaDiscoveryMethod ?? null,
+    app.previousRegistration ?? null,
+    app.programType ?? null,
+  ];
+
+  let applicationId: number;
+  if (existingRows.length) {
+    // The wizard may already have created the application; only drafts can be overwritten
+    if (normalizeStatus(existingRows[0].accepted_status) !== 'draft') {
+      throw new DraftSubmissionError(
+        'Application has already been submitted',
+        409,
+      );
+    }
+    applicationId = existingRows[0].id;
+    await connection.query(
+      `UPDATE applications
+       SET starting_semester = ?, programme = ?, satellite_campus = ?, preferred_session = ?,
+           wua_discovery_method = ?, previous_registration = ?, program_type = ?
+       WHERE id = ?`,
+      [...appValues, applicationId],
+    );
+    await connection.query(
+      'DELETE FROM subjects WHERE education_id IN (SELECT id FROM education_details WHERE application_id = ?)',
+      [applicationId],
+    );
+    await connection.query(
+      'DELETE FROM education_details WHERE application_id = ?',
+      [applicationId],
+    );
+    for (const table of CHILD_TABLES) {
+      await connection.query(`DELETE FROM ${table} WHERE application_id = ?`, [
+        applicationId,
+      ]);
+    }
+  } else {
+    const [result] = await connection.query<OkPacket>(
+      `INSERT INTO applications
+       (reference_number, starting_semester, programme, satellite_campus, preferred_session, wua_discovery_method, previous_registration, program_type, accepted_status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'draft')`,
+      [referenceNumber, ...appValues],
+    );
+    applicationId = result.insertId;
+    await connection.query(
+      `INSERT INTO application_status_history (application_id, from_status, to_status, actor_type, reason)
+       VALUES (?, NULL, 'draft', 'applicant', 'Application started from saved draft')`,
+      [applicationId],
+    );
+  }
+
+  await saveProgrammeChoices(connection, applicationId, programmeChoices);
+
+  const personal = draft.personalDetails ?? {};
+  await connection.query(
+    `INSERT INTO personal_details (application_id, ${PERSONAL_DETAIL_COLUMNS.join(', ')})
+     VALUES (?, ${PERSONAL_DETAIL_COLUMNS.map(() => '?').join(', ')})`,
+    [
+      applicationId,
+      ...PERSONAL_DETAIL_COLUMNS.map((column) => personal[column] ?? null),
+    ],
+  );
+
+  const kin = draft.nextOfKin ?? {};
+  await connection.query(
+    'INSERT INTO next_of_kin (application_id, first_name, last_name, relationship, contact_address, contact_tel) VALUES (?, ?, ?, ?, ?, ?)',
+    [
+      applicationId,
+      kin.firstName ?? null,
+      kin.lastName ?? null,
+      kin.relationship ?? null,
+      kin.contactAddress ?? null,
+      kin.contactTel ?? null,
+    ],
+  );
+
+  const disability = draft.disabilities ?? {};
+  await connection.query(
+    'INSERT INTO disabilities (application_id, has_disability, blindness, cerebral_palsy, deafness, speech_impairment, other, extra_adaptations) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [
+      applicationId,
+      disability.hasDisability,
+      disability.blindness || 0,
+      disability.cerebralPalsy || 0,
+      disability.deafness || 0,
+      disability.speechImpairment || 0,
+      disability.other || null,
+      disability.extraAdaptations || null,
+    ],
+  );
+
+  for (const qualification of draft.educationDetails?.qualifications ?? []) {
+    const [educationResult] = await connection.query<OkPacket>(
+      'INSERT INTO education_details (application_id, qualification_type, examination_board) VALUES (?, ?, ?)',
+      [
+        applicationId,
+        qualification.qualificationType ?? null,
+        qualification.examinationBoard ?? null,
+      ],
+    );
+    for (const subject of qualification.subjects ?? []) {
+      await connection.query(
+        'INSERT INTO subjects (education_id, subject_name, grade, year_written) VALUES (?, ?, ?, ?)',
+        [
+          educationResult.insertId,
+          subject.subjectName ?? null,
+          subject.grade ?? null,
+          subject.yearWritten ?? null,
+        ],
+      );
+    }
+  }
+
+  const tertiary = draft.educationDetails?.tertiaryEducation;
+  if (tertiary) {
+    await connection.query(
+      'INSERT INTO tertiary_education (application_id, institution_name, qualification_obtained, field_of_study, year_completed) VALUES (?, ?, ?, ?, ?)',
+      [
+        applicationId,
+        tertiary.institutionName ?? null,
+        tertiary.qualificationObtained ?? null,
+        tertiary.fieldOfStudy ?? null,
+        tertiary.yearCompleted ?? null,
+      ],
+    );
+  }
+
+  for (const experience of draft.workExperience ?? []) {
+    await connection.query(
+      'INSERT INTO work_experience (application_id, organisation_name, position, start_date, end_date, duties) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        applicationId,
+        experience.organisationName ?? null,
+        experience.position ?? null,
+        experience.startDate ?? null,
+        experience.endDate || null,
+        experience.duties ?? null,
+      ],
+    );
+  }
+
+  const recordedPaths = new Set(
+    existingDocuments.map((row) => String(row.file_path)),
+  );
+  for (const doc of documents.resolved) {
+    if (recordedPaths.has(doc.filePath)) continue;
+    await recordDocumentUpload(connection, {
+      applicationId,
+      ...doc,
+      uploaderType: 'applicant',
+    });
+  }
+
+  await transitionApplicationStatus(connection, {
+    applicationId,
+    toStatus: 'submitted',
+    actorType: 'applicant',
+    reason: 'Submitted from saved draft',
+  });
+
+  await connection.query(
+    "UPDATE application_drafts SET status = 'SUBMITTED', submitted_at = NOW(), updated_at = NOW() WHERE id = ?",
+    [draftRows[0].id],
+  );
+
+  return { applicationId };
+};
@@ -0,0 +1,268 @@
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import pool from '../db';
+import { contentDisposition } from './fileStorage';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+type ExportColumn = { label: string; sql: string };
+
+const column = (table: 'a' | 'pd' | 'dp', name: string, label: string) => ({
+  label,
+  sql: `${table}.${name}`,
+});
+
+// Selectable columns, keyed by source table and column name
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  'applications.id': column('a', 'id', 'Application ID'),
+  'applications.reference_number': column(
+    'a',
+    'reference_number',
+    'Reference number',
+  ),
+  'applications.programme': column('a', 'programme', 'Programme applied for'),
+  'applications.program_type': column('a', 'program_type', 'Programme type'),
+  'applications.starting_semester': column(
+    'a',
+    'starting_semester',
+    'Starting semester',
+  ),
+  'applications.satellite_campus': column(
+    'a',
+    'satellite_campus',
+    'Satellite campus',
+  ),
+  'applications.preferred_session': column(
+    'a',
+    'preferred_session',
+    'Preferred session',
+  ),
+  'applications.wua_discovery_method': column(
+    'a',
+    'wua_discovery_method',
+    'Heard about WUA through',
+  ),
+  'applications.previous_registration': column(
+    'a',
+    'previous_registration',
+    'Previously registered',
+  ),
+  'applications.accepted_status': column('a', 'accepted_status', 'Status'),
+  'applications.created_at': column('a', 'created_at', 'Applied on'),
+  'personal_details.title': column('pd', 'title', 'Title'),
+  'personal_details.first_names': column('pd', 'first_names', 'First names'),
+  'personal_details.surname': column('pd', 'surname', 'Surname'),
+  'personal_details.marital_status': column(
+    'pd',
+    'marital_status',
+    'Marital status',
+  ),
+  'personal_details.maiden_name': column('pd', 'maiden_name', 'Maiden name'),
+  'personal_details.national_id': column('pd', 'national_id', 'National ID'),
+  'personal_details.passport_number': column(
+    'pd',
+    'passport_number',
+    'Passport number',
+  ),
+  'personal_details.date_of_birth': column(
+    'pd',
+    'date_of_birth',
+    'Date of birth',
+  ),
+  'personal_details.place_of_birth': column(
+    'pd',
+    'place_of_birth',
+    'Place of birth',
+  ),
+  'personal_details.gender': column('pd', 'gender', 'Gender'),
+  'personal_details.citizenship': column('pd', 'citizenship', 'Citizenship'),
+  'personal_details.nationality': column('pd', 'nationality', 'Nationality'),
+  'personal_details.residential_address': column(
+    'pd',
+    'residential_address',
+    'Residential address',
+  ),
+  'personal_details.postal_address': column(
+    'pd',
+    'postal_address',
+    'Postal address',
+  ),
+  'personal_details.city': column('pd', 'city', 'City'),
+  'personal_details.country': column('pd', 'country', 'Country'),
+  'personal_details.phone': column('pd', 'phone', 'Phone'),
+  'personal_details.email': column('pd', 'email', 'Email'),
+  'personal_details.application_fee_amount': column(
+    'pd',
+    'application_fee_amount',
+    'Application fee',
+  ),
+  'personal_details.paynow': column('pd', 'paynow', 'Paid via Paynow'),
+  'programme.code': column('dp', 'code', 'Programme code'),
+  'programme.name': column('dp', 'name', 'Programme'),
+  'programme.department_code': column('dp', 'department_code', 'Department'),
+  'programme.level': column('dp', 'level', 'Level'),
+  'programme.programme_duration': column(
+    'dp',
+    'programme_duration',
+    'Duration',
+  ),
+  'programme.programme_fee': column('dp', 'programme_fee', 'Programme fee'),
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'applications.reference_number',
+  'personal_details.first_names',
+  'personal_details.surname',
+  'personal_details.email',
+  'personal_details.phone',
+  'applications.programme',
+  'programme.name',
+  'applications.satellite_campus',
+  'applications.starting_semester',
+  'applications.accepted_status',
+  'applications.created_at',
+];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' &&
+  (EXPORT_FORMATS as readonly string[]).includes(value);
+
+// "a,b" or repeated ?columns=a&columns=b; unknown names are rejected, not dropped
+export const parseExportColumns = (value: unknown) => {
+  if (value == null || value === '') return DEFAULT_EXPORT_COLUMNS;
+  const requested = (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => String(entry).split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const unknown = requested.filter((key) => !EXPORT_COLUMNS[key]);
+  if (unknown.length) {
+    throw new ExportError(`Unknown export columns: ${unknown.join(', ')}`, 400);
+  }
+  if (!requested.length) {
+    throw new ExportError('Choose at least one column to export', 400);
+  }
+  return [...new Set(requested)];
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const toCsvCell = (value: unknown) => {
+  if (value == null) return '';
+  let text =
+    value instanceof Date ? value.toISOString() : String(value as string);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toXlsxCell = (value: unknown) => {
+  if (value == null || value instanceof Date || typeof value === 'number') {
+    return value ?? null;
+  }
+  const text = String(value);
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+// Resolves once the client can take more, or straight away if it has gone
+const waitForDrain = (res: Response) =>
+  new Promise<void>((resolve) => {
+    if (!res.writableNeedDrain || res.destroyed) return resolve();
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+    return undefined;
+  });
+
+/**
+ * Streams every application matching `where` to the response as CSV or XLSX,
+ * one row at a time, so large intakes never sit in memory. Rows come from
+ * applications joined to personal_details and the programme; `columns` are
+ * keys of EXPORT_COLUMNS in the order they should appear. If the client
+ * disconnects, the remaining rows are read and discarded so the connection
+ * goes back to the pool cleanly.
+ */
+export const streamApplicationExport = async (
+  res: Response,
+  params: {
+    format: ExportFormat;
+    columns: string[];
+    where: string;
+    values: unknown[];
+  },
+) => {
+  const selected = params.columns.map((key) => EXPORT_COLUMNS[key]);
+  const query = pool.pool
+    .query(
+      `SELECT ${selected.map((entry, index) => `${entry.sql} AS c${index}`).join(', ')}
+       FROM applications a
+       LEFT JOIN personal_details pd ON pd.application_id = a.id
+       LEFT JOIN department_programme dp ON dp.code = a.programme
+       ${params.where}
+       ORDER BY a.created_at DESC, a.id DESC`,
+      params.values,
+    )
+    .stream();
+  const toValues = (row: Record<string, unknown>) =>
+    selected.map((_, index) => row[`c${index}`]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const fileName = `applications-${stamp}.${params.format}`;
+  res.setHeader('Content-Disposition', contentDisposition(fileName));
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (params.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    // The byte order mark makes Excel read the file as UTF-8
+    res.write(
+      `\uFEFF${selected.map((entry) => toCsvCell(entry.label)).join(',')}\r\n`,
+    );
+    for await (const row of query) {
+      if (res.destroyed) continue;
+      res.write(`${toValues(row).map(toCsvCell).join(',')}\r\n`);
+      await waitForDrain(res);
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader(
+    'Content-Type',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  );
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: res,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet('Applications', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  sheet.columns = selected.map((entry) => ({
+    header: entry.label,
+    width: Math.max(12, entry.label.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+  for await (const row of query) {
+    if (res.destroyed) continue;
+    sheet.addRow(toValues(row).map(toXlsxCell)).commit();
+    await waitForDrain(res);
+  }
+  sheet.commit();
+  await workbook.commit();
+};
@@ -0,0 +1,253 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export type ApplicationStatus =
+  | 'draft'
+  | 'submitted'
+  | 'under_review'
+  | 'shortlisted'
+  | 'accepted'
+  | 'conditionally_accepted'
+  | 'waitlisted'
+  | 'rejected'
+  | 'offer_accepted'
+  | 'offer_declined'
+  | 'enrolled'
+  | 'withdrawn'
+  | 'merged';
+
+export type StatusActorType = 'staff' | 'applicant' | 'system';
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'draft',
+  'submitted',
+  'under_review',
+  'shortlisted',
+  'accepted',
+  'conditionally_accepted',
+  'waitlisted',
+  'rejected',
+  'offer_accepted',
+  'offer_declined',
+  'enrolled',
+  'withdrawn',
+  'merged',
+];
+
+// Staff may decide straight from 'submitted' because admissions has always
+// accepted/rejected without a separate review step.
+// Applicants can withdraw until a decision is made; after an offer they decline it instead.
+// 'merged' is only set by the duplicate merge tool and never holds an offer.
+const TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  draft: ['submitted', 'withdrawn', 'merged'],
+  submitted: [
+    'under_review',
+    'accepted',
+    'conditionally_accepted',
+    'waitlisted',
+    'rejected',
+    'withdrawn',
+    'merged',
+  ],
+  under_review: [
+    'shortlisted',
+    'accepted',
+    'conditionally_accepted',
+    'waitlisted',
+    'rejected',
+    'withdrawn',
+    'merged',
+  ],
+  shortlisted: [
+    'accepted',
+    'conditionally_accepted',
+    'waitlisted',
+    'rejected',
+    'withdrawn',
+    'merged',
+  ],
+  waitlisted: [
+    'accepted',
+    'conditionally_accepted',
+    'rejected',
+    'withdrawn',
+    'merged',
+  ],
+  conditionally_accepted: [
+    'accepted',
+    'rejected',
+    'offer_accepted',
+    'offer_declined',
+  ],
+  accepted: ['offer_accepted', 'offer_declined'],
+  offer_accepted: ['offer_declined', 'enrolled'],
+  offer_declined: [],
+  rejected: ['merged'],
+  enrolled: [],
+  withdrawn: ['merged'],
+  merged: [],
+};
+
+// Statuses that carry an offer letter and count as an admission decision in favour.
+export const OFFER_STATUSES: ApplicationStatus[] = [
+  'accepted',
+  'conditionally_accepted',
+  'offer_accepted',
+  'offer_declined',
+  'enrolled',
+];
+
+// Statuses still waiting on an admissions decision.
+export const AWAITING_DECISION_STATUSES: ApplicationStatus[] = [
+  'submitted',
+  'under_review',
+  'shortlisted',
+  'waitlisted',
+];
+
+// Statuses staff may set directly. Offers, rejections, offer responses and
+// withdrawals have routes of their own that do the rest of the work.
+export const MANUAL_STATUSES: ApplicationStatus[] = [
+  'under_review',
+  'shortlisted',
+  'waitlisted',
+  'enrolled',
+];
+
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly from: ApplicationStatus,
+    public readonly to: ApplicationStatus,
+  ) {
+    super(`Cannot move application from '${from}' to '${to}'`);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+/**
+ * Maps the raw `applications.accepted_status` value onto the lifecycle.
+ * Rows written before the lifecycle existed use 'pending' for submitted applications.
+ */
+export const normalizeStatus = (value: unknown): ApplicationStatus => {
+  const raw = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  if (!raw || raw === 'pending') return 'submitted';
+  if ((APPLICATION_STATUSES as string[]).includes(raw)) {
+    return raw as ApplicationStatus;
+  }
+  return 'submitted';
+};
+
+export const isApplicationStatus = (
+  value: unknown,
+): value is ApplicationStatus =>
+  typeof value === 'string' &&
+  (APPLICATION_STATUSES as string[]).includes(value);
+
+export const canTransition = (from: ApplicationStatus, to: ApplicationStatus) =>
+  TRANSITIONS[from].includes(to);
+
+export const allowedTransitions = (from: ApplicationStatus) => [
+  ...TRANSITIONS[from],
+];
+
+type TransitionParams = {
+  applicationId: number;
+  toStatus: ApplicationStatus;
+  actorId?: number | null;
+  actorType?: StatusActorType;
+  reason?: string | null;
+};
+
+// Lock, check, update and record; only atomic inside a transaction
+const applyTransition = async (
+  db: PoolConnection,
+  params: TransitionParams,
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT accepted_status FROM applications WHERE id = ? FOR UPDATE',
+    [params.applicationId],
+  );
+  if (!rows.length) {
+    throw new Error(`Application ${params.applicationId} not found`);
+  }
+
+  const fromStatus = normalizeStatus(rows[0].accepted_status);
+  if (fromStatus === params.toStatus) {
+    return { changed: false, fromStatus, toStatus: params.toStatus };
+  }
+  if (!canTransition(fromStatus, params.toStatus)) {
+    throw new StatusTransitionError(fromStatus, params.toStatus);
+  }
+
+  await db.query('UPDATE applications SET accepted_status = ? WHERE id = ?', [
+    params.toStatus,
+    params.applicationId,
+  ]);
+
+  await db.query(
+    `INSERT INTO application_status_history
+     (application_id, from_status, to_status, actor_id, actor_type, reason)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      params.applicationId,
+      fromStatus,
+      params.toStatus,
+      params.actorId ?? null,
+      params.actorType ?? (params.actorId ? 'staff' : 'system'),
+      params.reason ?? null,
+    ],
+  );
+
+  return { changed: true, fromStatus, toStatus: params.toStatus };
+};
+
+/**
+ * Moves an application to a new status and records the change in
+ * `application_status_history`. Pass a connection to join an open transaction;
+ * given the pool, the change runs in a transaction of its own so concurrent
+ * transitions cannot both pass the legality check.
+ * Moving to the current status is a no-op and writes no history.
+ */
+export const transitionApplicationStatus = async (
+  db: Pool | PoolConnection,
+  params: TransitionParams,
+) => {
+  if (!('getConnection' in db)) return applyTransition(db, params);
+
+  const connection = await db.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await applyTransition(connection, params);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+export const getStatusHistory = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT
+       h.id,
+       h.from_status,
+       h.to_status,
+       h.actor_id,
+       h.actor_type,
+       h.reason,
+       h.created_at,
+       u.username AS actor_username
+     FROM application_status_history h
+     LEFT JOIN users u ON u.id = h.actor_id
+     WHERE h.application_id = ?
+     ORDER BY h.created_at ASC, h.id ASC`,
+    [applicationId],
+  );
+  return rows;
+};
@@ -0,0 +1,222 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import {
+  ApplicationStatus,
+  getStatusHistory,
+  normalizeStatus,
+} from './applicationStatus';
+
+export type TimelineStepKey =
+  | 'submitted'
+  | 'documents_received'
+  | 'under_review'
+  | 'decision'
+  | 'offer_issued'
+  | 'offer_responded'
+  | 'payment_received';
+
+export type TimelineStepState = 'complete' | 'pending' | 'not_applicable';
+
+export type TimelineStep = {
+  key: TimelineStepKey;
+  title: string;
+  state: TimelineStepState;
+  date: Date | null;
+  detail: string | null;
+};
+
+export const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  draft: 'Not yet submitted',
+  submitted: 'Submitted',
+  under_review: 'Under review',
+  shortlisted: 'Shortlisted',
+  accepted: 'Offer made',
+  conditionally_accepted: 'Conditional offer made',
+  waitlisted: 'On the waiting list',
+  rejected: 'Unsuccessful',
+  offer_accepted: 'Offer accepted',
+  offer_declined: 'Offer declined',
+  enrolled: 'Enrolled',
+  withdrawn: 'Withdrawn',
+  merged: 'Merged into another application',
+};
+
+const DECISION_TEXT: Partial<Record<ApplicationStatus, string>> = {
+  accepted: 'You have been offered a place.',
+  conditionally_accepted:
+    'You have been offered a place subject to conditions.',
+  waitlisted: 'You have been placed on the waiting list.',
+  rejected: 'Unfortunately your application was not successful.',
+  withdrawn: 'You withdrew your application.',
+};
+
+const REVIEW_STATUSES: ApplicationStatus[] = ['under_review', 'shortlisted'];
+const DECISION_STATUSES = Object.keys(DECISION_TEXT) as ApplicationStatus[];
+const CLOSED_STATUSES: ApplicationStatus[] = ['rejected', 'withdrawn', 'merged'];
+
+// offer_letter_responses is created outside init_db, so older databases may not have it
+const queryIfTableExists = async (
+  db: Pool | PoolConnection,
+  sql: string,
+  values: unknown[],
+) => {
+  try {
+    const [rows] = await db.query<RowDataPacket[]>(sql, values);
+    return rows;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.errno === 1146) return [];
+    throw error;
+  }
+};
+
+const step = (
+  key: TimelineStepKey,
+  title: string,
+  date: Date | null,
+  detail: string | null,
+  closed = false,
+): TimelineStep => ({
+  key,
+  title,
+  state: date ? 'complete' : closed ? 'not_applicable' : 'pending',
+  date,
+  detail: date ? detail : null,
+});
+
+/**
+ * Applicant-facing summary of where an application stands. Dates come from the
+ * status history, uploads and the offer letter tables; nothing staff-only (reviews,
+ * scores, notes, actors) is exposed. There is no payment ledger yet, so enrolment
+ * marks the payment step.
+ */
+export const buildApplicationTimeline = async (
+  db: Pool | PoolConnection,
+  application: RowDataPacket,
+) => {
+  const status = normalizeStatus(application.accepted_status);
+  const history = await getStatusHistory(db, application.id);
+  const firstReached = (statuses: ApplicationStatus[]) => {
+    const entry = history.find((row) =>
+      statuses.includes(normalizeStatus(row.to_status)),
+    );
+    return entry ? new Date(entry.created_at) : null;
+  };
+  const lastDecision = [...history]
+    .reverse()
+    .find((row) => DECISION_STATUSES.includes(normalizeStatus(row.to_status)));
+
+  const [[uploads], [documents], [letters], events, responses] =
+    await Promise.all([
+      db.query<RowDataPacket[]>(
+        'SELECT MIN(created_at) AS first_at, COUNT(*) AS total FROM application_uploads WHERE application_id = ?',
+        [application.id],
+      ),
+      db.query<RowDataPacket[]>(
+        'SELECT COUNT(*) AS total FROM documents WHERE application_id = ?',
+        [application.id],
+      ),
+      db.query<RowDataPacket[]>(
+        'SELECT MIN(created_at) AS first_at FROM offer_letters WHERE application_id = ?',
+        [application.id],
+      ),
+      queryIfTableExists(
+        db,
+        `SELECT MIN(created_at) AS first_at FROM offer_letter_events WHERE application_id = ? AND action = 'downloaded'`,
+        [application.id],
+      ),
+      queryIfTableExists(
+        db,
+        'SELECT decision, decided_at FROM offer_letter_responses WHERE application_id = ? ORDER BY decided_at DESC LIMIT 1',
+        [application.id],
+      ),
+    ]);
+
+  const submittedAt =
+    firstReached(['submitted']) ??
+    (status === 'draft' ? null : new Date(application.created_at));
+  const documentCount =
+    Number(uploads[0]?.total ?? 0) + Number(documents[0]?.total ?? 0);
+  const documentsAt = documentCount
+    ? uploads[0]?.first_at
+      ? new Date(uploads[0].first_at)
+      : submittedAt
+    : null;
+  const decisionStatus = lastDecision
+    ? normalizeStatus(lastDecision.to_status)
+    : null;
+  const closed = CLOSED_STATUSES.includes(status);
+  const offerAt = letters[0]?.first_at ? new Date(letters[0].first_at) : null;
+  const downloadedAt = events[0]?.first_at
+    ? new Date(events[0].first_at)
+    : null;
+  const response = responses[0];
+  // Offers that lapse are declined by the system without a response row
+  const responseText = response
+    ? `You ${response.decision === 'accepted' ? 'accepted' : 'declined'} the offer.`
+    : status === 'offer_declined'
+      ? 'The offer was not accepted before it expired.'
+      : 'You accepted the offer.';
+
+  const steps: TimelineStep[] = [
+    step(
+      'submitted',
+      'Application submitted',
+      submittedAt,
+      'We received your application.',
+      closed,
+    ),
+    step(
+      'documents_received',
+      'Documents received',
+      documentsAt,
+      `${documentCount} document${documentCount === 1 ? '' : 's'} on file.`,
+      closed,
+    ),
+    step(
+      'under_review',
+      'Under review',
+      firstReached(REVIEW_STATUSES) ??
+        (decisionStatus ? firstReached(DECISION_STATUSES) : null),
+      'The admissions team is assessing your application.',
+      closed,
+    ),
+    step(
+      'decision',
+      'Decision',
+      lastDecision ? new Date(lastDecision.created_at) : null,
+      decisionStatus ? DECISION_TEXT[decisionStatus] ?? null : null,
+      closed,
+    ),
+    step(
+      'offer_issued',
+      'Offer letter issued',
+      offerAt,
+      downloadedAt
+        ? `You downloaded your offer letter on ${downloadedAt.toDateString()}.`
+        : 'Your offer letter is ready to download.',
+      closed,
+    ),
+    step(
+      'offer_responded',
+      'Offer response',
+      response?.decided_at
+        ? new Date(response.decided_at)
+        : firstReached(['offer_accepted', 'offer_declined']),
+      responseText,
+      closed,
+    ),
+    step(
+      'payment_received',
+      'Payment received',
+      firstReached(['enrolled']),
+      'Your payment has been received and you are enrolled.',
+      closed || status === 'offer_declined',
+    ),
+  ];
+
+  return {
+    referenceNumber: application.reference_number,
+    status,
+    statusLabel: STATUS_LABELS[status],
+    steps,
+  };
+};
@@ -0,0 +1,217 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export type FeeCategory = 'local' | 'foreign';
+
+export type CapacityRow = RowDataPacket & {
+  id: number;
+  programme_id: number;
+  satellite_campus: string;
+  starting_semester: string;
+  total_seats: number;
+  local_seats: number | null;
+  foreign_seats: number | null;
+};
+
+export type SeatCount = {
+  seats: number;
+  taken: number;
+  remaining: number;
+};
+
+export type CapacitySummary = {
+  id: number;
+  satelliteCampus: string;
+  startingSemester: string;
+  total: SeatCount;
+  quotas: Partial<Record<FeeCategory, SeatCount>>;
+};
+
+// Statuses that hold a seat: an offer that is still open or has been taken up
+export const SEAT_HOLDING_STATUSES = [
+  'accepted',
+  'conditionally_accepted',
+  'offer_accepted',
+  'enrolled',
+];
+
+// Citizenships that pay the programme_fee; anyone else is charged foreign_fee
+const LOCAL_CITIZENSHIPS = (
+  process.env.LOCAL_CITIZENSHIPS || 'zimbabwe,zimbabwean'
+)
+  .split(',')
+  .map((value) => value.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Same split as programme_fee / foreign_fee. Applicants who have not stated a
+ * citizenship are treated as local.
+ */
+export const getFeeCategory = (personal?: {
+  citizenship?: string | null;
+  nationality?: string | null;
+  [key: string]: unknown;
+}): FeeCategory => {
+  const value = String(personal?.citizenship || personal?.nationality || '')
+    .trim()
+    .toLowerCase();
+  return !value || LOCAL_CITIZENSHIPS.includes(value) ? 'local' : 'foreign';
+};
+
+const seatCount = (seats: number, taken: number): SeatCount => ({
+  seats,
+  taken,
+  remaining: Math.max(seats - taken, 0),
+});
+
+const groupKey = (programme: string, campus: string, semester: string) =>
+  `${programme}|${campus}|${semester}`.toLowerCase();
+
+/**
+ * Seats configured for the given programmes with how many are taken, keyed by
+ * department_programme.id.
+ */
+export const getCapacitySummaries = async (
+  db: Pool | PoolConnection,
+  programmes: { id: number; code: string }[],
+) => {
+  const summaries = new Map<number, CapacitySummary[]>();
+  if (!programmes.length) return summaries;
+
+  const [capacities] = await db.query<CapacityRow[]>(
+    `SELECT * FROM programme_capacities
+     WHERE programme_id IN (?)
+     ORDER BY starting_semester, satellite_campus`,
+    [programmes.map((programme) => programme.id)],
+  );
+  if (!capacities.length) return summaries;
+
+  const [taken] = await db.query<RowDataPacket[]>(
+    `SELECT a.programme, a.satellite_campus, a.starting_semester, pd.citizenship, pd.nationality
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     WHERE a.programme IN (?) AND a.accepted_status IN (?)`,
+    [programmes.map((programme) => programme.code), SEAT_HOLDING_STATUSES],
+  );
+
+  const counts = new Map<string, Record<FeeCategory, number>>();
+  for (const row of taken) {
+    const key = groupKey(
+      row.programme,
+      row.satellite_campus ?? '',
+      row.starting_semester ?? '',
+    );
+    const count = counts.get(key) ?? { local: 0, foreign: 0 };
+    count[getFeeCategory(row)] += 1;
+    counts.set(key, count);
+  }
+
+  const codes = new Map(
+    programmes.map((programme) => [programme.id, programme.code]),
+  );
+  for (const capacity of capacities) {
+    const count = counts.get(
+      groupKey(
+        codes.get(capacity.programme_id) ?? '',
+        capacity.satellite_campus,
+        capacity.starting_semester,
+      ),
+    ) ?? { local: 0, foreign: 0 };
+
+    const quotas: CapacitySummary['quotas'] = {};
+    if (capacity.local_seats != null) {
+      quotas.local = seatCount(capacity.local_seats, count.local);
+    }
+    if (capacity.foreign_seats != null) {
+      quotas.foreign = seatCount(capacity.foreign_seats, count.foreign);
+    }
+
+    const list = summaries.get(capacity.programme_id) ?? [];
+    list.push({
+      id: capacity.id,
+      satelliteCampus: capacity.satellite_campus,
+      startingSemester: capacity.starting_semester,
+      total: seatCount(capacity.total_seats, count.local + count.foreign),
+      quotas,
+    });
+    summaries.set(capacity.programme_id, list);
+  }
+
+  return summaries;
+};
+
+/**
+ * Checks whether accepting the application would exceed the seats configured for
+ * its programme, campus and intake, or the local/foreign quota it falls under.
+ * Returns null when there is room or no capacity is configured. Inside a
+ * transaction the capacity row stays locked until commit, so concurrent
+ * acceptances for the same intake are serialised.
+ */
+export const checkCapacity = async (
+  db: Pool | PoolConnection,
+  params: {
+    applicationId: number;
+    programme: string;
+    satelliteCampus: string | null;
+    startingSemester: string | null;
+  },
+) => {
+  if (!params.satelliteCampus || !params.startingSemester) return null;
+
+  const [capacities] = await db.query<CapacityRow[]>(
+    `SELECT pc.*
+     FROM programme_capacities pc
+     JOIN department_programme dp ON dp.id = pc.programme_id
+     WHERE dp.code = ? AND pc.satellite_campus = ? AND pc.starting_semester = ?
+     LIMIT 1
+     FOR UPDATE`,
+    [params.programme, params.satelliteCampus, params.startingSemester],
+  );
+  const capacity = capacities[0];
+  if (!capacity) return null;
+
+  const [personalRows] = await db.query<RowDataPacket[]>(
+    'SELECT citizenship, nationality FROM personal_details WHERE application_id = ?',
+    [params.applicationId],
+  );
+  const category = getFeeCategory(personalRows[0]);
+
+  const [taken] = await db.query<RowDataPacket[]>(
+    `SELECT pd.citizenship, pd.nationality
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     WHERE a.programme = ? AND a.satellite_campus = ? AND a.starting_semester = ?
+       AND a.accepted_status IN (?) AND a.id <> ?`,
+    [
+      params.programme,
+      params.satelliteCampus,
+      params.startingSemester,
+      SEAT_HOLDING_STATUSES,
+      params.applicationId,
+    ],
+  );
+  const takenInCategory = taken.filter(
+    (row) => getFeeCategory(row) === category,
+  ).length;
+  const categorySeats =
+    category === 'local' ? capacity.local_seats : capacity.foreign_seats;
+
+  const details = {
+    satelliteCampus: params.satelliteCampus,
+    startingSemester: params.startingSemester,
+    category,
+    total: seatCount(capacity.total_seats, taken.length),
+    quota:
+      categorySeats != null ? seatCount(categorySeats, takenInCategory) : null,
+  };
+
+  if (taken.length >= capacity.total_seats) {
+    return { message: 'Programme is full for this campus and intake', details };
+  }
+  if (categorySeats != null && takenInCategory >= categorySeats) {
+    return {
+      message: `The ${category} quota for this intake is full`,
+      details,
+    };
+  }
+  return null;
+};
@@ -0,0 +1,137 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import pool from '../db';
+import { sendApplicantEmail } from './notification';
+
+// PUT /personal-details body keys and the personal_details columns they write
+export const PERSONAL_DETAILS_COLUMNS: Record<string, string> = {
+  title: 'title',
+  firstNames: 'first_names',
+  surname: 'surname',
+  maritalStatus: 'marital_status',
+  maidenName: 'maiden_name',
+  nationalId: 'national_id',
+  passportNumber: 'passport_number',
+  dateOfBirth: 'date_of_birth',
+  placeOfBirth: 'place_of_birth',
+  gender: 'gender',
+  citizenship: 'citizenship',
+  nationality: 'nationality',
+  residentialAddress: 'residential_address',
+  postalAddress: 'postal_address',
+  city: 'city',
+  country: 'country',
+  phone: 'phone',
+  email: 'email',
+};
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export type CorrectionDiff = {
+  field: string;
+  current: unknown;
+  proposed: unknown;
+};
+
+const comparable = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return value == null ? '' : String(value).trim();
+};
+
+// Keeps only known personal-details fields that differ from what is stored
+export const pickChangedFields = (
+  current: RowDataPacket,
+  changes: Record<string, unknown>,
+) => {
+  const changed: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(PERSONAL_DETAILS_COLUMNS)) {
+    if (!(field in changes)) continue;
+    if (comparable(current[column]) !== comparable(changes[field])) {
+      changed[field] = changes[field];
+    }
+  }
+  return changed;
+};
+
+export const buildCorrectionDiff = (
+  current: RowDataPacket | undefined,
+  changes: Record<string, unknown>,
+): CorrectionDiff[] =>
+  Object.entries(changes)
+    .filter(([field]) => field in PERSONAL_DETAILS_COLUMNS)
+    .map(([field, proposed]) => ({
+      field,
+      current: current
+        ? current[PERSONAL_DETAILS_COLUMNS[field]] ?? null
+        : null,
+      proposed,
+    }));
+
+export const applyPersonalDetailsChanges = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  changes: Record<string, unknown>,
+) => {
+  const values: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(changes)) {
+    const column = PERSONAL_DETAILS_COLUMNS[field];
+    if (column) values[column] = value;
+  }
+  if (!Object.keys(values).length) return;
+
+  await db.query('UPDATE personal_details SET ? WHERE application_id = ?', [
+    values,
+    applicationId,
+  ]);
+};
+
+export const parseCorrectionChanges = (value: unknown) => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+  return (value ?? {}) as Record<string, unknown>;
+};
+
+export const notifyCorrectionDecision = async (params: {
+  applicationId: number;
+  status: CorrectionStatus;
+  note?: string | null;
+}) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT a.reference_number, pd.first_names, pd.surname, pd.email
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     WHERE a.id = ?`,
+    [params.applicationId],
+  );
+  const contact = rows[0];
+  if (!contact?.email) return false;
+
+  const fullName =
+    `${contact.first_names ?? ''} ${contact.surname ?? ''}`.trim() ||
+    'Applicant';
+  const outcome =
+    params.status === 'approved'
+      ? 'has been approved and your details have been updated'
+      : 'could not be approved';
+  try {
+    await sendApplicantEmail({
+      to: contact.email,
+      subject: `Correction request ${params.status}`,
+      text:
+        `Dear ${fullName},\n\n` +
+        `Your request to correct the personal details on application ${contact.reference_number} ${outcome}.\n\n` +
+        (params.note
+          ? `Note from the admissions office: ${params.note}\n\n`
+          : '') +
+        `Regards,\nWomen's University in Africa`,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending correction decision email:', error);
+    return false;
+  }
+};
@@ -0,0 +1,91 @@
+import { Request } from 'express';
+import pool from '../db';
+import {
+  AuthenticatedRequest,
+  canAccessApplication,
+  isApplicant,
+} from '../middleware/authenticateToken';
+import { ALL_CAMPUSES_ROLES, hasRole } from '../middleware/requireRole';
+import { getStorage, toStorageKey } from './fileStorage';
+import { FILE_KINDS } from './uploadInspection';
+
+// Types a browser can show without handing it anything it might execute
+export const INLINE_PREVIEW_TYPES = [
+  FILE_KINDS.pdf.mimeType,
+  FILE_KINDS.png.mimeType,
+  FILE_KINDS.jpeg.mimeType,
+];
+
+// "Harare Campus" and "harare" name the same campus
+const normalizeCampus = (campus: unknown) =>
+  String(campus ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+campus$/, '');
+
+/**
+ * Applicants may open their own application's documents. Staff need a role
+ * that covers every campus, or a campus on their account that matches the
+ * application's satellite campus.
+ */
+export const canViewApplicationDocuments = (
+  user: AuthenticatedRequest['user'],
+  application: { referenceNumber: string; satelliteCampus: string | null },
+) => {
+  if (!user) return false;
+  if (isApplicant(user)) {
+    return canAccessApplication(user, application.referenceNumber);
+  }
+  if (hasRole(user, ALL_CAMPUSES_ROLES)) return true;
+  const campus = normalizeCampus(user.campus);
+  return !!campus && campus === normalizeCampus(application.satelliteCampus);
+};
+
+/**
+ * Adds a short-lived download link to each document. Anyone holding the link
+ * can fetch the file, so only call this after canViewApplicationDocuments has
+ * passed for the application the documents belong to.
+ */
+export const withSignedDownloadUrls = <
+  T extends { filePath: string | null; originalName: string | null },
+>(
+  documents: T[],
+) =>
+  documents.map((document) => {
+    const key = toStorageKey(document.filePath);
+    return {
+      ...document,
+      downloadUrl: key
+        ? getStorage().signedUrl(key, { fileName: document.originalName })
+        : null,
+    };
+  });
+
+// Every time a stored document is served; failures are logged, not thrown
+export const logDocumentAccess = async (params: {
+  documentId: number;
+  applicationId: number;
+  user: AuthenticatedRequest['user'];
+  disposition: 'inline' | 'attachment';
+  req?: Request;
+}) => {
+  const applicant = isApplicant(params.user);
+  try {
+    await pool.query(
+      `INSERT INTO document_access_log
+       (document_id, application_id, accessor_type, user_id, disposition, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        params.documentId,
+        params.applicationId,
+        applicant ? 'applicant' : 'staff',
+        applicant ? null : Number(params.user?.id) || null,
+        params.disposition,
+        params.req?.ip ?? null,
+        params.req?.headers['user-agent'] ?? null,
+      ],
+    );
+  } catch (error) {
+    console.warn('Document access log failed:', error);
+  }
+};
@@ -0,0 +1,198 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import pool from '../db';
+import { getRequiredDocumentTypes } from './applicationDocuments';
+import { sendApplicantEmail } from './notification';
+
+export const VERIFICATION_STATUSES = [
+  'pending',
+  'verified',
+  'rejected',
+] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export type UnverifiedDocument = {
+  documentType: string;
+  documentId: number | null;
+  status: VerificationStatus | 'missing';
+  reason: string | null;
+};
+
+export const isVerificationStatus = (
+  value: unknown,
+): value is VerificationStatus =>
+  typeof value === 'string' &&
+  (VERIFICATION_STATUSES as readonly string[]).includes(value);
+
+// academic_certificate -> Academic certificate
+export const describeDocumentType = (documentType: string) => {
+  const words = documentType.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Every document on the application with its verification state. A document
+ * nobody has looked at yet has no verification row and reads as pending.
+ * Each type is listed newest first; `current` marks its latest upload and
+ * `version` counts uploads of that type from 1. Documents uploaded before
+ * versions were recorded have no uploader or upload time.
+ */
+export const getApplicationDocuments = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT d.id, d.document_type, d.file_path,
+            dv.original_name, dv.uploaded_by, dv.uploader_type, dv.uploaded_at,
+            dv.replaced_at, uploader.username AS uploaded_by_username,
+            COALESCE(v.status, 'pending') AS verification_status,
+            v.reason AS verification_reason, v.verified_by, v.verified_at,
+            u.username AS verified_by_username
+     FROM documents d
+     LEFT JOIN document_versions dv ON dv.document_id = d.id
+     LEFT JOIN users uploader ON uploader.id = dv.uploaded_by
+     LEFT JOIN document_verifications v ON v.document_id = d.id
+     LEFT JOIN users u ON u.id = v.verified_by
+     WHERE d.application_id = ?
+     ORDER BY d.document_type ASC, d.id DESC`,
+    [applicationId],
+  );
+  const versions = new Map<string, number>();
+  for (const row of rows) {
+    versions.set(row.document_type, (versions.get(row.document_type) ?? 0) + 1);
+  }
+  const seen = new Map<string, number>();
+  return rows.map((row) => {
+    const newer = seen.get(row.document_type) ?? 0;
+    seen.set(row.document_type, newer + 1);
+    return {
+      id: row.id,
+      documentType: row.document_type,
+      filePath: row.file_path,
+      version: versions.get(row.document_type)! - newer,
+      current: newer === 0,
+      originalName: row.original_name,
+      uploadedBy: row.uploaded_by,
+      uploadedByUsername: row.uploaded_by_username,
+      uploaderType: row.uploader_type,
+      uploadedAt: row.uploaded_at,
+      replacedAt: row.replaced_at,
+      verification: {
+        status: row.verification_status as VerificationStatus,
+        reason: row.verification_reason,
+        verifiedBy: row.verified_by,
+        verifiedByUsername: row.verified_by_username,
+        verifiedAt: row.verified_at,
+      },
+    };
+  });
+};
+
+/**
+ * Records a verifier's decision on one document. Setting a document back to
+ * pending clears the previous decision. Returns the document, or null when it
+ * does not belong to the application.
+ */
+export const setDocumentVerification = async (
+  db: Pool | PoolConnection,
+  params: {
+    applicationId: number;
+    documentId: number;
+    status: VerificationStatus;
+    reason?: string | null;
+    actorId?: number | null;
+  },
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT id, document_type FROM documents WHERE id = ? AND application_id = ?',
+    [params.documentId, params.applicationId],
+  );
+  const document = rows[0];
+  if (!document) return null;
+
+  const pending = params.status === 'pending';
+  await db.query(
+    `INSERT INTO document_verifications
+       (document_id, application_id, status, reason, verified_by, verified_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       status = VALUES(status),
+       reason = VALUES(reason),
+       verified_by = VALUES(verified_by),
+       verified_at = VALUES(verified_at)`,
+    [
+      params.documentId,
+      params.applicationId,
+      params.status,
+      params.reason ?? null,
+      pending ? null : params.actorId ?? null,
+      pending ? null : new Date(),
+    ],
+  );
+  return document;
+};
+
+/**
+ * Required document types whose latest upload is not verified, including types
+ * that were never uploaded.
+ */
+export const getUnverifiedRequiredDocuments = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  programType: string | null | undefined,
+): Promise<UnverifiedDocument[]> => {
+  const documents = await getApplicationDocuments(db, applicationId);
+  const latest = new Map(
+    documents
+      .filter((document) => document.current)
+      .map((document) => [document.documentType, document]),
+  );
+
+  return getRequiredDocumentTypes(programType)
+    .map((documentType): UnverifiedDocument => {
+      const document = latest.get(documentType);
+      return {
+        documentType,
+        documentId: document?.id ?? null,
+        status: document?.verification.status ?? 'missing',
+        reason: document?.verification.reason ?? null,
+      };
+    })
+    .filter((document) => document.status !== 'verified');
+};
+
+export const notifyDocumentRejected = async (params: {
+  applicationId: number;
+  documentType: string;
+  reason: string;
+}) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT a.reference_number, pd.first_names, pd.surname, pd.email
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     WHERE a.id = ?`,
+    [params.applicationId],
+  );
+  const contact = rows[0];
+  if (!contact?.email) return false;
+
+  const fullName =
+    `${contact.first_names ?? ''} ${contact.surname ?? ''}`.trim() ||
+    'Applicant';
+  const document = describeDocumentType(params.documentType).toLowerCase();
+  try {
+    await sendApplicantEmail({
+      to: contact.email,
+      subject: `Please re-upload your ${document}`,
+      text:
+        `Dear ${fullName},\n\n` +
+        `We could not verify the ${document} you uploaded for application ${contact.reference_number}.\n\n` +
+        `Reason: ${params.reason}\n\n` +
+        `Please upload a new copy so we can continue processing your application.\n\n` +
+        `Regards,\nWomen's University in Africa`,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending document rejection email:', error);
+    return false;
+  }
+};
@@ -0,0 +1,101 @@
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+import { StatusActorType } from './applicationStatus';
+import { DOCUMENT_FIELDS, toDocumentType } from './applicationDocuments';
+import { getApplicationDocuments } from './documentVerification';
+
+export type ApplicationDocument = Awaited<
+  ReturnType<typeof getApplicationDocuments>
+>[number];
+
+// Accepts the upload field name (identityCard) or the stored type (identity_card)
+export const parseDocumentType = (value: string) => {
+  const documentType = toDocumentType(value);
+  return DOCUMENT_FIELDS.map(toDocumentType).includes(documentType)
+    ? documentType
+    : null;
+};
+
+/**
+ * Adds a new version of one document. Earlier versions stay in `documents`;
+ * the previous current version is stamped as replaced. Returns the new
+ * document id and its version number (1 for the first upload of the type).
+ */
+export const recordDocumentUpload = async (
+  db: Pool | PoolConnection,
+  params: {
+    applicationId: number;
+    documentType: string;
+    filePath: string;
+    originalName?: string | null;
+    uploadedBy?: number | null;
+    uploaderType: StatusActorType;
+  },
+) => {
+  const [inserted] = await db.query<ResultSetHeader>(
+    'INSERT INTO documents (application_id, document_type, file_path) VALUES (?, ?, ?)',
+    [params.applicationId, params.documentType, params.filePath],
+  );
+  const documentId = Number(inserted.insertId);
+
+  await db.query(
+    `UPDATE document_versions SET replaced_at = NOW()
+     WHERE application_id = ? AND document_type = ? AND replaced_at IS NULL`,
+    [params.applicationId, params.documentType],
+  );
+  await db.query(
+    `INSERT INTO document_versions
+       (document_id, application_id, document_type, original_name, uploaded_by, uploader_type)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      documentId,
+      params.applicationId,
+      params.documentType,
+      params.originalName ?? null,
+      params.uploadedBy ?? null,
+      params.uploaderType,
+    ],
+  );
+
+  const [counts] = await db.query<RowDataPacket[]>(
+    'SELECT COUNT(*) AS total FROM documents WHERE application_id = ? AND document_type = ?',
+    [params.applicationId, params.documentType],
+  );
+  return { documentId, version: Number(counts[0]?.total ?? 1) };
+};
+
+/**
+ * Folds the flat document list into one entry per type: the current version
+ * and the versions it replaced, newest first.
+ */
+export const groupDocumentVersions = <
+  T extends Pick<ApplicationDocument, 'documentType'>,
+>(
+  documents: T[],
+) => {
+  const groups = new Map<
+    string,
+    {
+      documentType: string;
+      current: T;
+      previousVersions: T[];
+    }
+  >();
+  for (const document of documents) {
+    const group = groups.get(document.documentType);
+    if (group) {
+      group.previousVersions.push(document);
+      continue;
+    }
+    groups.set(document.documentType, {
+      documentType: document.documentType,
+      current: document,
+      previousVersions: [],
+    });
+  }
+  return [...groups.values()];
+};
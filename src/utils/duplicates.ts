@@ -0,0 +1,350 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+import pool from '../db';
+import {
+  OFFER_STATUSES,
+  normalizeStatus,
+  transitionApplicationStatus,
+} from './applicationStatus';
+
+export type DuplicateMatchField =
+  | 'national_id'
+  | 'passport_number'
+  | 'email'
+  | 'phone'
+  | 'name_and_dob';
+
+export type DuplicateGroup = {
+  applications: RowDataPacket[];
+  matches: { field: DuplicateMatchField; value: string }[];
+};
+
+export class MergeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+// Two names count as the same person when they differ by at most this many edits
+const NAME_EDIT_DISTANCE = Number(
+  process.env.DUPLICATE_NAME_EDIT_DISTANCE || 2,
+);
+
+// Rows that belong to the applicant's submission and follow them to the surviving application
+const MOVED_TABLES = [
+  'documents',
+  'document_verifications',
+  'document_versions',
+  'application_uploads',
+  'education_details',
+  'tertiary_education',
+];
+
+const normalizeId = (value: unknown) =>
+  String(value ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '');
+
+const normalizeEmail = (value: unknown) =>
+  String(value ?? '')
+    .trim()
+    .toLowerCase();
+
+// +263 77 123 4567 and 0771234567 are the same number
+const normalizePhone = (value: unknown) => {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  return digits.length >= 9 ? digits.slice(-9) : '';
+};
+
+const normalizeName = (value: unknown) =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .trim()
+    .split(/\s+/)[0] ?? '';
+
+const toDateKey = (value: unknown) => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+const editDistance = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const similarNames = (a: RowDataPacket, b: RowDataPacket) => {
+  const surnameA = normalizeName(a.surname);
+  const surnameB = normalizeName(b.surname);
+  const firstA = normalizeName(a.first_names);
+  const firstB = normalizeName(b.first_names);
+  if (!surnameA || !surnameB || !firstA || !firstB) return false;
+  return (
+    editDistance(surnameA, surnameB) <= NAME_EDIT_DISTANCE &&
+    editDistance(firstA, firstB) <= NAME_EDIT_DISTANCE
+  );
+};
+
+/**
+ * Groups applications that look like the same person: identical national ID,
+ * passport, email or phone (after normalising formatting), or a close name
+ * match with the same date of birth. Matches are transitive, so A~B and B~C put
+ * all three in one group. Already merged applications are ignored.
+ */
+export const findDuplicateGroups = async (
+  db: Pool | PoolConnection,
+  filters: { referenceNumber?: string } = {},
+): Promise<DuplicateGroup[]> => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT a.id AS application_id, a.reference_number, a.accepted_status, a.programme,
+            a.starting_semester, a.created_at,
+            pd.first_names, pd.surname, pd.date_of_birth, pd.national_id,
+            pd.passport_number, pd.email, pd.phone
+     FROM applications a
+     JOIN personal_details pd ON pd.application_id = a.id
+     WHERE a.accepted_status <> 'merged'
+     ORDER BY a.created_at ASC, a.id ASC`,
+  );
+
+  const parent = rows.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const links: { index: number; field: DuplicateMatchField; value: string }[] =
+    [];
+  const link = (
+    a: number,
+    b: number,
+    field: DuplicateMatchField,
+    value: string,
+  ) => {
+    parent[find(a)] = find(b);
+    links.push({ index: a, field, value });
+  };
+
+  const keyed: [DuplicateMatchField, (row: RowDataPacket) => string][] = [
+    ['national_id', (row) => normalizeId(row.national_id)],
+    ['passport_number', (row) => normalizeId(row.passport_number)],
+    ['email', (row) => normalizeEmail(row.email)],
+    ['phone', (row) => normalizePhone(row.phone)],
+  ];
+  for (const [field, keyOf] of keyed) {
+    const firstSeen = new Map<string, number>();
+    rows.forEach((row, index) => {
+      const key = keyOf(row);
+      if (!key) return;
+      const seen = firstSeen.get(key);
+      if (seen === undefined) firstSeen.set(key, index);
+      else link(seen, index, field, key);
+    });
+  }
+
+  const byBirthDate = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = toDateKey(row.date_of_birth);
+    if (!key) return;
+    byBirthDate.set(key, [...(byBirthDate.get(key) ?? []), index]);
+  });
+  for (const [dateOfBirth, indexes] of byBirthDate) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = rows[indexes[i]];
+        const b = rows[indexes[j]];
+        if (similarNames(a, b)) {
+          link(
+            indexes[i],
+            indexes[j],
+            'name_and_dob',
+            `${normalizeName(a.surname)} ${dateOfBirth}`,
+          );
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, DuplicateGroup>();
+  rows.forEach((row, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? { applications: [], matches: [] };
+    group.applications.push(row);
+    groups.set(root, group);
+  });
+  for (const { index, field, value } of links) {
+    const { matches } = groups.get(find(index))!;
+    if (
+      !matches.some((match) => match.field === field && match.value === value)
+    ) {
+      matches.push({ field, value });
+    }
+  }
+
+  return [...groups.values()].filter(
+    (group) =>
+      group.applications.length > 1 &&
+      (!filters.referenceNumber ||
+        group.applications.some(
+          (row) => row.reference_number === filters.referenceNumber,
+        )),
+  );
+};
+
+/**
+ * Folds duplicate applications into the surviving one: their documents and
+ * education rows move across, each duplicate is marked `merged`, and its
+ * reference number is recorded so it keeps resolving to the survivor.
+ * Duplicates that already hold an offer cannot be merged away.
+ */
+export const mergeApplications = async (params: {
+  survivingReference: string;
+  duplicateReferences: string[];
+  actorId?: number | null;
+  reason?: string | null;
+}) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const references = [
+      params.survivingReference,
+      ...params.duplicateReferences,
+    ];
+    const [rows] = await connection.query<RowDataPacket[]>(
+      'SELECT id, reference_number, accepted_status FROM applications WHERE reference_number IN (?) FOR UPDATE',
+      [references],
+    );
+    const byReference = new Map(rows.map((row) => [row.reference_number, row]));
+    const missing = references.filter((ref) => !byReference.has(ref));
+    if (missing.length) {
+      throw new MergeError(`Application not found: ${missing.join(', ')}`, 404);
+    }
+
+    const survivor = byReference.get(params.survivingReference)!;
+    if (normalizeStatus(survivor.accepted_status) === 'merged') {
+      throw new MergeError(
+        `${survivor.reference_number} has itself been merged into another application`,
+        409,
+      );
+    }
+
+    const moved: Record<string, number> = Object.fromEntries(
+      MOVED_TABLES.map((table) => [table, 0]),
+    );
+    for (const reference of params.duplicateReferences) {
+      const duplicate = byReference.get(reference)!;
+      if (normalizeStatus(duplicate.accepted_status) === 'merged') {
+        throw new MergeError(`${reference} has already been merged`, 409);
+      }
+      if (OFFER_STATUSES.includes(normalizeStatus(duplicate.accepted_status))) {
+        throw new MergeError(
+          `${reference} holds an offer and cannot be merged away`,
+          409,
+        );
+      }
+
+      for (const table of MOVED_TABLES) {
+        const [result] = await connection.query<ResultSetHeader>(
+          `UPDATE ${table} SET application_id = ? WHERE application_id = ?`,
+          [survivor.id, duplicate.id],
+        );
+        moved[table] += result.affectedRows;
+      }
+
+      await transitionApplicationStatus(connection, {
+        applicationId: duplicate.id,
+        toStatus: 'merged',
+        actorId: params.actorId,
+        reason: [`Merged into ${survivor.reference_number}`, params.reason]
+          .filter(Boolean)
+          .join(' - '),
+      });
+
+      // References that were merged into this duplicate now point at the survivor too
+      await connection.query(
+        `UPDATE application_merges
+         SET surviving_application_id = ?, surviving_reference_number = ?
+         WHERE surviving_application_id = ?`,
+        [survivor.id, survivor.reference_number, duplicate.id],
+      );
+      await connection.query(
+        `INSERT INTO application_merges
+         (merged_application_id, merged_reference_number, surviving_application_id,
+          surviving_reference_number, merged_by, reason)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          duplicate.id,
+          duplicate.reference_number,
+          survivor.id,
+          survivor.reference_number,
+          params.actorId ?? null,
+          params.reason ?? null,
+        ],
+      );
+    }
+
+    await connection.commit();
+    return {
+      survivingReference: survivor.reference_number,
+      mergedReferences: params.duplicateReferences,
+      moved,
+    };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+export const resolveReferenceNumber = async (
+  db: Pool | PoolConnection,
+  referenceNumber: string,
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT surviving_reference_number FROM application_merges WHERE merged_reference_number = ?',
+    [referenceNumber],
+  );
+  return rows[0]?.surviving_reference_number ?? referenceNumber;
+};
+
+/**
+ * `router.param('referenceNumber', ...)` handler: swaps a merged reference for
+ * the surviving one so old links and emails keep working.
+ */
+export const resolveMergedReference = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+  referenceNumber: string,
+) => {
+  try {
+    req.params.referenceNumber = await resolveReferenceNumber(
+      pool,
+      referenceNumber,
+    );
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
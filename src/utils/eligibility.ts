@@ -0,0 +1,295 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export type EntryRequirements = {
+  min_o_level_passes: number;
+  required_o_level_subjects: string[];
+  min_a_level_passes: number;
+  min_a_level_points: number;
+  required_a_level_subjects: string[];
+  mature_entry_min_age: number;
+};
+
+export type EligibilityCheck = {
+  rule: string;
+  passed: boolean;
+  expected: string | number;
+  actual: string | number;
+};
+
+export type EligibilityStatus =
+  | 'eligible'
+  | 'eligible_mature_entry'
+  | 'special_entry_review'
+  | 'not_eligible'
+  | 'no_requirements';
+
+export type EligibilityResult = {
+  status: EligibilityStatus;
+  score: number;
+  checks: EligibilityCheck[];
+  oLevelPasses: number;
+  aLevelPasses: number;
+  aLevelPoints: number;
+};
+
+type SubjectResult = { subject_name: string; grade: string };
+type Qualification = { qualification_type: string; subjects: SubjectResult[] };
+
+const O_LEVEL_PASS_GRADES = ['A*', 'A', 'B', 'C'];
+// ZIMSEC / Cambridge A-Level points
+const A_LEVEL_POINTS: Record<string, number> = { A: 5, B: 4, C: 3, D: 2, E: 1 };
+
+const SUBJECT_ALIASES: Record<string, string> = {
+  maths: 'mathematics',
+  math: 'mathematics',
+  english: 'englishlanguage',
+};
+
+const normalizeSubject = (name: string) => {
+  const key = String(name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+  return SUBJECT_ALIASES[key] ?? key;
+};
+
+const normalizeGrade = (grade: string) =>
+  String(grade ?? '')
+    .trim()
+    .toUpperCase();
+
+const parseSubjectList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string' || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+};
+
+export const toEntryRequirements = (row: RowDataPacket): EntryRequirements => ({
+  min_o_level_passes: Number(row.min_o_level_passes ?? 0),
+  required_o_level_subjects: parseSubjectList(row.required_o_level_subjects),
+  min_a_level_passes: Number(row.min_a_level_passes ?? 0),
+  min_a_level_points: Number(row.min_a_level_points ?? 0),
+  required_a_level_subjects: parseSubjectList(row.required_a_level_subjects),
+  mature_entry_min_age: Number(row.mature_entry_min_age ?? 25),
+});
+
+const ageOn = (dateOfBirth: unknown, today = new Date()) => {
+  if (!dateOfBirth) return null;
+  const dob = new Date(dateOfBirth as string);
+  if (Number.isNaN(dob.getTime())) return null;
+  let age = today.getFullYear() - dob.getFullYear();
+  const birthdayPassed =
+    today.getMonth() > dob.getMonth() ||
+    (today.getMonth() === dob.getMonth() && today.getDate() >= dob.getDate());
+  if (!birthdayPassed) age -= 1;
+  return age;
+};
+
+const subjectsOfType = (qualifications: Qualification[], type: string) =>
+  qualifications
+    .filter((q) => String(q.qualification_type).toLowerCase() === type)
+    .flatMap((q) => q.subjects);
+
+/**
+ * Scores an applicant's results against a programme's entry rules.
+ * Mature and special entry only apply when the standard rules are not met and
+ * the programme allows them (department_programme.mature_entry / special_entry).
+ */
+export const evaluateEligibility = (params: {
+  requirements: EntryRequirements | null;
+  matureEntry: boolean;
+  specialEntry: boolean;
+  qualifications: Qualification[];
+  dateOfBirth?: unknown;
+}): EligibilityResult => {
+  const oLevelPassed = subjectsOfType(
+    params.qualifications,
+    'ordinary level',
+  ).filter((s) => O_LEVEL_PASS_GRADES.includes(normalizeGrade(s.grade)));
+  const aLevelPassed = subjectsOfType(
+    params.qualifications,
+    'advanced level',
+  ).filter((s) => normalizeGrade(s.grade) in A_LEVEL_POINTS);
+  const aLevelPoints = aLevelPassed.reduce(
+    (sum, s) => sum + A_LEVEL_POINTS[normalizeGrade(s.grade)],
+    0,
+  );
+
+  const base = {
+    oLevelPasses: new Set(
+      oLevelPassed.map((s) => normalizeSubject(s.subject_name)),
+    ).size,
+    aLevelPasses: new Set(
+      aLevelPassed.map((s) => normalizeSubject(s.subject_name)),
+    ).size,
+    aLevelPoints,
+  };
+
+  const { requirements } = params;
+  if (!requirements) {
+    return { status: 'no_requirements', score: 0, checks: [], ...base };
+  }
+
+  const checks: EligibilityCheck[] = [];
+  const passedOLevel = new Set(
+    oLevelPassed.map((s) => normalizeSubject(s.subject_name)),
+  );
+  const passedALevel = new Set(
+    aLevelPassed.map((s) => normalizeSubject(s.subject_name)),
+  );
+
+  if (requirements.min_o_level_passes > 0) {
+    checks.push({
+      rule: 'min_o_level_passes',
+      passed: base.oLevelPasses >= requirements.min_o_level_passes,
+      expected: requirements.min_o_level_passes,
+      actual: base.oLevelPasses,
+    });
+  }
+  for (const subject of requirements.required_o_level_subjects) {
+    const passed = passedOLevel.has(normalizeSubject(subject));
+    checks.push({
+      rule: `o_level_subject:${subject}`,
+      passed,
+      expected: 'C or better',
+      actual: passed ? 'passed' : 'not passed',
+    });
+  }
+  if (requirements.min_a_level_passes > 0) {
+    checks.push({
+      rule: 'min_a_level_passes',
+      passed: base.aLevelPasses >= requirements.min_a_level_passes,
+      expected: requirements.min_a_level_passes,
+      actual: base.aLevelPasses,
+    });
+  }
+  if (requirements.min_a_level_points > 0) {
+    checks.push({
+      rule: 'min_a_level_points',
+      passed: aLevelPoints >= requirements.min_a_level_points,
+      expected: requirements.min_a_level_points,
+      actual: aLevelPoints,
+    });
+  }
+  for (const subject of requirements.required_a_level_subjects) {
+    const passed = passedALevel.has(normalizeSubject(subject));
+    checks.push({
+      rule: `a_level_subject:${subject}`,
+      passed,
+      expected: 'E or better',
+      actual: passed ? 'passed' : 'not passed',
+    });
+  }
+
+  const passedCount = checks.filter((check) => check.passed).length;
+  const score = checks.length
+    ? Math.round((passedCount / checks.length) * 100)
+    : 100;
+
+  let status: EligibilityStatus =
+    passedCount === checks.length ? 'eligible' : 'not_eligible';
+  if (status === 'not_eligible' && params.matureEntry) {
+    const age = ageOn(params.dateOfBirth);
+    const matureCheck: EligibilityCheck = {
+      rule: 'mature_entry_age',
+      passed: age != null && age >= requirements.mature_entry_min_age,
+      expected: requirements.mature_entry_min_age,
+      actual: age ?? 'unknown',
+    };
+    checks.push(matureCheck);
+    if (matureCheck.passed) status = 'eligible_mature_entry';
+  }
+  if (status === 'not_eligible' && params.specialEntry) {
+    status = 'special_entry_review';
+  }
+
+  return { status, score, checks, ...base };
+};
+
+/**
+ * Evaluates many applications at once with one query per table.
+ * Applications are matched to department_programme on `applications.programme = code`.
+ */
+export const evaluateEligibilityForApplications = async (
+  db: Pool | PoolConnection,
+  applications: { id: number; programme?: string | null }[],
+) => {
+  const results = new Map<number, EligibilityResult>();
+  if (!applications.length) return results;
+
+  const applicationIds = applications.map((app) => app.id);
+  const programmeCodes = [
+    ...new Set(applications.map((app) => app.programme).filter(Boolean)),
+  ] as string[];
+
+  const [programmeRows] = programmeCodes.length
+    ? await db.query<RowDataPacket[]>(
+        `SELECT dp.code, dp.mature_entry, dp.special_entry, r.*
+         FROM department_programme dp
+         LEFT JOIN programme_entry_requirements r ON r.programme_id = dp.id
+         WHERE dp.code IN (?)`,
+        [programmeCodes],
+      )
+    : [[] as RowDataPacket[]];
+
+  const [subjectRows] = await db.query<RowDataPacket[]>(
+    `SELECT ed.application_id, ed.id AS education_id, ed.qualification_type, s.subject_name, s.grade
+     FROM education_details ed
+     LEFT JOIN subjects s ON s.education_id = ed.id
+     WHERE ed.application_id IN (?)`,
+    [applicationIds],
+  );
+
+  const [personalRows] = await db.query<RowDataPacket[]>(
+    'SELECT application_id, date_of_birth FROM personal_details WHERE application_id IN (?)',
+    [applicationIds],
+  );
+
+  const programmes = new Map(programmeRows.map((row) => [row.code, row]));
+  const dateOfBirth = new Map(
+    personalRows.map((row) => [row.application_id, row.date_of_birth]),
+  );
+
+  const qualificationsByApp = new Map<number, Map<number, Qualification>>();
+  for (const row of subjectRows) {
+    const byEducation =
+      qualificationsByApp.get(row.application_id) ?? new Map();
+    const qualification: Qualification = byEducation.get(row.education_id) ?? {
+      qualification_type: row.qualification_type,
+      subjects: [],
+    };
+    if (row.subject_name) {
+      qualification.subjects.push({
+        subject_name: row.subject_name,
+        grade: row.grade,
+      });
+    }
+    byEducation.set(row.education_id, qualification);
+    qualificationsByApp.set(row.application_id, byEducation);
+  }
+
+  for (const app of applications) {
+    const programme = app.programme ? programmes.get(app.programme) : undefined;
+    results.set(
+      app.id,
+      evaluateEligibility({
+        requirements: programme?.programme_id
+          ? toEntryRequirements(programme)
+          : null,
+        matureEntry: Number(programme?.mature_entry) === 1,
+        specialEntry: Number(programme?.special_entry) === 1,
+        qualifications: [...(qualificationsByApp.get(app.id)?.values() ?? [])],
+        dateOfBirth: dateOfBirth.get(app.id),
+      }),
+    );
+  }
+
+  return results;
+};
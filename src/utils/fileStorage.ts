@@ -0,0 +1,618 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { Readable } from 'stream';
+import { Response } from 'express';
+import { FILE_KINDS } from './uploadInspection';
+
+export type StoredObject = {
+  key: string;
+  size: number;
+  contentType: string | null;
+  lastModified: Date | null;
+};
+
+export type SignedUrlOptions = {
+  expiresInSeconds?: number;
+  fileName?: string | null;
+  contentType?: string | null;
+  inline?: boolean;
+};
+
+/**
+ * Where uploads, generated letters and signatures live. Keys are relative,
+ * slash-separated paths such as `documents/1733-ab12cd34-id.pdf`; callers
+ * store the key and never build disk paths themselves.
+ */
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType?: string | null): Promise<void>;
+  // Copies a local file (e.g. a multer temp file) in; the source is left in place
+  putFile(
+    key: string,
+    filePath: string,
+    contentType?: string | null,
+  ): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  openStream(key: string): Promise<Readable | null>;
+  stat(key: string): Promise<StoredObject | null>;
+  remove(key: string): Promise<void>;
+  signedUrl(key: string, options?: SignedUrlOptions): string;
+}
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const STORAGE_AREAS = {
+  documents: 'documents',
+  references: 'references',
+  offerLetters: 'offer-letters',
+  regretLetters: 'regret-letters',
+  signedOfferLetters: 'signed-offer-letters',
+  signatures: 'signatures',
+  quarantine: 'quarantine',
+} as const;
+
+export type StorageArea = (typeof STORAGE_AREAS)[keyof typeof STORAGE_AREAS];
+
+const SIGNED_URL_TTL_SECONDS = Number(
+  process.env.STORAGE_SIGNED_URL_TTL_SECONDS || 300,
+);
+const S3_TIMEOUT_MS = Number(process.env.STORAGE_S3_TIMEOUT_MS || 30000);
+
+// Local signed URLs fall back to the JWT secret so one secret is enough to run
+const getSigningSecret = () =>
+  process.env.STORAGE_SIGNING_SECRET ||
+  process.env.SECRET_KEY ||
+  'default-secret-key';
+
+export const normalizeStorageKey = (key: string) => {
+  const normalized = String(key || '')
+    .replace(/\\/g, '/')
+    .replace(/^\/+/, '');
+  const segments = normalized.split('/');
+  if (
+    !normalized ||
+    segments.some((segment) => !segment || segment === '.' || segment === '..')
+  ) {
+    throw new StorageError(`Invalid storage key: ${key}`, 400);
+  }
+  return normalized;
+};
+
+export const storageKey = (area: StorageArea, fileName: string) =>
+  normalizeStorageKey(`${area}/${path.basename(fileName)}`);
+
+/**
+ * Maps what older rows hold in their path columns onto a storage key:
+ * absolute multer paths (`/srv/app/src/uploads/documents/x.pdf`), public
+ * paths (`/uploads/offer-letters/x.pdf`) and keys themselves all work.
+ * Returns null for anything that would escape the storage root.
+ */
+export const toStorageKey = (storedPath: string | null | undefined) => {
+  if (!storedPath) return null;
+  const normalized = String(storedPath).replace(/\\/g, '/');
+  const marker = normalized.lastIndexOf('/uploads/');
+  const relative =
+    marker >= 0
+      ? normalized.slice(marker + '/uploads/'.length)
+      : normalized.replace(/^uploads\//, '');
+  try {
+    return normalizeStorageKey(relative);
+  } catch {
+    return null;
+  }
+};
+
+const EXTRA_CONTENT_TYPES: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.txt': 'text/plain',
+};
+
+export const guessContentType = (key: string) => {
+  const extension = path.extname(key).toLowerCase();
+  const kind = Object.values(FILE_KINDS).find((entry) =>
+    entry.extensions.includes(extension),
+  );
+  return (
+    kind?.mimeType ??
+    EXTRA_CONTENT_TYPES[extension] ??
+    'application/octet-stream'
+  );
+};
+
+// RFC 6266 header with an ASCII fallback for browsers that ignore filename*
+export const contentDisposition = (fileName: string, inline = false) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeRfc3986(fileName)}`;
+};
+
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+const encodeKeyPath = (key: string) =>
+  key.split('/').map(encodeRfc3986).join('/');
+
+const signLocalUrl = (
+  secret: string,
+  parts: { key: string; expires: string; name: string; disposition: string },
+) =>
+  crypto
+    .createHmac('sha256', secret)
+    .update(
+      [parts.key, parts.expires, parts.name, parts.disposition].join('\n'),
+    )
+    .digest('hex');
+
+/**
+ * Files on the API server's disk. Reads fall back to `fallbackRoots` (older
+ * upload folders) until files have been moved under `root`; writes and
+ * deletes of new files only touch `root`. Signed URLs point at the files
+ * route, which checks the HMAC before streaming.
+ */
+export const createLocalStorage = (options: {
+  root: string;
+  fallbackRoots?: string[];
+  signingSecret: string;
+  downloadUrlBase: string;
+}): FileStorage => {
+  const roots = [options.root, ...(options.fallbackRoots ?? [])].map((root) =>
+    path.resolve(root),
+  );
+
+  const diskPath = (root: string, key: string) =>
+    path.join(root, normalizeStorageKey(key));
+
+  const locate = async (key: string) => {
+    for (const root of roots) {
+      const candidate = diskPath(root, key);
+      const stats = await fs.promises.stat(candidate).catch(() => null);
+      if (stats?.isFile()) return { filePath: candidate, stats };
+    }
+    return null;
+  };
+
+  const prepare = async (key: string) => {
+    const target = diskPath(roots[0], key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    return target;
+  };
+
+  return {
+    name: 'local',
+    put: async (key, body) => {
+      await fs.promises.writeFile(await prepare(key), body);
+    },
+    putFile: async (key, filePath) => {
+      await fs.promises.copyFile(filePath, await prepare(key));
+    },
+    get: async (key) => {
+      const found = await locate(key);
+      return found ? fs.promises.readFile(found.filePath) : null;
+    },
+    openStream: async (key) => {
+      const found = await locate(key);
+      return found ? fs.createReadStream(found.filePath) : null;
+    },
+    stat: async (key) => {
+      const found = await locate(key);
+      if (!found) return null;
+      return {
+        key: normalizeStorageKey(key),
+        size: found.stats.size,
+        contentType: guessContentType(key),
+        lastModified: found.stats.mtime,
+      };
+    },
+    remove: async (key) => {
+      await Promise.all(
+        roots.map((root) =>
+          fs.promises.unlink(diskPath(root, key)).catch((error) => {
+            if (error?.code !== 'ENOENT') throw error;
+          }),
+        ),
+      );
+    },
+    signedUrl: (key, signOptions = {}) => {
+      const parts = {
+        key: normalizeStorageKey(key),
+        expires: String(
+          Math.floor(Date.now() / 1000) +
+            (signOptions.expiresInSeconds ?? SIGNED_URL_TTL_SECONDS),
+        ),
+        name: signOptions.fileName ?? '',
+        disposition: signOptions.inline ? 'inline' : 'attachment',
+      };
+      const query = new URLSearchParams({
+        expires: parts.expires,
+        disposition: parts.disposition,
+        ...(parts.name ? { name: parts.name } : {}),
+        signature: signLocalUrl(options.signingSecret, parts),
+      });
+      return `${options.downloadUrlBase}/${encodeKeyPath(parts.key)}?${query.toString()}`;
+    },
+  };
+};
+
+/**
+ * Checks a request made with a local signed URL. Returns what the URL was
+ * signed for, or null when the signature is wrong or it has expired.
+ */
+export const verifyLocalSignedUrl = (
+  key: string,
+  query: Record<string, unknown>,
+  signingSecret = getSigningSecret(),
+) => {
+  const parts = {
+    key,
+    expires: String(query.expires ?? ''),
+    name: String(query.name ?? ''),
+    disposition: query.disposition === 'inline' ? 'inline' : 'attachment',
+  };
+  const expected = Buffer.from(signLocalUrl(signingSecret, parts), 'hex');
+  const given = Buffer.from(String(query.signature ?? ''), 'hex');
+  if (
+    given.length !== expected.length ||
+    !crypto.timingSafeEqual(given, expected)
+  ) {
+    return null;
+  }
+  if (
+    !/^\d+$/.test(parts.expires) ||
+    Number(parts.expires) * 1000 < Date.now()
+  ) {
+    return null;
+  }
+  return {
+    fileName: parts.name || null,
+    inline: parts.disposition === 'inline',
+  };
+};
+
+const sha256Hex = (value: string | Buffer) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+const hmac = (key: string | Buffer, value: string) =>
+  crypto.createHmac('sha256', key).update(value).digest();
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+const readBody = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, Ceph...). Requests are signed
+ * with AWS Signature V4 directly, so no SDK is needed. Set `forcePathStyle`
+ * for MinIO and other stores that do not serve buckets as subdomains.
+ */
+export const createS3Storage = (options: {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean;
+}): FileStorage => {
+  const endpoint = new URL(options.endpoint);
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  const host = options.forcePathStyle
+    ? endpoint.host
+    : `${options.bucket}.${endpoint.host}`;
+
+  const objectPath = (key: string) => {
+    const encodedKey = encodeKeyPath(normalizeStorageKey(key));
+    return options.forcePathStyle
+      ? `${basePath}/${encodeRfc3986(options.bucket)}/${encodedKey}`
+      : `${basePath}/${encodedKey}`;
+  };
+
+  const credentialScope = (dateStamp: string) =>
+    `${dateStamp}/${options.region}/s3/aws4_request`;
+
+  const signature = (amzDate: string, canonicalRequest: string) => {
+    const dateStamp = amzDate.slice(0, 8);
+    const signingKey = hmac(
+      hmac(
+        hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region),
+        's3',
+      ),
+      'aws4_request',
+    );
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      credentialScope(dateStamp),
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+    return hmac(signingKey, stringToSign).toString('hex');
+  };
+
+  const canonicalQuery = (query: Record<string, string>) =>
+    Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+  const amzDateNow = () =>
+    new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+  const send = (
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+    key: string,
+    body?: {
+      data: Buffer | Readable;
+      length: number;
+      contentType?: string | null;
+    },
+  ) =>
+    new Promise<http.IncomingMessage>((resolve, reject) => {
+      const requestPath = objectPath(key);
+      const amzDate = amzDateNow();
+      const payloadHash = !body
+        ? EMPTY_PAYLOAD_HASH
+        : Buffer.isBuffer(body.data)
+          ? sha256Hex(body.data)
+          : 'UNSIGNED-PAYLOAD';
+      const signed: Record<string, string> = {
+        host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+      };
+      const signedHeaders = Object.keys(signed).sort();
+      const canonicalRequest = [
+        method,
+        requestPath,
+        '',
+        signedHeaders.map((name) => `${name}:${signed[name]}\n`).join(''),
+        signedHeaders.join(';'),
+        payloadHash,
+      ].join('\n');
+
+      const headers: Record<string, string | number> = {
+        ...signed,
+        authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${credentialScope(amzDate.slice(0, 8))}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature(amzDate, canonicalRequest)}`,
+      };
+      if (body) {
+        headers['content-length'] = body.length;
+        if (body.contentType) headers['content-type'] = body.contentType;
+      }
+
+      const transport = endpoint.protocol === 'https:' ? https : http;
+      const request = transport.request(
+        {
+          method,
+          host: options.forcePathStyle
+            ? endpoint.hostname
+            : `${options.bucket}.${endpoint.hostname}`,
+          port: endpoint.port || undefined,
+          path: requestPath,
+          headers,
+        },
+        resolve,
+      );
+      request.setTimeout(S3_TIMEOUT_MS, () =>
+        request.destroy(new Error(`Storage ${method} ${key} timed out`)),
+      );
+      request.on('error', reject);
+
+      if (!body) {
+        request.end();
+      } else if (Buffer.isBuffer(body.data)) {
+        request.end(body.data);
+      } else {
+        body.data.on('error', (error) => request.destroy(error));
+        body.data.pipe(request);
+      }
+    });
+
+  // Turns a non-2xx reply into a StorageError; 404 is returned as null
+  const expectOk = async (
+    response: http.IncomingMessage,
+    method: string,
+    key: string,
+  ) => {
+    const status = response.statusCode ?? 0;
+    if (status >= 200 && status < 300) return response;
+    const detail = (await readBody(response)).toString('utf8').slice(0, 300);
+    if (status === 404) return null;
+    throw new StorageError(
+      `Storage ${method} ${key} failed with ${status}${detail ? `: ${detail}` : ''}`,
+      502,
+    );
+  };
+
+  return {
+    name: 's3',
+    put: async (key, body, contentType) => {
+      await expectOk(
+        await send('PUT', key, {
+          data: body,
+          length: body.length,
+          contentType: contentType ?? guessContentType(key),
+        }),
+        'PUT',
+        key,
+      );
+    },
+    putFile: async (key, filePath, contentType) => {
+      const { size } = await fs.promises.stat(filePath);
+      await expectOk(
+        await send('PUT', key, {
+          data: fs.createReadStream(filePath),
+          length: size,
+          contentType: contentType ?? guessContentType(key),
+        }),
+        'PUT',
+        key,
+      );
+    },
+    get: async (key) => {
+      const response = await expectOk(await send('GET', key), 'GET', key);
+      return response ? readBody(response) : null;
+    },
+    openStream: async (key) => expectOk(await send('GET', key), 'GET', key),
+    stat: async (key) => {
+      const response = await expectOk(await send('HEAD', key), 'HEAD', key);
+      if (!response) return null;
+      response.resume();
+      const lastModified = response.headers['last-modified'];
+      return {
+        key: normalizeStorageKey(key),
+        size: Number(response.headers['content-length'] ?? 0),
+        contentType: response.headers['content-type'] ?? null,
+        lastModified: lastModified ? new Date(lastModified) : null,
+      };
+    },
+    remove: async (key) => {
+      const response = await expectOk(await send('DELETE', key), 'DELETE', key);
+      response?.resume();
+    },
+    signedUrl: (key, signOptions = {}) => {
+      const amzDate = amzDateNow();
+      const requestPath = objectPath(key);
+      const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${options.accessKeyId}/${credentialScope(amzDate.slice(0, 8))}`,
+        'X-Amz-Date': amzDate,
+        // S3 refuses presigned URLs that live longer than seven days
+        'X-Amz-Expires': String(
+          Math.min(
+            signOptions.expiresInSeconds ?? SIGNED_URL_TTL_SECONDS,
+            7 * 24 * 60 * 60,
+          ),
+        ),
+        'X-Amz-SignedHeaders': 'host',
+      };
+      if (signOptions.fileName || signOptions.inline) {
+        query['response-content-disposition'] = contentDisposition(
+          signOptions.fileName || path.basename(key),
+          signOptions.inline,
+        );
+      }
+      if (signOptions.contentType) {
+        query['response-content-type'] = signOptions.contentType;
+      }
+      const queryString = canonicalQuery(query);
+      const canonicalRequest = [
+        'GET',
+        requestPath,
+        queryString,
+        `host:${host}\n`,
+        'host',
+        'UNSIGNED-PAYLOAD',
+      ].join('\n');
+      return `${endpoint.protocol}//${host}${requestPath}?${queryString}&X-Amz-Signature=${signature(amzDate, canonicalRequest)}`;
+    },
+  };
+};
+
+export const LOCAL_STORAGE_ROOT =
+  process.env.STORAGE_LOCAL_ROOT || path.join(process.cwd(), 'uploads');
+
+// Upload folders used before storage keys; read-only fallbacks for the local
+// driver until `npm run migrate-uploads -- --apply` has moved their files
+export const LEGACY_UPLOAD_ROOTS = [path.join(__dirname, '..', 'uploads')];
+
+let storage: FileStorage | null = null;
+
+/**
+ * STORAGE_DRIVER=s3 uses STORAGE_S3_ENDPOINT, STORAGE_S3_BUCKET,
+ * STORAGE_S3_REGION, STORAGE_S3_ACCESS_KEY_ID, STORAGE_S3_SECRET_ACCESS_KEY
+ * and STORAGE_S3_FORCE_PATH_STYLE; anything else stores files under
+ * STORAGE_LOCAL_ROOT (default ./uploads).
+ */
+export const getStorage = () => {
+  if (storage) return storage;
+
+  if (String(process.env.STORAGE_DRIVER || '').toLowerCase() === 's3') {
+    const required = {
+      endpoint: process.env.STORAGE_S3_ENDPOINT,
+      bucket: process.env.STORAGE_S3_BUCKET,
+      accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY,
+    };
+    const missing = Object.entries(required)
+      .filter(([, value]) => !value)
+      .map(([name]) => name);
+    if (missing.length) {
+      throw new Error(`S3 storage is missing settings: ${missing.join(', ')}`);
+    }
+    storage = createS3Storage({
+      endpoint: required.endpoint as string,
+      bucket: required.bucket as string,
+      accessKeyId: required.accessKeyId as string,
+      secretAccessKey: required.secretAccessKey as string,
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      forcePathStyle: ['1', 'true'].includes(
+        String(process.env.STORAGE_S3_FORCE_PATH_STYLE || '').toLowerCase(),
+      ),
+    });
+  } else {
+    storage = createLocalStorage({
+      root: LOCAL_STORAGE_ROOT,
+      fallbackRoots: LEGACY_UPLOAD_ROOTS,
+      signingSecret: getSigningSecret(),
+      downloadUrlBase: process.env.FILE_DOWNLOAD_URL_BASE || '/api/v1/files',
+    });
+  }
+  return storage;
+};
+
+/**
+ * Streams a stored file as the response. Returns false without responding
+ * when the key does not resolve to a file, so routes can send their own 404.
+ */
+export const sendStoredFile = async (
+  res: Response,
+  key: string | null | undefined,
+  options: { fileName?: string | null; inline?: boolean } = {},
+) => {
+  if (!key) return false;
+  const files = getStorage();
+  const object = await files.stat(key);
+  const stream = object ? await files.openStream(key) : null;
+  if (!object || !stream) return false;
+
+  res.setHeader('Content-Type', object.contentType || guessContentType(key));
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Length', String(object.size));
+  res.setHeader(
+    'Content-Disposition',
+    contentDisposition(options.fileName || path.basename(key), options.inline),
+  );
+  stream.on('error', (error) => {
+    console.error(`Error streaming ${key}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+  return true;
+};
+
+/**
+ * Copies a screened upload from the temp folder into storage under `area`
+ * and deletes the temp copy. Returns the key to save on the row.
+ */
+export const moveUploadToStorage = async (
+  file: { path: string; filename: string; mimetype?: string | null },
+  area: StorageArea,
+) => {
+  const key = storageKey(area, file.filename);
+  await getStorage().putFile(key, file.path, file.mimetype);
+  await fs.promises.unlink(file.path).catch(() => undefined);
+  return key;
+};
@@ -0,0 +1,346 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../db';
+import { isPhdProgramType } from './applicationDocuments';
+import { sendApplicantEmail } from './notification';
+
+export const INTERVIEW_OUTCOMES = ['pass', 'fail', 'reserve'] as const;
+export type InterviewOutcome = (typeof INTERVIEW_OUTCOMES)[number];
+
+export type InterviewStatus =
+  | 'invited'
+  | 'booked'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled';
+
+export class InterviewError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'InterviewError';
+  }
+}
+
+type InterviewRow = RowDataPacket & {
+  id: number;
+  status: InterviewStatus;
+  outcome: InterviewOutcome | null;
+  score: string | null;
+  invited_at: Date | null;
+  booked_at: Date | null;
+  slot_id: number | null;
+  starts_at: Date | null;
+  duration_minutes: number | null;
+  location: string | null;
+  meeting_url: string | null;
+};
+
+export const isInterviewOutcome = (value: unknown): value is InterviewOutcome =>
+  typeof value === 'string' &&
+  (INTERVIEW_OUTCOMES as readonly string[]).includes(value);
+
+/**
+ * PhD applications are always interviewed; other programmes opt in through
+ * `interview_programmes`.
+ */
+export const isInterviewRequired = async (
+  db: Pool | PoolConnection,
+  application: {
+    program_type?: string | null;
+    programme?: string | null;
+    [key: string]: unknown;
+  },
+) => {
+  if (isPhdProgramType(application.program_type)) {
+    return true;
+  }
+  if (!application.programme) return false;
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT 1 FROM interview_programmes WHERE programme_code = ? AND is_required = 1',
+    [application.programme],
+  );
+  return rows.length > 0;
+};
+
+export const getSlotPanels = async (
+  db: Pool | PoolConnection,
+  slotIds: number[],
+) => {
+  const panels = new Map<number, RowDataPacket[]>();
+  if (!slotIds.length) return panels;
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT pm.slot_id, u.id AS user_id, u.firstName, u.lastName, u.email, u.role
+     FROM interview_panel_members pm
+     JOIN users u ON u.id = pm.user_id
+     WHERE pm.slot_id IN (?)
+     ORDER BY u.lastName, u.firstName`,
+    [slotIds],
+  );
+  for (const row of rows) {
+    const list = panels.get(row.slot_id) ?? [];
+    list.push(row);
+    panels.set(row.slot_id, list);
+  }
+  return panels;
+};
+
+export const getApplicationInterview = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<InterviewRow[]>(
+    `SELECT ai.id, ai.status, ai.invited_at, ai.booked_at, ai.outcome, ai.score,
+            ai.notes, ai.recorded_by, ai.recorded_at,
+            s.id AS slot_id, s.starts_at, s.duration_minutes, s.location, s.meeting_url
+     FROM application_interviews ai
+     LEFT JOIN interview_slots s ON s.id = ai.slot_id
+     WHERE ai.application_id = ?`,
+    [applicationId],
+  );
+  const interview = rows[0];
+  if (!interview) return null;
+
+  const panels = interview.slot_id
+    ? await getSlotPanels(db, [interview.slot_id])
+    : new Map<number, RowDataPacket[]>();
+  return {
+    ...interview,
+    panel: (interview.slot_id && panels.get(interview.slot_id)) || [],
+  };
+};
+
+const icsDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const icsText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+export const buildInterviewIcs = (event: {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description: string;
+  location?: string | null;
+  url?: string | null;
+}) => {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60000);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    "PRODID:-//Women's University in Africa//Admissions//EN",
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${icsDate(new Date())}`,
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(end)}`,
+    `SUMMARY:${icsText(event.summary)}`,
+    `DESCRIPTION:${icsText(event.description)}`,
+    event.location ? `LOCATION:${icsText(event.location)}` : null,
+    event.url ? `URL:${event.url}` : null,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.filter(Boolean).join('\r\n');
+};
+
+export const buildBookingLink = (referenceNumber: string, code: string) => {
+  const base = process.env.INTERVIEW_BOOKING_URL_BASE;
+  const query = `ref=${encodeURIComponent(referenceNumber)}&code=${encodeURIComponent(code)}`;
+  return base
+    ? `${base.replace(/\/$/, '')}${base.includes('?') ? '&' : '?'}${query}`
+    : `/api/v1/interviews/${encodeURIComponent(referenceNumber)}/slots?code=${encodeURIComponent(code)}`;
+};
+
+const getApplicantContact = async (applicationId: number) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT a.reference_number, pd.first_names, pd.surname, pd.email,
+            dp.name AS programme_name, a.programme
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     LEFT JOIN department_programme dp ON dp.code = a.programme
+     WHERE a.id = ?`,
+    [applicationId],
+  );
+  return rows[0];
+};
+
+/**
+ * Creates (or refreshes) the interview invitation with a new booking code and
+ * emails the booking link. An existing booking is kept; the new code can be used
+ * to move it.
+ */
+export const inviteToInterview = async (params: {
+  applicationId: number;
+  invitedBy?: number | null;
+}) => {
+  const bookingCode = uuidv4();
+  await pool.query(
+    `INSERT INTO application_interviews (application_id, booking_code, invited_by, status)
+     VALUES (?, ?, ?, 'invited')
+     ON DUPLICATE KEY UPDATE
+       booking_code = VALUES(booking_code),
+       invited_by = VALUES(invited_by),
+       invited_at = CURRENT_TIMESTAMP,
+       status = IF(status = 'cancelled', 'invited', status)`,
+    [params.applicationId, bookingCode, params.invitedBy ?? null],
+  );
+
+  const contact = await getApplicantContact(params.applicationId);
+  const link = buildBookingLink(contact.reference_number, bookingCode);
+
+  let emailSent = false;
+  if (contact?.email) {
+    const fullName =
+      `${contact.first_names ?? ''} ${contact.surname ?? ''}`.trim() ||
+      'Applicant';
+    try {
+      await sendApplicantEmail({
+        to: contact.email,
+        subject: 'Interview invitation - choose your interview slot',
+        text:
+          `Dear ${fullName},\n\n` +
+          `Your application to study ${contact.programme_name || contact.programme} at the Women's University in Africa (reference ${contact.reference_number}) requires an interview.\n\n` +
+          `Please choose an interview slot using the link below:\n${link}\n\n` +
+          `Your booking code is ${bookingCode}.\n\n` +
+          `Regards,\nWomen's University in Africa`,
+      });
+      emailSent = true;
+    } catch (error) {
+      console.error('Error sending interview invitation:', error);
+    }
+  }
+
+  return { bookingCode, bookingLink: link, emailSent };
+};
+
+/**
+ * Books the applicant into a slot of their programme. The slot row is locked so
+ * two applicants cannot take the last place at the same time. Rebooking releases
+ * the previous slot.
+ */
+export const bookInterviewSlot = async (params: {
+  referenceNumber: string;
+  bookingCode: string;
+  slotId: number;
+}) => {
+  const connection = await pool.getConnection();
+  let applicationId: number;
+  let slot: RowDataPacket;
+  try {
+    await connection.beginTransaction();
+
+    const [interviews] = await connection.query<RowDataPacket[]>(
+      `SELECT ai.id, ai.status, ai.application_id, a.programme
+       FROM application_interviews ai
+       JOIN applications a ON a.id = ai.application_id
+       WHERE a.reference_number = ? AND ai.booking_code = ?
+       FOR UPDATE`,
+      [params.referenceNumber, params.bookingCode],
+    );
+    const interview = interviews[0];
+    if (!interview) {
+      throw new InterviewError('Interview invitation not found', 404);
+    }
+    if (interview.status !== 'invited' && interview.status !== 'booked') {
+      throw new InterviewError('This interview can no longer be booked', 409);
+    }
+
+    const [slots] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM interview_slots
+       WHERE id = ? AND programme_code = ? AND is_cancelled = 0 AND starts_at > NOW()
+       FOR UPDATE`,
+      [params.slotId, interview.programme],
+    );
+    slot = slots[0];
+    if (!slot) {
+      throw new InterviewError('Interview slot not available', 404);
+    }
+
+    const [bookedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS booked FROM application_interviews
+       WHERE slot_id = ? AND status = 'booked' AND id <> ?`,
+      [slot.id, interview.id],
+    );
+    if (Number(bookedRows[0].booked) >= Number(slot.capacity)) {
+      throw new InterviewError('Interview slot is fully booked', 409);
+    }
+
+    await connection.query(
+      `UPDATE application_interviews
+       SET slot_id = ?, status = 'booked', booked_at = NOW()
+       WHERE id = ?`,
+      [slot.id, interview.id],
+    );
+    await connection.commit();
+    applicationId = interview.application_id;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const emailSent = await sendInterviewConfirmation(applicationId, slot);
+  return { slot, emailSent };
+};
+
+const sendInterviewConfirmation = async (
+  applicationId: number,
+  slot: RowDataPacket,
+) => {
+  const contact = await getApplicantContact(applicationId);
+  if (!contact?.email) return false;
+
+  const start = new Date(slot.starts_at);
+  const programmeName = contact.programme_name || contact.programme;
+  const where = [slot.location, slot.meeting_url].filter(Boolean).join(' / ');
+  const ics = buildInterviewIcs({
+    uid: `interview-${contact.reference_number}-${slot.id}@wua.ac.zw`,
+    start,
+    durationMinutes: Number(slot.duration_minutes),
+    summary: `WUA admission interview - ${programmeName}`,
+    description: `Admission interview for application ${contact.reference_number}.`,
+    location: where || null,
+    url: slot.meeting_url,
+  });
+
+  const fullName =
+    `${contact.first_names ?? ''} ${contact.surname ?? ''}`.trim() ||
+    'Applicant';
+  try {
+    await sendApplicantEmail({
+      to: contact.email,
+      subject: 'Interview booking confirmed',
+      text:
+        `Dear ${fullName},\n\n` +
+        `Your interview for ${programmeName} (reference ${contact.reference_number}) is booked for ${start.toUTCString()}` +
+        `${where ? ` at ${where}` : ''}.\n\n` +
+        'A calendar invitation is attached.\n\n' +
+        `Regards,\nWomen's University in Africa`,
+      attachments: [
+        {
+          filename: 'interview.ics',
+          content: ics,
+          contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+        },
+      ],
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sending interview confirmation:', error);
+    return false;
+  }
+};
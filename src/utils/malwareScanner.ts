@@ -0,0 +1,144 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import pool from '../db';
+import { STORAGE_AREAS, getStorage, storageKey } from './fileStorage';
+
+export type ScanResult = {
+  clean: boolean;
+  signature: string | null;
+  scanner: string;
+};
+
+export interface MalwareScanner {
+  readonly name: string;
+  scanFile(filePath: string): Promise<ScanResult>;
+}
+
+const CLAMAV_TIMEOUT_MS = Number(process.env.CLAMAV_TIMEOUT_MS || 30000);
+
+// Accepts every file; used where no scanner is installed (local development)
+export const noopScanner: MalwareScanner = {
+  name: 'none',
+  scanFile: async () => ({ clean: true, signature: null, scanner: 'none' }),
+};
+
+/**
+ * Streams files to clamd with the INSTREAM command, over a unix socket when
+ * `socketPath` is set and TCP otherwise. clamd replies "stream: OK" or
+ * "stream: <signature> FOUND"; anything else is treated as a scan failure.
+ */
+export const createClamAvScanner = (options: {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+}): MalwareScanner => ({
+  name: 'clamav',
+  scanFile: (filePath) =>
+    new Promise<ScanResult>((resolve, reject) => {
+      const socket = options.socketPath
+        ? net.createConnection({ path: options.socketPath })
+        : net.createConnection({
+            host: options.host || '127.0.0.1',
+            port: options.port || 3310,
+          });
+      let reply = '';
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setTimeout(options.timeoutMs ?? CLAMAV_TIMEOUT_MS, () =>
+        fail(new Error('ClamAV scan timed out')),
+      );
+      socket.on('error', fail);
+      socket.on('data', (chunk) => {
+        reply += chunk.toString('utf8');
+      });
+      socket.on('end', () => {
+        const result = reply.replace(/\0/g, '').trim();
+        const found = /^stream: (.+) FOUND$/.exec(result);
+        if (found) {
+          resolve({ clean: false, signature: found[1], scanner: 'clamav' });
+        } else if (result === 'stream: OK') {
+          resolve({ clean: true, signature: null, scanner: 'clamav' });
+        } else {
+          reject(new Error(`ClamAV scan failed: ${result || 'no reply'}`));
+        }
+      });
+
+      socket.on('connect', async () => {
+        try {
+          socket.write('zINSTREAM\0');
+          for await (const chunk of fs.createReadStream(filePath)) {
+            const size = Buffer.alloc(4);
+            size.writeUInt32BE((chunk as Buffer).length, 0);
+            socket.write(size);
+            if (!socket.write(chunk)) {
+              await new Promise((drained) => socket.once('drain', drained));
+            }
+          }
+          socket.end(Buffer.alloc(4));
+        } catch (error) {
+          fail(error as Error);
+        }
+      });
+    }),
+});
+
+let scanner: MalwareScanner | null = null;
+
+// UPLOAD_SCANNER=clamav scans with clamd (CLAMAV_SOCKET, or CLAMAV_HOST/CLAMAV_PORT)
+export const getMalwareScanner = () => {
+  if (!scanner) {
+    scanner =
+      String(process.env.UPLOAD_SCANNER || '').toLowerCase() === 'clamav'
+        ? createClamAvScanner({
+            socketPath: process.env.CLAMAV_SOCKET,
+            host: process.env.CLAMAV_HOST,
+            port: Number(process.env.CLAMAV_PORT) || undefined,
+          })
+        : noopScanner;
+  }
+  return scanner;
+};
+
+/**
+ * Moves an infected upload out of the temp folder into the quarantine area of
+ * storage, where no download route looks, and records why. Returns the
+ * quarantine storage key.
+ */
+export const quarantineUpload = async (params: {
+  filePath: string;
+  originalName: string;
+  fieldName?: string | null;
+  referenceNumber?: string | null;
+  result: ScanResult;
+}) => {
+  const quarantinedKey = storageKey(
+    STORAGE_AREAS.quarantine,
+    path.basename(params.filePath),
+  );
+  await getStorage().putFile(
+    quarantinedKey,
+    params.filePath,
+    'application/octet-stream',
+  );
+  await fs.promises.unlink(params.filePath);
+
+  await pool.query(
+    `INSERT INTO upload_quarantine
+       (original_name, quarantined_path, field_name, reference_number, scanner, signature)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      params.originalName,
+      quarantinedKey,
+      params.fieldName ?? null,
+      params.referenceNumber ?? null,
+      params.result.scanner,
+      params.result.signature,
+    ],
+  );
+  return quarantinedKey;
+};
@@ -39,6 +39,30 @@ export const sendEmailNotification = async (emails: string[], subject: string, t
   }
 };
 
+export type ApplicantEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: nodemailer.SendMailOptions['attachments'];
+};
+
+// Applicant-facing mail goes through the admissions Outlook mailbox, like the offer emails
+export const sendApplicantEmail = async (mail: ApplicantEmail) => {
+  const transporter = nodemailer.createTransport({
+    host: 'smtp-mail.outlook.com',
+    port: 587,
+    secure: false,
+    auth: {
+      user: config.email.user,
+      pass: config.email.pass,
+    },
+    tls: { rejectUnauthorized: false },
+  });
+
+  await transporter.sendMail({ from: config.email.user, ...mail });
+};
+
 export const sendAppNotification = (wss: WebSocketServer, message: string, role: string) => {
   wss.clients.forEach((client) => {
     if (isCustomWebSocket(client) && client.readyState === WebSocket.OPEN && client.userRole === role) {
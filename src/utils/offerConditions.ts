@@ -0,0 +1,215 @@
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+import pool from '../db';
+import { issueOfferLetter, sendOfferEmail } from './admission';
+import {
+  normalizeStatus,
+  transitionApplicationStatus,
+} from './applicationStatus';
+
+export type OfferConditionStatus = 'unmet' | 'met';
+
+export type OfferCondition = RowDataPacket & {
+  id: number;
+  application_id: number;
+  description: string;
+  due_date: string | null;
+  status: OfferConditionStatus;
+  note: string | null;
+  added_by: number | null;
+  created_at: string;
+  met_by: number | null;
+  met_at: string | null;
+};
+
+export type NewOfferCondition = {
+  description: string;
+  dueDate: string | null;
+};
+
+/**
+ * Accepts either plain strings or `{ description, dueDate }` objects. Returns an
+ * error message instead of the list when an entry is unusable.
+ */
+export const parseOfferConditions = (
+  input: unknown,
+): NewOfferCondition[] | string => {
+  if (input == null) return [];
+  if (!Array.isArray(input)) return 'conditions must be an array';
+
+  const conditions: NewOfferCondition[] = [];
+  for (const [index, item] of input.entries()) {
+    const description = String(
+      typeof item === 'string' ? item : item?.description ?? '',
+    ).trim();
+    const dueDate =
+      typeof item === 'object' && item?.dueDate
+        ? String(item.dueDate).trim()
+        : null;
+
+    if (!description || description.length > 500) {
+      return `conditions[${index}] needs a description of at most 500 characters`;
+    }
+    if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+      return `conditions[${index}].dueDate must be YYYY-MM-DD`;
+    }
+    conditions.push({ description, dueDate });
+  }
+  return conditions;
+};
+
+export const addOfferConditions = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  conditions: NewOfferCondition[],
+  addedBy?: number | null,
+) => {
+  if (!conditions.length) return;
+  await db.query(
+    `INSERT INTO offer_conditions (application_id, description, due_date, added_by)
+     VALUES ?`,
+    [
+      conditions.map((condition) => [
+        applicationId,
+        condition.description,
+        condition.dueDate,
+        addedBy ?? null,
+      ]),
+    ],
+  );
+};
+
+export const getOfferConditions = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<OfferCondition[]>(
+    'SELECT * FROM offer_conditions WHERE application_id = ? ORDER BY id ASC',
+    [applicationId],
+  );
+  return rows;
+};
+
+export const summarizeOfferConditions = (conditions: OfferCondition[]) => {
+  const met = conditions.filter((condition) => condition.status === 'met');
+  return {
+    total: conditions.length,
+    met: met.length,
+    unmet: conditions.length - met.length,
+    allMet: conditions.length > 0 && met.length === conditions.length,
+  };
+};
+
+/**
+ * Ticks a condition off (or back on). When the last outstanding condition is met
+ * the offer becomes unconditional, once: this is recorded in unconditional_offers,
+ * apart from the applicant's own response, and a fresh unconditional offer letter
+ * is generated and emailed. A conditional offer also moves to `accepted`; one the
+ * applicant has already accepted stays `offer_accepted`.
+ */
+export const setOfferConditionStatus = async (params: {
+  applicationId: number;
+  conditionId: number;
+  status: OfferConditionStatus;
+  note?: string | null;
+  actorId?: number | null;
+}) => {
+  const connection = await pool.getConnection();
+  let madeUnconditional = false;
+  let application: RowDataPacket;
+  try {
+    await connection.beginTransaction();
+
+    const [appRows] = await connection.query<RowDataPacket[]>(
+      'SELECT id, reference_number, accepted_status, student_number FROM applications WHERE id = ? FOR UPDATE',
+      [params.applicationId],
+    );
+    application = appRows[0];
+
+    const [result] = await connection.query<ResultSetHeader>(
+      `UPDATE offer_conditions
+       SET status = ?, note = ?, met_by = ?, met_at = ?
+       WHERE id = ? AND application_id = ?`,
+      [
+        params.status,
+        params.note ?? null,
+        params.status === 'met' ? params.actorId ?? null : null,
+        params.status === 'met' ? new Date() : null,
+        params.conditionId,
+        params.applicationId,
+      ],
+    );
+    if (!result.affectedRows) {
+      await connection.rollback();
+      return null;
+    }
+
+    const conditions = await getOfferConditions(
+      connection,
+      params.applicationId,
+    );
+    const summary = summarizeOfferConditions(conditions);
+    const status = normalizeStatus(application.accepted_status);
+
+    if (
+      summary.allMet &&
+      (status === 'conditionally_accepted' || status === 'offer_accepted')
+    ) {
+      const [recorded] = await connection.query<ResultSetHeader>(
+        'INSERT IGNORE INTO unconditional_offers (application_id, confirmed_by) VALUES (?, ?)',
+        [params.applicationId, params.actorId ?? null],
+      );
+      madeUnconditional = recorded.affectedRows > 0;
+      if (madeUnconditional && status === 'conditionally_accepted') {
+        await transitionApplicationStatus(connection, {
+          applicationId: params.applicationId,
+          toStatus: 'accepted',
+          actorId: params.actorId,
+          reason: 'All offer conditions met',
+        });
+      }
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  let letterGenerated = false;
+  let emailSent = false;
+  if (madeUnconditional && application.student_number) {
+    let letter: Awaited<ReturnType<typeof issueOfferLetter>> | null = null;
+    try {
+      letter = await issueOfferLetter({
+        applicationId: params.applicationId,
+        referenceNumber: application.reference_number,
+        studentNumber: application.student_number,
+        generatedBy: params.actorId,
+      });
+      letterGenerated = true;
+    } catch (letterError) {
+      console.error('Offer letter generation failed:', letterError);
+    }
+    emailSent = await sendOfferEmail({
+      referenceNumber: application.reference_number,
+      studentNumber: application.student_number,
+      letter,
+    });
+  }
+
+  const conditions = await getOfferConditions(pool, params.applicationId);
+  return {
+    conditions,
+    summary: summarizeOfferConditions(conditions),
+    madeUnconditional,
+    letterGenerated,
+    emailSent,
+  };
+};
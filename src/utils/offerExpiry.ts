@@ -0,0 +1,100 @@
+import schedule from 'node-schedule';
+import { RowDataPacket } from 'mysql2/promise';
+import pool from '../db';
+import {
+  StatusTransitionError,
+  transitionApplicationStatus,
+} from './applicationStatus';
+import { releaseSeat } from './waitlist';
+
+// Minimum time an applicant has to answer, counted from when the offer was issued
+const OFFER_EXPIRY_DAYS = Number(process.env.OFFER_EXPIRY_DAYS || 30);
+const OFFER_EXPIRY_CRON = process.env.OFFER_EXPIRY_CRON || '0 2 * * *';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getSettingsExpiryDate = async () => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT offer_valid_until_date
+     FROM offer_letter_settings
+     WHERE is_active = 1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+  );
+  const value = rows[0]?.offer_valid_until_date;
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Declines offers the applicant never answered once they are past their validity
+ * and hands each freed seat to the waitlist. An offer is valid until the later
+ * of the active settings' "valid until" date and OFFER_EXPIRY_DAYS after it
+ * was issued.
+ */
+export const expireUnansweredOffers = async (now = new Date()) => {
+  const settingsExpiry = await getSettingsExpiryDate();
+
+  const [offers] = await pool.query<RowDataPacket[]>(
+    `SELECT a.id AS application_id, a.reference_number, ol.created_at
+     FROM applications a
+     JOIN offer_letters ol ON ol.application_id = a.id AND ol.latest = 1
+     LEFT JOIN offer_letter_responses r ON r.offer_letter_id = ol.id
+     WHERE a.accepted_status IN ('accepted', 'conditionally_accepted')
+       AND r.id IS NULL`,
+  );
+
+  const expired: string[] = [];
+  for (const offer of offers) {
+    // The settings date is shared by every offer, so an offer issued after it
+    // still gets the full OFFER_EXPIRY_DAYS to answer
+    const issuedExpiry = new Date(
+      new Date(offer.created_at).getTime() + OFFER_EXPIRY_DAYS * DAY_MS,
+    );
+    const expiresAt =
+      settingsExpiry && settingsExpiry > issuedExpiry
+        ? settingsExpiry
+        : issuedExpiry;
+    if (expiresAt > now) continue;
+
+    try {
+      const result = await transitionApplicationStatus(pool, {
+        applicationId: offer.application_id,
+        toStatus: 'offer_declined',
+        actorType: 'system',
+        reason: `Offer expired on ${expiresAt.toISOString().slice(0, 10)} without a response`,
+      });
+      if (!result.changed) continue;
+      expired.push(offer.reference_number);
+
+      await releaseSeat({
+        applicationId: offer.application_id,
+        trigger: 'expired',
+      });
+    } catch (error) {
+      if (!(error instanceof StatusTransitionError)) {
+        console.error(
+          `Error expiring offer for ${offer.reference_number}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  return expired;
+};
+
+export const scheduleOfferExpiry = () =>
+  schedule.scheduleJob(OFFER_EXPIRY_CRON, async () => {
+    try {
+      const expired = await expireUnansweredOffers();
+      if (expired.length) {
+        console.log(
+          `Expired ${expired.length} unanswered offer(s): ${expired.join(', ')}`,
+        );
+      }
+    } catch (error) {
+      console.error('Offer expiry job failed:', error);
+    }
+  });
@@ -2,6 +2,8 @@
 import path from 'path';
 import PDFDocument from 'pdfkit';
 import QRCode from 'qrcode';
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { STORAGE_AREAS, getStorage, storageKey, toStorageKey } from './fileStorage';
 
 export type OfferLetterData = {
   referenceNumber: string;
@@ -32,12 +34,9 @@ export type OfferLetterData = {
   residentialAddress?: string | null;
   signatureName?: string | null;
   signatureTitle?: string | null;
-  signatureFilePath?: string | null;
+  signatureImage?: Buffer | null;
   logoFilePath?: string | null;
-};
-
-const ensureDir = (dir: string) => {
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  conditions?: { description: string; dueDate?: string | null }[] | null;
 };
 
 const fmtMoney = (value: string | number | null | undefined) => {
@@ -48,6 +47,7 @@ const fmtMoney = (value: string | number | null | undefined) => {
 };
 
 const boldHeadings = new Set([
+  'Conditions of Offer',
   'Fees',
   'Registration',
   'Orientation',
@@ -59,11 +59,12 @@ const boldHeadings = new Set([
   'Completion',
 ]);
 
-const renderTemplateSection = (
+export const renderTemplateSection = (
   doc: PDFKit.PDFDocument,
   text: string,
   pageWidth: number,
   lineGap: number,
+  headings: Set<string> = boldHeadings,
 ) => {
   const lines = text.split(/\r?\n/);
 
@@ -75,23 +76,66 @@ const renderTemplateSection = (
       return;
     }
 
-    doc.font(boldHeadings.has(trimmed) ? 'Times-Bold' : 'Times-Roman');
+    doc.font(headings.has(trimmed) ? 'Times-Bold' : 'Times-Roman');
     doc.text(trimmed, { width: pageWidth, lineGap });
   });
 };
 
-export const generateOfferLetter = async (data: OfferLetterData) => {
-  const outputDir = path.join(process.cwd(), 'uploads', 'offer-letters');
-  ensureDir(outputDir);
+export type LetterSignatory = {
+  signatureName: string;
+  signatureTitle: string;
+  signatureImage: Buffer | null;
+  logoFilePath: string;
+};
 
-  const fileName = `${data.referenceNumber}-${data.studentNumber}.pdf`;
-  const filePath = path.join(outputDir, fileName);
-  const publicPath = `/uploads/offer-letters/${fileName}`;
+const SIGNATORY_ROLE = 'Deputy Registrar (Academic Affairs)';
+
+// A missing or unreadable signature image just leaves the letter unsigned
+const loadSignatureImage = async (filePath: string | null | undefined) => {
+  const key = toStorageKey(filePath);
+  if (!key) return null;
+  try {
+    return await getStorage().get(key);
+  } catch (error) {
+    console.error('Error loading signature image:', error);
+    return null;
+  }
+};
 
-  const verificationCode = data.verificationCode ?? null;
-  const baseVerifyUrl = process.env.OFFER_LETTER_VERIFY_URL_BASE;
-  const verificationUrl =
-    data.verificationUrl ??
+// Active signature of the Deputy Registrar (Academic Affairs) plus the university logo
+export const loadLetterSignatory = async (db: Pool | PoolConnection): Promise<LetterSignatory> => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT name, title, file_path
+     FROM signatures
+     WHERE role = ? AND is_active = 1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [SIGNATORY_ROLE],
+  );
+  const signature = rows[0];
+
+  return {
+    signatureName: signature?.name ?? 'M. Chirongoma – Munyoro (Mrs)',
+    signatureTitle: signature?.title ?? SIGNATORY_ROLE,
+    signatureImage: await loadSignatureImage(signature?.file_path),
+    logoFilePath: path.join(process.cwd(), 'src', 'uploads', 'wua-logo.png'),
+  };
+};
+
+export type LetterVerification = {
+  verificationCode: string | null;
+  verificationUrl: string | null;
+  qrBuffer: Buffer | null;
+};
+
+// `baseVerifyUrl` is the page that checks the code; regret letters pass their own
+export const buildLetterVerification = async (
+  verificationCode: string | null,
+  verificationUrl?: string | null,
+  baseVerifyUrl: string | null | undefined = process.env.OFFER_LETTER_VERIFY_URL_BASE,
+): Promise<LetterVerification> => {
+  const url =
+    verificationUrl ??
     (verificationCode && baseVerifyUrl
       ? `${baseVerifyUrl.replace(/\/$/, '')}${baseVerifyUrl.includes('?') ? '&' : '?'}code=${encodeURIComponent(
           verificationCode
@@ -99,27 +143,116 @@ export const generateOfferLetter = async (data: OfferLetterData) => {
       : null);
 
   let qrBuffer: Buffer | null = null;
-  const qrPayload = verificationUrl || verificationCode;
+  const qrPayload = url || verificationCode;
   if (qrPayload) {
     try {
       qrBuffer = await QRCode.toBuffer(qrPayload, { type: 'png', width: 120, margin: 1 });
     } catch (error) {
-      console.warn('Failed to generate QR code for offer letter:', error);
+      console.warn('Failed to generate QR code for letter:', error);
     }
   }
 
-  const doc = new PDFDocument({ size: 'A4', margin: 50 });
-  const stream = fs.createWriteStream(filePath);
+  return { verificationCode, verificationUrl: url, qrBuffer };
+};
 
-  const fullName = `${data.title ? data.title + ' ' : ''}${data.firstNames ?? ''} ${data.surname ?? ''}`.trim();
-  const programmeName = data.programmeName ?? 'the programme';
-  const year = data.yearOfCommencement ?? new Date().getFullYear().toString();
+// University header, logo, address block, date and the recipient's address
+export const renderLetterhead = (
+  doc: PDFKit.PDFDocument,
+  params: { logoFilePath?: string | null; residentialAddress?: string | null },
+) => {
   const today = new Date();
   const day = String(today.getDate()).padStart(2, '0');
   const month = String(today.getMonth() + 1).padStart(2, '0');
   const yearNum = String(today.getFullYear()).slice(-2);
   const dateShort = `${day}/${month}/${yearNum}`;
 
+  doc.font('Times-Bold').fontSize(14).text("WOMEN'S UNIVERSITY", { align: 'left' });
+  doc.fontSize(14).text('IN AFRICA', { align: 'left' });
+
+  if (params.logoFilePath && fs.existsSync(params.logoFilePath)) {
+    doc.moveDown(0.2);
+    doc.image(params.logoFilePath, doc.page.margins.left, doc.y, { width: 65 });
+    doc.moveDown(0.4);
+  }
+
+  doc.moveDown(0.5);
+  doc.font('Times-Roman').fontSize(10);
+  doc.text('549 Arcturus Road', { align: 'left' });
+  doc.text('Manressa', { align: 'left' });
+  doc.text('Harare, Zimbabwe', { align: 'right' });
+  doc.text('Tel. 263-4-2459601/08688002924', { align: 'right' });
+
+  doc.moveDown(1.2);
+  doc.fontSize(11).text(dateShort, { align: 'left' });
+
+  if (params.residentialAddress) {
+    doc.moveDown(0.4);
+    doc.fontSize(11).text(params.residentialAddress, { align: 'left' });
+  }
+};
+
+export const renderSignature = (
+  doc: PDFKit.PDFDocument,
+  params: {
+    signatureImage?: Buffer | null;
+    signatureName?: string | null;
+    signatureTitle?: string | null;
+  },
+) => {
+  doc.moveDown(1.2);
+  if (params.signatureImage) {
+    doc.moveDown(0.2);
+    doc.image(params.signatureImage, doc.x, doc.y, { width: 120 });
+    doc.moveDown(0.6);
+  }
+
+  doc.font('Times-Bold').text(params.signatureName ?? 'M. Chirongoma – Munyoro (Mrs)');
+  doc.font('Times-Roman').text(params.signatureTitle ?? 'Deputy Registrar (Academic Affairs)');
+};
+
+export const renderVerificationBlock = (
+  doc: PDFKit.PDFDocument,
+  heading: string,
+  verification: LetterVerification,
+) => {
+  if (!verification.verificationCode) return;
+
+  doc.moveDown(1);
+  doc.font('Times-Bold').fontSize(10).text(heading, { align: 'left' });
+  doc.font('Times-Roman').fontSize(9).text(`Verification Code: ${verification.verificationCode}`, { align: 'left' });
+  if (verification.verificationUrl) {
+    doc.fontSize(8).text(`Verify at: ${verification.verificationUrl}`, { align: 'left' });
+  }
+  if (verification.qrBuffer) {
+    doc.moveDown(0.4);
+    doc.image(verification.qrBuffer, doc.page.margins.left, doc.y, { width: 90 });
+  }
+};
+
+// Ends the document and resolves with the whole PDF once pdfkit has flushed it
+export const finishPdf = (doc: PDFKit.PDFDocument) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', (err) => reject(err));
+    doc.end();
+  });
+
+export const generateOfferLetter = async (data: OfferLetterData) => {
+  const fileName = `${data.referenceNumber}-${data.studentNumber}.pdf`;
+
+  const verification = await buildLetterVerification(
+    data.verificationCode ?? null,
+    data.verificationUrl,
+  );
+
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+
+  const fullName = `${data.title ? data.title + ' ' : ''}${data.firstNames ?? ''} ${data.surname ?? ''}`.trim();
+  const programmeName = data.programmeName ?? 'the programme';
+  const year = data.yearOfCommencement ?? new Date().getFullYear().toString();
+
   const downPayment = data.downPayment ?? 250;
 
   const templatePath = path.join(process.cwd(), 'src', 'templates', 'offer-letter.txt');
@@ -128,7 +261,21 @@ export const generateOfferLetter = async (data: OfferLetterData) => {
     bodyTemplate = fs.readFileSync(templatePath, 'utf8');
   }
 
+  // Empty for unconditional offers so the placeholder line collapses to a blank line
+  const conditionsSection = data.conditions?.length
+    ? [
+        'Conditions of Offer',
+        'This offer is conditional. It becomes unconditional once the University has confirmed that you meet each of the following:',
+        ...data.conditions.map(
+          (condition, index) =>
+            `${index + 1}. ${condition.description}${condition.dueDate ? ` (by ${condition.dueDate})` : ''}`,
+        ),
+        '',
+      ].join('\n')
+    : '';
+
   const bodyText = (bodyTemplate || '')
+    .replace(/{{conditionsSection}}/g, conditionsSection)
     .replace(/{{fullName}}/g, fullName || 'Applicant')
     .replace(/{{programmeName}}/g, programmeName)
     .replace(/{{programmeDuration}}/g, data.programmeDuration ?? '')
@@ -151,32 +298,8 @@ export const generateOfferLetter = async (data: OfferLetterData) => {
   const lineGap = 6;
   const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
 
-  doc.pipe(stream);
-
   // Header with logo (left, below title) and address (left/right)
-  doc.font('Times-Bold').fontSize(14).text("WOMEN'S UNIVERSITY", { align: 'left' });
-  doc.fontSize(14).text('IN AFRICA', { align: 'left' });
-
-  if (data.logoFilePath && fs.existsSync(data.logoFilePath)) {
-    doc.moveDown(0.2);
-    doc.image(data.logoFilePath, doc.page.margins.left, doc.y, { width: 65 });
-    doc.moveDown(0.4);
-  }
-
-  doc.moveDown(0.5);
-  doc.font('Times-Roman').fontSize(10);
-  doc.text('549 Arcturus Road', { align: 'left' });
-  doc.text('Manressa', { align: 'left' });
-  doc.text('Harare, Zimbabwe', { align: 'right' });
-  doc.text('Tel. 263-4-2459601/08688002924', { align: 'right' });
-
-  doc.moveDown(1.2);
-  doc.fontSize(11).text(dateShort, { align: 'left' });
-
-  if (data.residentialAddress) {
-    doc.moveDown(0.4);
-    doc.fontSize(11).text(data.residentialAddress, { align: 'left' });
-  }
+  renderLetterhead(doc, data);
 
   doc.moveDown(1);
   doc.font('Times-Roman').fontSize(12);
@@ -249,15 +372,7 @@ export const generateOfferLetter = async (data: OfferLetterData) => {
     }
   }
 
-  doc.moveDown(1.2);
-  if (data.signatureFilePath && fs.existsSync(data.signatureFilePath)) {
-    doc.moveDown(0.2);
-    doc.image(data.signatureFilePath, doc.x, doc.y, { width: 120 });
-    doc.moveDown(0.6);
-  }
-
-  doc.font('Times-Bold').text(data.signatureName ?? 'M. Chirongoma – Munyoro (Mrs)');
-  doc.font('Times-Roman').text(data.signatureTitle ?? 'Deputy Registrar (Academic Affairs)');
+  renderSignature(doc, data);
 
   doc.moveDown(1);
   doc.text('I accept / do not accept this offer:');
@@ -266,26 +381,12 @@ export const generateOfferLetter = async (data: OfferLetterData) => {
   doc.moveDown(0.6);
   doc.text('Date: ________________________________');
 
-  if (verificationCode) {
-    doc.moveDown(1);
-    doc.font('Times-Bold').fontSize(10).text('Offer Letter Verification', { align: 'left' });
-    doc.font('Times-Roman').fontSize(9).text(`Verification Code: ${verificationCode}`, { align: 'left' });
-    if (verificationUrl) {
-      doc.fontSize(8).text(`Verify at: ${verificationUrl}`, { align: 'left' });
-    }
-    if (qrBuffer) {
-      doc.moveDown(0.4);
-      doc.image(qrBuffer, doc.page.margins.left, doc.y, { width: 90 });
-    }
-  }
-
-  doc.end();
+  renderVerificationBlock(doc, 'Offer Letter Verification', verification);
 
-  await new Promise<void>((resolve, reject) => {
-    stream.on('finish', () => resolve());
-    stream.on('error', (err) => reject(err));
-  });
+  const content = await finishPdf(doc);
+  const key = storageKey(STORAGE_AREAS.offerLetters, fileName);
+  await getStorage().put(key, content, 'application/pdf');
 
-  return { filePath, publicPath, fileName };
+  return { storageKey: key, fileName, content };
 };
 
@@ -0,0 +1,151 @@
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+
+export const MAX_PROGRAMME_CHOICES = 3;
+
+export const CHOICE_DECISIONS = ['pending', 'approved', 'rejected'] as const;
+export type ChoiceDecision = (typeof CHOICE_DECISIONS)[number];
+
+export type ProgrammeChoice = RowDataPacket & {
+  id: number;
+  application_id: number;
+  preference: number;
+  programme: string;
+  programme_name: string | null;
+  decision: ChoiceDecision;
+  decision_note: string | null;
+  decided_by: number | null;
+  decided_at: string | null;
+  granted: 0 | 1;
+};
+
+export const isChoiceDecision = (value: unknown): value is ChoiceDecision =>
+  typeof value === 'string' &&
+  (CHOICE_DECISIONS as readonly string[]).includes(value);
+
+/**
+ * Reads the ranked list of programme codes (first = most preferred). Returns an
+ * error message instead of the list when it is unusable.
+ */
+export const parseProgrammeChoices = (input: unknown): string[] | string => {
+  if (!Array.isArray(input)) return 'programmeChoices must be an array';
+  const codes = input.map((item) => String(item ?? '').trim());
+  if (!codes.length) return 'At least one programme choice is required';
+  if (codes.some((code) => !code || code.length > 50)) {
+    return 'programmeChoices must list programme codes';
+  }
+  if (codes.length > MAX_PROGRAMME_CHOICES) {
+    return `At most ${MAX_PROGRAMME_CHOICES} programme choices are allowed`;
+  }
+  if (new Set(codes).size !== codes.length) {
+    return 'Each programme can only be chosen once';
+  }
+  return codes;
+};
+
+// Replaces the applicant's choices; applications.programme keeps mirroring the first choice
+export const saveProgrammeChoices = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  codes: string[],
+) => {
+  await db.query(
+    'DELETE FROM application_programme_choices WHERE application_id = ?',
+    [applicationId],
+  );
+  if (!codes.length) return;
+  await db.query(
+    'INSERT INTO application_programme_choices (application_id, preference, programme) VALUES ?',
+    [codes.map((code, index) => [applicationId, index + 1, code])],
+  );
+  await db.query('UPDATE applications SET programme = ? WHERE id = ?', [
+    codes[0],
+    applicationId,
+  ]);
+};
+
+export const getProgrammeChoices = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<ProgrammeChoice[]>(
+    `SELECT c.*, dp.name AS programme_name
+     FROM application_programme_choices c
+     LEFT JOIN department_programme dp ON dp.code = c.programme
+     WHERE c.application_id = ?
+     ORDER BY c.preference ASC`,
+    [applicationId],
+  );
+  return rows;
+};
+
+/**
+ * Applications created before ranked choices existed only have
+ * `applications.programme`; it becomes their first (and only) choice.
+ */
+export const ensureProgrammeChoices = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  programme: string | null | undefined,
+) => {
+  const choices = await getProgrammeChoices(db, applicationId);
+  if (choices.length || !programme) return choices;
+  await saveProgrammeChoices(db, applicationId, [programme]);
+  return getProgrammeChoices(db, applicationId);
+};
+
+export const setChoiceDecision = async (
+  db: Pool | PoolConnection,
+  params: {
+    applicationId: number;
+    preference: number;
+    decision: ChoiceDecision;
+    note?: string | null;
+    actorId?: number | null;
+  },
+) => {
+  const pending = params.decision === 'pending';
+  const [result] = await db.query<ResultSetHeader>(
+    `UPDATE application_programme_choices
+     SET decision = ?, decision_note = ?, decided_by = ?, decided_at = ?
+     WHERE application_id = ? AND preference = ?`,
+    [
+      params.decision,
+      params.note ?? null,
+      pending ? null : params.actorId ?? null,
+      pending ? null : new Date(),
+      params.applicationId,
+      params.preference,
+    ],
+  );
+  return result.affectedRows > 0;
+};
+
+// Highest-ranked choice the reviewers approved, if any
+export const pickApprovedChoice = (choices: ProgrammeChoice[]) =>
+  choices.find((choice) => choice.decision === 'approved') ?? null;
+
+/**
+ * Marks which preference the offer was made for. A placement outside the
+ * applicant's choices leaves every choice ungranted. Returns the granted
+ * preference number, or null.
+ */
+export const recordGrantedChoice = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+  programme: string,
+) => {
+  await db.query(
+    'UPDATE application_programme_choices SET granted = (programme = ?) WHERE application_id = ?',
+    [programme, applicationId],
+  );
+  const [rows] = await db.query<RowDataPacket[]>(
+    'SELECT preference FROM application_programme_choices WHERE application_id = ? AND granted = 1',
+    [applicationId],
+  );
+  return rows[0] ? Number(rows[0].preference) : null;
+};
@@ -0,0 +1,420 @@
+import schedule from 'node-schedule';
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../db';
+import { isPostgraduateProgramType } from './applicationDocuments';
+import { sendApplicantEmail } from './notification';
+
+export const REQUIRED_REFEREES = Number(process.env.REQUIRED_REFEREES || 2);
+export const MAX_REFEREES = 3;
+
+const REFEREE_LINK_TTL_DAYS = Number(process.env.REFEREE_LINK_TTL_DAYS || 30);
+const REFEREE_REMINDER_DAYS = Number(process.env.REFEREE_REMINDER_DAYS || 7);
+const REFEREE_MAX_REMINDERS = Number(process.env.REFEREE_MAX_REMINDERS || 3);
+const REFEREE_REMINDER_CRON = process.env.REFEREE_REMINDER_CRON || '0 8 * * *';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REFERENCE_RECOMMENDATIONS = [
+  'strongly_recommend',
+  'recommend',
+  'recommend_with_reservations',
+  'do_not_recommend',
+] as const;
+export type ReferenceRecommendation =
+  (typeof REFERENCE_RECOMMENDATIONS)[number];
+
+export type RefereeInput = {
+  name: string;
+  email: string;
+  institution: string;
+  relationship: string;
+};
+
+export type ReferenceForm = {
+  knownSince: string;
+  capacity: string;
+  strengths: string;
+  concerns: string | null;
+  recommendation: ReferenceRecommendation;
+  comments: string | null;
+};
+
+export class RefereeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'RefereeError';
+  }
+}
+
+// Letters of reference are collected for postgraduate and PhD applications only
+export const requiresReferees = (programType: unknown) =>
+  isPostgraduateProgramType(programType);
+
+const normalizeEmail = (value: unknown) =>
+  String(value ?? '')
+    .trim()
+    .toLowerCase();
+
+const text = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Reads the short reference form a referee can fill in instead of uploading a
+ * letter. Returns an error message instead of the form when it is unusable.
+ */
+export const parseReferenceForm = (
+  body: Record<string, unknown>,
+): ReferenceForm | string => {
+  const knownSince = text(body.knownSince);
+  const capacity = text(body.capacity);
+  const strengths = text(body.strengths);
+  const recommendation = text(body.recommendation);
+  if (!knownSince || !capacity || !strengths || !recommendation) {
+    return 'knownSince, capacity, strengths and recommendation are required';
+  }
+  if (
+    !(REFERENCE_RECOMMENDATIONS as readonly string[]).includes(recommendation)
+  ) {
+    return `recommendation must be one of ${REFERENCE_RECOMMENDATIONS.join(', ')}`;
+  }
+  const tooLong = [strengths, text(body.concerns), text(body.comments)].some(
+    (value) => value && value.length > 4000,
+  );
+  if (tooLong || knownSince.length > 100 || capacity.length > 200) {
+    return 'One or more answers are too long';
+  }
+  return {
+    knownSince,
+    capacity,
+    strengths,
+    concerns: text(body.concerns),
+    recommendation: recommendation as ReferenceRecommendation,
+    comments: text(body.comments),
+  };
+};
+
+export const buildRefereeLink = (token: string) => {
+  const base = process.env.REFEREE_UPLOAD_URL_BASE;
+  return base
+    ? `${base.replace(/\/$/, '')}${base.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`
+    : `/api/v1/referees/${encodeURIComponent(token)}`;
+};
+
+// Referee rows as shown to staff and the applicant; the upload token never leaves the server
+export const getReferees = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+) => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT id, name, email, institution, relationship, status, invited_at,
+            token_expires_at, reminder_count, last_reminded_at, submitted_at,
+            letter_file_name, form_responses
+     FROM application_referees
+     WHERE application_id = ?
+     ORDER BY id ASC`,
+    [applicationId],
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    institution: row.institution,
+    relationship: row.relationship,
+    status: row.status,
+    invitedAt: row.invited_at,
+    linkExpiresAt: row.status === 'submitted' ? null : row.token_expires_at,
+    remindersSent: Number(row.reminder_count),
+    lastRemindedAt: row.last_reminded_at,
+    submittedAt: row.submitted_at,
+    submittedAs: row.letter_file_name
+      ? 'letter'
+      : row.form_responses
+        ? 'form'
+        : null,
+  }));
+};
+
+/**
+ * Replaces the applicant's referee list. Referees who already sent their
+ * reference are always kept; the others are matched on email so an edited
+ * name or institution keeps its upload link, and anyone left off the new list
+ * is removed (their link stops working).
+ */
+export const saveReferees = async (
+  applicationId: number,
+  referees: RefereeInput[],
+) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [existing] = await connection.query<RowDataPacket[]>(
+      'SELECT id, email, status FROM application_referees WHERE application_id = ? FOR UPDATE',
+      [applicationId],
+    );
+    const byEmail = new Map(
+      existing.map((row) => [normalizeEmail(row.email), row]),
+    );
+    const wanted = new Set(referees.map((ref) => normalizeEmail(ref.email)));
+    if (wanted.size !== referees.length) {
+      throw new RefereeError(
+        'Each referee must have a different email address',
+        422,
+      );
+    }
+    const submitted = existing.filter((row) => row.status === 'submitted');
+    const kept = new Set([
+      ...submitted.map((row) => normalizeEmail(row.email)),
+      ...wanted,
+    ]);
+    if (kept.size > MAX_REFEREES) {
+      throw new RefereeError(
+        `At most ${MAX_REFEREES} referees are allowed, including those who have already responded`,
+        422,
+      );
+    }
+
+    const removed = existing.filter(
+      (row) =>
+        row.status !== 'submitted' && !wanted.has(normalizeEmail(row.email)),
+    );
+    if (removed.length) {
+      await connection.query(
+        'DELETE FROM application_referees WHERE id IN (?)',
+        [removed.map((row) => row.id)],
+      );
+    }
+
+    for (const referee of referees) {
+      const email = normalizeEmail(referee.email);
+      const current = byEmail.get(email);
+      if (current?.status === 'submitted') continue;
+      const values = {
+        name: referee.name.trim(),
+        email,
+        institution: referee.institution.trim(),
+        relationship: referee.relationship.trim(),
+      };
+      if (current) {
+        await connection.query(
+          'UPDATE application_referees SET ? WHERE id = ?',
+          [values, current.id],
+        );
+      } else {
+        await connection.query('INSERT INTO application_referees SET ?', [
+          { ...values, application_id: applicationId },
+        ]);
+      }
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+const getApplicantContact = async (applicationId: number) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT a.reference_number, a.program_type, pd.first_names, pd.surname,
+            dp.name AS programme_name, a.programme
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     LEFT JOIN department_programme dp ON dp.code = a.programme
+     WHERE a.id = ?`,
+    [applicationId],
+  );
+  return rows[0];
+};
+
+const sendRefereeEmail = async (
+  referee: RowDataPacket,
+  contact: RowDataPacket | undefined,
+  reminder: boolean,
+) => {
+  const applicantName =
+    `${contact?.first_names ?? ''} ${contact?.surname ?? ''}`.trim() ||
+    'An applicant';
+  const programme =
+    contact?.programme_name || contact?.programme || 'a postgraduate programme';
+  const link = buildRefereeLink(referee.upload_token);
+  const expires = new Date(referee.token_expires_at).toDateString();
+
+  try {
+    await sendApplicantEmail({
+      to: referee.email,
+      subject: reminder
+        ? `Reminder: reference requested for ${applicantName}`
+        : `Reference requested for ${applicantName}`,
+      text:
+        `Dear ${referee.name},\n\n` +
+        (reminder
+          ? `This is a reminder that we have not yet received your reference for ${applicantName}.\n\n`
+          : `${applicantName} has applied for ${programme} at Women's University in Africa and named you as a referee (${referee.relationship}).\n\n`) +
+        `You can upload a reference letter or complete a short reference form at:\n${link}\n\n` +
+        `The link can be used once and expires on ${expires}.\n\n` +
+        `Regards,\nWomen's University in Africa`,
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error emailing referee ${referee.id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Emails an upload link to every referee who has not been invited yet. Passing
+ * refereeId re-sends one referee's invitation, with a fresh link if the old one
+ * has expired.
+ */
+export const inviteReferees = async (
+  applicationId: number,
+  refereeId?: number,
+) => {
+  const [referees] = await pool.query<RowDataPacket[]>(
+    refereeId
+      ? "SELECT * FROM application_referees WHERE application_id = ? AND id = ? AND status <> 'submitted'"
+      : "SELECT * FROM application_referees WHERE application_id = ? AND status = 'pending'",
+    refereeId ? [applicationId, refereeId] : [applicationId],
+  );
+  if (!referees.length) return { invited: 0, emailed: 0 };
+
+  const contact = await getApplicantContact(applicationId);
+  const now = new Date();
+  let emailed = 0;
+  for (const referee of referees) {
+    const expired =
+      !referee.upload_token ||
+      !referee.token_expires_at ||
+      new Date(referee.token_expires_at) <= now;
+    if (expired) {
+      referee.upload_token = uuidv4();
+      referee.token_expires_at = new Date(
+        now.getTime() + REFEREE_LINK_TTL_DAYS * DAY_MS,
+      );
+    }
+    await pool.query(
+      `UPDATE application_referees
+       SET upload_token = ?, token_expires_at = ?, status = 'invited', invited_at = ?
+       WHERE id = ?`,
+      [referee.upload_token, referee.token_expires_at, now, referee.id],
+    );
+    if (await sendRefereeEmail(referee, contact, false)) emailed += 1;
+  }
+  return { invited: referees.length, emailed };
+};
+
+/**
+ * Looks up an open invitation by its upload link token, with the applicant
+ * details the referee needs to see. Used links and expired links return null.
+ */
+export const findRefereeInvitation = async (token: string) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT r.id, r.application_id, r.name, r.institution, r.relationship,
+            r.token_expires_at, a.reference_number, pd.first_names, pd.surname,
+            dp.name AS programme_name, a.programme
+     FROM application_referees r
+     JOIN applications a ON a.id = r.application_id
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     LEFT JOIN department_programme dp ON dp.code = a.programme
+     WHERE r.upload_token = ? AND r.status = 'invited' AND r.token_expires_at > NOW()`,
+    [token],
+  );
+  return rows[0] ?? null;
+};
+
+/**
+ * Stores a reference against the invitation and burns the upload link, so it
+ * cannot be used a second time.
+ */
+export const submitReference = async (params: {
+  token: string;
+  letter?: { fileName: string; storageKey: string } | null;
+  form?: ReferenceForm | null;
+}) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT id, application_id FROM application_referees
+       WHERE upload_token = ? AND status = 'invited' AND token_expires_at > NOW()
+       FOR UPDATE`,
+      [params.token],
+    );
+    const referee = rows[0];
+    if (!referee) {
+      throw new RefereeError(
+        'This reference link is invalid, has expired or has already been used',
+        404,
+      );
+    }
+
+    await connection.query(
+      `UPDATE application_referees
+       SET status = 'submitted', submitted_at = NOW(), upload_token = NULL,
+           letter_file_name = ?, letter_file_path = ?, form_responses = ?
+       WHERE id = ?`,
+      [
+        params.letter?.fileName ?? null,
+        params.letter?.storageKey ?? null,
+        params.form ? JSON.stringify(params.form) : null,
+        referee.id,
+      ],
+    );
+    await connection.commit();
+    return { refereeId: referee.id, applicationId: referee.application_id };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Re-sends the upload link to referees who have not responded within
+ * REFEREE_REMINDER_DAYS of the invitation or the previous reminder, up to
+ * REFEREE_MAX_REMINDERS times. Expired links are left for staff to re-issue.
+ */
+export const sendRefereeReminders = async (now = new Date()) => {
+  const cutoff = new Date(now.getTime() - REFEREE_REMINDER_DAYS * DAY_MS);
+  const [referees] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM application_referees
+     WHERE status = 'invited' AND token_expires_at > ?
+       AND reminder_count < ?
+       AND COALESCE(last_reminded_at, invited_at) <= ?`,
+    [now, REFEREE_MAX_REMINDERS, cutoff],
+  );
+
+  let reminded = 0;
+  for (const referee of referees) {
+    const contact = await getApplicantContact(referee.application_id);
+    if (!(await sendRefereeEmail(referee, contact, true))) continue;
+    await pool.query(
+      `UPDATE application_referees
+       SET reminder_count = reminder_count + 1, last_reminded_at = ?
+       WHERE id = ?`,
+      [now, referee.id],
+    );
+    reminded += 1;
+  }
+  return reminded;
+};
+
+export const scheduleRefereeReminders = () =>
+  schedule.scheduleJob(REFEREE_REMINDER_CRON, async () => {
+    try {
+      const reminded = await sendRefereeReminders();
+      if (reminded) {
+        console.log(`Sent ${reminded} referee reminder(s)`);
+      }
+    } catch (error) {
+      console.error('Referee reminder job failed:', error);
+    }
+  });
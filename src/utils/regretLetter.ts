@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import {
+  buildLetterVerification,
+  finishPdf,
+  renderLetterhead,
+  renderSignature,
+  renderTemplateSection,
+  renderVerificationBlock,
+} from './offerLetter';
+import { STORAGE_AREAS, getStorage, storageKey } from './fileStorage';
+
+export type RegretLetterData = {
+  referenceNumber: string;
+  verificationCode: string;
+  title?: string | null;
+  firstNames?: string | null;
+  surname?: string | null;
+  programmeName?: string | null;
+  reasonText: string;
+  note?: string | null;
+  residentialAddress?: string | null;
+  signatureName?: string | null;
+  signatureTitle?: string | null;
+  signatureImage?: Buffer | null;
+  logoFilePath?: string | null;
+};
+
+const regretHeadings = new Set(['Reason']);
+
+export const generateRegretLetter = async (data: RegretLetterData) => {
+  const fileName = `${data.referenceNumber}-regret-${Date.now()}.pdf`;
+
+  const verification = await buildLetterVerification(
+    data.verificationCode,
+    null,
+    process.env.REGRET_LETTER_VERIFY_URL_BASE ?? null,
+  );
+
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+
+  const fullName =
+    `${data.title ? data.title + ' ' : ''}${data.firstNames ?? ''} ${data.surname ?? ''}`.trim();
+  const programmeName = data.programmeName ?? 'the programme';
+
+  const templatePath = path.join(
+    process.cwd(),
+    'src',
+    'templates',
+    'regret-letter.txt',
+  );
+  const bodyTemplate = fs.existsSync(templatePath)
+    ? fs.readFileSync(templatePath, 'utf8')
+    : '';
+
+  const bodyText = bodyTemplate
+    .replace(/{{fullName}}/g, fullName || 'Applicant')
+    .replace(/{{programmeName}}/g, programmeName)
+    .replace(/{{referenceNumber}}/g, data.referenceNumber)
+    .replace(/{{reasonText}}/g, data.reasonText)
+    .replace(/{{note}}/g, data.note ?? '');
+
+  const lineGap = 6;
+  const pageWidth =
+    doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  renderLetterhead(doc, data);
+
+  doc.moveDown(1);
+  doc.font('Times-Roman').fontSize(12);
+  doc.text(`Dear ${fullName || 'Applicant'}`, { align: 'left' });
+
+  doc.moveDown(0.8);
+  doc
+    .font('Times-Bold')
+    .text(
+      `RE: APPLICATION FOR ADMISSION INTO THE ${programmeName.toUpperCase()} - REFERENCE ${data.referenceNumber}`,
+    );
+
+  if (bodyText.trim()) {
+    doc.moveDown(0.8);
+    renderTemplateSection(
+      doc,
+      bodyText.trim(),
+      pageWidth,
+      lineGap,
+      regretHeadings,
+    );
+  }
+
+  renderSignature(doc, data);
+  renderVerificationBlock(doc, 'Letter Verification', verification);
+
+  const content = await finishPdf(doc);
+  const key = storageKey(STORAGE_AREAS.regretLetters, fileName);
+  await getStorage().put(key, content, 'application/pdf');
+
+  return { storageKey: key, fileName, content };
+};
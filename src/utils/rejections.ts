@@ -0,0 +1,131 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { loadLetterSignatory } from './offerLetter';
+import { generateRegretLetter } from './regretLetter';
+import { sendApplicantEmail } from './notification';
+
+export type RejectionReason = RowDataPacket & {
+  id: number;
+  code: string;
+  label: string;
+  applicant_text: string;
+  is_active: 0 | 1;
+};
+
+export const normalizeReasonCode = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toUpperCase() : '';
+
+export const getActiveRejectionReason = async (
+  db: Pool | PoolConnection,
+  code: string,
+): Promise<RejectionReason | null> => {
+  const [rows] = await db.query<RejectionReason[]>(
+    'SELECT * FROM rejection_reasons WHERE code = ? AND is_active = 1',
+    [code],
+  );
+  return rows[0] ?? null;
+};
+
+/**
+ * Generates the regret letter for a recorded rejection, stores it against the
+ * rejection row with a verification code and emails it to the applicant.
+ * Failures are logged and reported back rather than thrown: the rejection itself
+ * has already been committed.
+ */
+export const issueRegretLetter = async (
+  db: Pool,
+  params: {
+    rejectionId: number;
+    applicationId: number;
+    referenceNumber: string;
+    reason: RejectionReason;
+    note: string | null;
+  },
+) => {
+  const [infoRows] = await db.query<RowDataPacket[]>(
+    `SELECT pd.title, pd.first_names, pd.surname, pd.email, pd.residential_address,
+            a.programme AS programme_code, dp.name AS programme_name
+     FROM applications a
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     LEFT JOIN department_programme dp ON dp.code = a.programme
+     WHERE a.id = ?
+     LIMIT 1`,
+    [params.applicationId],
+  );
+  const info = infoRows[0];
+  const programmeName =
+    info?.programme_name || info?.programme_code || 'the programme';
+
+  let letter: Awaited<ReturnType<typeof generateRegretLetter>> | null = null;
+  const verificationCode = uuidv4();
+  try {
+    const signatory = await loadLetterSignatory(db);
+    letter = await generateRegretLetter({
+      referenceNumber: params.referenceNumber,
+      verificationCode,
+      title: info?.title,
+      firstNames: info?.first_names,
+      surname: info?.surname,
+      programmeName,
+      reasonText: params.reason.applicant_text,
+      note: params.note,
+      residentialAddress: info?.residential_address,
+      ...signatory,
+    });
+
+    await db.query(
+      `UPDATE application_rejections
+       SET file_name = ?, file_path = ?, verification_code = ?
+       WHERE id = ?`,
+      [
+        letter.fileName,
+        letter.storageKey,
+        verificationCode,
+        params.rejectionId,
+      ],
+    );
+  } catch (error) {
+    console.error('Regret letter generation failed:', error);
+  }
+
+  let emailSent = false;
+  if (info?.email) {
+    const fullName =
+      `${info.first_names ?? ''} ${info.surname ?? ''}`.trim() || 'Applicant';
+    try {
+      await sendApplicantEmail({
+        to: info.email,
+        subject: 'Outcome of your application to WUA',
+        text:
+          `Dear ${fullName},\n\n` +
+          `Thank you for applying to study ${programmeName} at the Women's University in Africa (reference ${params.referenceNumber}).\n\n` +
+          `We regret to inform you that your application was not successful. ${params.reason.applicant_text}\n\n` +
+          (params.note ? `${params.note}\n\n` : '') +
+          (letter ? 'Your letter is attached as a PDF.\n\n' : '') +
+          `Regards,\nWomen's University in Africa`,
+        attachments: letter
+          ? [
+              {
+                filename: letter.fileName,
+                content: letter.content,
+              },
+            ]
+          : undefined,
+      });
+      emailSent = true;
+      await db.query(
+        'UPDATE application_rejections SET email_sent = 1 WHERE id = ?',
+        [params.rejectionId],
+      );
+    } catch (error) {
+      console.error('Error sending rejection email:', error);
+    }
+  }
+
+  return {
+    letterGenerated: !!letter,
+    letterPath: letter?.storageKey ?? null,
+    verificationCode: letter ? verificationCode : null,
+    emailSent,
+  };
+};
@@ -0,0 +1,262 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+export const REVIEW_RECOMMENDATIONS = [
+  'accept',
+  'conditional_accept',
+  'waitlist',
+  'reject',
+] as const;
+
+export type ReviewRecommendation = (typeof REVIEW_RECOMMENDATIONS)[number];
+
+export const ASSIGNMENT_METHODS = [
+  'auto',
+  'programme',
+  'department',
+  'round_robin',
+] as const;
+
+export type AssignmentMethod = (typeof ASSIGNMENT_METHODS)[number];
+
+export type RubricCriterion = {
+  key: string;
+  label: string;
+  description: string | null;
+  maxScore: number;
+  weight: number;
+};
+
+export type ReviewSummary = {
+  assigned: number;
+  completed: number;
+  pending: number;
+  averageScore: number | null;
+  recommendation: ReviewRecommendation | null;
+  votes: Record<ReviewRecommendation, number>;
+};
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+// Used for programmes that have not configured their own rubric
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  {
+    key: 'academic_record',
+    label: 'Academic record',
+    description: 'Results against the entry requirements',
+    maxScore: 10,
+    weight: 2,
+  },
+  {
+    key: 'relevant_experience',
+    label: 'Relevant experience',
+    description: 'Work or community experience related to the programme',
+    maxScore: 10,
+    weight: 1,
+  },
+  {
+    key: 'supporting_documents',
+    label: 'Supporting documents',
+    description: 'Quality and completeness of the uploaded documents',
+    maxScore: 10,
+    weight: 1,
+  },
+];
+
+export const REVIEWERS_PER_APPLICATION = Math.max(
+  Number(process.env.REVIEWERS_PER_APPLICATION) || 1,
+  1,
+);
+
+// Most cautious first: ties between recommendations resolve to the earlier entry
+const TIE_BREAK_ORDER: ReviewRecommendation[] = [
+  'reject',
+  'waitlist',
+  'conditional_accept',
+  'accept',
+];
+
+export const isReviewRecommendation = (
+  value: unknown,
+): value is ReviewRecommendation =>
+  typeof value === 'string' &&
+  (REVIEW_RECOMMENDATIONS as readonly string[]).includes(value);
+
+export const getRubric = async (
+  db: Pool | PoolConnection,
+  programmeCode: string | null | undefined,
+): Promise<{ programmeId: number | null; criteria: RubricCriterion[] }> => {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT dp.id AS programme_id, c.criterion_key, c.label, c.description, c.max_score, c.weight
+     FROM department_programme dp
+     LEFT JOIN review_rubric_criteria c ON c.programme_id = dp.id
+     WHERE dp.code = ?
+     ORDER BY c.sort_order ASC, c.id ASC`,
+    [programmeCode ?? ''],
+  );
+  const programmeId = rows[0]?.programme_id ?? null;
+  const configured = rows.filter((row) => row.criterion_key);
+  if (!configured.length) return { programmeId, criteria: DEFAULT_RUBRIC };
+
+  return {
+    programmeId,
+    criteria: configured.map((row) => ({
+      key: row.criterion_key,
+      label: row.label,
+      description: row.description ?? null,
+      maxScore: Number(row.max_score),
+      weight: Number(row.weight),
+    })),
+  };
+};
+
+/**
+ * Validates rubric scores and returns the weighted total as a percentage.
+ * Every criterion must be scored between 0 and its maximum.
+ */
+export const scoreReview = (
+  criteria: RubricCriterion[],
+  scores: Record<string, unknown>,
+): number => {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const criterion of criteria) {
+    const raw = scores?.[criterion.key];
+    const value = Number(raw);
+    if (raw == null || raw === '' || !Number.isFinite(value)) {
+      throw new ReviewError(`Score for '${criterion.key}' is required`, 422);
+    }
+    if (value < 0 || value > criterion.maxScore) {
+      throw new ReviewError(
+        `Score for '${criterion.key}' must be between 0 and ${criterion.maxScore}`,
+        422,
+      );
+    }
+    weighted += (value / criterion.maxScore) * criterion.weight;
+    totalWeight += criterion.weight;
+  }
+  return totalWeight ? Math.round((weighted / totalWeight) * 10000) / 100 : 0;
+};
+
+/**
+ * Picks reviewers for an application. `auto` tries reviewers registered for the
+ * programme, then for its department, then everyone in the pool. Within the
+ * candidates, whoever was assigned least recently goes first (round-robin).
+ */
+export const pickReviewers = async (
+  db: Pool | PoolConnection,
+  params: {
+    applicationId: number;
+    programmeCode: string | null;
+    method: AssignmentMethod;
+    count: number;
+  },
+): Promise<{ reviewerIds: number[]; method: AssignmentMethod }> => {
+  const [programmeRows] = await db.query<RowDataPacket[]>(
+    'SELECT department_code FROM department_programme WHERE code = ? LIMIT 1',
+    [params.programmeCode ?? ''],
+  );
+  const departmentCode = programmeRows[0]?.department_code ?? null;
+
+  const scopes: {
+    method: AssignmentMethod;
+    where: string;
+    values: unknown[];
+  }[] = [];
+  if (['auto', 'programme'].includes(params.method) && params.programmeCode) {
+    scopes.push({
+      method: 'programme',
+      where: 'rp.programme_code = ?',
+      values: [params.programmeCode],
+    });
+  }
+  if (['auto', 'department'].includes(params.method) && departmentCode) {
+    scopes.push({
+      method: 'department',
+      where: 'rp.programme_code IS NULL AND rp.department_code = ?',
+      values: [departmentCode],
+    });
+  }
+  if (['auto', 'round_robin'].includes(params.method)) {
+    scopes.push({ method: 'round_robin', where: '1 = 1', values: [] });
+  }
+
+  for (const scope of scopes) {
+    const [rows] = await db.query<RowDataPacket[]>(
+      `SELECT rp.user_id,
+              (SELECT MAX(ar.assigned_at) FROM application_reviewers ar WHERE ar.reviewer_id = rp.user_id) AS last_assigned
+       FROM reviewer_pool rp
+       WHERE rp.is_active = 1 AND ${scope.where}
+         AND rp.user_id NOT IN (
+           SELECT reviewer_id FROM application_reviewers WHERE application_id = ?
+         )
+       GROUP BY rp.user_id
+       ORDER BY last_assigned IS NOT NULL, last_assigned ASC, rp.user_id ASC
+       LIMIT ?`,
+      [...scope.values, params.applicationId, params.count],
+    );
+    if (rows.length) {
+      return {
+        reviewerIds: rows.map((row) => Number(row.user_id)),
+        method: scope.method,
+      };
+    }
+  }
+
+  return { reviewerIds: [], method: params.method };
+};
+
+export const getReviewSummary = async (
+  db: Pool | PoolConnection,
+  applicationId: number,
+): Promise<ReviewSummary> => {
+  const [assignments] = await db.query<RowDataPacket[]>(
+    'SELECT status FROM application_reviewers WHERE application_id = ?',
+    [applicationId],
+  );
+  const [reviews] = await db.query<RowDataPacket[]>(
+    'SELECT total_score, recommendation FROM application_reviews WHERE application_id = ?',
+    [applicationId],
+  );
+
+  const votes = Object.fromEntries(
+    REVIEW_RECOMMENDATIONS.map((recommendation) => [recommendation, 0]),
+  ) as Record<ReviewRecommendation, number>;
+  for (const review of reviews) {
+    if (isReviewRecommendation(review.recommendation)) {
+      votes[review.recommendation] += 1;
+    }
+  }
+
+  const topVotes = Math.max(...Object.values(votes));
+  const recommendation = topVotes
+    ? TIE_BREAK_ORDER.find((option) => votes[option] === topVotes) ?? null
+    : null;
+
+  const completed = assignments.filter(
+    (row) => row.status === 'completed',
+  ).length;
+  const scores = reviews
+    .map((review) => Number(review.total_score))
+    .filter((score) => Number.isFinite(score));
+
+  return {
+    assigned: assignments.length,
+    completed,
+    pending: assignments.length - completed,
+    averageScore: scores.length
+      ? Math.round(
+          (scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100,
+        ) / 100
+      : null,
+    recommendation,
+    votes,
+  };
+};
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type FileKind = 'pdf' | 'png' | 'jpeg' | 'doc' | 'docx';
+
+export type UploadRule = { kinds: FileKind[]; maxBytes: number };
+
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+const MB = 1024 * 1024;
+
+export const FILE_KINDS: Record<
+  FileKind,
+  { mimeType: string; extensions: string[] }
+> = {
+  pdf: { mimeType: 'application/pdf', extensions: ['.pdf'] },
+  png: { mimeType: 'image/png', extensions: ['.png'] },
+  jpeg: { mimeType: 'image/jpeg', extensions: ['.jpg', '.jpeg'] },
+  doc: { mimeType: 'application/msword', extensions: ['.doc'] },
+  docx: {
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['.docx'],
+  },
+};
+
+const SCANS_OR_PDF: FileKind[] = ['pdf', 'png', 'jpeg'];
+const WRITTEN_DOCUMENTS: FileKind[] = ['pdf', 'docx', 'doc'];
+
+// Keyed by documents.document_type; reference_letter covers referee uploads
+export const UPLOAD_RULES: Record<string, UploadRule> = {
+  academic_certificate: { kinds: SCANS_OR_PDF, maxBytes: 10 * MB },
+  professional_certificate: { kinds: SCANS_OR_PDF, maxBytes: 10 * MB },
+  proposal: { kinds: WRITTEN_DOCUMENTS, maxBytes: 20 * MB },
+  application_fee: { kinds: SCANS_OR_PDF, maxBytes: 5 * MB },
+  birth_certificate: { kinds: SCANS_OR_PDF, maxBytes: 5 * MB },
+  identity_card: { kinds: SCANS_OR_PDF, maxBytes: 5 * MB },
+  reference_letter: { kinds: WRITTEN_DOCUMENTS, maxBytes: 10 * MB },
+};
+
+// Hard multer limit; the per-type caps above are checked once the file is on disk
+export const MAX_UPLOAD_BYTES = Math.max(
+  ...Object.values(UPLOAD_RULES).map((rule) => rule.maxBytes),
+);
+
+const SNIFF_BYTES = 4096;
+
+const startsWith = (header: Buffer, bytes: number[]) =>
+  header.length >= bytes.length &&
+  bytes.every((byte, index) => header[index] === byte);
+
+/**
+ * Identifies a file from its leading bytes rather than the name or the
+ * Content-Type the browser sent. Word .docx files are zip archives, so a zip
+ * only counts as .docx when its first entries are the Office manifest.
+ */
+export const detectFileKind = (header: Buffer): FileKind | null => {
+  if (header.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png';
+  }
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return 'doc';
+  }
+  if (
+    startsWith(header, [0x50, 0x4b, 0x03, 0x04]) &&
+    header.includes('[Content_Types].xml', 0, 'latin1')
+  ) {
+    return 'docx';
+  }
+  return null;
+};
+
+const readHeader = async (filePath: string) => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+const describeKinds = (kinds: FileKind[]) =>
+  kinds.map((kind) => kind.toUpperCase()).join(', ');
+
+/**
+ * Strips directories, accents, spaces and anything else awkward in a path from
+ * an uploaded file name: "HELPDESK TRAINING DOC WUA.docx" becomes
+ * "HELPDESK-TRAINING-DOC-WUA.docx".
+ */
+export const sanitizeFileName = (originalName: string) => {
+  const base = path.basename(String(originalName || ''));
+  const extension = path
+    .extname(base)
+    .toLowerCase()
+    .replace(/[^a-z0-9.]/g, '');
+  const stem =
+    path
+      .basename(base, path.extname(base))
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^A-Za-z0-9._-]+/g, '-')
+      .replace(/-{2,}/g, '-')
+      .replace(/^[-.]+|[-.]+$/g, '')
+      .slice(0, 80) || 'file';
+  return extension.length > 1 ? `${stem}${extension}` : stem;
+};
+
+// Unique on-disk name that keeps the sanitised original name readable
+export const buildStoredFileName = (originalName: string) =>
+  `${Date.now()}-${crypto.randomBytes(4).toString('hex')}-${sanitizeFileName(originalName)}`;
+
+/**
+ * Checks an uploaded file against the rule for its document type: size cap,
+ * content type from the magic bytes, and an extension that matches the
+ * content. Returns the detected kind and its MIME type.
+ */
+export const inspectUpload = async (
+  file: { path: string; size: number; originalname: string },
+  documentType: string,
+) => {
+  const rule = UPLOAD_RULES[documentType];
+  if (!rule) {
+    throw new UploadRejectedError(
+      `Unknown document type: ${documentType}`,
+      400,
+    );
+  }
+  if (file.size > rule.maxBytes) {
+    throw new UploadRejectedError(
+      `${file.originalname} is larger than the ${rule.maxBytes / MB} MB allowed for ${documentType}`,
+      413,
+    );
+  }
+
+  const kind = detectFileKind(await readHeader(file.path));
+  if (!kind || !rule.kinds.includes(kind)) {
+    throw new UploadRejectedError(
+      `${file.originalname} is not an accepted file type for ${documentType} (allowed: ${describeKinds(rule.kinds)})`,
+      415,
+    );
+  }
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (!FILE_KINDS[kind].extensions.includes(extension)) {
+    throw new UploadRejectedError(
+      `${file.originalname} does not match its contents (detected ${kind.toUpperCase()})`,
+      415,
+    );
+  }
+
+  return { kind, mimeType: FILE_KINDS[kind].mimeType };
+};
@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { RowDataPacket } from 'mysql2/promise';
+import pool from '../db';
+import {
+  FileStorage,
+  LEGACY_UPLOAD_ROOTS,
+  LOCAL_STORAGE_ROOT,
+  STORAGE_AREAS,
+  StorageArea,
+  createLocalStorage,
+  getStorage,
+  toStorageKey,
+} from './fileStorage';
+
+// Every column that points at a stored file, and the area its files belong in
+export const FILE_REFERENCE_SOURCES: {
+  table: string;
+  column: string;
+  area: StorageArea;
+}[] = [
+  { table: 'documents', column: 'file_path', area: STORAGE_AREAS.documents },
+  {
+    table: 'application_uploads',
+    column: 'stored_path',
+    area: STORAGE_AREAS.documents,
+  },
+  {
+    table: 'application_draft_uploads',
+    column: 'storage_key',
+    area: STORAGE_AREAS.documents,
+  },
+  {
+    table: 'application_referees',
+    column: 'letter_file_path',
+    area: STORAGE_AREAS.references,
+  },
+  {
+    table: 'offer_letters',
+    column: 'file_path',
+    area: STORAGE_AREAS.offerLetters,
+  },
+  {
+    table: 'application_rejections',
+    column: 'file_path',
+    area: STORAGE_AREAS.regretLetters,
+  },
+  {
+    table: 'offer_letter_signed_uploads',
+    column: 'file_path',
+    area: STORAGE_AREAS.signedOfferLetters,
+  },
+  { table: 'signatures', column: 'file_path', area: STORAGE_AREAS.signatures },
+];
+
+export type FileReference = {
+  table: string;
+  column: string;
+  id: number;
+  storedPath: string;
+  area: StorageArea;
+};
+
+export type MigrationReport = {
+  applied: boolean;
+  references: number;
+  alreadyCanonical: number;
+  migrated: {
+    reference: FileReference;
+    from: string;
+    key: string;
+    sha256: string;
+  }[];
+  missing: FileReference[];
+  orphaned: string[];
+  // Originals an earlier run already copied; safe to delete
+  superseded: string[];
+  skippedTables: string[];
+};
+
+const CANONICAL_KEY = /^[a-z-]+\/[0-9a-f]{2}\/[0-9a-f]{64}(\.[a-z0-9]+)?$/;
+
+export const isCanonicalKey = (key: string | null) =>
+  !!key && CANONICAL_KEY.test(key);
+
+// documents/3f/3fa2...c9.pdf: the same content always lands on the same key
+export const canonicalKey = (
+  area: StorageArea,
+  sha256: string,
+  originalPath: string,
+) => {
+  const extension = path
+    .extname(originalPath)
+    .toLowerCase()
+    .replace(/[^a-z0-9.]/g, '');
+  return `${area}/${sha256.slice(0, 2)}/${sha256}${extension.length > 1 ? extension : ''}`;
+};
+
+const isTableMissing = (error: unknown) =>
+  (error as NodeJS.ErrnoException)?.errno === 1146 ||
+  (error as NodeJS.ErrnoException)?.code === 'ER_NO_SUCH_TABLE';
+
+// Keys of the files earlier runs copied from, so leftovers are not reported as orphans
+const loadMigratedKeys = async () => {
+  try {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      'SELECT DISTINCT old_path FROM upload_migrations',
+    );
+    return new Set(rows.map((row) => toStorageKey(String(row.old_path))));
+  } catch (error) {
+    if (isTableMissing(error)) return new Set<string | null>();
+    throw error;
+  }
+};
+
+const loadReferences = async () => {
+  const references: FileReference[] = [];
+  const skippedTables: string[] = [];
+  for (const source of FILE_REFERENCE_SOURCES) {
+    try {
+      const [rows] = await pool.query<RowDataPacket[]>(
+        `SELECT id, ?? AS stored_path FROM ?? WHERE ?? IS NOT NULL AND ?? <> ''`,
+        [source.column, source.table, source.column, source.column],
+      );
+      for (const row of rows) {
+        references.push({
+          ...source,
+          id: Number(row.id),
+          storedPath: String(row.stored_path),
+        });
+      }
+    } catch (error) {
+      if (!isTableMissing(error)) throw error;
+      skippedTables.push(source.table);
+    }
+  }
+  return { references, skippedTables };
+};
+
+// Relative, slash-separated paths of every file under `root`
+const walkFiles = async (root: string, prefix = ''): Promise<string[]> => {
+  const entries = await fs.promises
+    .readdir(path.join(root, prefix), { withFileTypes: true })
+    .catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await walkFiles(root, relative)));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+};
+
+/**
+ * Finds the bytes behind a stored path the same way the old download fallback
+ * did: as a key under the upload folders, as a bare name in the documents
+ * folder, then as the absolute path it was saved with.
+ */
+const readSource = async (legacy: FileStorage, reference: FileReference) => {
+  const key = toStorageKey(reference.storedPath);
+  const fileName = path.basename(reference.storedPath.replace(/\\/g, '/'));
+  const candidates = [
+    key,
+    `${STORAGE_AREAS.documents}/${fileName}`,
+    fileName,
+  ].filter((candidate): candidate is string => !!candidate);
+
+  for (const candidate of new Set(candidates)) {
+    const content = await legacy.get(candidate);
+    if (content) return { from: candidate, content };
+  }
+  if (path.isAbsolute(reference.storedPath)) {
+    const stats = await fs.promises
+      .stat(reference.storedPath)
+      .catch(() => null);
+    if (stats?.isFile()) {
+      return {
+        from: reference.storedPath,
+        content: await fs.promises.readFile(reference.storedPath),
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Inventories every stored-file column against the upload folders (./uploads
+ * and the old src/uploads), then copies each referenced file into storage
+ * under a content-hash key and points the row at it. Rows that already hold
+ * a canonical key are left alone, so the migration can be re-run. Nothing is
+ * copied or rewritten unless `apply` is set; original files are never
+ * deleted. Files in the upload folders that no row points at are reported
+ * as orphaned, or as superseded when an earlier run copied them.
+ */
+export const migrateUploads = async (
+  options: { apply?: boolean } = {},
+): Promise<MigrationReport> => {
+  const storage = getStorage();
+  const legacy = createLocalStorage({
+    root: LOCAL_STORAGE_ROOT,
+    fallbackRoots: LEGACY_UPLOAD_ROOTS,
+    signingSecret: '',
+    downloadUrlBase: '',
+  });
+  const { references, skippedTables } = await loadReferences();
+  const report: MigrationReport = {
+    applied: !!options.apply,
+    references: references.length,
+    alreadyCanonical: 0,
+    migrated: [],
+    missing: [],
+    orphaned: [],
+    superseded: [],
+    skippedTables,
+  };
+  const usedKeys = new Set<string>();
+
+  for (const reference of references) {
+    const currentKey = toStorageKey(reference.storedPath);
+    if (
+      currentKey &&
+      isCanonicalKey(currentKey) &&
+      (await storage.stat(currentKey))
+    ) {
+      usedKeys.add(currentKey);
+      report.alreadyCanonical += 1;
+      continue;
+    }
+
+    const source = await readSource(legacy, reference);
+    if (!source) {
+      report.missing.push(reference);
+      continue;
+    }
+    usedKeys.add(source.from);
+
+    const sha256 = crypto
+      .createHash('sha256')
+      .update(source.content)
+      .digest('hex');
+    const key = canonicalKey(reference.area, sha256, reference.storedPath);
+    usedKeys.add(key);
+    report.migrated.push({ reference, from: source.from, key, sha256 });
+    if (!options.apply) continue;
+
+    if (!(await storage.stat(key))) {
+      await storage.put(key, source.content);
+    }
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      // Only rewrite the row if nobody changed it while the file was copied
+      await connection.query(`UPDATE ?? SET ?? = ? WHERE id = ? AND ?? = ?`, [
+        reference.table,
+        reference.column,
+        key,
+        reference.id,
+        reference.column,
+        reference.storedPath,
+      ]);
+      await connection.query(
+        `INSERT INTO upload_migrations
+           (source_table, source_column, source_id, old_path, new_key, sha256, size_bytes)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          reference.table,
+          reference.column,
+          reference.id,
+          reference.storedPath,
+          key,
+          sha256,
+          source.content.length,
+        ],
+      );
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  const migratedKeys = await loadMigratedKeys();
+  for (const root of [LOCAL_STORAGE_ROOT, ...LEGACY_UPLOAD_ROOTS]) {
+    for (const file of await walkFiles(root)) {
+      if (file.startsWith(`${STORAGE_AREAS.quarantine}/`)) continue;
+      const absolute = path.join(root, file);
+      if (usedKeys.has(file) || usedKeys.has(absolute)) continue;
+      const label = path.relative(process.cwd(), absolute);
+      if (migratedKeys.has(file)) {
+        report.superseded.push(label);
+      } else {
+        report.orphaned.push(label);
+      }
+    }
+  }
+
+  return report;
+};
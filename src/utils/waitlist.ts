@@ -0,0 +1,318 @@
+import {
+  Pool,
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from 'mysql2/promise';
+import pool from '../db';
+import { runAcceptanceChecks } from './acceptanceChecks';
+import { AdmissionError, admitApplication } from './admission';
+
+export type WaitlistEntryStatus =
+  | 'waiting'
+  | 'pending_confirmation'
+  | 'promoted'
+  | 'removed';
+
+export type WaitlistGroup = {
+  programme: string | null;
+  satellite_campus: string | null;
+  starting_semester: string | null;
+};
+
+export type SeatReleaseTrigger = 'declined' | 'expired' | 'manual';
+
+// When false, the next applicant is only queued for staff confirmation
+export const WAITLIST_AUTO_PROMOTE =
+  String(process.env.WAITLIST_AUTO_PROMOTE ?? 'false').toLowerCase() === 'true';
+
+// Entries still count only while their application is in the waitlisted status
+const ACTIVE_ENTRY = `w.status IN ('waiting', 'pending_confirmation') AND a.accepted_status = 'waitlisted'`;
+
+const GROUP_MATCH = `w.programme <=> ? AND w.satellite_campus <=> ? AND w.starting_semester <=> ?`;
+
+const groupValues = (group: WaitlistGroup) => [
+  group.programme,
+  group.satellite_campus,
+  group.starting_semester,
+];
+
+export const listWaitlist = async (
+  db: Pool | PoolConnection,
+  filters: Partial<WaitlistGroup> & { status?: WaitlistEntryStatus },
+) => {
+  const conditions: string[] = [];
+  const values: (string | null)[] = [];
+  for (const key of [
+    'programme',
+    'satellite_campus',
+    'starting_semester',
+  ] as const) {
+    if (filters[key]) {
+      conditions.push(`w.${key} = ?`);
+      values.push(filters[key] as string);
+    }
+  }
+  if (filters.status) {
+    conditions.push('w.status = ?');
+    values.push(filters.status);
+  } else {
+    conditions.push(ACTIVE_ENTRY);
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT w.*, a.reference_number, a.accepted_status, pd.first_names, pd.surname, pd.email
+     FROM waitlist_entries w
+     JOIN applications a ON a.id = w.application_id
+     LEFT JOIN personal_details pd ON pd.application_id = a.id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY w.programme, w.satellite_campus, w.starting_semester, w.rank_position ASC, w.added_at ASC`,
+    values,
+  );
+  return rows;
+};
+
+// Rewrites rank_position as 1..n in the given order
+const renumber = async (connection: PoolConnection, entryIds: number[]) => {
+  for (const [index, id] of entryIds.entries()) {
+    await connection.query(
+      'UPDATE waitlist_entries SET rank_position = ? WHERE id = ?',
+      [index + 1, id],
+    );
+  }
+};
+
+const placeInGroup = async (
+  connection: PoolConnection,
+  entryId: number,
+  group: WaitlistGroup,
+  rank?: number | null,
+) => {
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT w.id
+     FROM waitlist_entries w
+     JOIN applications a ON a.id = w.application_id
+     WHERE ${GROUP_MATCH} AND ${ACTIVE_ENTRY} AND w.id <> ?
+     ORDER BY w.rank_position ASC, w.added_at ASC
+     FOR UPDATE`,
+    [...groupValues(group), entryId],
+  );
+  const ids = rows.map((row) => Number(row.id));
+  const position =
+    rank && rank > 0 ? Math.min(rank - 1, ids.length) : ids.length;
+  ids.splice(position, 0, entryId);
+  await renumber(connection, ids);
+  return position + 1;
+};
+
+/**
+ * Puts a waitlisted application on the ranked list for its programme, campus and
+ * intake. Without a rank it goes to the bottom; an existing entry is re-ranked.
+ */
+export const addToWaitlist = async (
+  connection: PoolConnection,
+  params: {
+    applicationId: number;
+    rank?: number | null;
+    addedBy?: number | null;
+  },
+) => {
+  const [appRows] = await connection.query<RowDataPacket[]>(
+    'SELECT programme, satellite_campus, starting_semester FROM applications WHERE id = ?',
+    [params.applicationId],
+  );
+  const group = appRows[0] as WaitlistGroup;
+
+  await connection.query(
+    `INSERT INTO waitlist_entries
+     (application_id, programme, satellite_campus, starting_semester, rank_position, status, added_by)
+     VALUES (?, ?, ?, ?, 0, 'waiting', ?)
+     ON DUPLICATE KEY UPDATE
+       programme = VALUES(programme),
+       satellite_campus = VALUES(satellite_campus),
+       starting_semester = VALUES(starting_semester),
+       rank_position = IF(status IN ('waiting', 'pending_confirmation'), rank_position, 0),
+       status = IF(status IN ('waiting', 'pending_confirmation'), status, 'waiting')`,
+    [params.applicationId, ...groupValues(group), params.addedBy ?? null],
+  );
+
+  const [entryRows] = await connection.query<RowDataPacket[]>(
+    'SELECT id, rank_position FROM waitlist_entries WHERE application_id = ?',
+    [params.applicationId],
+  );
+  const entry = entryRows[0];
+  const keepRank = params.rank == null && Number(entry.rank_position) > 0;
+  const rank = await placeInGroup(
+    connection,
+    Number(entry.id),
+    group,
+    keepRank ? Number(entry.rank_position) : params.rank,
+  );
+
+  return { entryId: Number(entry.id), rank, group };
+};
+
+export const moveWaitlistEntry = async (
+  connection: PoolConnection,
+  entryId: number,
+  rank: number,
+) => {
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT w.programme, w.satellite_campus, w.starting_semester
+     FROM waitlist_entries w
+     JOIN applications a ON a.id = w.application_id
+     WHERE w.id = ? AND ${ACTIVE_ENTRY}`,
+    [entryId],
+  );
+  if (!rows.length) return null;
+  return placeInGroup(connection, entryId, rows[0] as WaitlistGroup, rank);
+};
+
+export const removeWaitlistEntry = async (
+  connection: PoolConnection,
+  entryId: number,
+) => {
+  const [rows] = await connection.query<RowDataPacket[]>(
+    'SELECT programme, satellite_campus, starting_semester FROM waitlist_entries WHERE id = ? FOR UPDATE',
+    [entryId],
+  );
+  if (!rows.length) return false;
+
+  await connection.query(
+    `UPDATE waitlist_entries SET status = 'removed', rank_position = 0 WHERE id = ?`,
+    [entryId],
+  );
+
+  const [remaining] = await connection.query<RowDataPacket[]>(
+    `SELECT w.id
+     FROM waitlist_entries w
+     JOIN applications a ON a.id = w.application_id
+     WHERE ${GROUP_MATCH} AND ${ACTIVE_ENTRY}
+     ORDER BY w.rank_position ASC, w.added_at ASC`,
+    groupValues(rows[0] as WaitlistGroup),
+  );
+  await renumber(
+    connection,
+    remaining.map((row) => Number(row.id)),
+  );
+  return true;
+};
+
+/**
+ * Admits the applicant behind a waitlist entry (student number, offer letter and
+ * email through the normal acceptance path) and marks the entry promoted in the
+ * same transaction. An entry that is no longer waiting is left alone and nobody
+ * is admitted.
+ */
+export const promoteWaitlistEntry = async (params: {
+  entryId: number;
+  actorId?: number | null;
+  reason: string;
+}) => {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    'SELECT application_id FROM waitlist_entries WHERE id = ?',
+    [params.entryId],
+  );
+  if (!rows.length) return null;
+
+  const admission = await admitApplication({
+    applicationId: Number(rows[0].application_id),
+    actorId: params.actorId,
+    actorType: params.actorId ? 'staff' : 'system',
+    reason: params.reason,
+    beforeCommit: async (connection) => {
+      const [result] = await connection.query<ResultSetHeader>(
+        `UPDATE waitlist_entries
+         SET status = 'promoted', promoted_at = NOW(), promoted_by = ?
+         WHERE id = ? AND status IN ('waiting', 'pending_confirmation')`,
+        [params.actorId ?? null, params.entryId],
+      );
+      if (!result.affectedRows) {
+        throw new AdmissionError('Waitlist entry is no longer active', 409);
+      }
+    },
+  });
+
+  return admission;
+};
+
+/**
+ * Called when an offered seat becomes free (offer declined or expired). Claims the
+ * top waiting applicant in the same programme, campus and intake and either
+ * promotes them straight away or leaves them pending staff confirmation.
+ */
+export const releaseSeat = async (params: {
+  applicationId: number;
+  trigger: SeatReleaseTrigger;
+}) => {
+  const connection = await pool.getConnection();
+  let entryId: number;
+  let waitlistedApplicationId: number;
+  try {
+    await connection.beginTransaction();
+
+    const [appRows] = await connection.query<RowDataPacket[]>(
+      'SELECT reference_number, programme, satellite_campus, starting_semester FROM applications WHERE id = ?',
+      [params.applicationId],
+    );
+    if (!appRows.length) {
+      await connection.rollback();
+      return null;
+    }
+
+    const [entries] = await connection.query<RowDataPacket[]>(
+      `SELECT w.id, w.application_id
+       FROM waitlist_entries w
+       JOIN applications a ON a.id = w.application_id
+       WHERE ${GROUP_MATCH} AND w.status = 'waiting' AND a.accepted_status = 'waitlisted'
+       ORDER BY w.rank_position ASC, w.added_at ASC
+       LIMIT 1
+       FOR UPDATE`,
+      groupValues(appRows[0] as WaitlistGroup),
+    );
+    if (!entries.length) {
+      await connection.rollback();
+      return null;
+    }
+
+    entryId = Number(entries[0].id);
+    waitlistedApplicationId = Number(entries[0].application_id);
+    await connection.query(
+      `UPDATE waitlist_entries
+       SET status = 'pending_confirmation', trigger_reason = ?
+       WHERE id = ?`,
+      [
+        `Seat released by ${appRows[0].reference_number} (${params.trigger})`,
+        entryId,
+      ],
+    );
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  if (!WAITLIST_AUTO_PROMOTE) {
+    return { entryId, promoted: false };
+  }
+
+  try {
+    const blockers = await runAcceptanceChecks(pool, waitlistedApplicationId);
+    if (blockers.length) {
+      // Only staff may override acceptance checks
+      return { entryId, promoted: false, blockers };
+    }
+
+    const admission = await promoteWaitlistEntry({
+      entryId,
+      reason: `Promoted from waitlist (seat ${params.trigger})`,
+    });
+    return { entryId, promoted: true, admission };
+  } catch (error) {
+    // Stays pending so staff can resolve the problem and confirm by hand
+    console.error('Automatic waitlist promotion failed:', error);
+    return { entryId, promoted: false };
+  }
+};